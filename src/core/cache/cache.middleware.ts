@@ -0,0 +1,152 @@
+import { createHash } from 'crypto'
+import {
+  CacheConfig,
+  CacheCallOptions,
+  RosettaMiddleware,
+  GenerateParams,
+  GenerateResult,
+  EmbedParams,
+  EmbedResult,
+  StreamChunk,
+  OperationParams
+} from '../../types'
+import { getLog } from '../logger'
+import { canonicalStringify } from '../utils'
+
+/** Parameters that control how a call is made rather than what is requested, so they never affect the cache key. */
+const NON_KEY_PARAMS = new Set(['retry', 'fallback', 'cache', 'stream', 'tag', 'contextFit', 'signal'])
+
+/**
+ * Builds the cache key for a request: a SHA-256 hash of the operation kind and the effective parameters
+ * (provider, resolved model, messages or input, sampling parameters, tools, ...).
+ * `generate` and `stream` share keys, so either can serve the other's cached results.
+ */
+export function createCacheKey(kind: 'generate' | 'embed', params: OperationParams): string {
+  const keyParams = Object.fromEntries(Object.entries(params).filter(([name]) => !NON_KEY_PARAMS.has(name)))
+  return createHash('sha256')
+    .update(canonicalStringify({ kind, params: keyParams }))
+    .digest('hex')
+}
+
+/** Replays a cached result as the chunk sequence a live stream would have produced. */
+export function replayCachedResult(result: GenerateResult, params: GenerateParams): StreamChunk[] {
+  const chunks: StreamChunk[] = [{ type: 'message_start', data: { provider: params.provider, model: result.model } }]
+
+  if (result.thinkingSteps) {
+    chunks.push({ type: 'thinking_start' })
+    chunks.push({ type: 'thinking_delta', data: { delta: result.thinkingSteps } })
+    chunks.push({ type: 'thinking_stop' })
+  }
+  if (result.content) {
+    if (params.responseFormat?.type === 'json_object') {
+      const snapshot = result.content
+      const parsed = result.parsedContent ?? null
+      chunks.push({ type: 'json_delta', data: { delta: snapshot, parsed, snapshot } })
+      chunks.push({ type: 'json_done', data: { parsed, snapshot } })
+    } else {
+      chunks.push({ type: 'content_delta', data: { delta: result.content } })
+    }
+  }
+  result.toolCalls?.forEach((toolCall, index) => {
+    const { id, type, function: fn } = toolCall
+    chunks.push({ type: 'tool_call_start', data: { index, toolCall: { id, type, function: { name: fn.name } } } })
+    chunks.push({ type: 'tool_call_delta', data: { index, id, functionArgumentChunk: fn.arguments } })
+    chunks.push({ type: 'tool_call_done', data: { index, id } })
+  })
+  result.citations?.forEach((citation, index) => {
+    chunks.push({ type: 'citation_done', data: { index, citation } })
+  })
+
+  chunks.push({ type: 'message_stop', data: { finishReason: result.finishReason } })
+  if (result.usage) chunks.push({ type: 'final_usage', data: { usage: result.usage } })
+  chunks.push({ type: 'final_result', data: { result } })
+  return chunks
+}
+
+/** Drops the raw SDK response, which can be large and is not guaranteed to be serializable. */
+function toCacheable<T extends GenerateResult | EmbedResult>(result: T): T {
+  const { rawResponse: _rawResponse, ...rest } = result // eslint-disable-line @typescript-eslint/no-unused-vars
+  return rest as T
+}
+
+/** Marks a stored result as a cache hit. Its `cost` is dropped, as a hit costs nothing. */
+function fromCacheHit<T extends GenerateResult | EmbedResult>(hit: T): T {
+  const { cost: _cost, ...rest } = hit // eslint-disable-line @typescript-eslint/no-unused-vars
+  return { ...rest, cached: true } as T
+}
+
+/** Returns the per-call cache options, or undefined if the call bypasses the cache. */
+function getCallOptions(params: OperationParams): CacheCallOptions | undefined {
+  const options = (params as GenerateParams | EmbedParams).cache
+  return options === false ? undefined : options ?? {}
+}
+
+/**
+ * Creates the middleware implementing the response cache for `generate`, `stream` and `embed`.
+ * RosettaAI installs it as the innermost middleware, so user middleware still observe cache hits and
+ * the key reflects any parameter changes they make. Store failures are logged and never fail a call.
+ */
+export function createCacheMiddleware(config: CacheConfig): RosettaMiddleware {
+  const { store } = config
+
+  const lookup = async (key: string): Promise<any> => {
+    try {
+      return await store.get(key)
+    } catch (error) {
+      getLog().warn('cache_unavailable', 'RosettaAI cache: lookup failed, calling the provider instead.', {
+        context: 'cache',
+        error
+      })
+      return undefined
+    }
+  }
+  const save = async (key: string, value: GenerateResult | EmbedResult, options: CacheCallOptions): Promise<void> => {
+    try {
+      await store.set(key, toCacheable(value), options.ttlMs ?? config.ttlMs)
+    } catch (error) {
+      getLog().warn('cache_unavailable', 'RosettaAI cache: failed to store result.', { context: 'cache', error })
+    }
+  }
+
+  return {
+    name: 'cache',
+    async wrapOperation(params, context, next) {
+      const options = getCallOptions(params)
+      if (!options || (context.operation !== 'generate' && context.operation !== 'embed')) return next(params)
+
+      const key = createCacheKey(context.operation, params)
+      const hit = options.refresh ? undefined : await lookup(key)
+      if (hit) return fromCacheHit(hit)
+
+      const result = (await next(params)) as GenerateResult | EmbedResult
+      await save(key, result, options)
+      return { ...result, cached: false }
+    },
+    async *wrapStream(params, context, next) {
+      const options = getCallOptions(params)
+      if (!options || context.operation !== 'stream') {
+        yield* next(params)
+        return
+      }
+
+      const key = createCacheKey('generate', params)
+      const hit: GenerateResult | undefined = options.refresh ? undefined : await lookup(key)
+      if (hit) {
+        yield* replayCachedResult(fromCacheHit(hit), params as GenerateParams)
+        return
+      }
+
+      let failed = false
+      for await (const chunk of next(params)) {
+        if (chunk.type === 'error') failed = true
+        if (chunk.type === 'final_result' && 'result' in chunk.data) {
+          const result = chunk.data.result
+          if (!failed) await save(key, result, options)
+          yield { type: 'final_result', data: { result: { ...result, cached: false } } }
+          continue
+        }
+        yield chunk
+      }
+    }
+  }
+}
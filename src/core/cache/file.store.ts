@@ -0,0 +1,53 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { CacheStore } from '../../types'
+
+interface FileEntry {
+  value: unknown
+  expiresAt?: number
+}
+
+/**
+ * Filesystem cache store writing one JSON file per entry in a directory.
+ * Survives process restarts, which makes it suitable for evaluation reruns and document embedding jobs.
+ */
+export class FileCacheStore implements CacheStore {
+  private readonly directory: string
+
+  /** @param directory - Directory holding the cache files. Created on first write. */
+  constructor(directory: string) {
+    this.directory = directory
+  }
+
+  async get(key: string): Promise<unknown | undefined> {
+    let entry: FileEntry
+    try {
+      entry = JSON.parse(await fs.readFile(this.getPath(key), 'utf8'))
+    } catch {
+      return undefined // Missing or unreadable entries are cache misses
+    }
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      await this.delete(key)
+      return undefined
+    }
+    return entry.value
+  }
+
+  async set(key: string, value: unknown, ttlMs?: number): Promise<void> {
+    const entry: FileEntry = { value, expiresAt: ttlMs !== undefined ? Date.now() + ttlMs : undefined }
+    await fs.mkdir(this.directory, { recursive: true })
+    // Write then rename so concurrent readers never see a partial file
+    const target = this.getPath(key)
+    const temp = `${target}.${process.pid}.${Date.now()}.tmp`
+    await fs.writeFile(temp, JSON.stringify(entry), 'utf8')
+    await fs.rename(temp, target)
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.getPath(key), { force: true })
+  }
+
+  private getPath(key: string): string {
+    return path.join(this.directory, `${encodeURIComponent(key)}.json`)
+  }
+}
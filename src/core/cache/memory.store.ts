@@ -0,0 +1,47 @@
+import { CacheStore } from '../../types'
+
+interface MemoryEntry {
+  value: unknown
+  expiresAt?: number
+}
+
+/**
+ * In-memory cache store with least-recently-used eviction.
+ * Entries live for the lifetime of the process.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly maxEntries: number
+  private readonly entries = new Map<string, MemoryEntry>()
+
+  /** @param maxEntries - Maximum number of entries kept before the least recently used one is evicted. Defaults to 1000. */
+  constructor(maxEntries = 1000) {
+    this.maxEntries = maxEntries
+  }
+
+  async get(key: string): Promise<unknown | undefined> {
+    const entry = this.entries.get(key)
+    if (!entry) return undefined
+    this.entries.delete(key)
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) return undefined
+    this.entries.set(key, entry) // Re-insert to mark as most recently used
+    return entry.value
+  }
+
+  async set(key: string, value: unknown, ttlMs?: number): Promise<void> {
+    this.entries.delete(key)
+    this.entries.set(key, { value, expiresAt: ttlMs !== undefined ? Date.now() + ttlMs : undefined })
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string
+      this.entries.delete(oldest)
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key)
+  }
+
+  /** Number of entries currently held (including expired entries not yet evicted). */
+  get size(): number {
+    return this.entries.size
+  }
+}
@@ -0,0 +1,125 @@
+import { ContextFitInfo, ContextFitOptions, GenerateParams, RosettaMessage, StreamChunk } from '../types'
+import { estimatePromptTokens } from './token-counter'
+
+const DEFAULT_KEEP_LAST_N = 10
+export const DEFAULT_SUMMARY_MAX_TOKENS = 512
+
+/** Instructions for the model summarizing the dropped part of a conversation. */
+export const SUMMARY_INSTRUCTIONS =
+  'Summarize the following conversation so the summary can replace it as context for continuing the ' +
+  'conversation. Keep facts, decisions, user preferences, open questions and tool results that later ' +
+  'messages may rely on. Reply with the summary only.'
+
+/** Writes a summary of the given messages (see `SUMMARY_INSTRUCTIONS`). */
+export type Summarizer = (messages: RosettaMessage[]) => Promise<string>
+
+/**
+ * Splits the non-system messages into turns: a user message with the assistant and tool messages
+ * answering it. Dropping whole turns never separates a `tool` message from the `toolCalls` it answers,
+ * and keeps the conversation starting with a user message.
+ */
+export function groupTurns(messages: RosettaMessage[]): RosettaMessage[][] {
+  const turns: RosettaMessage[][] = []
+  for (const message of messages) {
+    const current = turns[turns.length - 1]
+    if (message.role === 'user' || !current) turns.push([message])
+    else current.push(message)
+  }
+  return turns
+}
+
+/** Renders messages as a plain-text transcript for the summarizing model. */
+export function formatTranscript(messages: RosettaMessage[]): string {
+  return messages
+    .map(message => {
+      const content =
+        typeof message.content === 'string'
+          ? message.content
+          : (message.content ?? []).map(part => (part.type === 'text' ? part.text : '[image]')).join('\n')
+      const toolCalls = (message.toolCalls ?? []).map(
+        call => `[called ${call.function.name}(${call.function.arguments})]`
+      )
+      return `${message.role}: ${[content, ...toolCalls].filter(Boolean).join('\n')}`
+    })
+    .join('\n\n')
+}
+
+/** Adds the summary to the (single) system message, creating one if the request has none. */
+function withSummary(system: RosettaMessage[], summary: string): RosettaMessage[] {
+  const text = `Summary of the earlier conversation:\n${summary}`
+  const [first, ...rest] = system
+  if (first && typeof first.content === 'string') {
+    return [{ ...first, content: `${first.content}\n\n${text}` }, ...rest]
+  }
+  return [{ role: 'system', content: text }, ...system]
+}
+
+/**
+ * Fits a request's messages into `budgetTokens` with the given strategy, measuring them with the
+ * offline token estimator. Returns the request unchanged (and no report) if it already fits.
+ * The most recent turn is always kept, even if it does not fit on its own.
+ */
+export async function fitContext(
+  params: GenerateParams,
+  options: ContextFitOptions,
+  budgetTokens: number,
+  summarize: Summarizer
+): Promise<{ params: GenerateParams; info?: ContextFitInfo }> {
+  const countTokens = (messages: RosettaMessage[]): number => estimatePromptTokens({ ...params, messages })
+  const originalTokens = countTokens(params.messages)
+  if (originalTokens <= budgetTokens) return { params }
+
+  const system = params.messages.filter(message => message.role === 'system')
+  let turns = groupTurns(params.messages.filter(message => message.role !== 'system'))
+  const fits = (): boolean => countTokens([...system, ...turns.flat()]) <= budgetTokens
+  let summary: string | undefined
+  let removedMessages = 0
+  let messages: RosettaMessage[]
+
+  if (options.strategy === 'summarize') {
+    // Keep the recent turns that fit next to the summary; summarize everything before them
+    const available = budgetTokens - (options.summaryMaxTokens ?? DEFAULT_SUMMARY_MAX_TOKENS)
+    let kept = 1
+    while (kept < turns.length && countTokens([...system, ...turns.slice(-(kept + 1)).flat()]) <= available) kept++
+    const older = turns.slice(0, -kept).flat()
+    turns = turns.slice(-kept)
+    if (older.length > 0) {
+      summary = await summarize(older)
+      removedMessages = older.length
+    }
+    const summarized = summary !== undefined ? withSummary(system, summary) : system
+    // The summary may be longer than estimated, so drop the oldest kept turns until it fits
+    while (turns.length > 1 && countTokens([...summarized, ...turns.flat()]) > budgetTokens) {
+      removedMessages += turns[0]?.length ?? 0
+      turns = turns.slice(1)
+    }
+    messages = [...summarized, ...turns.flat()]
+  } else {
+    const originalCount = turns.flat().length
+    if (options.strategy === 'keep-last-n') {
+      const keepLastN = options.keepLastN ?? DEFAULT_KEEP_LAST_N
+      let kept = 1
+      while (kept < turns.length && turns.slice(-(kept + 1)).flat().length <= keepLastN) kept++
+      turns = turns.slice(-kept)
+    }
+    while (turns.length > 1 && !fits()) turns = turns.slice(1)
+    removedMessages = originalCount - turns.flat().length
+    messages = [...system, ...turns.flat()]
+  }
+
+  const info: ContextFitInfo = {
+    strategy: options.strategy,
+    removedMessages,
+    originalTokens,
+    fittedTokens: countTokens(messages),
+    budgetTokens,
+    summary
+  }
+  return { params: { ...params, messages }, info }
+}
+
+/** Attaches the context-fit report to a stream's `final_result` chunk; other chunks pass through unchanged. */
+export function withContextFitInfo(chunk: StreamChunk, info: ContextFitInfo): StreamChunk {
+  if (chunk.type !== 'final_result') return chunk
+  return { type: 'final_result', data: { result: { ...chunk.data.result, contextFit: info } } }
+}
@@ -0,0 +1,134 @@
+import {
+  ConversationOptions,
+  ConversationParams,
+  ConversationSnapshot,
+  GenerateParams,
+  GenerateResult,
+  RosettaContentPart,
+  RosettaMessage,
+  RosettaToolResult,
+  StreamChunk,
+  TokenUsage
+} from '../types'
+import { ConfigurationError } from '../errors'
+import { RosettaAI } from './rosetta-ai'
+import { addTokenUsage } from './utils'
+
+/**
+ * A chat session holding its message history. Each `generate` or `stream` turn sends the whole history
+ * and appends the assistant's reply (content, tool calls, thinking steps and reasoning blocks) to it, so callers
+ * only add user messages and tool results. Create one with `RosettaAI.createConversation`.
+ */
+export class Conversation {
+  private readonly client: RosettaAI
+  private readonly defaults: ConversationParams
+  private readonly history: RosettaMessage[]
+  private totalUsage: TokenUsage
+
+  constructor(client: RosettaAI, options: ConversationOptions = {}) {
+    this.client = client
+    this.defaults = options.params ?? {}
+    this.history = [...(options.messages ?? [])]
+    this.totalUsage = { ...options.usage }
+  }
+
+  /**
+   * Restores a conversation from the output of `toJSON`.
+   * @param client The client the restored conversation sends its turns with.
+   * @param snapshot The snapshot, or its JSON string.
+   * @param params Defaults for every turn, as in `ConversationOptions.params`.
+   */
+  static fromJSON(
+    client: RosettaAI,
+    snapshot: ConversationSnapshot | string,
+    params?: ConversationParams
+  ): Conversation {
+    const { messages, usage } = typeof snapshot === 'string' ? (JSON.parse(snapshot) as ConversationSnapshot) : snapshot
+    return new Conversation(client, { params, messages, usage })
+  }
+
+  /** The message history, oldest first. */
+  get messages(): readonly RosettaMessage[] {
+    return this.history
+  }
+
+  /** Token usage summed across all turns; cache hits are not counted. */
+  get usage(): TokenUsage {
+    return { ...this.totalUsage }
+  }
+
+  /** Appends messages to the history as is. */
+  addMessage(...messages: RosettaMessage[]): this {
+    this.history.push(...messages)
+    return this
+  }
+
+  /** Appends a user message. */
+  addUserMessage(content: string | RosettaContentPart[]): this {
+    return this.addMessage({ role: 'user', content })
+  }
+
+  /** Appends one `tool` message per result, answering the tool calls of the last assistant message. */
+  addToolResults(...results: RosettaToolResult[]): this {
+    return this.addMessage(
+      ...results.map(({ toolCallId, content, isError }) => ({
+        role: 'tool' as const,
+        toolCallId,
+        content,
+        ...(isError ? { isError } : {})
+      }))
+    )
+  }
+
+  /**
+   * Sends the history and appends the assistant's reply to it.
+   * @param params Parameters for this turn, merged over the conversation defaults.
+   * @throws {ConfigurationError} If neither the defaults nor `params` specify a provider.
+   */
+  async generate(params: ConversationParams = {}): Promise<GenerateResult> {
+    const result = await this.client.generate(this.getRequest(params))
+    this.appendResult(result)
+    return result
+  }
+
+  /**
+   * Streams a turn, appending the assistant's reply to the history once the stream delivers its
+   * `final_result`. Nothing is appended if the stream fails.
+   * @param params Parameters for this turn, merged over the conversation defaults.
+   */
+  async *stream(params: ConversationParams = {}): AsyncIterable<StreamChunk> {
+    let result: GenerateResult | undefined
+    let failed = false
+    for await (const chunk of this.client.stream(this.getRequest(params))) {
+      if (chunk.type === 'error') failed = true
+      if (chunk.type === 'final_result') result = chunk.data.result
+      yield chunk
+    }
+    if (result && !failed) this.appendResult(result)
+  }
+
+  /** Returns the history and cumulative usage, for storage with `JSON.stringify`. */
+  toJSON(): ConversationSnapshot {
+    return { messages: [...this.history], usage: this.usage }
+  }
+
+  /** Builds the request of a turn from the defaults, the turn's parameters and the history. */
+  private getRequest(params: ConversationParams): GenerateParams {
+    const { provider, ...rest } = { ...this.defaults, ...params }
+    if (!provider) {
+      throw new ConfigurationError('Conversation turns require a provider, in the conversation params or the turn.')
+    }
+    return { ...rest, provider, messages: [...this.history] }
+  }
+
+  /** Appends the assistant message of a result and adds its usage to the total. */
+  private appendResult(result: GenerateResult): void {
+    const message: RosettaMessage = { role: 'assistant', content: result.content }
+    if (result.toolCalls?.length) message.toolCalls = result.toolCalls
+    if (result.thinkingSteps) message.thinkingSteps = result.thinkingSteps
+    if (result.reasoningBlocks?.length) message.reasoningBlocks = result.reasoningBlocks
+    this.history.push(message)
+
+    if (!result.cached && result.usage) addTokenUsage(this.totalUsage, result.usage)
+  }
+}
@@ -0,0 +1,125 @@
+import {
+  Provider,
+  ProviderId,
+  PricingTable,
+  ModelPricing,
+  TokenUsage,
+  CostBreakdown,
+  CostReport,
+  CostReportEntry
+} from '../../types'
+import { DEFAULT_PRICING } from './default.pricing'
+
+const TOKENS_PER_UNIT = 1_000_000
+
+/** Merges user pricing over the built-in defaults, model by model. */
+export function mergePricing(overrides: PricingTable = {}): PricingTable {
+  const merged: PricingTable = {}
+  const providers = new Set([...Object.keys(DEFAULT_PRICING), ...Object.keys(overrides)])
+  for (const provider of providers) {
+    merged[provider] = { ...DEFAULT_PRICING[provider], ...overrides[provider] }
+  }
+  return merged
+}
+
+/**
+ * Version suffixes of model snapshots: dates (`-2024-08-06`, `-20240307`), OpenAI's `-0613`, Google's `-001` and
+ * `-latest`.
+ */
+const VERSION_SUFFIX = /^-(\d{4}-\d{2}-\d{2}|\d{8}|\d{4}|\d{3}|latest)$/
+
+/**
+ * Finds the pricing for a model: an exact match first, then a model ID the given one versions (so
+ * `'gpt-4o-2024-08-06'` uses the `'gpt-4o'` price, but `'gpt-4.1'` or `'o1-pro'` are not priced as `'gpt-4'` or
+ * `'o1'`). Azure OpenAI falls back to OpenAI prices.
+ */
+export function findModelPricing(pricing: PricingTable, provider: ProviderId, model: string): ModelPricing | undefined {
+  const modelId = model.replace(/^models\//, '') // Google reports 'models/<id>'
+  const table = pricing[provider] ?? {}
+
+  let match = table[modelId]
+  if (!match) {
+    const base = Object.keys(table).find(
+      key => modelId.startsWith(key) && VERSION_SUFFIX.test(modelId.slice(key.length))
+    )
+    match = base !== undefined ? table[base] : undefined
+  }
+  if (!match && provider === Provider.AzureOpenAI) return findModelPricing(pricing, Provider.OpenAI, modelId)
+  return match
+}
+
+/**
+ * Computes the cost of a call from its token usage. Prompt tokens read from or written to the provider's cache
+ * use the cached-input and cache-write prices if set.
+ */
+export function calculateCost(usage: TokenUsage, pricing: ModelPricing): CostBreakdown {
+  const promptTokens = usage.promptTokens ?? 0
+  const cachedTokens = Math.min(usage.cacheReadTokens ?? usage.cachedContentTokenCount ?? 0, promptTokens)
+  const cacheWriteTokens = Math.min(usage.cacheWriteTokens ?? 0, promptTokens - cachedTokens)
+  const inputCost =
+    ((promptTokens - cachedTokens - cacheWriteTokens) * pricing.inputPerMTok +
+      cachedTokens * (pricing.cachedInputPerMTok ?? pricing.inputPerMTok) +
+      cacheWriteTokens * (pricing.cacheWriteInputPerMTok ?? pricing.inputPerMTok)) /
+    TOKENS_PER_UNIT
+  const outputCost = ((usage.completionTokens ?? 0) * pricing.outputPerMTok) / TOKENS_PER_UNIT
+  return { inputCost, outputCost, totalCost: inputCost + outputCost, currency: 'USD' }
+}
+
+/**
+ * Prices calls and accumulates spend per provider, model and tag for a RosettaAI instance.
+ */
+export class CostTracker {
+  private readonly pricing: PricingTable
+  private readonly entries = new Map<string, CostReportEntry>()
+
+  constructor(pricingOverrides?: PricingTable) {
+    this.pricing = mergePricing(pricingOverrides)
+  }
+
+  /** Returns the cost of a call, or undefined if the model has no known pricing. */
+  getCost(provider: ProviderId, model: string, usage: TokenUsage): CostBreakdown | undefined {
+    const pricing = findModelPricing(this.pricing, provider, model)
+    return pricing ? calculateCost(usage, pricing) : undefined
+  }
+
+  /** Adds a completed provider call to the report. */
+  record(provider: ProviderId, model: string, usage: TokenUsage | undefined, cost?: CostBreakdown, tag?: string): void {
+    const key = JSON.stringify([provider, model, tag ?? null])
+    let entry = this.entries.get(key)
+    if (!entry) {
+      entry = {
+        provider,
+        model,
+        tag,
+        requests: 0,
+        unpricedRequests: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        totalCost: 0
+      }
+      this.entries.set(key, entry)
+    }
+    entry.requests++
+    if (!cost) entry.unpricedRequests++
+    entry.promptTokens += usage?.promptTokens ?? 0
+    entry.completionTokens += usage?.completionTokens ?? 0
+    entry.totalCost += cost?.totalCost ?? 0
+  }
+
+  /** Summarizes the recorded spend. */
+  getReport(): CostReport {
+    const report: CostReport = { totalCost: 0, currency: 'USD', byProvider: {}, byTag: {}, entries: [] }
+    for (const entry of this.entries.values()) {
+      report.entries.push({ ...entry })
+      report.totalCost += entry.totalCost
+      report.byProvider[entry.provider] = (report.byProvider[entry.provider] ?? 0) + entry.totalCost
+      if (entry.tag !== undefined) report.byTag[entry.tag] = (report.byTag[entry.tag] ?? 0) + entry.totalCost
+    }
+    return report
+  }
+
+  /** Clears the recorded spend. */
+  reset(): void {
+    this.entries.clear()
+  }
+}
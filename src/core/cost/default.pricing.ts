@@ -0,0 +1,73 @@
+import { Provider, PricingTable, ModelPricing } from '../../types'
+import { anthropicStaticModels } from '../listing/static-data/anthropic.models'
+
+// Published list prices (USD per million tokens) at the time of writing.
+// Prices change; override them with `RosettaAIConfig.pricing`.
+
+/** Anthropic prices by model family, including the prompt cache prices the static model list lacks. */
+const anthropicFamilyPricing: Record<string, ModelPricing> = {
+  'claude-3-5-sonnet': {
+    inputPerMTok: 3.0,
+    outputPerMTok: 15.0,
+    cachedInputPerMTok: 0.3,
+    cacheWriteInputPerMTok: 3.75
+  },
+  'claude-3-5-haiku': { inputPerMTok: 0.8, outputPerMTok: 4.0, cachedInputPerMTok: 0.08, cacheWriteInputPerMTok: 1.0 },
+  'claude-3-opus': { inputPerMTok: 15.0, outputPerMTok: 75.0, cachedInputPerMTok: 1.5, cacheWriteInputPerMTok: 18.75 },
+  'claude-3-haiku': { inputPerMTok: 0.25, outputPerMTok: 1.25, cachedInputPerMTok: 0.03, cacheWriteInputPerMTok: 0.3 }
+}
+
+/**
+ * Anthropic prices: the static model list's `cost_*_mtok` properties, with the cache prices of their family
+ * (exact IDs take precedence over family prefixes), plus newer models.
+ */
+const anthropicPricing: Record<string, ModelPricing> = {
+  ...Object.fromEntries(
+    anthropicStaticModels.data
+      .filter(model => model.properties?.cost_input_mtok !== undefined)
+      .map(model => {
+        const family = Object.keys(anthropicFamilyPricing).find(key => model.id.startsWith(`${key}-`))
+        const pricing: ModelPricing = {
+          ...(family !== undefined ? anthropicFamilyPricing[family] : undefined),
+          inputPerMTok: model.properties!.cost_input_mtok!,
+          outputPerMTok: model.properties!.cost_output_mtok ?? 0
+        }
+        return [model.id, pricing]
+      })
+  ),
+  ...anthropicFamilyPricing
+}
+
+/** Built-in pricing for the models of the four built-in providers. */
+export const DEFAULT_PRICING: PricingTable = {
+  [Provider.Anthropic]: anthropicPricing,
+  [Provider.OpenAI]: {
+    'gpt-4o': { inputPerMTok: 2.5, outputPerMTok: 10.0, cachedInputPerMTok: 1.25 },
+    'gpt-4o-mini': { inputPerMTok: 0.15, outputPerMTok: 0.6, cachedInputPerMTok: 0.075 },
+    'gpt-4-turbo': { inputPerMTok: 10.0, outputPerMTok: 30.0 },
+    'gpt-4': { inputPerMTok: 30.0, outputPerMTok: 60.0 },
+    'gpt-3.5-turbo': { inputPerMTok: 0.5, outputPerMTok: 1.5 },
+    'o1-mini': { inputPerMTok: 3.0, outputPerMTok: 12.0, cachedInputPerMTok: 1.5 },
+    o1: { inputPerMTok: 15.0, outputPerMTok: 60.0, cachedInputPerMTok: 7.5 },
+    'text-embedding-3-small': { inputPerMTok: 0.02, outputPerMTok: 0 },
+    'text-embedding-3-large': { inputPerMTok: 0.13, outputPerMTok: 0 },
+    'text-embedding-ada-002': { inputPerMTok: 0.1, outputPerMTok: 0 }
+  },
+  [Provider.Google]: {
+    'gemini-2.0-flash': { inputPerMTok: 0.1, outputPerMTok: 0.4, cachedInputPerMTok: 0.025 },
+    'gemini-1.5-pro': { inputPerMTok: 1.25, outputPerMTok: 5.0, cachedInputPerMTok: 0.3125 },
+    'gemini-1.5-flash': { inputPerMTok: 0.075, outputPerMTok: 0.3, cachedInputPerMTok: 0.01875 },
+    'gemini-1.5-flash-8b': { inputPerMTok: 0.0375, outputPerMTok: 0.15, cachedInputPerMTok: 0.01 },
+    'gemini-1.0-pro': { inputPerMTok: 0.5, outputPerMTok: 1.5 },
+    'text-embedding-004': { inputPerMTok: 0, outputPerMTok: 0 }
+  },
+  [Provider.Groq]: {
+    'llama-3.3-70b-versatile': { inputPerMTok: 0.59, outputPerMTok: 0.79 },
+    'llama-3.1-70b-versatile': { inputPerMTok: 0.59, outputPerMTok: 0.79 },
+    'llama-3.1-8b-instant': { inputPerMTok: 0.05, outputPerMTok: 0.08 },
+    'llama3-70b-8192': { inputPerMTok: 0.59, outputPerMTok: 0.79 },
+    'llama3-8b-8192': { inputPerMTok: 0.05, outputPerMTok: 0.08 },
+    'mixtral-8x7b-32768': { inputPerMTok: 0.24, outputPerMTok: 0.24 },
+    'gemma2-9b-it': { inputPerMTok: 0.2, outputPerMTok: 0.2 }
+  }
+}
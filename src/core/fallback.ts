@@ -0,0 +1,13 @@
+import { RosettaAIError } from '../errors'
+import { FallbackInfo, StreamChunk } from '../types'
+
+/** Normalizes anything thrown into an `Error` so it can be reported in `FallbackAttempt.error`. */
+export function toError(error: unknown): Error {
+  return error instanceof Error ? error : new RosettaAIError(String(error))
+}
+
+/** Attaches the fallback report to a stream's `final_result` chunk; other chunks pass through unchanged. */
+export function withFallbackInfo(chunk: StreamChunk, info: FallbackInfo): StreamChunk {
+  if (chunk.type !== 'final_result') return chunk
+  return { type: 'final_result', data: { result: { ...chunk.data.result, fallback: info } } }
+}
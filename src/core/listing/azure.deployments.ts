@@ -0,0 +1,117 @@
+// src/core/listing/azure.deployments.ts
+import { z } from 'zod'
+import { RosettaModel, RosettaModelList, Provider } from '../../types'
+import { ProviderAPIError, MappingError, RosettaAIError, CancellationError } from '../../errors'
+import { isAbortError } from '../utils'
+import { getLog } from '../logger'
+
+/** Data-plane API version that still exposes the deployments listing endpoint. */
+const AZURE_DEPLOYMENTS_API_VERSION = '2022-12-01'
+
+// Zod schema for the MINIMUM expected deployments response structure
+const AzureDeploymentsResponseSchema = z.object({
+  data: z.array(
+    z
+      .object({
+        id: z.string(),
+        model: z.string().optional(),
+        owner: z.string().optional(),
+        status: z.string().optional(),
+        created_at: z.number().optional()
+        // Allow other fields to pass through
+      })
+      .passthrough()
+  )
+})
+
+/** Builds the data-plane URL listing the deployments of an Azure OpenAI resource. */
+export function getAzureDeploymentsUrl(endpoint: string): string {
+  return `${endpoint.replace(/\/+$/, '')}/openai/deployments?api-version=${AZURE_DEPLOYMENTS_API_VERSION}`
+}
+
+/**
+ * Fetches the deployments of an Azure OpenAI resource and maps them to models.
+ * Deployment names are what Azure expects as the `model`, so they are used as model IDs.
+ */
+export async function fetchAzureDeployments(
+  url: string,
+  apiKey: string | undefined,
+  signal?: AbortSignal
+): Promise<RosettaModelList> {
+  const provider = Provider.AzureOpenAI
+  if (!apiKey) {
+    throw new ProviderAPIError(`API key for ${provider} is required but missing for model listing.`, provider, 401)
+  }
+
+  try {
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        'api-key': apiKey, // Azure key auth uses this header instead of a Bearer token
+        Accept: 'application/json'
+      },
+      signal
+    })
+
+    if (!response.ok) {
+      let errorBody = `Status: ${response.status}`
+      try {
+        errorBody = await response.text()
+      } catch {
+        /* Ignore body parsing errors */
+      }
+      throw new ProviderAPIError(
+        `Failed to fetch deployments from ${provider} API: ${errorBody}`,
+        provider,
+        response.status,
+        undefined,
+        undefined,
+        response // Carries the Retry-After headers
+      )
+    }
+
+    const validationResult = AzureDeploymentsResponseSchema.safeParse(await response.json())
+    if (!validationResult.success) {
+      getLog().error(`Validation Error for ${provider} deployments response (${url}):`, {
+        context: 'fetchAzureDeployments',
+        data: validationResult.error.errors
+      })
+      throw new MappingError(
+        `Invalid deployments response structure received from ${provider}.`,
+        provider,
+        'fetchAzureDeployments validation',
+        validationResult.error
+      )
+    }
+
+    const models: RosettaModel[] = validationResult.data.data.map(
+      (deployment): RosettaModel => ({
+        id: deployment.id,
+        object: 'model',
+        owned_by: deployment.owner ?? 'azure',
+        created: deployment.created_at,
+        active: deployment.status ? deployment.status === 'succeeded' : undefined,
+        properties: deployment.model ? { description: `Deployment of ${deployment.model}` } : undefined,
+        provider,
+        rawData: deployment // Store original
+      })
+    )
+
+    return { object: 'list', data: models }
+  } catch (error) {
+    if (error instanceof RosettaAIError) {
+      // Don't re-wrap our errors
+      throw error
+    }
+    if (isAbortError(error)) throw new CancellationError(provider, signal?.reason)
+    const message = error instanceof Error ? error.message : String(error)
+    throw new ProviderAPIError(
+      `Network or parsing error fetching deployments for ${provider}: ${message}`,
+      provider,
+      undefined,
+      undefined,
+      undefined,
+      error
+    )
+  }
+}
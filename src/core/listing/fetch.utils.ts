@@ -1,7 +1,9 @@
 // src/core/listing/fetch.utils.ts (Simplified Example)
 import { z } from 'zod'
-import { RosettaModel, RosettaModelList, Provider } from '../../types'
-import { ProviderAPIError, MappingError, RosettaAIError } from '../../errors'
+import { RosettaModel, RosettaModelList, ProviderId } from '../../types'
+import { ProviderAPIError, MappingError, RosettaAIError, CancellationError } from '../../errors'
+import { isAbortError } from '../utils'
+import { getLog } from '../logger'
 
 // Zod schema for the MINIMUM expected API response structure
 const BaseApiResponseSchema = z
@@ -25,8 +27,9 @@ const BaseApiResponseSchema = z
  */
 export async function fetchAndValidateModelsFromApi(
   url: string,
-  provider: Provider,
-  apiKey: string | undefined
+  provider: ProviderId,
+  apiKey: string | undefined,
+  signal?: AbortSignal
 ): Promise<RosettaModelList> {
   if (!apiKey) {
     throw new ProviderAPIError(`API key for ${provider} is required but missing for model listing.`, provider, 401)
@@ -38,7 +41,8 @@ export async function fetchAndValidateModelsFromApi(
       headers: {
         Authorization: `Bearer ${apiKey}`,
         Accept: 'application/json'
-      }
+      },
+      signal
     })
 
     if (!response.ok) {
@@ -48,7 +52,15 @@ export async function fetchAndValidateModelsFromApi(
       } catch {
         /* Ignore body parsing errors */
       }
-      throw new ProviderAPIError(`Failed to fetch models from ${provider} API: ${errorBody}`, provider, response.status)
+      // Keep the response as the underlying error so retries can honor its Retry-After headers
+      throw new ProviderAPIError(
+        `Failed to fetch models from ${provider} API: ${errorBody}`,
+        provider,
+        response.status,
+        undefined,
+        undefined,
+        response
+      )
     }
 
     const rawJson = await response.json()
@@ -56,7 +68,10 @@ export async function fetchAndValidateModelsFromApi(
     // --- CRITICAL VALIDATION STEP ---
     const validationResult = BaseApiResponseSchema.safeParse(rawJson)
     if (!validationResult.success) {
-      console.error(`Validation Error for ${provider} API Response (${url}):`, validationResult.error.errors)
+      getLog().error(`Validation Error for ${provider} API Response (${url}):`, {
+        context: 'fetchAndValidateModelsFromApi',
+        data: validationResult.error.errors
+      })
       throw new MappingError(
         `Invalid API response structure received from ${provider}.`,
         provider,
@@ -105,6 +120,7 @@ export async function fetchAndValidateModelsFromApi(
       // Don't re-wrap our errors
       throw error
     }
+    if (isAbortError(error)) throw new CancellationError(provider, signal?.reason)
     // Wrap fetch/parsing errors
     const message = error instanceof Error ? error.message : String(error)
     throw new ProviderAPIError(
@@ -1,7 +1,8 @@
 // src/core/listing/model.lister.ts
 import Groq from 'groq-sdk'
 import { RosettaModelList, RosettaModel, Provider, ModelListingSourceConfig, ModelListingSourceType } from '../../types'
-import { ProviderAPIError, MappingError, ConfigurationError, RosettaAIError } from '../../errors'
+import { ProviderAPIError, MappingError, ConfigurationError, RosettaAIError, CancellationError } from '../../errors'
+import { isAbortError } from '../utils'
 import { anthropicStaticModels } from './static-data/anthropic.models'
 import { fetchAndValidateModelsFromApi } from './fetch.utils'
 
@@ -13,6 +14,7 @@ export async function listModelsForProvider(
     sourceConfig?: ModelListingSourceConfig
     apiKey?: string
     groqClient?: Groq // Pass Groq client if available
+    signal?: AbortSignal
   }
 ): Promise<RosettaModelList> {
   const source = config.sourceConfig // Determine source type
@@ -43,7 +45,7 @@ export async function listModelsForProvider(
         if (provider !== Provider.Groq || !config.groqClient) {
           throw new ConfigurationError(`SDK method listing is only configured for Groq with an active client.`)
         }
-        const groqResponse = await config.groqClient.models.list()
+        const groqResponse = await config.groqClient.models.list({ signal: config.signal })
         // Map Groq's response - handle potential extra fields AT RUNTIME
         const groqModels: RosettaModel[] = groqResponse.data.map(
           (groqModel: any): RosettaModel => ({
@@ -75,7 +77,7 @@ export async function listModelsForProvider(
           else if (provider === Provider.OpenAI) url = 'https://api.openai.com/v1/models'
           else throw new ConfigurationError(`API endpoint URL for ${provider} not configured.`)
         }
-        return await fetchAndValidateModelsFromApi(url, provider, config.apiKey)
+        return await fetchAndValidateModelsFromApi(url, provider, config.apiKey, config.signal)
 
       default:
         const _exhaustiveCheck: never = sourceType
@@ -91,6 +93,7 @@ export async function listModelsForProvider(
     ) {
       throw error
     }
+    if (isAbortError(error)) throw new CancellationError(provider, config.signal?.reason)
     // Wrap other errors
     const message = error instanceof Error ? error.message : String(error)
     throw new ProviderAPIError(
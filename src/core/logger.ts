@@ -0,0 +1,99 @@
+import { AsyncLocalStorage } from 'async_hooks'
+import { LogFields, LogLevel, RosettaLogger, WarningCode } from '../types'
+import { StrictModeError } from '../errors'
+
+const LEVEL_ORDER: Record<LogLevel | 'silent', number> = { debug: 0, info: 1, warn: 2, error: 3, silent: 4 }
+
+/** The `error` and `data` fields, which the console logger prints after the message. */
+function consoleDetails(fields?: LogFields): unknown[] {
+  return [fields?.data, fields?.error].filter(detail => detail !== undefined)
+}
+
+/**
+ * The default logger. Prints the message and any `error`/`data` detail, leaving out the other
+ * structured fields to keep console output readable.
+ */
+/* eslint-disable no-console */
+export const consoleLogger: RosettaLogger = {
+  debug: (message, fields) => console.debug(message, ...consoleDetails(fields)),
+  info: (message, fields) => console.log(message, ...consoleDetails(fields)),
+  warn: (message, fields) => console.warn(message, ...consoleDetails(fields)),
+  error: (message, fields) => console.error(message, ...consoleDetails(fields))
+}
+/* eslint-enable no-console */
+
+const activeLog = new AsyncLocalStorage<RosettaLog>()
+
+/** The resolved logging configuration of a RosettaAI instance. */
+export interface LogSettings {
+  logger: RosettaLogger
+  level: LogLevel | 'silent'
+  strictWarnings: boolean | WarningCode[]
+}
+
+/**
+ * Writes log entries to a configured logger, filtered by level and tagged with the fields of the
+ * operation being run. Warnings escalated by `strictWarnings` are thrown as `StrictModeError`s instead.
+ */
+export class RosettaLog {
+  constructor(private readonly settings: LogSettings, private readonly fields: LogFields = {}) {}
+
+  /** Returns a log that adds `fields` to every entry. */
+  child(fields: LogFields): RosettaLog {
+    return new RosettaLog(this.settings, { ...this.fields, ...fields })
+  }
+
+  /** Runs `fn` with this log as the one returned by `getLog`, including in everything `fn` awaits. */
+  run<T>(fn: () => T): T {
+    return activeLog.run(this, fn)
+  }
+
+  /** Makes this log the one returned by `getLog` while `iterable` produces each item. */
+  bind<T>(iterable: AsyncIterable<T>): AsyncIterable<T> {
+    return {
+      [Symbol.asyncIterator]: () => {
+        const iterator = this.run(() => iterable[Symbol.asyncIterator]())
+        return {
+          next: (...args) => this.run(() => iterator.next(...args)),
+          return: value => this.run(() => iterator.return?.(value) ?? Promise.resolve({ done: true, value }))
+        }
+      }
+    }
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields)
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields)
+  }
+
+  /** @throws {StrictModeError} If `strictWarnings` escalates `code`. */
+  warn(code: WarningCode, message: string, fields?: LogFields): void {
+    const { strictWarnings } = this.settings
+    if (strictWarnings === true || (Array.isArray(strictWarnings) && strictWarnings.includes(code))) {
+      throw new StrictModeError(code, message, fields?.provider ?? this.fields.provider)
+    }
+    this.write('warn', message, { ...fields, code })
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields)
+  }
+
+  private write(level: LogLevel, message: string, fields?: LogFields): void {
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[this.settings.level]) return
+    this.settings.logger[level](message, { ...this.fields, ...fields })
+  }
+}
+
+const defaultLog = new RosettaLog({ logger: consoleLogger, level: 'info', strictWarnings: false })
+
+/**
+ * Returns the log of the RosettaAI operation being run, so mapping code can log without having a
+ * logger passed through every call. Outside of an operation, entries go to the console.
+ */
+export function getLog(): RosettaLog {
+  return activeLog.getStore() ?? defaultLog
+}
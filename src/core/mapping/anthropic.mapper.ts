@@ -8,6 +8,10 @@ import {
   TextBlockParam as AnthropicTextBlockParam,
   ImageBlockParam as AnthropicImageBlockParam,
   RawContentBlockStopEvent,
+  CacheControlEphemeral as AnthropicCacheControl,
+  ThinkingBlock as AnthropicThinkingBlock,
+  ThinkingBlockParam as AnthropicThinkingBlockParam,
+  RedactedThinkingBlockParam as AnthropicRedactedThinkingBlockParam,
   ToolUseBlockParam // INPUT type for tool use
 } from '@anthropic-ai/sdk/resources/messages'
 import { Tool as AnthropicToolType } from '@anthropic-ai/sdk/resources'
@@ -22,6 +26,7 @@ import {
   GenerateResult,
   StreamChunk,
   RosettaMessage,
+  RosettaReasoningBlock,
   RosettaToolCallRequest,
   TokenUsage,
   Provider,
@@ -31,14 +36,33 @@ import {
   TranslateParams,
   TranscriptionResult
 } from '../../types'
-import { MappingError, ProviderAPIError, RosettaAIError, UnsupportedFeatureError } from '../../errors'
+import {
+  ConfigurationError,
+  MappingError,
+  ProviderAPIError,
+  RosettaAIError,
+  UnsupportedFeatureError
+} from '../../errors'
 import { safeGet } from '../utils'
 import { IProviderMapper } from './base.mapper'
-import { mapTokenUsage, mapBaseParams, mapBaseToolChoice } from './common.utils'
+import {
+  mapTokenUsage,
+  mapBaseParams,
+  mapBaseToolChoice,
+  mapReasoningOptions,
+  mapReasoningBudget
+} from './common.utils'
+import { getLog } from '../logger'
 
 // Type alias for the stream type from Anthropic SDK
 type AnthropicMessageStream = AsyncIterable<RawMessageStreamEvent>
 
+/** The tool Anthropic is forced to call for `responseFormat.schema`; its input is returned as the JSON output. */
+export const STRUCTURED_OUTPUT_TOOL = 'rosetta_structured_output'
+
+/** Marks the end of a prompt prefix to cache (`cacheBreakpoint`). */
+const CACHE_CONTROL: AnthropicCacheControl = { type: 'ephemeral' }
+
 export class AnthropicMapper implements IProviderMapper {
   readonly provider = Provider.Anthropic
 
@@ -66,7 +90,9 @@ export class AnthropicMapper implements IProviderMapper {
 
   private mapContentToAnthropic(content: RosettaMessage['content']): string | Array<AnthropicContentBlockParam> {
     if (content === null) {
-      console.warn('Mapping null content to empty string for Anthropic input.')
+      getLog().warn('empty_content', 'Mapping null content to empty string for Anthropic input.', {
+        context: 'mapContentToAnthropic'
+      })
       return ''
     }
     if (typeof content === 'string') {
@@ -74,19 +100,23 @@ export class AnthropicMapper implements IProviderMapper {
     }
     // Handle empty array case - return empty string as Anthropic content cannot be empty array
     if (Array.isArray(content) && content.length === 0) {
-      console.warn('Mapping empty content array to empty string for Anthropic input.')
+      getLog().warn('empty_content', 'Mapping empty content array to empty string for Anthropic input.', {
+        context: 'mapContentToAnthropic'
+      })
       return ''
     }
 
     const parts: AnthropicContentBlockParam[] = content.map(part => {
       if (part.type === 'text') {
         const textParam: AnthropicTextBlockParam = { type: 'text', text: part.text }
+        if (part.cacheBreakpoint) textParam.cache_control = CACHE_CONTROL
         return textParam
       } else if (part.type === 'image') {
         const imageParam: AnthropicImageBlockParam = {
           type: 'image',
           source: { type: 'base64', media_type: part.image.mimeType, data: part.image.base64Data }
         }
+        if (part.cacheBreakpoint) imageParam.cache_control = CACHE_CONTROL
         return imageParam
       } else {
         // Ensure exhaustive check works with `never`
@@ -97,10 +127,31 @@ export class AnthropicMapper implements IProviderMapper {
     return parts
   }
 
+  /** Returns the thinking blocks of an assistant message that came from Anthropic, which must precede its other blocks. */
+  private mapReasoningBlocksToAnthropic(
+    msg: RosettaMessage
+  ): Array<AnthropicThinkingBlockParam | AnthropicRedactedThinkingBlockParam> {
+    return (msg.reasoningBlocks ?? [])
+      .filter(block => block.provider === this.provider)
+      .map(block => block.data as AnthropicThinkingBlockParam | AnthropicRedactedThinkingBlockParam)
+  }
+
+  /** Adds `cache_control` to the last block of a message marked with `cacheBreakpoint`. */
+  private withCacheBreakpoint(message: AnthropicMessageParam, msg: RosettaMessage): AnthropicMessageParam {
+    if (!msg.cacheBreakpoint) return message
+    const blocks: AnthropicContentBlockParam[] =
+      typeof message.content === 'string' ? [{ type: 'text', text: message.content }] : [...message.content]
+    const lastBlock = blocks[blocks.length - 1]
+    if (!lastBlock || lastBlock.type === 'thinking' || lastBlock.type === 'redacted_thinking') return message
+    blocks[blocks.length - 1] = { ...lastBlock, cache_control: CACHE_CONTROL }
+    return { ...message, content: blocks }
+  }
+
   mapToProviderParams(
     params: GenerateParams
   ): Anthropic.Messages.MessageCreateParamsNonStreaming | Anthropic.Messages.MessageCreateParamsStreaming {
     let systemPrompt: string | undefined = undefined
+    let systemCacheBreakpoint = false
     const messages: AnthropicMessageParam[] = []
 
     for (const msg of params.messages) {
@@ -109,6 +160,7 @@ export class AnthropicMapper implements IProviderMapper {
         if (typeof msg.content !== 'string')
           throw new MappingError('Anthropic system prompt must be string.', this.provider)
         systemPrompt = msg.content
+        systemCacheBreakpoint = !!msg.cacheBreakpoint
         continue
       }
       if (msg.role === 'tool') {
@@ -118,15 +170,21 @@ export class AnthropicMapper implements IProviderMapper {
             this.provider
           )
         }
-        messages.push({
+        const toolResultMessage: AnthropicMessageParam = {
           role: 'user',
           content: [
-            { type: 'tool_result', tool_use_id: msg.toolCallId, content: msg.content }
+            {
+              type: 'tool_result',
+              tool_use_id: msg.toolCallId,
+              content: msg.content,
+              ...(msg.isError ? { is_error: true } : {})
+            }
           ] as AnthropicContentBlockParam[] // Explicit cast
-        })
+        }
+        messages.push(this.withCacheBreakpoint(toolResultMessage, msg))
       } else if (msg.role === 'assistant' && msg.toolCalls && msg.toolCalls.length > 0) {
         const assistantContent = this.mapContentToAnthropic(msg.content)
-        const contentBlocks: AnthropicContentBlockParam[] = []
+        const contentBlocks: AnthropicContentBlockParam[] = [...this.mapReasoningBlocksToAnthropic(msg)]
 
         // FIX: Only add text block if assistantContent is a non-empty string or a non-empty array containing text
         if (typeof assistantContent === 'string' && assistantContent.length > 0) {
@@ -141,8 +199,10 @@ export class AnthropicMapper implements IProviderMapper {
                 contentBlocks.push(block)
               }
             } else {
-              console.warn(
-                `Ignoring unexpected content block type '${block.type}' in assistant message with tool calls.`
+              getLog().warn(
+                'content_parts_dropped',
+                `Ignoring unexpected content block type '${block.type}' in assistant message with tool calls.`,
+                { context: 'mapToProviderParams' }
               )
             }
           })
@@ -173,7 +233,11 @@ export class AnthropicMapper implements IProviderMapper {
         if (contentBlocks.length === 0) {
           // This case should only happen if toolCalls were present but msg.content was null/empty
           // and resulted in an empty contentBlocks array.
-          console.warn('Assistant message with tool calls resulted in empty content blocks; this might be invalid.')
+          getLog().warn(
+            'empty_content',
+            'Assistant message with tool calls resulted in empty content blocks; this might be invalid.',
+            { context: 'mapToProviderParams' }
+          )
           // Anthropic requires at least one block if the role is assistant.
           // If only tool_use blocks exist, that's fine. If somehow both content and tool_calls
           // resulted in nothing, this is an error state.
@@ -185,7 +249,7 @@ export class AnthropicMapper implements IProviderMapper {
           }
         }
 
-        messages.push({ role: 'assistant', content: contentBlocks })
+        messages.push(this.withCacheBreakpoint({ role: 'assistant', content: contentBlocks }, msg))
       } else {
         // Handle regular user/assistant messages
         const mappedContent = this.mapContentToAnthropic(msg.content)
@@ -198,10 +262,19 @@ export class AnthropicMapper implements IProviderMapper {
             this.provider
           )
         }
-        messages.push({
+        const reasoningBlocks = msg.role === 'assistant' ? this.mapReasoningBlocksToAnthropic(msg) : []
+        if (reasoningBlocks.length > 0) {
+          const contentBlocks: AnthropicContentBlockParam[] = [...reasoningBlocks]
+          if (Array.isArray(mappedContent)) contentBlocks.push(...mappedContent)
+          else if (mappedContent) contentBlocks.push({ type: 'text', text: mappedContent })
+          messages.push(this.withCacheBreakpoint({ role: 'assistant', content: contentBlocks }, msg))
+          continue
+        }
+        const message: AnthropicMessageParam = {
           role: this.mapRoleToAnthropic(msg.role as 'user' | 'assistant'),
           content: mappedContent
-        })
+        }
+        messages.push(this.withCacheBreakpoint(message, msg))
       }
     }
 
@@ -246,18 +319,26 @@ export class AnthropicMapper implements IProviderMapper {
       } else if (typeof baseToolChoice === 'object' && baseToolChoice.type === 'function') {
         anthropicToolChoice = { type: 'tool', name: baseToolChoice.function.name }
       } else {
-        console.warn(`Unhandled baseToolChoice format: ${JSON.stringify(baseToolChoice)}`)
+        getLog().warn('unsupported_tool_choice', `Unhandled baseToolChoice format: ${JSON.stringify(baseToolChoice)}`, {
+          context: 'mapToProviderParams'
+        })
       }
     }
 
-    let thinkingParam: AnthropicThinkingConfig | undefined = undefined
-    if (params.thinking) {
-      // Corrected: budget_tokens is part of the thinking object
-      thinkingParam = { type: 'enabled', budget_tokens: 1024 }
+    const structuredOutputTool = this.mapStructuredOutputTool(params)
+    if (structuredOutputTool) anthropicToolChoice = { type: 'tool', name: structuredOutputTool.name }
+
+    const reasoning = mapReasoningOptions(params)
+    const thinkingBudget = reasoning ? mapReasoningBudget(reasoning) : 0
+    const thinkingParam: AnthropicThinkingConfig | undefined = reasoning && {
+      type: 'enabled',
+      budget_tokens: thinkingBudget
     }
 
     let systemParam: string | AnthropicTextBlockParam[] | undefined
-    if (typeof systemPrompt === 'string') {
+    if (typeof systemPrompt === 'string' && systemCacheBreakpoint) {
+      systemParam = [{ type: 'text', text: systemPrompt, cache_control: CACHE_CONTROL }]
+    } else if (typeof systemPrompt === 'string') {
       systemParam = systemPrompt
     } else {
       systemParam = undefined
@@ -265,16 +346,22 @@ export class AnthropicMapper implements IProviderMapper {
 
     // Use common utility for base parameters
     const baseMappedParams = mapBaseParams(params)
+    if (reasoning && baseMappedParams.maxTokens !== undefined && baseMappedParams.maxTokens <= thinkingBudget) {
+      throw new ConfigurationError(
+        `maxTokens (${baseMappedParams.maxTokens}) must be greater than the Anthropic thinking budget (${thinkingBudget}), as it includes the thinking tokens.`
+      )
+    }
 
     const basePayload = {
       model: params.model!,
       messages: messages,
       system: systemParam,
-      max_tokens: baseMappedParams.maxTokens ?? 4096, // Use mapped value or default
+      // max_tokens includes the thinking budget, so the default leaves room for the answer
+      max_tokens: baseMappedParams.maxTokens ?? 4096 + thinkingBudget,
       temperature: baseMappedParams.temperature, // Use mapped value
       top_p: baseMappedParams.topP, // Use mapped value
       stop_sequences: baseMappedParams.stopSequences, // Use mapped value
-      tools: tools,
+      tools: structuredOutputTool ? [structuredOutputTool] : tools,
       tool_choice: anthropicToolChoice,
       ...(thinkingParam && { thinking: thinkingParam }) // Correctly add thinking param
     }
@@ -288,6 +375,27 @@ export class AnthropicMapper implements IProviderMapper {
     }
   }
 
+  /** Maps `responseFormat.schema` to the tool Anthropic is forced to call (see `STRUCTURED_OUTPUT_TOOL`). */
+  private mapStructuredOutputTool(params: GenerateParams): AnthropicTool | undefined {
+    const { responseFormat } = params
+    if (responseFormat?.type !== 'json_object' || !responseFormat.schema) return undefined
+    if (params.tools?.length) throw new UnsupportedFeatureError(this.provider, 'responseFormat.schema with tools')
+    if (mapReasoningOptions(params)) {
+      throw new UnsupportedFeatureError(this.provider, 'responseFormat.schema with reasoning')
+    }
+    if (responseFormat.schema.type !== 'object') {
+      throw new MappingError(
+        `Invalid responseFormat.schema. Anthropic requires a JSON Schema object with top-level 'type: "object"'.`,
+        this.provider
+      )
+    }
+    return {
+      name: STRUCTURED_OUTPUT_TOOL,
+      description: responseFormat.description ?? 'Respond with JSON matching the input schema.',
+      input_schema: responseFormat.schema as AnthropicToolType.InputSchema
+    }
+  }
+
   // --- Result Mapping ---
 
   private mapToolCallsFromAnthropic(
@@ -296,6 +404,7 @@ export class AnthropicMapper implements IProviderMapper {
     if (!Array.isArray(contentBlocks)) return undefined
     const toolCalls: RosettaToolCallRequest[] = contentBlocks
       .filter((block): block is AnthropicToolUseBlock => block.type === 'tool_use')
+      .filter(block => block.name !== STRUCTURED_OUTPUT_TOOL)
       .map(block => ({
         id: block.id,
         type: 'function',
@@ -307,26 +416,40 @@ export class AnthropicMapper implements IProviderMapper {
   mapFromProviderResponse(response: AnthropicMessage, model: string): GenerateResult {
     let combinedTextContent: string | null = null
     let thinkingText: string | null = null
+    const reasoningBlocks: RosettaReasoningBlock[] = []
     const responseContent = response.content as AnthropicResponseContentBlock[]
 
     if (Array.isArray(responseContent)) {
       const textParts: string[] = []
+      const thinkingParts: string[] = []
       responseContent.forEach(block => {
         if (block.type === 'text') {
           textParts.push(block.text)
-        } else if (block.type === 'thinking' && typeof block.thinking === 'string') {
-          thinkingText = block.thinking
+        } else if (block.type === 'thinking' || block.type === 'redacted_thinking') {
+          // Kept verbatim: Anthropic checks the signature when the block is sent back
+          reasoningBlocks.push({ provider: this.provider, data: { ...block } })
+          if (block.type === 'thinking' && typeof block.thinking === 'string') thinkingParts.push(block.thinking)
         }
         // Ignore tool_use blocks for combined text content
       })
       if (textParts.length > 0) {
         combinedTextContent = textParts.join('')
       }
+      if (thinkingParts.length > 0) {
+        thinkingText = thinkingParts.join('\n')
+      }
     }
 
     const toolCalls = this.mapToolCallsFromAnthropic(responseContent)
+    const structuredOutput = Array.isArray(responseContent)
+      ? responseContent.find(
+          (block): block is AnthropicToolUseBlock => block.type === 'tool_use' && block.name === STRUCTURED_OUTPUT_TOOL
+        )
+      : undefined
     const finishReason =
-      response.stop_reason === 'tool_use'
+      response.stop_reason === 'tool_use' && structuredOutput
+        ? 'stop'
+        : response.stop_reason === 'tool_use'
         ? 'tool_calls'
         : response.stop_reason === 'max_tokens'
         ? 'length'
@@ -340,13 +463,14 @@ export class AnthropicMapper implements IProviderMapper {
     const usage = mapTokenUsage(response.usage)
 
     return {
-      content: combinedTextContent,
+      content: structuredOutput ? JSON.stringify(structuredOutput.input) : combinedTextContent,
       toolCalls: toolCalls,
       finishReason: finishReason,
       usage: usage, // Use mapped usage
       thinkingSteps: thinkingText,
+      reasoningBlocks: reasoningBlocks.length > 0 ? reasoningBlocks : undefined,
       citations: undefined,
-      parsedContent: null,
+      parsedContent: structuredOutput ? (structuredOutput.input as GenerateResult['parsedContent']) : null,
       model: response.model ?? model,
       rawResponse: response
     }
@@ -361,12 +485,17 @@ export class AnthropicMapper implements IProviderMapper {
     let model = ''
     const toolCallArgAccumulators: Record<string, { id: string; name: string; args: string; index: number }> = {}
     const toolCallIdByIndex: Record<number, string> = {}
+    const thinkingBlockByIndex: Record<number, AnthropicThinkingBlock> = {} // Completed by the thinking deltas
+    let structuredOutputIndex: number | undefined // Index of the STRUCTURED_OUTPUT_TOOL block, streamed as JSON
     let aggregatedResult: GenerateResult | null = null
 
     try {
       for await (const event of stream) {
         if (typeof event !== 'object' || !event || !('type' in event)) {
-          console.warn('Received unexpected event format from Anthropic stream:', event)
+          getLog().warn('malformed_response', 'Received unexpected event format from Anthropic stream:', {
+            context: 'mapProviderStream',
+            data: event
+          })
           continue
         }
 
@@ -383,6 +512,7 @@ export class AnthropicMapper implements IProviderMapper {
               usage: undefined,
               model: model,
               thinkingSteps: null,
+              reasoningBlocks: [],
               citations: undefined,
               parsedContent: null,
               rawResponse: undefined
@@ -392,6 +522,14 @@ export class AnthropicMapper implements IProviderMapper {
             if (event.content_block.type === 'thinking') {
               yield { type: 'thinking_start' }
               thinkingStarted = true
+              const thinkingBlock: AnthropicThinkingBlock = { ...event.content_block }
+              thinkingBlockByIndex[event.index] = thinkingBlock
+              if (aggregatedResult?.thinkingSteps) aggregatedResult.thinkingSteps += '\n'
+              aggregatedResult?.reasoningBlocks?.push({ provider: this.provider, data: thinkingBlock })
+            } else if (event.content_block.type === 'redacted_thinking') {
+              aggregatedResult?.reasoningBlocks?.push({ provider: this.provider, data: { ...event.content_block } })
+            } else if (event.content_block.type === 'tool_use' && event.content_block.name === STRUCTURED_OUTPUT_TOOL) {
+              structuredOutputIndex = event.index
             } else if (event.content_block.type === 'tool_use') {
               const toolUse = event.content_block
               const index = event.index
@@ -415,6 +553,20 @@ export class AnthropicMapper implements IProviderMapper {
               yield { type: 'thinking_delta', data: { delta: event.delta.thinking } }
               if (aggregatedResult)
                 aggregatedResult.thinkingSteps = (aggregatedResult.thinkingSteps ?? '') + event.delta.thinking
+              const thinkingBlock = thinkingBlockByIndex[event.index]
+              if (thinkingBlock) thinkingBlock.thinking += event.delta.thinking
+            } else if (event.delta.type === 'signature_delta') {
+              const thinkingBlock = thinkingBlockByIndex[event.index]
+              if (thinkingBlock) thinkingBlock.signature = (thinkingBlock.signature ?? '') + event.delta.signature
+            } else if (event.delta.type === 'input_json_delta' && event.index === structuredOutputIndex) {
+              const delta = event.delta.partial_json
+              const snapshot = (aggregatedResult?.content ?? '') + delta
+              if (aggregatedResult) aggregatedResult.content = snapshot
+              let parsed = undefined
+              try {
+                parsed = JSON.parse(snapshot)
+              } catch {}
+              yield { type: 'json_delta', data: { delta, parsed, snapshot } }
             } else if (event.delta.type === 'input_json_delta') {
               const index = event.index
               const currentToolCallId = toolCallIdByIndex[index]
@@ -425,7 +577,9 @@ export class AnthropicMapper implements IProviderMapper {
                   data: { index, id: currentToolCallId, functionArgumentChunk: event.delta.partial_json }
                 }
               } else {
-                console.warn(`Received input_json_delta for unknown tool index: ${index}`)
+                getLog().warn('malformed_response', `Received input_json_delta for unknown tool index: ${index}`, {
+                  context: 'mapProviderStream'
+                })
               }
             }
             break
@@ -434,6 +588,16 @@ export class AnthropicMapper implements IProviderMapper {
             const stoppedBlockIndex = stoppedEvent.index
             const finishedToolCallId = toolCallIdByIndex[stoppedBlockIndex]
 
+            if (stoppedBlockIndex === structuredOutputIndex) {
+              const snapshot = aggregatedResult?.content ?? ''
+              let parsed = null
+              try {
+                parsed = JSON.parse(snapshot)
+              } catch {}
+              yield { type: 'json_done', data: { parsed, snapshot } }
+              if (aggregatedResult) aggregatedResult.parsedContent = parsed
+            }
+
             if (finishedToolCallId && toolCallArgAccumulators[finishedToolCallId]) {
               const toolData = toolCallArgAccumulators[finishedToolCallId]
               yield { type: 'tool_call_done', data: { index: stoppedBlockIndex, id: finishedToolCallId } }
@@ -457,8 +621,9 @@ export class AnthropicMapper implements IProviderMapper {
             // Use common utility for usage mapping
             const deltaUsage = mapTokenUsage(event.usage)
             if (deltaUsage?.completionTokens !== undefined) {
-              // Update currentUsage, preserving prompt tokens if already set
+              // Update currentUsage, preserving prompt (and prompt cache) tokens if already set
               currentUsage = {
+                ...currentUsage,
                 promptTokens: currentUsage?.promptTokens, // Keep existing prompt tokens
                 completionTokens: deltaUsage.completionTokens,
                 // FIX: Calculate totalTokens correctly
@@ -470,7 +635,9 @@ export class AnthropicMapper implements IProviderMapper {
             }
             if (event.delta.stop_reason) {
               finalFinishReason =
-                event.delta.stop_reason === 'tool_use'
+                event.delta.stop_reason === 'tool_use' && structuredOutputIndex !== undefined
+                  ? 'stop'
+                  : event.delta.stop_reason === 'tool_use'
                   ? 'tool_calls'
                   : event.delta.stop_reason === 'max_tokens'
                   ? 'length'
@@ -493,9 +660,12 @@ export class AnthropicMapper implements IProviderMapper {
               aggregatedResult.finishReason = finalFinishReason
               if (aggregatedResult.content === '') aggregatedResult.content = null
               if (aggregatedResult.toolCalls?.length === 0) aggregatedResult.toolCalls = undefined
+              if (aggregatedResult.reasoningBlocks?.length === 0) aggregatedResult.reasoningBlocks = undefined
               yield { type: 'final_result', data: { result: aggregatedResult } }
             } else {
-              console.warn('Message stop received but no aggregated result was built.')
+              getLog().warn('malformed_response', 'Message stop received but no aggregated result was built.', {
+                context: 'mapProviderStream'
+              })
             }
             break
         }
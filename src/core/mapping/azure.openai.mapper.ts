@@ -35,6 +35,8 @@ import {
   TranscriptionResult,
   StreamChunk,
   Provider,
+  ProviderId,
+  ProviderOptions,
   RosettaAIConfig
 } from '../../types'
 import { MappingError, UnsupportedFeatureError, ConfigurationError, RosettaAIError } from '../../errors'
@@ -44,6 +46,8 @@ import {
   mapContentForOpenAIRole,
   mapFromOpenAIResponse,
   mapOpenAIStream,
+  mapResponseFormatToOpenAI,
+  mapReasoningToOpenAI,
   mapRoleToOpenAI,
   wrapOpenAIError
 } from './openai.common'
@@ -56,7 +60,7 @@ import {
 } from './openai.audio.mapper'
 
 export class AzureOpenAIMapper implements IProviderMapper {
-  readonly provider = Provider.OpenAI // Azure uses the OpenAI provider key
+  readonly provider = Provider.AzureOpenAI
 
   // Store config for deployment ID lookups
   private config: RosettaAIConfig
@@ -65,14 +69,21 @@ export class AzureOpenAIMapper implements IProviderMapper {
     this.config = config
   }
 
+  // Options keyed by the Azure provider, falling back to the legacy 'openai' key
+  private getGlobalProviderOptions(): ProviderOptions | undefined {
+    return this.config.providerOptions?.[Provider.AzureOpenAI] ?? this.config.providerOptions?.[Provider.OpenAI]
+  }
+
   // --- Chat/Completion Mapping ---
 
   mapToProviderParams(
     params: GenerateParams
   ): ChatCompletionCreateParamsNonStreaming | ChatCompletionCreateParamsStreaming {
+    // `model` names the deployment, e.g. one returned by `listModels`
     const deploymentId =
       params.providerOptions?.azureChatDeploymentId ??
-      this.config.providerOptions?.[Provider.OpenAI]?.azureChatDeploymentId ??
+      params.model ??
+      this.getGlobalProviderOptions()?.azureChatDeploymentId ??
       this.config.azureOpenAIDefaultChatDeploymentName
 
     if (!deploymentId) {
@@ -164,19 +175,8 @@ export class AzureOpenAIMapper implements IProviderMapper {
       openAIToolChoice = { type: 'function', function: { name: baseToolChoice.function.name } }
     }
 
-    let responseFormat: { type: 'text' | 'json_object' } | undefined
-    if (params.responseFormat?.type === 'json_object') {
-      responseFormat = { type: 'json_object' }
-      if (params.responseFormat.schema) {
-        console.warn(
-          'Azure OpenAI JSON mode: schema parameter provided in responseFormat is ignored. Describe the desired schema in the prompt.'
-        )
-      }
-    } else if (params.responseFormat?.type === 'text') {
-      responseFormat = { type: 'text' }
-    }
+    const responseFormat = mapResponseFormatToOpenAI(params.responseFormat)
 
-    if (params.thinking) throw new UnsupportedFeatureError(this.provider, 'Thinking steps')
     if (params.grounding) throw new UnsupportedFeatureError(this.provider, 'Grounding/Citations')
 
     const baseMappedParams = mapBaseParams(params)
@@ -184,7 +184,7 @@ export class AzureOpenAIMapper implements IProviderMapper {
     const basePayload = {
       model: deploymentId, // Use deployment ID as model for Azure
       messages,
-      max_tokens: baseMappedParams.maxTokens,
+      ...mapReasoningToOpenAI(params),
       temperature: baseMappedParams.temperature,
       top_p: baseMappedParams.topP,
       stop: baseMappedParams.stopSequences,
@@ -222,7 +222,8 @@ export class AzureOpenAIMapper implements IProviderMapper {
   mapToEmbedParams(params: EmbedParams): EmbeddingCreateParams {
     const deploymentId =
       params.providerOptions?.azureEmbeddingDeploymentId ??
-      this.config.providerOptions?.[Provider.OpenAI]?.azureEmbeddingDeploymentId ??
+      params.model ??
+      this.getGlobalProviderOptions()?.azureEmbeddingDeploymentId ??
       this.config.azureOpenAIDefaultEmbeddingDeploymentName
     if (!deploymentId) {
       throw new ConfigurationError('Azure embedding deployment ID/name must be configured.')
@@ -269,7 +270,7 @@ export class AzureOpenAIMapper implements IProviderMapper {
   }
 
   // --- Error Handling ---
-  wrapProviderError(error: unknown, provider: Provider): RosettaAIError {
+  wrapProviderError(error: unknown, provider: ProviderId): RosettaAIError {
     // Reuse the same logic as standard OpenAI error wrapping
     return wrapOpenAIError(error, provider)
   }
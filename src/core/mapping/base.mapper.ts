@@ -7,7 +7,7 @@ import {
   TranslateParams,
   TranscriptionResult,
   StreamChunk,
-  Provider
+  ProviderId
 } from '../../types'
 import { RosettaAIError } from '../../errors'
 
@@ -18,7 +18,7 @@ import { RosettaAIError } from '../../errors'
  */
 export interface IProviderMapper {
   /** The provider this mapper handles. */
-  readonly provider: Provider
+  readonly provider: ProviderId
 
   // --- Chat/Completion Mapping ---
 
@@ -111,5 +111,5 @@ export interface IProviderMapper {
    * @param provider - The provider associated with the error.
    * @returns A RosettaAIError instance.
    */
-  wrapProviderError(error: unknown, provider: Provider): RosettaAIError
+  wrapProviderError(error: unknown, provider: ProviderId): RosettaAIError
 }
@@ -1,4 +1,5 @@
-import { TokenUsage, GenerateParams } from '../../types'
+import { TokenUsage, GenerateParams, ReasoningEffort, ReasoningOptions, RosettaMessage } from '../../types'
+import { getLog } from '../logger'
 import { safeGet } from '../utils' // Import safeGet from the existing utils file
 
 /**
@@ -43,6 +44,26 @@ export function mapTokenUsage(providerUsage: any): TokenUsage | undefined {
     totalTokens = safeGet<number>(providerUsage, 'total_tokens') ?? undefined // OpenAI/Groq style
   }
 
+  // Reasoning tokens: OpenAI/Groq count them within completion_tokens, Google separately from candidatesTokenCount
+  let reasoningTokens = safeGet<number>(providerUsage, 'completion_tokens_details', 'reasoning_tokens')
+  const thoughtsTokenCount = safeGet<number>(providerUsage, 'thoughtsTokenCount')
+  if (thoughtsTokenCount !== undefined) {
+    reasoningTokens = thoughtsTokenCount
+    completionTokens = (completionTokens ?? 0) + thoughtsTokenCount
+  }
+
+  // Prompt cache: OpenAI/Groq and Google count cache reads within the prompt tokens, while Anthropic reports
+  // cache reads and writes separately from input_tokens
+  const anthropicCacheReadTokens = safeGet<number>(providerUsage, 'cache_read_input_tokens') ?? undefined
+  const cacheWriteTokens = safeGet<number>(providerUsage, 'cache_creation_input_tokens') ?? undefined
+  const cacheReadTokens =
+    safeGet<number>(providerUsage, 'prompt_tokens_details', 'cached_tokens') ??
+    safeGet<number>(providerUsage, 'cachedContentTokenCount') ??
+    anthropicCacheReadTokens
+  if (anthropicCacheReadTokens || cacheWriteTokens) {
+    promptTokens = (promptTokens ?? 0) + (anthropicCacheReadTokens ?? 0) + (cacheWriteTokens ?? 0)
+  }
+
   // Calculate totalTokens if prompt and completion are available but total is not
   if (totalTokens === undefined && promptTokens !== undefined && completionTokens !== undefined) {
     totalTokens = promptTokens + completionTokens
@@ -58,12 +79,11 @@ export function mapTokenUsage(providerUsage: any): TokenUsage | undefined {
     totalTokens !== undefined ||
     cachedContentTokenCount !== undefined
   ) {
-    return {
-      promptTokens,
-      completionTokens,
-      totalTokens,
-      cachedContentTokenCount
-    }
+    const usage: TokenUsage = { promptTokens, completionTokens, totalTokens, cachedContentTokenCount }
+    if (reasoningTokens !== undefined) usage.reasoningTokens = reasoningTokens
+    if (cacheReadTokens !== undefined) usage.cacheReadTokens = cacheReadTokens
+    if (cacheWriteTokens !== undefined) usage.cacheWriteTokens = cacheWriteTokens
+    return usage
   }
 
   return undefined
@@ -95,6 +115,41 @@ export function mapBaseParams(
   }
 }
 
+/** Whether a message, or one of its content parts, marks the end of a prompt prefix to cache. */
+export function hasCacheBreakpoint(message: RosettaMessage): boolean {
+  return (
+    !!message.cacheBreakpoint || (Array.isArray(message.content) && message.content.some(part => part.cacheBreakpoint))
+  )
+}
+
+/** Reasoning token budgets of the `reasoning.effort` levels, for providers that take a budget (Anthropic, Google). */
+export const REASONING_BUDGETS: Record<ReasoningEffort, number> = { low: 1024, medium: 4096, high: 16384 }
+
+/**
+ * Resolves the reasoning controls of a request: `reasoning` as given, or the deprecated `thinking` flag as a
+ * 1024-token budget.
+ *
+ * @returns The reasoning options, or undefined if reasoning was not requested.
+ */
+export function mapReasoningOptions(params: GenerateParams): ReasoningOptions | undefined {
+  if (params.reasoning) return params.reasoning
+  return params.thinking ? { budgetTokens: REASONING_BUDGETS.low } : undefined
+}
+
+/** Maps reasoning options to a token budget: `budgetTokens`, or the budget of `effort` (default 'medium'). */
+export function mapReasoningBudget(reasoning: ReasoningOptions): number {
+  return reasoning.budgetTokens ?? REASONING_BUDGETS[reasoning.effort ?? 'medium']
+}
+
+/** Maps reasoning options to an effort level: `effort`, or the lowest level whose budget covers `budgetTokens`. */
+export function mapReasoningEffort(reasoning: ReasoningOptions): ReasoningEffort {
+  const { effort, budgetTokens } = reasoning
+  if (effort) return effort
+  if (budgetTokens === undefined) return 'medium'
+  const levels: ReasoningEffort[] = ['low', 'medium', 'high']
+  return levels.find(level => budgetTokens <= REASONING_BUDGETS[level]) ?? 'high'
+}
+
 /**
  * Maps the base RosettaAI tool choice options to a standardized intermediate representation
  * or directly to common provider values ('auto', 'none').
@@ -114,7 +169,11 @@ export function mapBaseToolChoice(
   } else if (toolChoice) {
     // If it's defined but not a recognized format, default to 'auto' and warn?
     // Or return undefined and let the provider mapper handle the default? Let's return undefined.
-    console.warn(`Unsupported tool_choice format encountered in common mapping: ${JSON.stringify(toolChoice)}`)
+    getLog().warn(
+      'unsupported_tool_choice',
+      `Unsupported tool_choice format encountered in common mapping: ${JSON.stringify(toolChoice)}`,
+      { context: 'mapBaseToolChoice' }
+    )
     return undefined
   }
   return undefined // Return undefined if toolChoice is not set
@@ -4,6 +4,7 @@ import { EmbedContentResponse, BatchEmbedContentsResponse } from '@google/genera
 import { EmbedResult, Provider } from '../../types'
 import { MappingError } from '../../errors'
 import { mapTokenUsage } from './common.utils'
+import { getLog } from '../logger'
 
 // Removed mapUsageFromGoogleEmbed as mapTokenUsage handles it
 
@@ -42,7 +43,9 @@ export function mapFromGoogleEmbedBatchResponse(response: BatchEmbedContentsResp
 
   if (embeddings.length !== response.embeddings.length) {
     // Check if any were filtered out
-    console.warn('Some embeddings were missing values in Google batch response.')
+    getLog().warn('malformed_response', 'Some embeddings were missing values in Google batch response.', {
+      context: 'mapFromGoogleEmbedBatchResponse'
+    })
   }
   if (embeddings.length === 0 && response.embeddings.length > 0) {
     throw new MappingError('All embeddings were missing values in Google batch response.', Provider.Google)
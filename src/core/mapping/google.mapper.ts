@@ -1,18 +1,18 @@
 import {
   Content as GoogleContent,
   FunctionCall,
+  FunctionDeclaration,
   Tool as GoogleTool,
   GenerateContentRequest,
   GenerateContentResponse,
   StartChatParams,
   CitationMetadata,
-  SchemaType as GoogleSchemaType,
-  FunctionDeclarationSchema,
   FunctionCallPart,
   TextPart,
   Part as GooglePart,
   EmbedContentRequest,
-  BatchEmbedContentsRequest
+  BatchEmbedContentsRequest,
+  ResponseSchema
 } from '@google/generative-ai'
 import {
   GenerateParams,
@@ -32,8 +32,27 @@ import {
 import { MappingError, ProviderAPIError, RosettaAIError, UnsupportedFeatureError } from '../../errors'
 import { safeGet } from '../utils'
 import { IProviderMapper } from './base.mapper'
-import { mapTokenUsage, mapBaseParams } from './common.utils'
+import {
+  mapTokenUsage,
+  mapBaseParams,
+  mapReasoningOptions,
+  mapReasoningBudget,
+  hasCacheBreakpoint
+} from './common.utils'
 import * as GoogleEmbedMapper from './google.embed.mapper'
+import { mapToGoogleFunctionParameters, mapToGoogleSchema } from './google.schema'
+import { getLog } from '../logger'
+
+/** Gemini's `generationConfig.thinkingConfig`, which the SDK does not type yet. */
+interface GoogleThinkingConfig {
+  thinkingBudget: number
+  includeThoughts: boolean
+}
+
+/** Whether a text part holds the model's thoughts rather than its answer (`includeThoughts`). */
+function isThoughtPart(part: TextPart): boolean {
+  return (part as TextPart & { thought?: boolean }).thought === true
+}
 
 export class GoogleMapper implements IProviderMapper {
   readonly provider = Provider.Google
@@ -58,20 +77,26 @@ export class GoogleMapper implements IProviderMapper {
 
   private mapContentToGoogleParts(content: RosettaMessage['content']): GooglePart[] {
     if (content === null) {
-      console.warn('Mapping null content to empty parts array for Google history.')
+      getLog().warn('empty_content', 'Mapping null content to empty parts array for Google history.', {
+        context: 'mapContentToGoogleParts'
+      })
       return []
     }
     if (typeof content === 'string') {
       // Handle empty string case - return empty array as Google requires non-empty parts for user messages
       if (content === '') {
-        console.warn('Mapping empty string content to empty parts array for Google history.')
+        getLog().warn('empty_content', 'Mapping empty string content to empty parts array for Google history.', {
+          context: 'mapContentToGoogleParts'
+        })
         return []
       }
       return [{ text: content }]
     }
     // Handle empty array case
     if (Array.isArray(content) && content.length === 0) {
-      console.warn('Mapping empty content array to empty parts array for Google history.')
+      getLog().warn('empty_content', 'Mapping empty content array to empty parts array for Google history.', {
+        context: 'mapContentToGoogleParts'
+      })
       return []
     }
     return content.map(part => {
@@ -83,15 +108,6 @@ export class GoogleMapper implements IProviderMapper {
     })
   }
 
-  private isFunctionDeclarationSchema(schema: any): schema is FunctionDeclarationSchema {
-    return (
-      typeof schema === 'object' &&
-      schema !== null &&
-      'type' in schema &&
-      Object.values(GoogleSchemaType).includes(schema.type)
-    )
-  }
-
   private findLastToolCallName(history: GoogleContent[], _toolCallId: string): string | undefined {
     for (let i = history.length - 1; i >= 0; i--) {
       const prevMsg = history[i]
@@ -103,14 +119,28 @@ export class GoogleMapper implements IProviderMapper {
         }
       }
     }
-    console.warn(`Could not determine preceding function name for tool result (ID: ${_toolCallId}) from history.`)
+    getLog().warn(
+      'unresolved_tool_result',
+      `Could not determine preceding function name for tool result (ID: ${_toolCallId}) from history.`,
+      { context: 'findLastToolCallName' }
+    )
     return undefined
   }
 
+  /**
+   * Maps a request to Google's format. `cachePrefixLength` is set for chats with a cache breakpoint before the
+   * last message: the number of `history` entries that, with the system instruction and tools, form the prompt
+   * prefix the provider caches as cached content.
+   */
   mapToProviderParams(
     params: GenerateParams
-  ): { googleMappedParams: GenerateContentRequest | (StartChatParams & { contents: GooglePart[] }); isChat: boolean } {
+  ): {
+    googleMappedParams: GenerateContentRequest | (StartChatParams & { contents: GooglePart[] })
+    isChat: boolean
+    cachePrefixLength?: number
+  } {
     let systemInstruction: GoogleContent | undefined = undefined
+    let cachePrefixLength: number | undefined
     const history: GoogleContent[] = []
     const messagesToProcess = [...params.messages]
 
@@ -119,7 +149,13 @@ export class GoogleMapper implements IProviderMapper {
       throw new MappingError('No messages provided to map for Google.', this.provider)
     }
 
-    messagesToProcess.forEach(msg => {
+    // A cache breakpoint covers the history up to and including its message
+    const markCachePrefix = (msg: RosettaMessage | undefined): void => {
+      if (msg && msg.role !== 'system' && hasCacheBreakpoint(msg)) cachePrefixLength = history.length
+    }
+
+    messagesToProcess.forEach((msg, index) => {
+      markCachePrefix(messagesToProcess[index - 1])
       const googleRole = this.mapRoleToGoogle(msg.role)
 
       if (googleRole === 'system') {
@@ -128,6 +164,7 @@ export class GoogleMapper implements IProviderMapper {
         if (typeof msg.content !== 'string')
           throw new MappingError('Google system instruction must be string.', this.provider)
         systemInstruction = { role: 'system', parts: [{ text: msg.content }] }
+        if (msg.cacheBreakpoint) cachePrefixLength = cachePrefixLength ?? 0
         return
       }
 
@@ -137,7 +174,11 @@ export class GoogleMapper implements IProviderMapper {
         // Allow empty parts for model role if tool calls are present
         // @ts-ignore
         if (!(googleRole === 'model' && msg.toolCalls && msg.toolCalls.length > 0)) {
-          console.warn(`Skipping history message with role '${googleRole}' due to empty content parts.`)
+          getLog().warn(
+            'empty_content',
+            `Skipping history message with role '${googleRole}' due to empty content parts.`,
+            { context: 'mapToProviderParams' }
+          )
           return
         }
       }
@@ -160,7 +201,9 @@ export class GoogleMapper implements IProviderMapper {
         const finalParts = [...existingTextParts, ...functionCallParts]
         if (finalParts.length === 0) {
           // This case should be rare, but handle defensively
-          console.warn(`Model message with tool calls resulted in empty parts array.`)
+          getLog().warn('empty_content', `Model message with tool calls resulted in empty parts array.`, {
+            context: 'mapToProviderParams'
+          })
           return // Skip adding empty message
         }
         history.push({ role: googleRole, parts: finalParts })
@@ -183,7 +226,11 @@ export class GoogleMapper implements IProviderMapper {
           respContent = JSON.parse(msg.content)
         } catch {
           respContent = { content: msg.content } // Wrap non-JSON string content
-          console.warn(`Tool result content for ${funcName} was not valid JSON. Wrapping as { content: "..." }`)
+          getLog().warn(
+            'tool_result_not_json',
+            `Tool result content for ${funcName} was not valid JSON. Wrapping as { content: "..." }`,
+            { context: 'mapToProviderParams' }
+          )
         }
         history.push({ role: googleRole, parts: [{ functionResponse: { name: funcName, response: respContent } }] })
       } else {
@@ -191,11 +238,17 @@ export class GoogleMapper implements IProviderMapper {
         if (parts.length > 0) {
           history.push({ role: googleRole, parts })
         } else {
-          console.warn(`Skipping history message with role '${googleRole}' due to empty content parts.`)
+          getLog().warn(
+            'empty_content',
+            `Skipping history message with role '${googleRole}' due to empty content parts.`,
+            { context: 'mapToProviderParams' }
+          )
         }
       }
     })
 
+    markCachePrefix(messagesToProcess[messagesToProcess.length - 1])
+
     let currentTurnParts: GooglePart[]
     const lastMessageRole = this.mapRoleToGoogle(lastMessage.role)
 
@@ -218,7 +271,11 @@ export class GoogleMapper implements IProviderMapper {
         respContent = JSON.parse(lastMessage.content)
       } catch {
         respContent = { content: lastMessage.content } // Wrap non-JSON string content
-        console.warn(`Final tool result content for ${funcName} was not valid JSON. Wrapping as { content: "..." }`)
+        getLog().warn(
+          'tool_result_not_json',
+          `Final tool result content for ${funcName} was not valid JSON. Wrapping as { content: "..." }`,
+          { context: 'mapToProviderParams' }
+        )
       }
       currentTurnParts = [{ functionResponse: { name: funcName, response: respContent } }]
     } else if (lastMessageRole === 'user') {
@@ -238,67 +295,85 @@ export class GoogleMapper implements IProviderMapper {
       if (tool.type !== 'function') {
         throw new MappingError(`Only 'function' tools are currently supported for Google.`, this.provider)
       }
-      const schema = tool.function.parameters
-      if (!this.isFunctionDeclarationSchema(schema)) {
-        throw new MappingError(
-          `Invalid parameters schema for tool ${tool.function.name}. Expected FunctionDeclarationSchema.`,
-          this.provider
-        )
-      }
-      return {
-        functionDeclarations: [{ name: tool.function.name, description: tool.function.description, parameters: schema }]
-      }
+      // Standard JSON Schema is converted to Google's dialect, so the same tool works across providers
+      const schema = mapToGoogleFunctionParameters(tool.function.parameters, tool.function.name)
+      const declaration: FunctionDeclaration = { name: tool.function.name, description: tool.function.description }
+      if (schema) declaration.parameters = schema
+      return { functionDeclarations: [declaration] }
     })
 
     let finalTools = googleTools
     if (params.grounding?.enabled) {
       const searchTool: GoogleTool = { googleSearchRetrieval: {} }
       if (params.grounding.source && params.grounding.source !== 'web') {
-        console.warn(
-          `Only 'web' grounding source currently mapped for Google Search Retrieval. Ignoring source: ${params.grounding.source}`
+        getLog().warn(
+          'ignored_parameter',
+          `Only 'web' grounding source currently mapped for Google Search Retrieval. Ignoring source: ${params.grounding.source}`,
+          { context: 'mapToProviderParams' }
         )
       }
       finalTools = finalTools ? [...finalTools, searchTool] : [searchTool]
     }
 
     let responseMimeType: string | undefined
+    let responseSchema: ResponseSchema | undefined
     if (params.responseFormat?.type === 'json_object') {
       responseMimeType = 'application/json'
       if (params.responseFormat.schema) {
-        console.warn(
-          'Google JSON mode requested via responseFormat. Ensure schema is described in the prompt. `schema` parameter is ignored for Google GenerationConfig.'
-        )
+        responseSchema = mapToGoogleSchema(params.responseFormat.schema, 'responseFormat.schema')
       }
     }
 
     // Use common utility for base parameters
     const baseMappedParams = mapBaseParams(params)
 
+    // Gemini thinking models take a token budget and only return their thoughts when asked to
+    const reasoning = mapReasoningOptions(params)
+    const thinkingConfig: GoogleThinkingConfig | undefined = reasoning && {
+      thinkingBudget: mapReasoningBudget(reasoning),
+      includeThoughts: reasoning.includeReasoning !== false
+    }
+
     const generationConfig = {
       maxOutputTokens: baseMappedParams.maxTokens,
       temperature: baseMappedParams.temperature,
       topP: baseMappedParams.topP,
       stopSequences: baseMappedParams.stopSequences,
-      responseMimeType: responseMimeType
+      responseMimeType: responseMimeType,
+      responseSchema,
+      ...(thinkingConfig && { thinkingConfig })
     }
 
     // Determine if it's a chat or single-turn request
     const isChat = history.length > 0 || !!systemInstruction
 
+    // An existing cached content resource holds the start of the conversation instead
+    const cachedContent = params.promptCache?.cachedContentName
+    if (!cachedContent && cachePrefixLength === undefined && hasCacheBreakpoint(lastMessage)) {
+      getLog().warn(
+        'prompt_cache_failed',
+        'Google can only cache the prompt before the final message; sending the prompt uncached.',
+        { context: 'mapToProviderParams' }
+      )
+    }
+
     if (isChat) {
       const chatParams: StartChatParams = {
         history,
         generationConfig,
         tools: finalTools,
-        systemInstruction
+        systemInstruction,
+        ...(cachedContent && { cachedContent })
       }
-      return { googleMappedParams: { ...chatParams, contents: currentTurnParts }, isChat: true }
+      const mapped = { googleMappedParams: { ...chatParams, contents: currentTurnParts }, isChat: true }
+      return cachedContent || cachePrefixLength === undefined ? mapped : { ...mapped, cachePrefixLength }
     } else {
       const request: GenerateContentRequest = {
         contents: [{ role: 'user', parts: currentTurnParts }],
         generationConfig,
         tools: finalTools,
-        systemInstruction
+        systemInstruction,
+        ...(cachedContent && { cachedContent })
       }
       return { googleMappedParams: request, isChat: false }
     }
@@ -340,7 +415,11 @@ export class GoogleMapper implements IProviderMapper {
           : promptFeedbackReason === 'OTHER'
           ? 'error'
           : promptFeedbackReason.toLowerCase()
-      console.warn(`Google prompt blocked. Reason: ${fr}. Ratings: ${JSON.stringify(promptFeedbackSafetyRatings)}`)
+      getLog().warn(
+        'content_blocked',
+        `Google prompt blocked. Reason: ${fr}. Ratings: ${JSON.stringify(promptFeedbackSafetyRatings)}`,
+        { context: 'mapFromProviderResponse' }
+      )
       return {
         content: null,
         toolCalls: undefined,
@@ -359,7 +438,9 @@ export class GoogleMapper implements IProviderMapper {
     const candidateSafetyRatings = candidate?.safetyRatings
 
     if (!response || !candidate) {
-      console.warn('Google response or candidate is missing despite no prompt block.')
+      getLog().warn('malformed_response', 'Google response or candidate is missing despite no prompt block.', {
+        context: 'mapFromProviderResponse'
+      })
       return {
         content: null,
         toolCalls: undefined,
@@ -378,8 +459,12 @@ export class GoogleMapper implements IProviderMapper {
     let parsedJson: any = null
     let finishReason = candidateFinishReason ?? 'unknown'
 
+    let thinkingSteps: string | undefined
     if (candidate.content?.parts) {
-      const textParts = candidate.content.parts.filter((p): p is TextPart => p && 'text' in p)
+      const allTextParts = candidate.content.parts.filter((p): p is TextPart => p && 'text' in p)
+      const thoughtParts = allTextParts.filter(isThoughtPart)
+      if (thoughtParts.length > 0) thinkingSteps = thoughtParts.map(p => p.text).join('')
+      const textParts = allTextParts.filter(p => !isThoughtPart(p))
       if (textParts.length > 0) {
         textContent = textParts.map(p => p.text).join('')
         const isJsonLike = textContent?.trim().startsWith('{') || textContent?.trim().startsWith('[')
@@ -388,7 +473,10 @@ export class GoogleMapper implements IProviderMapper {
           try {
             parsedJson = JSON.parse(textContent)
           } catch (e) {
-            console.warn('Failed to auto-parse potential JSON from Google:', e)
+            getLog().warn('json_parse_failed', 'Failed to auto-parse potential JSON from Google:', {
+              context: 'mapFromProviderResponse',
+              error: e
+            })
           }
         }
       }
@@ -407,7 +495,11 @@ export class GoogleMapper implements IProviderMapper {
 
     if (candidateFinishReason === 'SAFETY') {
       finishReason = 'content_filter'
-      console.warn(`Google candidate blocked due to safety. Ratings: ${JSON.stringify(candidateSafetyRatings)}`)
+      getLog().warn(
+        'content_blocked',
+        `Google candidate blocked due to safety. Ratings: ${JSON.stringify(candidateSafetyRatings)}`,
+        { context: 'mapFromProviderResponse' }
+      )
     } else if (candidateFinishReason === 'RECITATION') {
       finishReason = 'recitation_filter'
     } else if (candidateFinishReason === 'MAX_TOKENS') {
@@ -427,7 +519,7 @@ export class GoogleMapper implements IProviderMapper {
       usage: mapTokenUsage(response.usageMetadata), // Use common utility
       citations: citations,
       parsedContent: parsedJson,
-      thinkingSteps: undefined,
+      thinkingSteps,
       model: model,
       rawResponse: response
     }
@@ -444,6 +536,7 @@ export class GoogleMapper implements IProviderMapper {
     const model = '' // Model name isn't directly in the stream chunks
     let isPotentiallyJson = false
     let aggregatedResult: GenerateResult | null = null
+    let thinkingStarted = false
 
     try {
       // Yield message_start immediately (model unknown initially)
@@ -475,12 +568,33 @@ export class GoogleMapper implements IProviderMapper {
           }
         }
 
-        // --- Text Delta ---
-        const textDelta =
-          safeGet<GooglePart[]>(candidate, 'content', 'parts')
-            ?.filter((p): p is TextPart => p && 'text' in p)
-            .map(p => p.text)
-            .join('') ?? ''
+        // --- Thought and Text Deltas ---
+        const textParts =
+          safeGet<GooglePart[]>(candidate, 'content', 'parts')?.filter((p): p is TextPart => p && 'text' in p) ?? []
+        const thoughtDelta = textParts
+          .filter(isThoughtPart)
+          .map(p => p.text)
+          .join('')
+        const textDelta = textParts
+          .filter(p => !isThoughtPart(p))
+          .map(p => p.text)
+          .join('')
+        const hasFunctionCall = safeGet<GooglePart[]>(candidate, 'content', 'parts')?.some(
+          p => p && 'functionCall' in p
+        )
+
+        if (thoughtDelta) {
+          if (!thinkingStarted) {
+            yield { type: 'thinking_start' }
+            thinkingStarted = true
+          }
+          yield { type: 'thinking_delta', data: { delta: thoughtDelta } }
+          aggregatedResult.thinkingSteps = (aggregatedResult.thinkingSteps ?? '') + thoughtDelta
+        }
+        if (thinkingStarted && (textDelta || hasFunctionCall)) {
+          yield { type: 'thinking_stop' }
+          thinkingStarted = false
+        }
 
         if (textDelta) {
           if (!isPotentiallyJson && aggregatedText === '' && textDelta.trim().match(/^[{[]/)) {
@@ -569,6 +683,8 @@ export class GoogleMapper implements IProviderMapper {
       } // End main stream loop (for await...)
 
       // --- End of Stream ---
+      if (thinkingStarted) yield { type: 'thinking_stop' }
+
       // Determine final reason if still null
       if (finalFinishReason === null) {
         if (aggregatedText || aggregatedToolCalls.length > 0 || aggregatedCitations.length > 0) {
@@ -600,7 +716,9 @@ export class GoogleMapper implements IProviderMapper {
         if (aggregatedResult.citations?.length === 0) aggregatedResult.citations = undefined
         yield { type: 'final_result', data: { result: aggregatedResult } }
       } else {
-        console.warn('Google stream finished, but no aggregated result was built.')
+        getLog().warn('malformed_response', 'Google stream finished, but no aggregated result was built.', {
+          context: 'mapProviderStream'
+        })
       }
     } catch (error) {
       const mappedError = this.wrapProviderError(error, this.provider)
@@ -0,0 +1,178 @@
+// Converts standard JSON Schema to Google's OpenAPI-based schema dialect
+
+import {
+  FunctionDeclarationSchema,
+  Schema as GoogleSchema,
+  SchemaType as GoogleSchemaType
+} from '@google/generative-ai'
+import { Provider } from '../../types'
+import { MappingError } from '../../errors'
+
+type JsonSchema = Record<string, any>
+
+/** Formats Google accepts, per type. Other formats (e.g., `email`, `uri`) are dropped. */
+const SUPPORTED_FORMATS: Partial<Record<GoogleSchemaType, string[]>> = {
+  [GoogleSchemaType.STRING]: ['date-time'],
+  [GoogleSchemaType.NUMBER]: ['float', 'double'],
+  [GoogleSchemaType.INTEGER]: ['int32', 'int64']
+}
+
+const SCHEMA_TYPES = Object.values(GoogleSchemaType) as string[]
+
+interface ConversionContext {
+  root: JsonSchema
+  /** Names the schema in errors, e.g. "tool 'get_weather'". */
+  subject: string
+  /** The `$ref`s being inlined, to detect recursive schemas. */
+  refs: string[]
+}
+
+function fail(context: ConversionContext, path: string, message: string): never {
+  throw new MappingError(`${message} at '${path}' in ${context.subject}.`, Provider.Google, 'mapToGoogleSchema')
+}
+
+function isNullSchema(schema: unknown): boolean {
+  return typeof schema === 'object' && schema !== null && (schema as JsonSchema).type === 'null'
+}
+
+function resolveRef(ref: unknown, context: ConversionContext, path: string): JsonSchema {
+  const match = typeof ref === 'string' ? /^#\/(\$defs|definitions)\/(.+)$/.exec(ref) : null
+  if (!match) fail(context, path, `Unsupported $ref '${ref}' (only local '#/$defs/...' references can be inlined)`)
+  if (context.refs.includes(ref as string)) fail(context, path, `Recursive $ref '${ref}' cannot be inlined`)
+  const definition = context.root[match[1]!]?.[match[2]!]
+  if (typeof definition !== 'object' || definition === null) fail(context, path, `Unresolved $ref '${ref}'`)
+  return definition
+}
+
+/** Reduces `anyOf`/`oneOf` to a single alternative, as Google only expresses alternatives with `null`. */
+function collapseAlternatives(schema: JsonSchema, context: ConversionContext, path: string): JsonSchema {
+  const keyword = schema.anyOf ? 'anyOf' : 'oneOf'
+  const alternatives: unknown[] = schema[keyword]
+  const nonNull = alternatives.filter(alternative => !isNullSchema(alternative))
+  if (nonNull.length !== 1) fail(context, path, `Unsupported '${keyword}' with ${nonNull.length} non-null alternatives`)
+  const rest = { ...schema }
+  delete rest[keyword]
+  return { ...rest, ...(nonNull[0] as JsonSchema), nullable: nonNull.length < alternatives.length || schema.nullable }
+}
+
+function resolveType(
+  schema: JsonSchema,
+  context: ConversionContext,
+  path: string
+): { type: GoogleSchemaType; nullable: boolean } {
+  let { type } = schema
+  let nullable = schema.nullable === true
+  if (Array.isArray(type)) {
+    const nonNull = type.filter(candidate => candidate !== 'null')
+    if (nonNull.length !== 1) fail(context, path, `Unsupported union type [${type.join(', ')}]`)
+    nullable = nullable || nonNull.length < type.length
+    type = nonNull[0]
+  }
+  if (type === undefined) {
+    if (schema.properties) type = 'object'
+    else if (schema.items) type = 'array'
+    else if (Array.isArray(schema.enum) || schema.const !== undefined) type = 'string'
+    else fail(context, path, 'Schema without a type is not supported')
+  }
+  const normalized = typeof type === 'string' ? type.toLowerCase() : type // Also accept Google's upper-case types
+  if (!SCHEMA_TYPES.includes(normalized)) fail(context, path, `Unsupported type '${type}'`)
+  return { type: normalized as GoogleSchemaType, nullable }
+}
+
+function convert(input: unknown, context: ConversionContext, path: string): GoogleSchema {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    fail(context, path, 'Expected a schema object')
+  }
+  let schema = input as JsonSchema
+  if (schema.$ref !== undefined) {
+    const { $ref, ...siblings } = schema
+    const definition = resolveRef($ref, context, path)
+    const nested = { ...context, refs: [...context.refs, $ref] }
+    return convert({ ...definition, ...siblings }, nested, path)
+  }
+  if (Array.isArray(schema.allOf)) {
+    if (schema.allOf.length !== 1) fail(context, path, `Unsupported 'allOf' with ${schema.allOf.length} schemas`)
+    const { allOf, ...rest } = schema
+    schema = { ...rest, ...allOf[0] }
+  }
+  if (Array.isArray(schema.anyOf) || Array.isArray(schema.oneOf)) schema = collapseAlternatives(schema, context, path)
+  if (schema.not !== undefined) fail(context, path, "Unsupported 'not'")
+
+  const { type, nullable } = resolveType(schema, context, path)
+  const result: JsonSchema = { type }
+  if (typeof schema.description === 'string') result.description = schema.description
+  if (nullable) result.nullable = true
+
+  const values: unknown[] | undefined = schema.const !== undefined ? [schema.const] : schema.enum
+  if (values) {
+    const nonNull = values.filter(value => value !== null)
+    if (type !== GoogleSchemaType.STRING || nonNull.some(value => typeof value !== 'string')) {
+      fail(context, path, `Unsupported ${schema.const !== undefined ? "'const'" : "'enum'"} of non-string values`)
+    }
+    if (nonNull.length < values.length) result.nullable = true
+    return { ...result, format: 'enum', enum: nonNull } as GoogleSchema
+  }
+  if (typeof schema.format === 'string' && SUPPORTED_FORMATS[type]?.includes(schema.format)) {
+    result.format = schema.format
+  }
+
+  if (type === GoogleSchemaType.ARRAY) {
+    if (schema.items === undefined) fail(context, path, "Array schema without 'items' is not supported")
+    if (Array.isArray(schema.items)) fail(context, path, "Unsupported tuple 'items'")
+    result.items = convert(schema.items, context, `${path}.items`)
+    if (typeof schema.minItems === 'number') result.minItems = schema.minItems
+    if (typeof schema.maxItems === 'number') result.maxItems = schema.maxItems
+  } else if (type === GoogleSchemaType.OBJECT) {
+    // `additionalProperties` has no equivalent and is dropped, which would leave maps without properties
+    const properties: Record<string, GoogleSchema> = {}
+    for (const [key, property] of Object.entries<unknown>(schema.properties ?? {})) {
+      properties[key] = convert(property, context, `${path}.properties.${key}`)
+    }
+    const isMap = schema.additionalProperties !== undefined && schema.additionalProperties !== false
+    if (isMap && !Object.keys(properties).length) {
+      fail(context, path, "Unsupported map object ('additionalProperties' without 'properties')")
+    }
+    // Google rejects objects with empty `properties`
+    if (Object.keys(properties).length) result.properties = properties
+    const required = Array.isArray(schema.required) ? schema.required.filter((key: string) => key in properties) : []
+    if (required.length) result.required = required
+  }
+  return result as GoogleSchema
+}
+
+/**
+ * Converts a standard JSON Schema (as used for OpenAI and Anthropic) to Google's schema dialect:
+ * `$ref`s to `$defs`/`definitions` are inlined, `anyOf`/`oneOf`/type arrays with `null` become `nullable`,
+ * string `enum`s and `const`s get the `enum` format, and keywords Google does not know (`additionalProperties`,
+ * `pattern`, `minimum`, unsupported `format`s, ...) are dropped. Objects without properties get no `properties`.
+ *
+ * @param schema - The JSON Schema to convert.
+ * @param subject - Names the schema in errors, e.g. "tool 'get_weather'".
+ * @throws {MappingError} For constructs Google cannot express, naming the construct and its path
+ *   (e.g., unions of several non-null types, recursive `$ref`s, non-string enums, maps without `properties`).
+ */
+export function mapToGoogleSchema(schema: unknown, subject: string): GoogleSchema {
+  const root = typeof schema === 'object' && schema !== null ? (schema as JsonSchema) : {}
+  return convert(schema, { root, subject, refs: [] }, '#')
+}
+
+/**
+ * Converts a tool's JSON Schema `parameters` to a `FunctionDeclarationSchema` (see `mapToGoogleSchema`).
+ * @returns The converted schema, or `undefined` for a tool without parameters (Google rejects an object schema
+ *   without properties, so the declaration must omit `parameters`).
+ * @throws {MappingError} If the parameters are not an object schema or use unsupported constructs.
+ */
+export function mapToGoogleFunctionParameters(
+  parameters: unknown,
+  toolName: string
+): FunctionDeclarationSchema | undefined {
+  const schema = mapToGoogleSchema(parameters, `tool '${toolName}'`)
+  if (schema.type !== GoogleSchemaType.OBJECT) {
+    throw new MappingError(
+      `Invalid parameters schema for tool ${toolName}. Expected an object schema, got '${schema.type}'.`,
+      Provider.Google,
+      'mapToGoogleFunctionParameters'
+    )
+  }
+  return schema.properties ? (schema as FunctionDeclarationSchema) : undefined
+}
@@ -4,6 +4,7 @@ import Groq from 'groq-sdk'
 import { Uploadable as GroqUploadable } from 'groq-sdk/core'
 import { TranscribeParams, TranslateParams, TranscriptionResult } from '../../types'
 import { safeGet } from '../utils'
+import { getLog } from '../logger'
 
 // --- Parameter Mapping ---
 
@@ -12,17 +13,21 @@ export function mapToGroqSttParams(
   file: GroqUploadable
 ): Groq.Audio.TranscriptionCreateParams {
   if (params.timestampGranularities && params.timestampGranularities.length > 0) {
-    console.warn("Groq provider does not support 'timestampGranularities'. Parameter ignored.")
+    getLog().warn('ignored_parameter', "Groq provider does not support 'timestampGranularities'. Parameter ignored.", {
+      context: 'mapToGroqSttParams'
+    })
   }
   // Groq supports: json, text, srt, verbose_json, vtt
   // Groq may support srt, vtt. Check this later. For now, we'll use json, text, verbose_json
   const supportedFormats: Groq.Audio.TranscriptionCreateParams['response_format'][] = ['json', 'text', 'verbose_json']
   let responseFormat = params.responseFormat ?? 'json' // Apply default if undefined
   if (responseFormat && !supportedFormats.includes(responseFormat as any)) {
-    console.warn(
+    getLog().warn(
+      'unsupported_response_format',
       `Groq STT format '${responseFormat}' not directly supported or recognized. Supported: ${supportedFormats.join(
         ', '
-      )}. Defaulting to 'json'.`
+      )}. Defaulting to 'json'.`,
+      { context: 'mapToGroqSttParams' }
     )
     responseFormat = 'json'
   }
@@ -43,10 +48,12 @@ export function mapToGroqTranslateParams(
   const supportedFormats: Groq.Audio.TranslationCreateParams['response_format'][] = ['json', 'text', 'verbose_json']
   let responseFormat = params.responseFormat ?? 'json' // Apply default if undefined
   if (responseFormat && !supportedFormats.includes(responseFormat as any)) {
-    console.warn(
+    getLog().warn(
+      'unsupported_response_format',
       `Groq Translate format '${responseFormat}' not directly supported or recognized. Supported: ${supportedFormats.join(
         ', '
-      )}. Defaulting to 'json'.`
+      )}. Defaulting to 'json'.`,
+      { context: 'mapToGroqTranslateParams' }
     )
     responseFormat = 'json'
   }
@@ -64,7 +71,9 @@ export function mapToGroqTranslateParams(
 // Helper to extract text, handling potential string or object responses
 function extractTextFromGroqAudioResponse(response: Groq.Audio.Transcription | Groq.Audio.Translation): string {
   if (response === null) {
-    console.warn('Received null audio response from Groq.')
+    getLog().warn('malformed_response', 'Received null audio response from Groq.', {
+      context: 'extractTextFromGroqAudioResponse'
+    })
     return '[Unparsable Response]' // Return specific string for null
   }
   if (typeof response === 'string') {
@@ -79,11 +88,18 @@ function extractTextFromGroqAudioResponse(response: Groq.Audio.Transcription | G
   } else {
     // If it's not string or {text: string}, it might be SRT/VTT string, or unexpected JSON.
     // Try String() conversion as a fallback.
-    console.warn('Received non-standard audio response format from Groq, attempting String() conversion:', response)
+    getLog().warn(
+      'malformed_response',
+      'Received non-standard audio response format from Groq, attempting String() conversion:',
+      { context: 'extractTextFromGroqAudioResponse', data: response }
+    )
     try {
       return String(response)
     } catch (e) {
-      console.error('Error converting Groq audio response to string:', e)
+      getLog().error('Error converting Groq audio response to string:', {
+        context: 'extractTextFromGroqAudioResponse',
+        error: e
+      })
       return '[Unparsable Response]' // Return specific string on conversion error
     }
   }
@@ -6,13 +6,18 @@ import {
 import { EmbedParams, EmbedResult, Provider } from '../../types'
 import { MappingError, UnsupportedFeatureError } from '../../errors'
 import { mapTokenUsage } from './common.utils'
+import { getLog } from '../logger'
 
 // --- Parameter Mapping ---
 
 export function mapToGroqEmbedParams(params: EmbedParams): EmbeddingCreateParams {
   if (Array.isArray(params.input)) {
     // Groq API might support array input even if SDK types were initially restrictive
-    console.warn('Mapping array input for Groq embeddings. Ensure the specific model supports batching.')
+    getLog().warn(
+      'unverified_batch_input',
+      'Mapping array input for Groq embeddings. Ensure the specific model supports batching.',
+      { context: 'mapToGroqEmbedParams' }
+    )
   }
   // Allow passing array input through
   const inputData = params.input
@@ -27,14 +27,19 @@ import {
   EmbedResult,
   TranscribeParams,
   TranslateParams,
-  TranscriptionResult
+  TranscriptionResult,
+  ReasoningEffort
 } from '../../types'
 import { MappingError, UnsupportedFeatureError, ProviderAPIError, RosettaAIError } from '../../errors'
 import { safeGet } from '../utils'
 import { IProviderMapper } from './base.mapper'
-import { mapTokenUsage, mapBaseParams, mapBaseToolChoice } from './common.utils'
+import { mapTokenUsage, mapBaseParams, mapBaseToolChoice, mapReasoningOptions } from './common.utils'
 import * as GroqEmbedMapper from './groq.embed.mapper'
 import * as GroqAudioMapper from './groq.audio.mapper'
+import { getLog } from '../logger'
+
+/** Chat parameters including `reasoning_effort`, which Groq accepts for reasoning models but the SDK does not type. */
+type GroqChatParamsWithReasoning = ChatCompletionCreateParams & { reasoning_effort?: ReasoningEffort }
 
 export class GroqMapper implements IProviderMapper {
   readonly provider = Provider.Groq
@@ -245,21 +250,28 @@ export class GroqMapper implements IProviderMapper {
     if (baseToolChoice === 'auto' || baseToolChoice === 'none') {
       groqToolChoice = baseToolChoice
     } else if (baseToolChoice === 'required') {
-      console.warn("'required' tool_choice mapped to 'auto' for Groq.")
+      getLog().warn('unsupported_tool_choice', "'required' tool_choice mapped to 'auto' for Groq.", {
+        context: 'mapToProviderParams'
+      })
       groqToolChoice = 'auto'
     } else if (typeof baseToolChoice === 'object' && baseToolChoice.type === 'function') {
       groqToolChoice = { type: 'function', function: { name: baseToolChoice.function.name } }
     } else if (baseToolChoice) {
       // FIX: Default to undefined instead of 'auto' if format is invalid
-      console.warn(`Unsupported tool_choice format for Groq: ${JSON.stringify(baseToolChoice)}. Ignoring.`)
+      getLog().warn(
+        'unsupported_tool_choice',
+        `Unsupported tool_choice format for Groq: ${JSON.stringify(baseToolChoice)}. Ignoring.`,
+        { context: 'mapToProviderParams' }
+      )
       groqToolChoice = undefined
     }
 
     if (params.responseFormat?.type === 'json_object') {
-      console.warn('JSON response format requested, but Groq support is unconfirmed via standard parameters.')
-    }
-    if (params.thinking) {
-      throw new UnsupportedFeatureError(this.provider, 'Thinking steps')
+      getLog().warn(
+        'unsupported_response_format',
+        'JSON response format requested, but Groq support is unconfirmed via standard parameters.',
+        { context: 'mapToProviderParams' }
+      )
     }
     if (params.grounding) {
       throw new UnsupportedFeatureError(this.provider, 'Grounding/Citations')
@@ -268,7 +280,7 @@ export class GroqMapper implements IProviderMapper {
     // Use common utility for base parameters
     const baseMappedParams = mapBaseParams(params)
 
-    const payload: ChatCompletionCreateParams = {
+    const payload: GroqChatParamsWithReasoning = {
       model: params.model!,
       messages: messages,
       max_tokens: baseMappedParams.maxTokens,
@@ -277,12 +289,33 @@ export class GroqMapper implements IProviderMapper {
       stop: baseMappedParams.stopSequences, // Use mapped stopSequences
       tools: tools,
       tool_choice: groqToolChoice,
-      stream: params.stream
+      stream: params.stream,
+      ...this.mapReasoningToGroq(params)
     }
 
     return payload
   }
 
+  /**
+   * Maps `reasoning` for Groq reasoning models: the reasoning is returned separately from the content
+   * (`reasoning_format: 'parsed'`) or hidden, and `effort` is sent as `reasoning_effort`.
+   */
+  private mapReasoningToGroq(
+    params: GenerateParams
+  ): Pick<GroqChatParamsWithReasoning, 'reasoning_format' | 'reasoning_effort'> {
+    const reasoning = mapReasoningOptions(params)
+    if (!reasoning) return {}
+    if (reasoning.budgetTokens !== undefined) {
+      getLog().warn('ignored_parameter', 'Groq does not support reasoning token budgets. Ignoring budgetTokens.', {
+        context: 'mapToProviderParams'
+      })
+    }
+    return {
+      reasoning_format: reasoning.includeReasoning === false ? 'hidden' : 'parsed',
+      ...(reasoning.effort && { reasoning_effort: reasoning.effort })
+    }
+  }
+
   // --- Result Mapping (Chat/Completion) ---
 
   private mapToolCallsFromGroq(
@@ -303,7 +336,7 @@ export class GroqMapper implements IProviderMapper {
   mapFromProviderResponse(response: ChatCompletion, modelUsed: string): GenerateResult {
     const choice = response.choices[0]
     if (!choice) {
-      console.warn('Groq response missing choices.')
+      getLog().warn('malformed_response', 'Groq response missing choices.', { context: 'mapFromProviderResponse' })
       const finishReason = safeGet<string>(response, 'choices', 0, 'finish_reason') ?? 'error'
       return {
         content: null,
@@ -338,7 +371,7 @@ export class GroqMapper implements IProviderMapper {
       usage: mapTokenUsage(response.usage), // Use common utility
       citations: undefined,
       parsedContent: parsedJson,
-      thinkingSteps: undefined,
+      thinkingSteps: choice.message?.reasoning ?? undefined,
       model: response.model ?? modelUsed,
       rawResponse: response
     }
@@ -356,12 +389,16 @@ export class GroqMapper implements IProviderMapper {
     let finalFinishReason: string | null = null
     let model = ''
     let aggregatedResult: GenerateResult | null = null
+    let thinkingStarted = false
 
     try {
       for await (const chunk of stream) {
         // FIX: Add safety check for chunk structure
         if (typeof chunk !== 'object' || chunk === null) {
-          console.warn('Received unexpected non-object chunk from Groq stream:', chunk)
+          getLog().warn('malformed_response', 'Received unexpected non-object chunk from Groq stream:', {
+            context: 'mapProviderStream',
+            data: chunk
+          })
           continue
         }
 
@@ -393,6 +430,19 @@ export class GroqMapper implements IProviderMapper {
           continue // Skip to next chunk if no choice
         }
 
+        if (choice.delta?.reasoning) {
+          if (!thinkingStarted) {
+            yield { type: 'thinking_start' }
+            thinkingStarted = true
+          }
+          yield { type: 'thinking_delta', data: { delta: choice.delta.reasoning } }
+          if (aggregatedResult)
+            aggregatedResult.thinkingSteps = (aggregatedResult.thinkingSteps ?? '') + choice.delta.reasoning
+        }
+        if (thinkingStarted && (choice.delta?.content || choice.delta?.tool_calls || choice.finish_reason)) {
+          yield { type: 'thinking_stop' }
+          thinkingStarted = false
+        }
         if (choice.delta?.content) {
           accumulatedContent += choice.delta.content
           if (aggregatedResult) aggregatedResult.content = accumulatedContent
@@ -498,7 +548,11 @@ export class GroqMapper implements IProviderMapper {
         yield { type: 'final_result', data: { result: aggregatedResult } }
       } else {
         // Still yield a final result even if aggregation failed (e.g., only usage chunk received)
-        console.warn('Groq stream finished but no aggregated result was built. Yielding empty final result.')
+        getLog().warn(
+          'malformed_response',
+          'Groq stream finished but no aggregated result was built. Yielding empty final result.',
+          { context: 'mapProviderStream' }
+        )
         yield {
           type: 'final_result',
           data: {
@@ -0,0 +1,83 @@
+import {
+  GenerateParams,
+  GenerateResult,
+  EmbedParams,
+  EmbedResult,
+  TranscribeParams,
+  TranslateParams,
+  TranscriptionResult,
+  StreamChunk,
+  ProviderId
+} from '../../types'
+import { ProviderAPIError, RosettaAIError, UnsupportedFeatureError } from '../../errors'
+import { IProviderMapper } from './base.mapper'
+
+/**
+ * Mapper of the built-in mock provider. Requests are passed to the transport as is, and the scripted
+ * responses it returns are completed into RosettaAI results.
+ */
+export class MockMapper implements IProviderMapper {
+  constructor(readonly provider: ProviderId) {}
+
+  // --- Chat/Completion Mapping ---
+
+  mapToProviderParams(params: GenerateParams): GenerateParams {
+    return params
+  }
+
+  mapFromProviderResponse(response: Partial<GenerateResult>, modelId: string): GenerateResult {
+    return {
+      content: null,
+      finishReason: response.toolCalls?.length ? 'tool_calls' : 'stop',
+      model: modelId,
+      ...response
+    }
+  }
+
+  /** The transport already produces RosettaAI chunks. */
+  async *mapProviderStream(stream: AsyncIterable<StreamChunk>): AsyncIterable<StreamChunk> {
+    yield* stream
+  }
+
+  // --- Embedding Mapping ---
+
+  mapToEmbedParams(params: EmbedParams): EmbedParams {
+    return params
+  }
+
+  mapFromEmbedResponse(response: number[][] | Partial<EmbedResult>, modelId: string): EmbedResult {
+    if (Array.isArray(response)) return { embeddings: response, model: modelId }
+    return { embeddings: [], model: modelId, ...response }
+  }
+
+  // --- Audio Mapping (Unsupported) ---
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  mapToTranscribeParams(_params: TranscribeParams, _file: any): any {
+    throw new UnsupportedFeatureError(this.provider, 'Audio Transcription')
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  mapFromTranscribeResponse(_response: any, _modelId: string): TranscriptionResult {
+    throw new UnsupportedFeatureError(this.provider, 'Audio Transcription')
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  mapToTranslateParams(_params: TranslateParams, _file: any): any {
+    throw new UnsupportedFeatureError(this.provider, 'Audio Translation')
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  mapFromTranslateResponse(_response: any, _modelId: string): TranscriptionResult {
+    throw new UnsupportedFeatureError(this.provider, 'Audio Translation')
+  }
+
+  // --- Error Handling ---
+
+  /** Scripted RosettaAI errors surface unchanged; anything else becomes a `ProviderAPIError`. */
+  wrapProviderError(error: unknown, provider: ProviderId): RosettaAIError {
+    if (error instanceof RosettaAIError) return error
+    const message = error instanceof Error ? error.message : String(error)
+    return new ProviderAPIError(message, provider, undefined, undefined, undefined, error)
+  }
+}
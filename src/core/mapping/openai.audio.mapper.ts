@@ -5,6 +5,7 @@ import { Uploadable as OpenAIUploadable } from 'openai/uploads'
 import { TranscriptionResult, Provider, TranscribeParams, TranslateParams } from '../../types'
 import { MappingError } from '../../errors'
 import { safeGet } from '../utils'
+import { getLog } from '../logger'
 
 // --- Parameter Mapping ---
 
@@ -26,10 +27,12 @@ export function mapToOpenAITranscribeParams(
   ]
   let responseFormat = params.responseFormat ?? 'json'
   if (responseFormat && !supportedFormats.includes(responseFormat as any)) {
-    console.warn(
+    getLog().warn(
+      'unsupported_response_format',
       `OpenAI STT format '${responseFormat}' not directly supported or recognized. Supported: ${supportedFormats.join(
         ', '
-      )}. Defaulting to 'json'.`
+      )}. Defaulting to 'json'.`,
+      { context: 'mapToOpenAITranscribeParams' }
     )
     responseFormat = 'json'
   }
@@ -60,10 +63,12 @@ export function mapToOpenAITranslateParams(
   ]
   let responseFormat = params.responseFormat ?? 'json'
   if (responseFormat && !supportedFormats.includes(responseFormat as any)) {
-    console.warn(
+    getLog().warn(
+      'unsupported_response_format',
       `OpenAI Translate format '${responseFormat}' not directly supported or recognized. Supported: ${supportedFormats.join(
         ', '
-      )}. Defaulting to 'json'.`
+      )}. Defaulting to 'json'.`,
+      { context: 'mapToOpenAITranslateParams' }
     )
     responseFormat = 'json'
   }
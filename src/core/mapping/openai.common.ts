@@ -7,13 +7,24 @@ import {
   ChatCompletionRole as OpenAIRole,
   ChatCompletionMessageToolCall as OpenAIToolCall,
   ChatCompletion,
-  ChatCompletionChunk
+  ChatCompletionChunk,
+  ChatCompletionCreateParams
 } from 'openai/resources/chat/completions'
 import { Stream } from 'openai/streaming'
-import { GenerateResult, Provider, RosettaMessage, RosettaToolCallRequest, StreamChunk, TokenUsage } from '../../types'
+import {
+  GenerateParams,
+  GenerateResult,
+  Provider,
+  ProviderId,
+  RosettaMessage,
+  RosettaToolCallRequest,
+  StreamChunk,
+  TokenUsage
+} from '../../types'
 import { MappingError, ProviderAPIError, RosettaAIError } from '../../errors'
 import { safeGet } from '../utils'
-import { mapTokenUsage } from './common.utils'
+import { mapTokenUsage, mapReasoningOptions, mapReasoningEffort } from './common.utils'
+import { getLog } from '../logger'
 
 export function mapRoleToOpenAI(role: RosettaMessage['role']): OpenAIRole {
   switch (role) {
@@ -84,7 +95,9 @@ export function mapContentForOpenAIRole(
   } else if (role === 'assistant') {
     const assistantParts = mappedParts.filter((p): p is ChatCompletionContentPartText => p.type === 'text')
     if (assistantParts.length !== mappedParts.length) {
-      console.warn(`Non-text content parts filtered out for assistant message.`)
+      getLog().warn('content_parts_dropped', `Non-text content parts filtered out for assistant message.`, {
+        context: 'mapContentForOpenAIRole'
+      })
     }
     // Return null if no text parts remain (e.g., input was [])
     return assistantParts.length > 0 ? assistantParts : null
@@ -98,7 +111,9 @@ export function mapContentForOpenAIRole(
   } else if (role === 'tool') {
     const textParts = mappedParts.filter(p => p.type === 'text').map(p => (p as ChatCompletionContentPartText).text)
     if (textParts.length !== mappedParts.length) {
-      console.warn(`Tool message content contained non-text parts. Stringifying.`)
+      getLog().warn('content_parts_dropped', `Tool message content contained non-text parts. Stringifying.`, {
+        context: 'mapContentForOpenAIRole'
+      })
       try {
         return JSON.stringify(mappedParts)
       } catch {
@@ -117,6 +132,29 @@ export function mapContentForOpenAIRole(
   }
 }
 
+/** Maps `responseFormat`; a `schema` becomes a `json_schema` response format, strict unless `strict: false`. */
+export function mapResponseFormatToOpenAI(
+  responseFormat: GenerateParams['responseFormat']
+): ChatCompletionCreateParams['response_format'] {
+  if (responseFormat?.type === 'text') return { type: 'text' }
+  if (responseFormat?.type !== 'json_object') return undefined
+  if (!responseFormat.schema) return { type: 'json_object' }
+  const { schema, name = 'response', description, strict = true } = responseFormat
+  return { type: 'json_schema', json_schema: { name, description, schema, strict } }
+}
+
+/**
+ * Maps `reasoning` to the o-series `reasoning_effort`. Reasoning requests get `maxTokens` as
+ * `max_completion_tokens`, as reasoning models reject `max_tokens`.
+ */
+export function mapReasoningToOpenAI(
+  params: GenerateParams
+): Pick<ChatCompletionCreateParams, 'max_tokens' | 'max_completion_tokens' | 'reasoning_effort'> {
+  const reasoning = mapReasoningOptions(params)
+  if (!reasoning) return { max_tokens: params.maxTokens }
+  return { max_completion_tokens: params.maxTokens, reasoning_effort: mapReasoningEffort(reasoning) }
+}
+
 function mapToolCallsFromOpenAI(toolCalls: OpenAIToolCall[] | undefined): RosettaToolCallRequest[] | undefined {
   if (!toolCalls || toolCalls.length === 0) return undefined
   return toolCalls
@@ -132,7 +170,7 @@ export function mapFromOpenAIResponse(response: ChatCompletion, modelUsed: strin
   // FIX: Add null/undefined check for response.choices before accessing index 0
   const choice = response?.choices?.[0]
   if (!choice) {
-    console.warn('OpenAI response missing choices.')
+    getLog().warn('malformed_response', 'OpenAI response missing choices.', { context: 'mapFromOpenAIResponse' })
     const finishReason =
       safeGet<string>(response, 'choices', 0, 'finish_reason') ??
       safeGet<string>(response, 'prompt_annotations', 0, 'content_filter', 'reason') ??
@@ -157,7 +195,10 @@ export function mapFromOpenAIResponse(response: ChatCompletion, modelUsed: strin
       try {
         parsedJson = JSON.parse(textContent)
       } catch (e) {
-        console.warn('Failed to auto-parse potential JSON from OpenAI:', e)
+        getLog().warn('json_parse_failed', 'Failed to auto-parse potential JSON from OpenAI:', {
+          context: 'mapFromOpenAIResponse',
+          error: e
+        })
       }
   }
   const mappedToolCalls = mapToolCallsFromOpenAI(choice.message?.tool_calls)
@@ -174,7 +215,7 @@ export function mapFromOpenAIResponse(response: ChatCompletion, modelUsed: strin
   }
 }
 
-export function wrapOpenAIError(error: unknown, provider: Provider): RosettaAIError {
+export function wrapOpenAIError(error: unknown, provider: ProviderId): RosettaAIError {
   if (error instanceof RosettaAIError) {
     return error
   }
@@ -215,7 +256,7 @@ export function wrapOpenAIError(error: unknown, provider: Provider): RosettaAIEr
 
 export async function* mapOpenAIStream(
   stream: Stream<ChatCompletionChunk>,
-  provider: Provider
+  provider: ProviderId
 ): AsyncIterable<StreamChunk> {
   let accumulatedContent = ''
   const accumulatedToolCalls: Record<
@@ -348,7 +389,9 @@ export async function* mapOpenAIStream(
       if (aggregatedResult.toolCalls?.length === 0) aggregatedResult.toolCalls = undefined
       yield { type: 'final_result', data: { result: aggregatedResult } }
     } else {
-      console.warn('OpenAI stream finished but no aggregated result was built.')
+      getLog().warn('malformed_response', 'OpenAI stream finished but no aggregated result was built.', {
+        context: 'mapOpenAIStream'
+      })
     }
   } catch (error) {
     const mappedError = wrapOpenAIError(error, provider)
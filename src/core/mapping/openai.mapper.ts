@@ -24,6 +24,7 @@ import {
   GenerateResult,
   StreamChunk,
   Provider,
+  ProviderId,
   EmbedParams,
   EmbedResult,
   TranscribeParams,
@@ -39,12 +40,22 @@ import {
   mapContentForOpenAIRole,
   mapFromOpenAIResponse,
   mapOpenAIStream,
+  mapResponseFormatToOpenAI,
+  mapReasoningToOpenAI,
   mapRoleToOpenAI,
   wrapOpenAIError
 } from './openai.common'
 
 export class OpenAIMapper implements IProviderMapper {
-  readonly provider = Provider.OpenAI
+  readonly provider: ProviderId
+
+  /**
+   * @param provider - Provider ID reported in stream events and errors. Defaults to OpenAI;
+   *   OpenAI-compatible providers pass their own name.
+   */
+  constructor(provider: ProviderId = Provider.OpenAI) {
+    this.provider = provider
+  }
 
   // --- Chat/Completion Mapping ---
 
@@ -145,21 +156,8 @@ export class OpenAIMapper implements IProviderMapper {
       openAIToolChoice = { type: 'function', function: { name: baseToolChoice.function.name } }
     }
 
-    let responseFormat: { type: 'text' | 'json_object' } | undefined
-    if (params.responseFormat?.type === 'json_object') {
-      responseFormat = { type: 'json_object' }
-      if (params.responseFormat.schema) {
-        console.warn(
-          'OpenAI JSON mode: schema parameter provided in responseFormat is ignored. Describe the desired schema in the prompt.'
-        )
-      }
-    } else if (params.responseFormat?.type === 'text') {
-      responseFormat = { type: 'text' }
-    }
+    const responseFormat = mapResponseFormatToOpenAI(params.responseFormat)
 
-    if (params.thinking) {
-      throw new UnsupportedFeatureError(this.provider, 'Thinking steps')
-    }
     if (params.grounding) {
       throw new UnsupportedFeatureError(this.provider, 'Grounding/Citations')
     }
@@ -170,7 +168,7 @@ export class OpenAIMapper implements IProviderMapper {
     const basePayload = {
       model: params.model!,
       messages,
-      max_tokens: baseMappedParams.maxTokens,
+      ...mapReasoningToOpenAI(params),
       temperature: baseMappedParams.temperature,
       top_p: baseMappedParams.topP,
       stop: baseMappedParams.stopSequences, // Use mapped stopSequences
@@ -236,7 +234,7 @@ export class OpenAIMapper implements IProviderMapper {
   }
 
   // --- Error Handling ---
-  wrapProviderError(error: unknown, provider: Provider): RosettaAIError {
+  wrapProviderError(error: unknown, provider: ProviderId): RosettaAIError {
     return wrapOpenAIError(error, provider)
   }
 }
@@ -0,0 +1,55 @@
+import { RosettaMiddleware, MiddlewareContext, OperationParams, OperationResult, OperationChunk } from '../types'
+
+/**
+ * Runs a non-streaming operation through the `wrapOperation` hooks of the middleware chain.
+ * The first middleware is the outermost; `execute` performs the actual operation.
+ */
+export function runMiddleware<TParams extends OperationParams, TResult extends OperationResult>(
+  middleware: RosettaMiddleware[],
+  params: TParams,
+  context: MiddlewareContext,
+  execute: (params: TParams) => Promise<TResult>
+): Promise<TResult> {
+  const dispatch = (index: number, currentParams: OperationParams): Promise<OperationResult> => {
+    const current = middleware[index]
+    if (!current) return execute(currentParams as TParams)
+    if (!current.wrapOperation) return dispatch(index + 1, currentParams)
+    return current.wrapOperation(currentParams, context, nextParams => dispatch(index + 1, nextParams))
+  }
+  return dispatch(0, params) as Promise<TResult>
+}
+
+/**
+ * Runs a streaming operation through the `wrapStream` hooks of the middleware chain.
+ * The first middleware is the outermost; `execute` produces the actual stream.
+ */
+export function runStreamMiddleware<TParams extends OperationParams, TChunk extends OperationChunk>(
+  middleware: RosettaMiddleware[],
+  params: TParams,
+  context: MiddlewareContext,
+  execute: (params: TParams) => AsyncIterable<TChunk>
+): AsyncIterable<TChunk> {
+  const dispatch = (index: number, currentParams: OperationParams): AsyncIterable<OperationChunk> => {
+    const current = middleware[index]
+    if (!current) return execute(currentParams as TParams)
+    if (!current.wrapStream) return dispatch(index + 1, currentParams)
+    return current.wrapStream(currentParams, context, nextParams => dispatch(index + 1, nextParams))
+  }
+  return dispatch(0, params) as AsyncIterable<TChunk>
+}
+
+/** Passes a mapped provider payload through every `transformPayload` hook, in order. */
+export async function applyPayloadTransforms(
+  middleware: RosettaMiddleware[],
+  payload: any,
+  params: OperationParams,
+  context: MiddlewareContext
+): Promise<any> {
+  let current = payload
+  for (const entry of middleware) {
+    if (!entry.transformPayload) continue
+    const transformed = await entry.transformPayload(current, params, context)
+    if (transformed !== undefined) current = transformed
+  }
+  return current
+}
@@ -0,0 +1,38 @@
+import Anthropic from '@anthropic-ai/sdk'
+import { Provider, ProviderRegistration } from '../../types'
+import { AnthropicMapper } from '../mapping/anthropic.mapper'
+import { listModelsForProvider } from '../listing/model.lister'
+
+/**
+ * Creates the built-in Anthropic provider registration.
+ * @param client - An initialized Anthropic SDK client.
+ * @param apiKey - The API key, used for model listing.
+ */
+export function createAnthropicProvider(client: Anthropic, apiKey?: string): ProviderRegistration {
+  return {
+    provider: Provider.Anthropic,
+    mapper: new AnthropicMapper(),
+    transport: {
+      generate: (payload, { signal }) => client.messages.create(payload, { signal }),
+      stream: (payload, { signal }) => client.messages.create(payload, { signal }) as Promise<any>,
+      countTokens: async (payload, { signal }) => {
+        // The counting endpoint only accepts the prompt-defining fields of a Messages payload
+        const { model, messages, system, tools, tool_choice } = payload
+        const response = await client.beta.messages.countTokens(
+          { model, messages, system, tools, tool_choice },
+          { signal }
+        )
+        return response.input_tokens
+      },
+      listModels: (sourceConfig, signal) => listModelsForProvider(Provider.Anthropic, { sourceConfig, apiKey, signal })
+    },
+    capabilities: {
+      chat: true,
+      streaming: true,
+      imageInput: true,
+      toolUse: true,
+      structuredOutput: true,
+      thinking: true
+    }
+  }
+}
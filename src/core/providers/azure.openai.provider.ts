@@ -0,0 +1,30 @@
+import { AzureOpenAI } from 'openai'
+import { Provider, ProviderRegistration, RosettaAIConfig } from '../../types'
+import { ConfigurationError } from '../../errors'
+import { AzureOpenAIMapper } from '../mapping/azure.openai.mapper'
+import { fetchAzureDeployments, getAzureDeploymentsUrl } from '../listing/azure.deployments'
+import { createOpenAITransport, OPENAI_CAPABILITIES } from './openai.provider'
+
+/**
+ * Creates the built-in Azure OpenAI provider registration.
+ * Model listing returns the resource's deployments, since deployment names are used as models.
+ * @param client - An initialized AzureOpenAI SDK client.
+ * @param config - The resolved RosettaAI configuration (used for deployment lookups and model listing).
+ */
+export function createAzureOpenAIProvider(client: AzureOpenAI, config: RosettaAIConfig): ProviderRegistration {
+  return {
+    provider: Provider.AzureOpenAI,
+    mapper: new AzureOpenAIMapper(config),
+    transport: {
+      ...createOpenAITransport(client),
+      listModels: async (sourceConfig, signal) => {
+        if (sourceConfig && sourceConfig.type !== 'apiEndpoint') {
+          throw new ConfigurationError(`Only 'apiEndpoint' model listing is supported for ${Provider.AzureOpenAI}.`)
+        }
+        const url = sourceConfig?.url ?? getAzureDeploymentsUrl(config.azureOpenAIEndpoint!)
+        return fetchAzureDeployments(url, config.azureOpenAIApiKey, signal)
+      }
+    },
+    capabilities: OPENAI_CAPABILITIES
+  }
+}
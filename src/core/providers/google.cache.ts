@@ -0,0 +1,77 @@
+import { createHash } from 'crypto'
+import { Part as GooglePart, StartChatParams } from '@google/generative-ai'
+import { CachedContent, CachedContentCreateParams } from '@google/generative-ai/server'
+import { getLog } from '../logger'
+
+/** Default lifetime of the cached content created for a cache breakpoint, in seconds. */
+export const DEFAULT_CACHE_TTL_SECONDS = 300
+
+/** Cached content this close to expiring is replaced, so requests never reference expired content. */
+const EXPIRY_MARGIN_MS = 10000
+
+/** The chat parameters of a mapped Google request, with the current turn as `contents`. */
+export type GoogleChatParams = StartChatParams & { contents: GooglePart[] }
+
+interface CachedContentEntry {
+  name: string
+  expiresAt: number
+}
+
+/**
+ * Caches the prompt prefixes marked by cache breakpoints as Gemini cached content resources: the first request
+ * with a prefix creates one, and later requests with the same prefix reference it by name until it expires.
+ */
+export class GoogleContentCache {
+  private readonly createCachedContent: (params: CachedContentCreateParams) => Promise<CachedContent>
+  private readonly entries = new Map<string, CachedContentEntry>()
+
+  /** @param createCachedContent - Creates a cached content resource (`GoogleAICacheManager.create`). */
+  constructor(createCachedContent: (params: CachedContentCreateParams) => Promise<CachedContent>) {
+    this.createCachedContent = createCachedContent
+  }
+
+  /**
+   * Moves the system instruction, tools and first `prefixLength` history entries of a chat into cached content
+   * and returns the chat referencing it. If the content cannot be cached (e.g., the prefix is shorter than the
+   * model's minimum), logs a warning and returns the chat unchanged.
+   */
+  async apply(
+    chatParams: GoogleChatParams,
+    model: string,
+    prefixLength: number,
+    ttlSeconds = DEFAULT_CACHE_TTL_SECONDS
+  ): Promise<GoogleChatParams> {
+    const { history = [], systemInstruction, tools, ...rest } = chatParams
+    const contents = history.slice(0, prefixLength)
+    const key = createHash('sha256')
+      .update(JSON.stringify({ model, systemInstruction, tools, contents }))
+      .digest('hex')
+
+    let entry = this.entries.get(key)
+    if (!entry || entry.expiresAt - EXPIRY_MARGIN_MS <= Date.now()) {
+      try {
+        const cachedContent = await this.createCachedContent({ model, systemInstruction, tools, contents, ttlSeconds })
+        if (!cachedContent.name) throw new Error('The created cached content has no name.')
+        const expiresAt = cachedContent.expireTime ? Date.parse(cachedContent.expireTime) : NaN
+        entry = { name: cachedContent.name, expiresAt: isNaN(expiresAt) ? Date.now() + ttlSeconds * 1000 : expiresAt }
+      } catch (error) {
+        getLog().warn('prompt_cache_failed', 'Could not create Google cached content; sending the prompt uncached.', {
+          context: 'GoogleContentCache.apply',
+          error
+        })
+        return chatParams
+      }
+      this.removeExpired()
+      this.entries.set(key, entry)
+    }
+
+    return { ...rest, history: history.slice(prefixLength), cachedContent: entry.name }
+  }
+
+  private removeExpired(): void {
+    const now = Date.now()
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) this.entries.delete(key)
+    }
+  }
+}
@@ -0,0 +1,149 @@
+import {
+  GoogleGenerativeAI,
+  GenerativeModel,
+  HarmCategory,
+  HarmBlockThreshold,
+  StartChatParams,
+  GenerateContentRequest,
+  EmbedContentRequest,
+  BatchEmbedContentsRequest,
+  Part as GooglePart
+} from '@google/generative-ai'
+import { GoogleAICacheManager } from '@google/generative-ai/server'
+import { GenerateParams, Provider, ProviderOptions, ProviderRegistration, RosettaAIConfig } from '../../types'
+import { GoogleMapper } from '../mapping/google.mapper'
+import { listModelsForProvider } from '../listing/model.lister'
+import { getLog } from '../logger'
+import { GoogleChatParams, GoogleContentCache } from './google.cache'
+
+/**
+ * Gets a configured Google GenerativeModel instance.
+ * Google SDK methods are called on model objects rather than on the client directly.
+ * @param client - An initialized GoogleGenerativeAI client.
+ * @param modelId - The model to instantiate.
+ * @param requestOptions - Per-request provider options.
+ * @param globalOptions - Provider options from the RosettaAI configuration.
+ */
+export function getGoogleModel(
+  client: GoogleGenerativeAI,
+  modelId: string,
+  requestOptions?: ProviderOptions,
+  globalOptions?: ProviderOptions
+): GenerativeModel {
+  const apiVersion = requestOptions?.googleApiVersion ?? globalOptions?.googleApiVersion
+  const baseUrl = requestOptions?.baseURL ?? globalOptions?.baseURL
+
+  if (baseUrl) {
+    getLog().warn(
+      'ignored_parameter',
+      'Google provider: Custom baseURL provided but not directly used by the @google/generative-ai SDK constructor. Ensure environment variables (like GOOGLE_API_ENDPOINT) are set if needed.',
+      { context: 'getGoogleModel' }
+    )
+  }
+
+  const safetySettings = [
+    { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+    { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+    { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+    { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE }
+  ]
+
+  const googleRequestOptions = apiVersion ? { apiVersion } : undefined
+
+  return client.getGenerativeModel({ model: modelId, safetySettings }, googleRequestOptions)
+}
+
+/**
+ * Creates the built-in Google provider registration.
+ * @param client - An initialized GoogleGenerativeAI client.
+ * @param config - The resolved RosettaAI configuration (used for provider options and model listing).
+ */
+export function createGoogleProvider(client: GoogleGenerativeAI, config: RosettaAIConfig): ProviderRegistration {
+  const getModel = (modelId: string, requestOptions?: ProviderOptions): GenerativeModel =>
+    getGoogleModel(client, modelId, requestOptions, config.providerOptions?.[Provider.Google])
+
+  const contentCache = new GoogleContentCache(cachedContent => {
+    const apiVersion = config.providerOptions?.[Provider.Google]?.googleApiVersion
+    return new GoogleAICacheManager(client.apiKey, apiVersion ? { apiVersion } : undefined).create(cachedContent)
+  })
+  /** Returns the chat parameters of a payload, with the prefix marked by a cache breakpoint moved into cached content. */
+  const getChatParams = (payload: any, params: GenerateParams): Promise<GoogleChatParams> => {
+    const chatParams = payload.googleMappedParams as GoogleChatParams
+    if (payload.cachePrefixLength === undefined) return Promise.resolve(chatParams)
+    return contentCache.apply(chatParams, params.model!, payload.cachePrefixLength, params.promptCache?.ttlSeconds)
+  }
+
+  return {
+    provider: Provider.Google,
+    mapper: new GoogleMapper(),
+    transport: {
+      generate: async (payload, params) => {
+        const googleM = getModel(params.model!, params.providerOptions)
+        // The mapper returns an object indicating if it's chat and the mapped params
+        const { googleMappedParams: googleP, isChat } = payload
+        if (isChat) {
+          const { contents: currentTurnContent, ...chatParams } = await getChatParams(payload, params)
+          const chat = googleM.startChat(chatParams)
+          const googleCR = await chat.sendMessage(currentTurnContent, { signal: params.signal })
+          return googleCR.response // Extract the response part
+        }
+        const googleR = await googleM.generateContent(googleP as GenerateContentRequest, { signal: params.signal })
+        return googleR.response // Extract the response part
+      },
+      stream: async (payload, params) => {
+        const googleM = getModel(params.model!, params.providerOptions)
+        const { googleMappedParams: googleP, isChat } = payload
+        if (isChat) {
+          const { contents: currentTurnContent, ...chatParams } = await getChatParams(payload, params)
+          const chat = googleM.startChat(chatParams)
+          const googleSR = await chat.sendMessageStream(currentTurnContent, { signal: params.signal })
+          return googleSR.stream
+        }
+        const googleSR = await googleM.generateContentStream(googleP as GenerateContentRequest, {
+          signal: params.signal
+        })
+        return googleSR.stream
+      },
+      countTokens: async (payload, params) => {
+        const googleM = getModel(params.model!, params.providerOptions)
+        const { googleMappedParams: googleP, isChat } = payload
+        let request = googleP as GenerateContentRequest
+        if (isChat) {
+          // Count the whole conversation: the chat history plus the current turn
+          const { history = [], contents: currentTurnContent, ...chatParams } = googleP as StartChatParams & {
+            contents: GooglePart[]
+          }
+          const role = currentTurnContent.some(part => 'functionResponse' in part) ? 'function' : 'user'
+          request = { ...chatParams, contents: [...history, { role, parts: currentTurnContent }] }
+        }
+        const { contents, systemInstruction, tools } = request
+        const response = await googleM.countTokens(
+          { generateContentRequest: { contents, systemInstruction, tools } },
+          { signal: params.signal }
+        )
+        return response.totalTokens
+      },
+      embed: async (payload, params) => {
+        const googleM = getModel(params.model!, params.providerOptions) // Use embedding model ID
+        if ('requests' in payload) {
+          return googleM.batchEmbedContents(payload as BatchEmbedContentsRequest, { signal: params.signal })
+        }
+        return googleM.embedContent(payload as EmbedContentRequest, { signal: params.signal })
+      },
+      listModels: (sourceConfig, signal) =>
+        listModelsForProvider(Provider.Google, { sourceConfig, apiKey: config.googleApiKey, signal })
+    },
+    capabilities: {
+      chat: true,
+      streaming: true,
+      embeddings: true,
+      imageInput: true,
+      toolUse: true,
+      jsonMode: true,
+      structuredOutput: true,
+      grounding: true,
+      thinking: true,
+      batchEmbeddings: true
+    }
+  }
+}
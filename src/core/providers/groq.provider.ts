@@ -0,0 +1,34 @@
+import Groq from 'groq-sdk'
+import { Provider, ProviderRegistration } from '../../types'
+import { GroqMapper } from '../mapping/groq.mapper'
+import { listModelsForProvider } from '../listing/model.lister'
+
+/**
+ * Creates the built-in Groq provider registration.
+ * @param client - An initialized Groq SDK client.
+ * @param apiKey - The API key, used for model listing.
+ */
+export function createGroqProvider(client: Groq, apiKey?: string): ProviderRegistration {
+  return {
+    provider: Provider.Groq,
+    mapper: new GroqMapper(),
+    transport: {
+      generate: (payload, { signal }) => client.chat.completions.create(payload, { signal }),
+      stream: (payload, { signal }) => client.chat.completions.create(payload, { signal }) as Promise<any>,
+      embed: (payload, { signal }) => client.embeddings.create(payload, { signal }),
+      transcribe: (payload, { signal }) => client.audio.transcriptions.create(payload, { signal }),
+      translate: (payload, { signal }) => client.audio.translations.create(payload, { signal }),
+      listModels: (sourceConfig, signal) =>
+        listModelsForProvider(Provider.Groq, { sourceConfig, apiKey, groqClient: client, signal })
+    },
+    capabilities: {
+      chat: true,
+      streaming: true,
+      embeddings: true,
+      transcription: true,
+      translation: true,
+      toolUse: true,
+      thinking: true
+    }
+  }
+}
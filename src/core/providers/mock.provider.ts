@@ -0,0 +1,85 @@
+import {
+  ProviderCapabilities,
+  ProviderRegistration,
+  MockProviderConfig,
+  MockResponse,
+  GenerateParams,
+  StreamChunk
+} from '../../types'
+import { ConfigurationError } from '../../errors'
+import { MockMapper } from '../mapping/mock.mapper'
+import { replayCachedResult } from '../cache/cache.middleware'
+
+/** Provider ID of the mock provider unless `MockProviderConfig.name` is set. */
+export const DEFAULT_MOCK_PROVIDER = 'mock'
+
+/** Model reported by the mock provider unless `MockProviderConfig.defaultModel` is set. */
+export const DEFAULT_MOCK_MODEL = 'mock-model'
+
+/** Capabilities assumed for the mock provider unless overridden in its config. */
+const DEFAULT_CAPABILITIES: ProviderCapabilities = {
+  chat: true,
+  streaming: true,
+  embeddings: true,
+  batchEmbeddings: true,
+  embeddingDimensions: true,
+  imageInput: true,
+  toolUse: true,
+  jsonMode: true,
+  structuredOutput: true
+}
+
+/** Streams scripted chunks, throwing scripted errors where they appear in the sequence. */
+async function* streamChunks(chunks: Array<StreamChunk | Error>): AsyncIterable<StreamChunk> {
+  for (const chunk of chunks) {
+    if (chunk instanceof Error) throw chunk
+    yield chunk
+  }
+}
+
+/**
+ * Creates the registration of the mock provider, whose transport serves the scripted responses in order.
+ * Retried calls consume a response each, so a scripted error followed by a result models a recovered failure.
+ * @param mockConfig - The scripted responses, provider name and capability overrides.
+ */
+export function createMockProvider(mockConfig: MockProviderConfig): ProviderRegistration {
+  const name = mockConfig.name ?? DEFAULT_MOCK_PROVIDER
+  const mapper = new MockMapper(name)
+  const used = new Map<string, number>()
+
+  const next = async <TParams, TValue>(
+    operation: string,
+    responses: Array<MockResponse<TParams, TValue>> | undefined,
+    params: TParams
+  ): Promise<TValue> => {
+    const index = used.get(operation) ?? 0
+    const response = responses?.[index]
+    if (response === undefined) {
+      throw new ConfigurationError(
+        `Mock provider '${name}' has no scripted ${operation} response left (${index} used).`
+      )
+    }
+    used.set(operation, index + 1)
+    if (response instanceof Error) throw response
+    return typeof response === 'function'
+      ? (response as (params: TParams) => TValue | Promise<TValue>)(params)
+      : response
+  }
+
+  return {
+    provider: name,
+    mapper,
+    transport: {
+      generate: payload => next('generate', mockConfig.generate, payload),
+      stream: async (payload: GenerateParams, params) => {
+        const response = mockConfig.stream
+          ? await next('stream', mockConfig.stream, payload)
+          : await next('generate', mockConfig.generate, payload)
+        if (Array.isArray(response)) return streamChunks(response)
+        return streamChunks(replayCachedResult(mapper.mapFromProviderResponse(response, params.model!), params))
+      },
+      embed: payload => next('embed', mockConfig.embed, payload)
+    },
+    capabilities: { ...DEFAULT_CAPABILITIES, ...mockConfig.capabilities }
+  }
+}
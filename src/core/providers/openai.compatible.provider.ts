@@ -0,0 +1,67 @@
+import OpenAI from 'openai'
+import {
+  ProviderCapabilities,
+  ProviderRegistration,
+  OpenAICompatibleProviderConfig,
+  RosettaAIConfig
+} from '../../types'
+import { ConfigurationError } from '../../errors'
+import { OpenAIMapper } from '../mapping/openai.mapper'
+import { fetchAndValidateModelsFromApi } from '../listing/fetch.utils'
+import { createOpenAITransport } from './openai.provider'
+
+/** Sent when no API key is configured; the OpenAI SDK requires one, local servers ignore it. */
+const PLACEHOLDER_API_KEY = 'not-needed'
+
+/** Capabilities assumed for OpenAI-compatible servers unless overridden in the provider config. */
+const DEFAULT_CAPABILITIES: ProviderCapabilities = {
+  chat: true,
+  streaming: true,
+  embeddings: true,
+  batchEmbeddings: true,
+  imageInput: true,
+  toolUse: true,
+  jsonMode: true,
+  structuredOutput: true
+}
+
+/**
+ * Creates a provider registration for a named OpenAI-compatible endpoint.
+ * @param providerConfig - The endpoint's name, base URL, key and capability overrides.
+ * @param config - The resolved RosettaAI configuration (used for timeouts).
+ */
+export function createOpenAICompatibleProvider(
+  providerConfig: OpenAICompatibleProviderConfig,
+  config: RosettaAIConfig
+): ProviderRegistration {
+  const apiKey = providerConfig.apiKey ?? PLACEHOLDER_API_KEY
+  const baseURL = providerConfig.baseURL.replace(/\/+$/, '')
+  const client = new OpenAI({
+    apiKey,
+    baseURL,
+    maxRetries: 0, // Retries are handled by RosettaAI
+    timeout: config.defaultTimeoutMs
+  })
+
+  return {
+    provider: providerConfig.name,
+    mapper: new OpenAIMapper(providerConfig.name), // Same wire format, reported under the custom name
+    transport: {
+      ...createOpenAITransport(client),
+      listModels: async (sourceConfig, signal) => {
+        if (sourceConfig && sourceConfig.type !== 'apiEndpoint') {
+          throw new ConfigurationError(
+            `Only 'apiEndpoint' model listing is supported for OpenAI-compatible provider ${providerConfig.name}.`
+          )
+        }
+        return fetchAndValidateModelsFromApi(
+          sourceConfig?.url ?? `${baseURL}/models`,
+          providerConfig.name,
+          apiKey,
+          signal
+        )
+      }
+    },
+    capabilities: { ...DEFAULT_CAPABILITIES, ...providerConfig.capabilities }
+  }
+}
@@ -0,0 +1,65 @@
+import OpenAI, { AzureOpenAI } from 'openai'
+import { Provider, ProviderCapabilities, ProviderRegistration, ProviderTransport, RosettaAIConfig } from '../../types'
+import { OpenAIMapper } from '../mapping/openai.mapper'
+import { listModelsForProvider } from '../listing/model.lister'
+
+/** Capabilities of the OpenAI API, shared by Azure OpenAI. */
+export const OPENAI_CAPABILITIES: ProviderCapabilities = {
+  chat: true,
+  streaming: true,
+  embeddings: true,
+  transcription: true,
+  translation: true,
+  textToSpeech: true,
+  imageInput: true,
+  toolUse: true,
+  jsonMode: true,
+  structuredOutput: true,
+  thinking: true,
+  batchEmbeddings: true,
+  embeddingDimensions: true,
+  timestampGranularities: true
+}
+
+/**
+ * Creates the transport methods shared by every client speaking the OpenAI wire format
+ * (OpenAI, Azure OpenAI and OpenAI-compatible servers). Model listing is left to the caller.
+ * @param client - An initialized OpenAI or AzureOpenAI SDK client.
+ */
+export function createOpenAITransport(client: OpenAI | AzureOpenAI): ProviderTransport {
+  return {
+    generate: (payload, { signal }) => client.chat.completions.create(payload, { signal }),
+    stream: (payload, { signal }) => client.chat.completions.create(payload, { signal }) as Promise<any>,
+    embed: (payload, { signal }) => client.embeddings.create(payload, { signal }),
+    transcribe: (payload, { signal }) => client.audio.transcriptions.create(payload, { signal }),
+    translate: (payload, { signal }) => client.audio.translations.create(payload, { signal }),
+    speech: params => {
+      const ttsParams: OpenAI.Audio.Speech.SpeechCreateParams = {
+        model: params.model!,
+        input: params.input,
+        voice: params.voice as OpenAI.Audio.Speech.SpeechCreateParams['voice'],
+        response_format: params.responseFormat ?? 'mp3',
+        speed: params.speed ?? 1.0
+      }
+      return client.audio.speech.create(ttsParams, { signal: params.signal })
+    }
+  }
+}
+
+/**
+ * Creates the built-in OpenAI provider registration.
+ * @param client - An initialized OpenAI SDK client.
+ * @param config - The resolved RosettaAI configuration (used for model listing).
+ */
+export function createOpenAIProvider(client: OpenAI, config: RosettaAIConfig): ProviderRegistration {
+  return {
+    provider: Provider.OpenAI,
+    mapper: new OpenAIMapper(),
+    transport: {
+      ...createOpenAITransport(client),
+      listModels: (sourceConfig, signal) =>
+        listModelsForProvider(Provider.OpenAI, { sourceConfig, apiKey: config.openaiApiKey, signal })
+    },
+    capabilities: OPENAI_CAPABILITIES
+  }
+}
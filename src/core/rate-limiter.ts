@@ -0,0 +1,229 @@
+import { ProviderId, ProviderRateLimitConfig, RateLimit, RateLimitEvent, OperationParams } from '../types'
+
+/** Length of the sliding window used for per-minute limits. */
+const WINDOW_MS = 60 * 1000
+
+/** Rough characters-per-token ratio used to estimate prompt sizes. */
+const CHARS_PER_TOKEN = 4
+
+/** A request recorded in a bucket's sliding window. */
+interface WindowEntry {
+  time: number
+  tokens: number
+}
+
+/** Usage tracked against a single provider or model limit. */
+interface Bucket {
+  limit: RateLimit
+  inFlight: number
+  window: WindowEntry[]
+}
+
+/** A queued request waiting for room in all of its buckets. */
+interface Waiter {
+  buckets: Bucket[]
+  model?: string
+  tokens: number
+  enqueuedAt: number
+  resolve: (release: () => void) => void
+}
+
+/**
+ * Estimates the tokens a request will consume: its text input (about 4 characters per token)
+ * plus the requested `maxTokens`, if any.
+ */
+export function estimateRequestTokens(params: OperationParams): number {
+  let chars = 0
+  if ('messages' in params) {
+    for (const message of params.messages) {
+      if (typeof message.content === 'string') {
+        chars += message.content.length
+      } else if (Array.isArray(message.content)) {
+        for (const part of message.content) {
+          if (part.type === 'text') chars += part.text.length
+        }
+      }
+    }
+  } else if ('input' in params) {
+    chars += Array.isArray(params.input) ? params.input.join('').length : params.input.length
+  }
+  const maxTokens = 'maxTokens' in params ? params.maxTokens ?? 0 : 0
+  return Math.ceil(chars / CHARS_PER_TOKEN) + maxTokens
+}
+
+/**
+ * Client-side rate limiter enforcing requests-per-minute, tokens-per-minute and concurrency limits
+ * per provider and per model. Requests that would exceed a limit wait in a queue per provider, in order
+ * among the requests sharing the full limit (so a saturated model does not hold back the others).
+ */
+export class RateLimiter {
+  private readonly limits: Partial<Record<ProviderId, ProviderRateLimitConfig>>
+  private readonly onEvent?: (event: RateLimitEvent) => void
+  private readonly buckets = new Map<string, Bucket>()
+  private readonly queues = new Map<ProviderId, Waiter[]>()
+  private readonly timers = new Map<ProviderId, ReturnType<typeof setTimeout>>()
+
+  constructor(
+    limits: Partial<Record<ProviderId, ProviderRateLimitConfig>> = {},
+    onEvent?: (event: RateLimitEvent) => void
+  ) {
+    this.limits = limits
+    this.onEvent = onEvent
+  }
+
+  /**
+   * Waits until a request for `provider`/`model` fits within the configured limits.
+   * Resolves with a function that must be called once the request has finished.
+   * If `signal` aborts while the request is queued, it leaves the queue and resolves without taking a slot,
+   * so the caller can report the cancellation.
+   */
+  acquire(provider: ProviderId, model: string | undefined, tokens: number, signal?: AbortSignal): Promise<() => void> {
+    const buckets = this.getBuckets(provider, model)
+    if (buckets.length === 0 || signal?.aborted) return Promise.resolve(() => undefined)
+
+    let queue = this.queues.get(provider)
+    if (!queue) {
+      queue = []
+      this.queues.set(provider, queue)
+    }
+    const waiters = queue
+
+    return new Promise(resolve => {
+      let onAbort: (() => void) | undefined = undefined
+      const waiter: Waiter = {
+        buckets,
+        model,
+        tokens,
+        enqueuedAt: Date.now(),
+        resolve: release => {
+          if (onAbort) signal?.removeEventListener('abort', onAbort)
+          resolve(release)
+        }
+      }
+      waiters.push(waiter)
+      this.drain(provider)
+      if (!waiters.includes(waiter)) return
+
+      onAbort = () => {
+        waiters.splice(waiters.indexOf(waiter), 1)
+        resolve(() => undefined)
+        this.drain(provider) // The next request may fit now
+      }
+      signal?.addEventListener('abort', onAbort, { once: true })
+      this.onEvent?.({ type: 'queued', provider, model, queueLength: waiters.length, waitMs: 0 })
+    })
+  }
+
+  /** Returns the buckets a request must fit into: the provider's and, if configured, its model's. */
+  private getBuckets(provider: ProviderId, model: string | undefined): Bucket[] {
+    const config = this.limits[provider]
+    if (!config) return []
+
+    const { models, ...providerLimit } = config
+    const buckets = [this.getBucket(provider, providerLimit)]
+    const modelLimit = model ? models?.[model] : undefined
+    if (modelLimit) buckets.push(this.getBucket(`${provider}:${model}`, modelLimit))
+    return buckets
+  }
+
+  private getBucket(key: string, limit: RateLimit): Bucket {
+    let bucket = this.buckets.get(key)
+    if (!bucket) {
+      bucket = { limit, inFlight: 0, window: [] }
+      this.buckets.set(key, bucket)
+    }
+    return bucket
+  }
+
+  /**
+   * Starts the queued requests that fit, in order. A request that does not fit holds back the later requests
+   * sharing a full bucket with it, but not those for other models. Schedules a retry if time will free room.
+   */
+  private drain(provider: ProviderId): void {
+    const queue = this.queues.get(provider)
+    if (!queue) return
+
+    const blocked = new Set<Bucket>()
+    let retryMs = Infinity
+    let index = 0
+    while (index < queue.length) {
+      const waiter = queue[index]!
+      if (waiter.buckets.some(bucket => blocked.has(bucket))) {
+        index++
+        continue
+      }
+      const now = Date.now()
+      const waits = waiter.buckets.map(bucket => this.getWaitMs(bucket, waiter.tokens, now))
+      if (waits.some(waitMs => waitMs > 0)) {
+        // Concurrency waits (Infinity) are resumed by release(); window waits by a timer
+        waiter.buckets.forEach((bucket, bucketIndex) => {
+          const waitMs = waits[bucketIndex]!
+          if (waitMs > 0) blocked.add(bucket)
+          if (waitMs > 0 && Number.isFinite(waitMs)) retryMs = Math.min(retryMs, waitMs)
+        })
+        index++
+        continue
+      }
+
+      queue.splice(index, 1)
+      for (const bucket of waiter.buckets) {
+        bucket.inFlight++
+        bucket.window.push({ time: now, tokens: waiter.tokens })
+      }
+      this.onEvent?.({
+        type: 'acquired',
+        provider,
+        model: waiter.model,
+        queueLength: queue.length,
+        waitMs: now - waiter.enqueuedAt
+      })
+      waiter.resolve(this.createRelease(provider, waiter.buckets))
+    }
+    if (Number.isFinite(retryMs)) this.schedule(provider, retryMs)
+  }
+
+  /** Returns how long a request must wait for room in a bucket: 0 if it fits now, Infinity until a release. */
+  private getWaitMs(bucket: Bucket, tokens: number, now: number): number {
+    const { limit, window } = bucket
+    while (window.length > 0 && window[0]!.time <= now - WINDOW_MS) window.shift()
+
+    if (limit.maxConcurrent !== undefined && bucket.inFlight >= limit.maxConcurrent) return Infinity
+
+    let waitMs = 0
+    if (limit.requestsPerMinute !== undefined && window.length >= limit.requestsPerMinute) {
+      const oldestToExpire = window[window.length - limit.requestsPerMinute]!
+      waitMs = Math.max(waitMs, oldestToExpire.time + WINDOW_MS - now)
+    }
+    if (limit.tokensPerMinute !== undefined) {
+      let used = window.reduce((sum, entry) => sum + entry.tokens, 0)
+      // A request larger than the whole budget still runs, alone, once the window is empty
+      for (const entry of window) {
+        if (used + tokens <= limit.tokensPerMinute) break
+        used -= entry.tokens
+        waitMs = Math.max(waitMs, entry.time + WINDOW_MS - now)
+      }
+    }
+    return waitMs
+  }
+
+  private schedule(provider: ProviderId, waitMs: number): void {
+    const existing = this.timers.get(provider)
+    if (existing) clearTimeout(existing)
+    const timer = setTimeout(() => {
+      this.timers.delete(provider)
+      this.drain(provider)
+    }, waitMs)
+    timer.unref?.() // Queued requests alone do not keep the process alive
+    this.timers.set(provider, timer)
+  }
+
+  private createRelease(provider: ProviderId, buckets: Bucket[]): () => void {
+    let released = false
+    return () => {
+      if (released) return
+      released = true
+      for (const bucket of buckets) bucket.inFlight--
+      this.drain(provider)
+    }
+  }
+}
@@ -0,0 +1,198 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { createHash } from 'crypto'
+import { Readable } from 'stream'
+import {
+  ProviderId,
+  ProviderTransport,
+  RecordingConfig,
+  RecordedExchange,
+  RecordedOperation,
+  SpeechParams
+} from '../../types'
+import { FixtureNotFoundError } from '../../errors'
+import { canonicalStringify } from '../utils'
+
+/** Parameters that control how a call is made rather than what is sent, so they never affect speech fixture keys. */
+const CALL_CONTROL_PARAMS = new Set(['retry', 'fallback', 'cache', 'tag', 'contextFit', 'signal'])
+
+/** Whether a value is an upload file, such as the result of `prepareAudioUpload` for a Buffer. */
+function isFileLike(value: object): value is { name: string; size: number; type?: string } {
+  const file = value as Record<string, unknown>
+  return typeof file.name === 'string' && typeof file.size === 'number' && typeof file.arrayBuffer === 'function'
+}
+
+/**
+ * Converts a mapped request into JSON data for its fixture key and file. Binary data is replaced by its
+ * SHA-256 digest, upload files by their name, size and type, and streams and functions are dropped.
+ */
+function toFixtureRequest(value: unknown): unknown {
+  if (value instanceof Uint8Array) {
+    return {
+      sha256: createHash('sha256')
+        .update(value)
+        .digest('hex'),
+      size: value.byteLength
+    }
+  }
+  if (value instanceof Readable) return { stream: true }
+  if (value instanceof Date) return value.toISOString()
+  if (Array.isArray(value)) return value.map(toFixtureRequest)
+  if (value && typeof value === 'object') {
+    if (isFileLike(value)) return { file: value.name, size: value.size, type: value.type }
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, entry]) => typeof entry !== 'function')
+        .map(([key, entry]) => [key, toFixtureRequest(entry)])
+    )
+  }
+  return value
+}
+
+/**
+ * Snapshots a raw provider response as JSON data. Recorded calls return the snapshot rather than the
+ * SDK object, so mappers see exactly what they will see when the fixture is replayed.
+ */
+function toJson(value: unknown): any {
+  return value === undefined ? undefined : JSON.parse(JSON.stringify(value))
+}
+
+async function* replayChunks<T>(chunks: T[]): AsyncIterable<T> {
+  yield* chunks
+}
+
+/** Builds the fetch-style response `ProviderTransport.speech` resolves with from recorded audio chunks. */
+function createAudioResponse(chunks: Buffer[]): { arrayBuffer(): Promise<ArrayBuffer>; body: AsyncIterable<Buffer> } {
+  return {
+    arrayBuffer: async () => {
+      const audio = Buffer.concat(chunks)
+      return audio.buffer.slice(audio.byteOffset, audio.byteOffset + audio.byteLength) as ArrayBuffer
+    },
+    body: replayChunks(chunks)
+  }
+}
+
+/**
+ * Wraps a provider transport to record its exchanges to fixture files (`mode: 'record'`) or serve them
+ * from those files without calling the provider (`mode: 'replay'`). Fixtures are keyed by a hash of the
+ * operation, the resolved model and the mapped request, so any change to the request needs a new recording.
+ * Failed calls and streams that end early are not recorded.
+ *
+ * @throws {FixtureNotFoundError} In replay mode, when no fixture matches a request.
+ */
+export function createRecordingTransport(
+  provider: ProviderId,
+  transport: ProviderTransport,
+  config: RecordingConfig
+): ProviderTransport {
+  const getFixturePath = (operation: RecordedOperation, model: string | undefined, request: unknown): string => {
+    const key = createHash('sha256')
+      .update(canonicalStringify({ operation, model, request }))
+      .digest('hex')
+    return path.join(config.directory, encodeURIComponent(provider), `${operation}-${key.slice(0, 16)}.json`)
+  }
+
+  const load = async (operation: RecordedOperation, fixturePath: string): Promise<RecordedExchange> => {
+    try {
+      return JSON.parse(await fs.readFile(fixturePath, 'utf8'))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new FixtureNotFoundError(provider, operation, fixturePath)
+      }
+      throw error
+    }
+  }
+
+  const save = async (fixturePath: string, exchange: RecordedExchange): Promise<void> => {
+    await fs.mkdir(path.dirname(fixturePath), { recursive: true })
+    await fs.writeFile(fixturePath, `${JSON.stringify(exchange, null, 2)}\n`, 'utf8')
+  }
+
+  /** Records or replays a non-streaming exchange. */
+  const exchange = async (
+    operation: RecordedOperation,
+    model: string | undefined,
+    payload: unknown,
+    send: () => Promise<any>
+  ): Promise<any> => {
+    const request = toFixtureRequest(payload)
+    const fixturePath = getFixturePath(operation, model, request)
+    if (config.mode === 'replay') return (await load(operation, fixturePath)).response
+
+    const response = toJson(await send())
+    await save(fixturePath, { provider, operation, model, request, response })
+    return response
+  }
+
+  async function* recordStream(
+    stream: AsyncIterable<unknown>,
+    fixturePath: string,
+    exchange: Omit<RecordedExchange, 'chunks'>
+  ): AsyncIterable<unknown> {
+    const chunks: unknown[] = []
+    for await (const chunk of stream) {
+      const recorded = toJson(chunk)
+      chunks.push(recorded)
+      yield recorded
+    }
+    await save(fixturePath, { ...exchange, chunks })
+  }
+
+  return {
+    generate:
+      transport.generate &&
+      ((payload, params) => exchange('generate', params.model, payload, () => transport.generate!(payload, params))),
+    stream:
+      transport.stream &&
+      (async (payload, params) => {
+        const request = toFixtureRequest(payload)
+        const fixturePath = getFixturePath('stream', params.model, request)
+        if (config.mode === 'replay') return replayChunks((await load('stream', fixturePath)).chunks ?? [])
+
+        const stream = await transport.stream!(payload, params)
+        return recordStream(stream, fixturePath, { provider, operation: 'stream', model: params.model, request })
+      }),
+    embed:
+      transport.embed &&
+      ((payload, params) => exchange('embed', params.model, payload, () => transport.embed!(payload, params))),
+    transcribe:
+      transport.transcribe &&
+      ((payload, params) =>
+        exchange('transcribe', params.model, payload, () => transport.transcribe!(payload, params))),
+    translate:
+      transport.translate &&
+      ((payload, params) => exchange('translate', params.model, payload, () => transport.translate!(payload, params))),
+    speech:
+      transport.speech &&
+      (async (params: SpeechParams) => {
+        const request = toFixtureRequest(
+          Object.fromEntries(Object.entries(params).filter(([name]) => !CALL_CONTROL_PARAMS.has(name)))
+        )
+        const fixturePath = getFixturePath('speech', params.model, request)
+        if (config.mode === 'replay') {
+          const { chunks = [] } = await load('speech', fixturePath)
+          return createAudioResponse(chunks.map(chunk => Buffer.from(chunk as string, 'base64')))
+        }
+
+        // The whole audio is read before it is returned, so recorded speech streams do not stream
+        const response = await transport.speech!(params)
+        const chunks: Buffer[] = []
+        if (response.body) {
+          for await (const chunk of response.body) chunks.push(Buffer.from(chunk as Uint8Array))
+        } else {
+          chunks.push(Buffer.from(await response.arrayBuffer()))
+        }
+        const audioChunks = chunks.map(chunk => chunk.toString('base64'))
+        await save(fixturePath, { provider, operation: 'speech', model: params.model, request, chunks: audioChunks })
+        return createAudioResponse(chunks)
+      }),
+    countTokens:
+      transport.countTokens &&
+      ((payload, params) =>
+        exchange('countTokens', params.model, payload, () => transport.countTokens!(payload, params))),
+    listModels:
+      transport.listModels &&
+      ((sourceConfig, signal) =>
+        exchange('listModels', undefined, sourceConfig, () => transport.listModels!(sourceConfig, signal)))
+  }
+}
@@ -0,0 +1,126 @@
+import { ProviderAPIError } from '../errors'
+import { RetryPolicy } from '../types'
+
+/** A retry policy with every option resolved. */
+export type ResolvedRetryPolicy = Required<Omit<RetryPolicy, 'retryableStatusCodes' | 'retryableErrorTypes'>> &
+  Pick<RetryPolicy, 'retryableStatusCodes' | 'retryableErrorTypes'>
+
+/** Defaults for every retry option except `maxRetries`, which comes from `RosettaAIConfig.defaultMaxRetries`. */
+const DEFAULT_RETRY_DELAYS = { baseDelayMs: 500, maxDelayMs: 30 * 1000, jitter: 0.2 }
+
+/** HTTP statuses that signal a transient failure (timeouts, conflicts, rate limits). Any 5xx also qualifies. */
+const RETRYABLE_STATUS_CODES = new Set([408, 409, 429])
+
+/** Provider error types/codes that signal a transient failure. */
+const RETRYABLE_ERROR_KIND = /overloaded|rate_limit|timeout/i
+
+/** Underlying SDK/network errors raised when no response was received at all. */
+const CONNECTION_ERROR = /connection|timeout|timed out|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|fetch failed/i
+
+/**
+ * Returns true if an error is a transient provider failure worth retrying elsewhere or later:
+ * rate limits, overload (e.g., Anthropic 529), server errors, timeouts and connection failures.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!(error instanceof ProviderAPIError)) return false
+
+  const { statusCode } = error
+  if (statusCode !== undefined && (RETRYABLE_STATUS_CODES.has(statusCode) || statusCode >= 500)) return true
+  if (RETRYABLE_ERROR_KIND.test(`${error.errorType ?? ''} ${error.errorCode ?? ''}`)) return true
+
+  const underlying = error.underlyingError
+  return underlying instanceof Error && CONNECTION_ERROR.test(`${underlying.name} ${underlying.message}`)
+}
+
+/** Merges the global and per-call retry policies over the defaults. */
+export function resolveRetryPolicy(
+  defaultMaxRetries: number,
+  globalPolicy?: RetryPolicy,
+  callPolicy?: RetryPolicy
+): ResolvedRetryPolicy {
+  return { maxRetries: defaultMaxRetries, ...DEFAULT_RETRY_DELAYS, ...globalPolicy, ...callPolicy }
+}
+
+/** Decides whether a failed attempt should be retried under the given policy. */
+export function shouldRetry(error: unknown, policy: ResolvedRetryPolicy): boolean {
+  const { retryableStatusCodes, retryableErrorTypes } = policy
+  if (!retryableStatusCodes && !retryableErrorTypes) return isRetryableError(error)
+  if (!(error instanceof ProviderAPIError)) return false
+
+  if (error.statusCode !== undefined && retryableStatusCodes?.includes(error.statusCode)) return true
+  return !!retryableErrorTypes?.some(type => type === error.errorType || type === error.errorCode)
+}
+
+/** Reads a header from a fetch `Headers` instance or a plain header record (as exposed by the provider SDKs). */
+function readHeader(headers: any, name: string): string | undefined {
+  if (!headers || typeof headers !== 'object') return undefined
+  const value = typeof headers.get === 'function' ? headers.get(name) : headers[name] ?? headers[name.toLowerCase()]
+  return typeof value === 'string' ? value : undefined
+}
+
+/**
+ * Extracts the delay requested by the provider through the `retry-after-ms` or `Retry-After` headers
+ * of the response carried on `ProviderAPIError.underlyingError`, in milliseconds.
+ */
+export function getRetryAfterMs(error: unknown): number | undefined {
+  if (!(error instanceof ProviderAPIError)) return undefined
+  const headers = (error.underlyingError as any)?.headers
+
+  const retryAfterMs = Number.parseFloat(readHeader(headers, 'retry-after-ms') ?? '')
+  if (Number.isFinite(retryAfterMs) && retryAfterMs >= 0) return retryAfterMs
+
+  const retryAfter = readHeader(headers, 'retry-after')
+  if (retryAfter === undefined) return undefined
+  const seconds = Number.parseFloat(retryAfter)
+  if (Number.isFinite(seconds) && seconds >= 0) return seconds * 1000
+  const date = Date.parse(retryAfter) // HTTP-date form
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+/**
+ * Computes the delay before retry number `retry` (0-based): the provider's `Retry-After` when present,
+ * otherwise exponential backoff with jitter. Always capped at `maxDelayMs`.
+ */
+export function getRetryDelayMs(error: unknown, retry: number, policy: ResolvedRetryPolicy): number {
+  const retryAfter = getRetryAfterMs(error)
+  if (retryAfter !== undefined) return Math.min(retryAfter, policy.maxDelayMs)
+
+  const backoff = Math.min(policy.baseDelayMs * 2 ** retry, policy.maxDelayMs)
+  const jitter = Math.min(Math.max(policy.jitter, 0), 1)
+  return backoff * (1 - jitter * Math.random())
+}
+
+/** Waits for `ms` milliseconds, or until `signal` aborts. */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    let timer: ReturnType<typeof setTimeout> | undefined = undefined
+    const done = (): void => {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', done)
+      resolve()
+    }
+    timer = setTimeout(done, ms)
+    signal?.addEventListener('abort', done, { once: true })
+  })
+}
+
+/**
+ * Runs `operation`, retrying it according to `policy` while it fails with retryable errors.
+ * `operation` must throw `RosettaAIError`s (wrap provider errors first) for status-based retries to apply.
+ * Once `signal` aborts, no further attempt is made and the last error is thrown; callers report the cancellation.
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  policy: ResolvedRetryPolicy,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let retry = 0; ; retry++) {
+    try {
+      return await operation()
+    } catch (error) {
+      if (retry >= policy.maxRetries || signal?.aborted || !shouldRetry(error, policy)) throw error
+      await sleep(getRetryDelayMs(error, retry, policy), signal)
+      if (signal?.aborted) throw error
+    }
+  }
+}
@@ -1,22 +1,14 @@
 import Anthropic from '@anthropic-ai/sdk'
-import {
-  GoogleGenerativeAI,
-  GenerativeModel,
-  HarmCategory,
-  HarmBlockThreshold,
-  StartChatParams,
-  GenerateContentRequest,
-  EmbedContentRequest,
-  BatchEmbedContentsRequest,
-  Part as GooglePart
-} from '@google/generative-ai'
+import { GoogleGenerativeAI } from '@google/generative-ai'
 import Groq from 'groq-sdk'
 import OpenAI, { AzureOpenAI } from 'openai'
 
 import { config as dotenvConfig } from 'dotenv'
+import { randomUUID } from 'crypto'
 
 import {
   Provider,
+  ProviderId,
   RosettaAIConfig,
   GenerateParams,
   GenerateResult,
@@ -28,24 +20,90 @@ import {
   TranslateParams,
   TranscriptionResult,
   StreamChunk,
-  ProviderOptions,
   RosettaModelList, // Import new model types
-  ModelListingSourceConfig // Import new config type
+  ModelListingSourceConfig, // Import new config type
+  ProviderRegistration,
+  ProviderCapabilities,
+  ProviderTransport,
+  RosettaMiddleware,
+  RosettaOperation,
+  MiddlewareContext,
+  FallbackTarget,
+  FallbackAttempt,
+  FallbackInfo,
+  RetryPolicy,
+  OperationParams,
+  TokenUsage,
+  CostBreakdown,
+  CostReport,
+  TokenCountResult,
+  ContextFitOptions,
+  ContextFitInfo,
+  RosettaModel,
+  RosettaMessage,
+  ConversationOptions,
+  RunToolsParams,
+  RunToolsResult,
+  ToolLoopChunk,
+  GenerateObjectParams,
+  GenerateObjectResult,
+  ObjectStreamChunk
 } from '../types'
-import { ConfigurationError, ProviderAPIError, UnsupportedFeatureError, RosettaAIError, MappingError } from '../errors'
+import {
+  ConfigurationError,
+  ProviderAPIError,
+  UnsupportedFeatureError,
+  RosettaAIError,
+  MappingError,
+  CancellationError
+} from '../errors'
+
+// Built-in provider registrations
+import { createAnthropicProvider } from './providers/anthropic.provider'
+import { createGoogleProvider } from './providers/google.provider'
+import { createGroqProvider } from './providers/groq.provider'
+import { createOpenAIProvider } from './providers/openai.provider'
+import { createAzureOpenAIProvider } from './providers/azure.openai.provider'
+import { createOpenAICompatibleProvider } from './providers/openai.compatible.provider'
+import { createMockProvider, DEFAULT_MOCK_MODEL } from './providers/mock.provider'
+
+import { prepareAudioUpload, isAbortError } from './utils'
+import { applyPayloadTransforms, runMiddleware, runStreamMiddleware } from './middleware'
+import { validateStructuredOutput, validateStructuredStream } from './structured/structured.output'
+import { toError, withFallbackInfo } from './fallback'
+import { isRetryableError, resolveRetryPolicy, withRetry, ResolvedRetryPolicy } from './retry'
+import { RateLimiter, estimateRequestTokens } from './rate-limiter'
+import { createCacheMiddleware } from './cache/cache.middleware'
+import { createTracingMiddleware } from './tracing/tracing.middleware'
+import { createRecordingTransport } from './recording/recording.transport'
+import { CostTracker } from './cost/cost.tracker'
+import { estimatePromptTokens } from './token-counter'
+import { RosettaLog, consoleLogger, getLog } from './logger'
+import { Conversation } from './conversation'
+import { runToolLoop, streamToolLoop } from './tools/tool.runner'
+import { generateObject, streamObject } from './structured/object.generator'
+import {
+  fitContext,
+  formatTranscript,
+  withContextFitInfo,
+  DEFAULT_SUMMARY_MAX_TOKENS,
+  SUMMARY_INSTRUCTIONS
+} from './context-window'
 
-// Import V2 Mappers and Interface
-import { IProviderMapper } from './mapping/base.mapper'
-import { AnthropicMapper } from './mapping/anthropic.mapper'
-import { GoogleMapper } from './mapping/google.mapper'
-import { GroqMapper } from './mapping/groq.mapper'
-import { OpenAIMapper } from './mapping/openai.mapper'
-import { AzureOpenAIMapper } from './mapping/azure.openai.mapper'
+dotenvConfig()
 
-import { prepareAudioUpload } from './utils'
-import { listModelsForProvider } from './listing/model.lister' // Import internal lister function
+/** Operation capabilities and the transport method each one requires. */
+const OPERATION_TRANSPORT_METHODS: Partial<Record<keyof ProviderCapabilities, keyof ProviderTransport>> = {
+  chat: 'generate',
+  streaming: 'stream',
+  embeddings: 'embed',
+  transcription: 'transcribe',
+  translation: 'translate',
+  textToSpeech: 'speech'
+}
 
-dotenvConfig()
+/** Azure OpenAI endpoint of replay mode, where calls never reach the provider. */
+const REPLAY_AZURE_ENDPOINT = 'https://replay.openai.azure.com'
 
 /**
  * RosettaAI: Unified SDK for Interacting with Multiple AI Providers.
@@ -58,31 +116,49 @@ export class RosettaAI {
   private groqClient?: Groq
   private openAIClient?: OpenAI
   private azureOpenAIClient?: AzureOpenAI
-  /** @internal Map holding initialized provider mappers. */
-  private mappers: Map<Provider, IProviderMapper>
+  /** @internal Map holding registered providers (built-in and custom). */
+  private providers: Map<ProviderId, ProviderRegistration>
+  /** @internal Middleware wrapping every operation, outermost first. */
+  private middleware: RosettaMiddleware[]
+  /** @internal Client-side rate limiter shared by all operations. */
+  private rateLimiter: RateLimiter
+  /** @internal Model lists used to look up context windows, fetched lazily per provider. */
+  private modelLists = new Map<ProviderId, Promise<RosettaModelList>>()
+  /** @internal Prices calls and accumulates spend for `getCostReport`. */
+  private costTracker: CostTracker
+  /** @internal Routes the SDK's warnings and errors to the configured logger. */
+  private log: RosettaLog
 
   /** Creates an instance of the RosettaAI client. */
   constructor(config: RosettaAIConfig = {}) {
     const loadEnv = (key: string): string | undefined => process.env[key]
+    // Replayed calls never reach the provider, so built-in providers need no real API key (or Azure endpoint)
+    const replayApiKey = config.recording?.mode === 'replay' ? 'replay' : undefined
+    const azureChatDeployment = config.azureOpenAIDefaultChatDeploymentName ?? loadEnv('AZURE_OPENAI_DEPLOYMENT_NAME')
+    const azureEmbeddingDeployment =
+      config.azureOpenAIDefaultEmbeddingDeploymentName ?? loadEnv('ROSETTA_AZURE_OPENAI_EMBEDDING_DEPLOYMENT_NAME')
+    // The default Azure model is the deployment the mapper would pick without one, so results name it
+    const azureOptions = config.providerOptions?.[Provider.AzureOpenAI] ?? config.providerOptions?.[Provider.OpenAI]
 
     // Load configuration, prioritizing constructor args > env vars
     this.config = {
-      anthropicApiKey: config.anthropicApiKey ?? loadEnv('ANTHROPIC_API_KEY'),
-      googleApiKey: config.googleApiKey ?? loadEnv('GOOGLE_API_KEY'),
-      groqApiKey: config.groqApiKey ?? loadEnv('GROQ_API_KEY'),
-      openaiApiKey: config.openaiApiKey ?? loadEnv('OPENAI_API_KEY'),
-      azureOpenAIApiKey: config.azureOpenAIApiKey ?? loadEnv('AZURE_OPENAI_API_KEY'),
-      azureOpenAIEndpoint: config.azureOpenAIEndpoint ?? loadEnv('AZURE_OPENAI_ENDPOINT'),
-      azureOpenAIDefaultChatDeploymentName:
-        config.azureOpenAIDefaultChatDeploymentName ?? loadEnv('AZURE_OPENAI_DEPLOYMENT_NAME'),
-      azureOpenAIDefaultEmbeddingDeploymentName:
-        config.azureOpenAIDefaultEmbeddingDeploymentName ?? loadEnv('ROSETTA_AZURE_OPENAI_EMBEDDING_DEPLOYMENT_NAME'),
-      azureOpenAIApiVersion: config.azureOpenAIApiVersion ?? loadEnv('AZURE_OPENAI_API_VERSION'),
+      anthropicApiKey: config.anthropicApiKey ?? loadEnv('ANTHROPIC_API_KEY') ?? replayApiKey,
+      googleApiKey: config.googleApiKey ?? loadEnv('GOOGLE_API_KEY') ?? replayApiKey,
+      groqApiKey: config.groqApiKey ?? loadEnv('GROQ_API_KEY') ?? replayApiKey,
+      openaiApiKey: config.openaiApiKey ?? loadEnv('OPENAI_API_KEY') ?? replayApiKey,
+      azureOpenAIApiKey: config.azureOpenAIApiKey ?? loadEnv('AZURE_OPENAI_API_KEY') ?? replayApiKey,
+      azureOpenAIEndpoint:
+        config.azureOpenAIEndpoint ?? loadEnv('AZURE_OPENAI_ENDPOINT') ?? (replayApiKey && REPLAY_AZURE_ENDPOINT),
+      azureOpenAIDefaultChatDeploymentName: azureChatDeployment,
+      azureOpenAIDefaultEmbeddingDeploymentName: azureEmbeddingDeployment,
+      azureOpenAIApiVersion: config.azureOpenAIApiVersion ?? loadEnv('AZURE_OPENAI_API_VERSION') ?? replayApiKey,
       defaultModels: {
         [Provider.Anthropic]: config.defaultModels?.[Provider.Anthropic] ?? loadEnv('ROSETTA_DEFAULT_ANTHROPIC_MODEL'),
         [Provider.Google]: config.defaultModels?.[Provider.Google] ?? loadEnv('ROSETTA_DEFAULT_GOOGLE_MODEL'),
         [Provider.Groq]: config.defaultModels?.[Provider.Groq] ?? loadEnv('ROSETTA_DEFAULT_GROQ_MODEL'),
         [Provider.OpenAI]: config.defaultModels?.[Provider.OpenAI] ?? loadEnv('ROSETTA_DEFAULT_OPENAI_MODEL'),
+        [Provider.AzureOpenAI]:
+          config.defaultModels?.[Provider.AzureOpenAI] ?? azureOptions?.azureChatDeploymentId ?? azureChatDeployment,
         ...config.defaultModels
       },
       defaultEmbeddingModels: {
@@ -92,6 +168,10 @@ export class RosettaAI {
           config.defaultEmbeddingModels?.[Provider.OpenAI] ?? loadEnv('ROSETTA_DEFAULT_EMBEDDING_OPENAI_MODEL'),
         [Provider.Groq]:
           config.defaultEmbeddingModels?.[Provider.Groq] ?? loadEnv('ROSETTA_DEFAULT_EMBEDDING_GROQ_MODEL'),
+        [Provider.AzureOpenAI]:
+          config.defaultEmbeddingModels?.[Provider.AzureOpenAI] ??
+          azureOptions?.azureEmbeddingDeploymentId ??
+          azureEmbeddingDeployment,
         ...config.defaultEmbeddingModels
       },
       defaultTtsModels: {
@@ -106,11 +186,41 @@ export class RosettaAI {
       providerOptions: config.providerOptions,
       defaultMaxRetries: config.defaultMaxRetries ?? 2,
       defaultTimeoutMs: config.defaultTimeoutMs ?? 60 * 1000,
-      modelListingConfig: config.modelListingConfig // Include new config option
+      modelListingConfig: config.modelListingConfig, // Include new config option
+      openAICompatibleProviders: config.openAICompatibleProviders,
+      mock: config.mock,
+      providers: config.providers,
+      middleware: config.middleware,
+      fallbackPolicies: config.fallbackPolicies,
+      retry: config.retry,
+      rateLimits: config.rateLimits,
+      onRateLimit: config.onRateLimit,
+      cache: config.cache,
+      pricing: config.pricing,
+      contextFit: config.contextFit,
+      logger: config.logger,
+      logLevel: config.logLevel,
+      strictWarnings: config.strictWarnings,
+      tracer: config.tracer,
+      recording: config.recording
     }
+    this.log = new RosettaLog({
+      logger: config.logger ?? consoleLogger,
+      level: config.logLevel ?? 'info',
+      strictWarnings: config.strictWarnings ?? false
+    })
+    this.middleware = [...(config.middleware ?? [])]
+    if (config.tracer) this.middleware.unshift(createTracingMiddleware(config.tracer)) // Outermost, see createTracingMiddleware
+    if (config.cache) this.middleware.push(createCacheMiddleware(config.cache)) // Innermost, see createCacheMiddleware
+    this.rateLimiter = new RateLimiter(config.rateLimits, config.onRateLimit)
+    this.costTracker = new CostTracker(config.pricing)
 
+    this.providers = new Map<ProviderId, ProviderRegistration>()
     this.initializeClients()
-    this.initializeMappers() // Initialize mappers after clients
+    this.registerBuiltInProviders() // Register built-in providers after clients
+    this.registerOpenAICompatibleProviders()
+    this.registerMockProvider()
+    this.config.providers?.forEach(registration => this.registerProvider(registration))
     this.validateConfiguration()
   }
 
@@ -121,7 +231,7 @@ export class RosettaAI {
       this.anthropicClient = new Anthropic({
         apiKey: this.config.anthropicApiKey,
         baseURL: this.config.providerOptions?.[Provider.Anthropic]?.baseURL,
-        maxRetries: this.config.defaultMaxRetries,
+        maxRetries: 0, // Retries are handled by RosettaAI (see sendWithRetry)
         timeout: this.config.defaultTimeoutMs
       })
     }
@@ -137,55 +247,146 @@ export class RosettaAI {
         this.groqClient = new Groq({
           apiKey: this.config.groqApiKey,
           baseURL: this.config.providerOptions?.[Provider.Groq]?.baseURL,
-          maxRetries: this.config.defaultMaxRetries,
+          maxRetries: 0, // Retries are handled by RosettaAI (see sendWithRetry)
           timeout: this.config.defaultTimeoutMs
         })
       } catch (e) {
         const message = e instanceof Error ? e.message : String(e)
-        console.warn(`RosettaAI: Groq init failed: ${message}. Provider unavailable.`)
+        this.log.warn('provider_init_failed', `RosettaAI: Groq init failed: ${message}. Provider unavailable.`, {
+          provider: Provider.Groq,
+          error: e
+        })
       }
     }
 
-    // OpenAI / Azure OpenAI
+    // Azure OpenAI (independent of standard OpenAI, both can be configured)
     if (this.config.azureOpenAIEndpoint && this.config.azureOpenAIApiKey && this.config.azureOpenAIApiVersion) {
       try {
         this.azureOpenAIClient = new AzureOpenAI({
           apiKey: this.config.azureOpenAIApiKey,
           endpoint: this.config.azureOpenAIEndpoint,
           apiVersion: this.config.azureOpenAIApiVersion,
-          maxRetries: this.config.defaultMaxRetries,
+          maxRetries: 0, // Retries are handled by RosettaAI (see sendWithRetry)
           timeout: this.config.defaultTimeoutMs
         })
-        console.log(
-          `RosettaAI: Initialized Azure OpenAI client (Endpoint: ${this.config.azureOpenAIEndpoint}, API Version: ${this.config.azureOpenAIApiVersion}).`
+        this.log.info(
+          `RosettaAI: Initialized Azure OpenAI client (Endpoint: ${this.config.azureOpenAIEndpoint}, API Version: ${this.config.azureOpenAIApiVersion}).`,
+          { provider: Provider.AzureOpenAI }
         )
       } catch (e) {
         const message = e instanceof Error ? e.message : String(e)
-        console.warn(`RosettaAI: Azure OpenAI init failed: ${message}. Ensure endpoint and apiVersion are correct.`)
+        this.log.warn(
+          'provider_init_failed',
+          `RosettaAI: Azure OpenAI init failed: ${message}. Ensure endpoint and apiVersion are correct.`,
+          { provider: Provider.AzureOpenAI, error: e }
+        )
       }
-    } else if (this.config.openaiApiKey) {
+    }
+
+    // Standard OpenAI
+    if (this.config.openaiApiKey) {
       this.openAIClient = new OpenAI({
         apiKey: this.config.openaiApiKey,
         baseURL: this.config.providerOptions?.[Provider.OpenAI]?.baseURL,
-        maxRetries: this.config.defaultMaxRetries,
+        maxRetries: 0, // Retries are handled by RosettaAI (see sendWithRetry)
         timeout: this.config.defaultTimeoutMs
       })
-      console.log('RosettaAI: Initialized standard OpenAI client.')
+      this.log.info('RosettaAI: Initialized standard OpenAI client.', { provider: Provider.OpenAI })
     }
   }
 
-  /** @internal Initializes the provider mappers map. */
-  private initializeMappers(): void {
-    this.mappers = new Map<Provider, IProviderMapper>()
-    if (this.anthropicClient) this.mappers.set(Provider.Anthropic, new AnthropicMapper())
-    if (this.googleClient) this.mappers.set(Provider.Google, new GoogleMapper())
-    if (this.groqClient) this.mappers.set(Provider.Groq, new GroqMapper())
-    // Handle OpenAI/Azure selection for the 'openai' provider key
+  /** @internal Registers the built-in providers for every initialized client. */
+  private registerBuiltInProviders(): void {
+    if (this.anthropicClient) {
+      this.registerProvider(createAnthropicProvider(this.anthropicClient, this.config.anthropicApiKey))
+    }
+    if (this.googleClient) this.registerProvider(createGoogleProvider(this.googleClient, this.config))
+    if (this.groqClient) this.registerProvider(createGroqProvider(this.groqClient, this.config.groqApiKey))
+    if (this.openAIClient) this.registerProvider(createOpenAIProvider(this.openAIClient, this.config))
     if (this.azureOpenAIClient) {
-      this.mappers.set(Provider.OpenAI, new AzureOpenAIMapper(this.config)) // Pass config
-    } else if (this.openAIClient) {
-      this.mappers.set(Provider.OpenAI, new OpenAIMapper())
+      this.registerProvider(createAzureOpenAIProvider(this.azureOpenAIClient, this.config))
+    }
+  }
+
+  /** @internal Registers each configured OpenAI-compatible endpoint as its own provider. */
+  private registerOpenAICompatibleProviders(): void {
+    const builtInProviders: string[] = Object.values(Provider)
+    for (const providerConfig of this.config.openAICompatibleProviders ?? []) {
+      const { name } = providerConfig
+      if (!name || !providerConfig.baseURL) {
+        throw new ConfigurationError('OpenAI-compatible providers require both a name and a baseURL.')
+      }
+      if (builtInProviders.includes(name) || this.providers.has(name)) {
+        throw new ConfigurationError(`OpenAI-compatible provider name '${name}' is already in use.`)
+      }
+
+      // Per-provider defaults apply unless explicitly set in the global default maps
+      if (providerConfig.defaultModel && !this.config.defaultModels?.[name]) {
+        this.config.defaultModels = { ...this.config.defaultModels, [name]: providerConfig.defaultModel }
+      }
+      if (providerConfig.defaultEmbeddingModel && !this.config.defaultEmbeddingModels?.[name]) {
+        this.config.defaultEmbeddingModels = {
+          ...this.config.defaultEmbeddingModels,
+          [name]: providerConfig.defaultEmbeddingModel
+        }
+      }
+
+      this.registerProvider(createOpenAICompatibleProvider(providerConfig, this.config))
+      this.log.info(`RosettaAI: Initialized OpenAI-compatible provider '${name}' (${providerConfig.baseURL}).`, {
+        provider: name
+      })
+    }
+  }
+
+  /** @internal Registers the scripted mock provider, if configured. */
+  private registerMockProvider(): void {
+    if (!this.config.mock) return
+    const registration = createMockProvider(this.config.mock)
+    const name = registration.provider
+    if ((Object.values(Provider) as string[]).includes(name) || this.providers.has(name)) {
+      throw new ConfigurationError(`Mock provider name '${name}' is already in use.`)
+    }
+
+    const defaultModel = this.config.mock.defaultModel ?? DEFAULT_MOCK_MODEL
+    if (!this.config.defaultModels?.[name]) {
+      this.config.defaultModels = { ...this.config.defaultModels, [name]: defaultModel }
     }
+    if (!this.config.defaultEmbeddingModels?.[name]) {
+      this.config.defaultEmbeddingModels = { ...this.config.defaultEmbeddingModels, [name]: defaultModel }
+    }
+    this.registerProvider(registration)
+  }
+
+  /**
+   * Registers a provider, making it available to every RosettaAI operation under its provider ID.
+   * Registering an ID that is already in use replaces the existing registration, which also allows
+   * overriding a built-in provider. With `recording` configured, the transport records or replays its exchanges.
+   *
+   * @param registration The provider's mapper, transport and capability declaration.
+   * @throws {ConfigurationError} If a declared capability has no matching transport method.
+   */
+  public registerProvider(registration: ProviderRegistration): void {
+    if (!registration.provider) {
+      throw new ConfigurationError('Provider registration requires a provider ID.')
+    }
+    for (const capability of Object.keys(OPERATION_TRANSPORT_METHODS) as Array<keyof ProviderCapabilities>) {
+      const method = OPERATION_TRANSPORT_METHODS[capability]!
+      if (registration.capabilities[capability] && typeof registration.transport[method] !== 'function') {
+        throw new ConfigurationError(
+          `Provider '${registration.provider}' declares '${capability}' but its transport does not implement '${method}'.`
+        )
+      }
+    }
+    const { recording } = this.config
+    this.providers.set(
+      registration.provider,
+      recording
+        ? {
+            ...registration,
+            transport: createRecordingTransport(registration.provider, registration.transport, recording)
+          }
+        : registration
+    )
   }
 
   /** @internal Validates necessary configuration is present. */
@@ -196,107 +397,178 @@ export class RosettaAI {
         'No AI providers configured. Please provide API keys via constructor or environment variables.'
       )
     }
-    console.log(`RosettaAI: Active providers: ${configured.join(', ')}`)
+    this.log.info(`RosettaAI: Active providers: ${configured.join(', ')}`)
 
     // Specific Azure warnings
     if (this.config.azureOpenAIEndpoint && !this.config.azureOpenAIApiKey && !this.azureOpenAIClient) {
-      console.warn(
-        'RosettaAI Warning: Azure OpenAI endpoint provided, but API key is missing or invalid. Azure OpenAI client not initialized.'
+      this.log.warn(
+        'provider_init_failed',
+        'RosettaAI Warning: Azure OpenAI endpoint provided, but API key is missing or invalid. Azure OpenAI client not initialized.',
+        { provider: Provider.AzureOpenAI }
       )
     }
     if (!this.config.azureOpenAIEndpoint && this.config.azureOpenAIApiKey && !this.azureOpenAIClient) {
-      console.warn(
-        'RosettaAI Warning: Azure OpenAI API key provided, but endpoint is missing. Azure OpenAI client not initialized.'
+      this.log.warn(
+        'provider_init_failed',
+        'RosettaAI Warning: Azure OpenAI API key provided, but endpoint is missing. Azure OpenAI client not initialized.',
+        { provider: Provider.AzureOpenAI }
       )
     }
     if (this.config.azureOpenAIEndpoint && this.config.azureOpenAIApiKey && !this.config.azureOpenAIApiVersion) {
-      console.warn(
-        'RosettaAI Warning: Azure OpenAI endpoint and key provided, but API version is missing. Azure OpenAI client not initialized.'
+      this.log.warn(
+        'provider_init_failed',
+        'RosettaAI Warning: Azure OpenAI endpoint and key provided, but API version is missing. Azure OpenAI client not initialized.',
+        { provider: Provider.AzureOpenAI }
       )
     }
   }
 
+  /**
+   * Reports the spend of all provider calls made by this instance (cache hits are not included),
+   * per provider, model and `tag`.
+   */
+  public getCostReport(): CostReport {
+    return this.costTracker.getReport()
+  }
+
+  /** Clears the spend recorded for `getCostReport`. */
+  public resetCostReport(): void {
+    this.costTracker.reset()
+  }
+
+  /**
+   * Starts a conversation: a chat session that keeps its message history and appends each reply to it.
+   * @param options Defaults for every turn (e.g., `provider`, `model`, `tools`) and the initial history.
+   */
+  public createConversation(options?: ConversationOptions): Conversation {
+    return new Conversation(this, options)
+  }
+
+  /**
+   * Runs a tool loop: calls the model, executes the tool calls it requests with their handlers (in parallel
+   * when it requests several), sends the results back, and repeats until the model gives a final answer
+   * or `maxSteps` model calls were made. Handler errors are sent back as failed tool results (`isError`).
+   *
+   * @param params A `generate` request whose tools come with handlers.
+   * @returns The final answer, with every step and the whole conversation.
+   * @throws {ConfigurationError} If two tools share a name or `maxSteps` is not a positive integer.
+   */
+  public runTools(params: RunToolsParams): Promise<RunToolsResult> {
+    return runToolLoop(this, params, this.config.tracer)
+  }
+
+  /**
+   * Streams a tool loop (see `runTools`): the chunks of each model call, `tool_execution_start` and
+   * `tool_execution_done` events around tool executions, and a final `tool_loop_done` with the result.
+   */
+  public streamTools(params: RunToolsParams): AsyncIterable<ToolLoopChunk> {
+    return streamToolLoop(this, params, this.config.tracer)
+  }
+
+  /**
+   * Generates an object matching a Zod schema: the schema is sent as `responseFormat.schema`, and the output is
+   * parsed with it. With `maxRepairs`, output that does not match is sent back to the model with the problems
+   * found, asking for corrected output.
+   *
+   * @example
+   * const { object } = await rosetta.generateObject({
+   *   provider: Provider.OpenAI,
+   *   messages: [{ role: 'user', content: 'Suggest a recipe.' }],
+   *   schema: z.object({ name: z.string(), ingredients: z.array(z.string()) }),
+   *   maxRepairs: 2
+   * })
+   *
+   * @returns The response whose output matched, with the parsed `object`.
+   * @throws {StructuredOutputError} If the output still does not match after `maxRepairs` repair requests.
+   * @throws {ConfigurationError} If `maxRepairs` is not a non-negative integer.
+   * @throws {MappingError} If the schema uses Zod types without a JSON Schema equivalent.
+   */
+  public generateObject<T>(params: GenerateObjectParams<T>): Promise<GenerateObjectResult<T>> {
+    return generateObject(this, params)
+  }
+
+  /**
+   * Streams an object matching a Zod schema (see `generateObject`): the chunks of each model call,
+   * `partial_object` events with the object received so far, `object_repair` events when output is sent back
+   * for correction, and a final `object_done` with the result.
+   */
+  public streamObject<T>(params: GenerateObjectParams<T>): AsyncIterable<ObjectStreamChunk<T>> {
+    return streamObject(this, params)
+  }
+
   /** Gets a list of successfully configured providers for this client instance. */
-  public getConfiguredProviders(): Provider[] {
-    return Array.from(this.mappers.keys()) // Providers are keys in the mappers map
+  public getConfiguredProviders(): ProviderId[] {
+    return Array.from(this.providers.keys()) // Providers are keys in the registry
   }
 
-  /** @internal Gets the mapper instance for a given provider. */
-  private getMapper(provider: Provider): IProviderMapper {
-    const mapper = this.mappers.get(provider)
-    if (!mapper) {
+  /** @internal Gets the registration for a given provider. */
+  private getProvider(provider: ProviderId): ProviderRegistration {
+    const registration = this.providers.get(provider)
+    if (!registration) {
+      if (provider === Provider.OpenAI && this.providers.has(Provider.AzureOpenAI)) {
+        // Azure used to be served under the 'openai' key
+        throw new ConfigurationError(
+          `Provider '${provider}' is not configured. Azure OpenAI is configured as provider '${Provider.AzureOpenAI}'.`
+        )
+      }
       throw this.providerNotConfigured(provider)
     }
-    return mapper
-  }
-
-  /** @internal Gets the underlying SDK client instance for a given provider. */
-  private getClientForProvider(provider: Provider): Anthropic | GoogleGenerativeAI | Groq | OpenAI | AzureOpenAI {
-    switch (provider) {
-      case Provider.Anthropic:
-        if (!this.anthropicClient) throw this.providerNotConfigured(provider)
-        return this.anthropicClient
-      case Provider.Google:
-        if (!this.googleClient) throw this.providerNotConfigured(provider)
-        return this.googleClient // Note: Methods are called on model object, not client directly
-      case Provider.Groq:
-        if (!this.groqClient) throw this.providerNotConfigured(provider)
-        return this.groqClient
-      case Provider.OpenAI:
-        // Prioritize Azure
-        const client = this.azureOpenAIClient ?? this.openAIClient
-        if (!client) throw this.providerNotConfigured(provider)
-        return client
-      default:
-        // Ensure exhaustive check works with `never`
-        const _e: never = provider
-        throw new RosettaAIError(`Unsupported provider: ${_e}`)
-    }
-  }
-
-  /** Generates a chat completion (non-streaming). */
+    return registration
+  }
+
+  /**
+   * Generates a chat completion (non-streaming).
+   * With `params.fallback`, retryable failures move on to the next target in the chain.
+   */
   public async generate(params: GenerateParams): Promise<GenerateResult> {
-    const mapper = this.getMapper(params.provider)
+    const chain = this.resolveFallbackChain(params)
+    if (!chain) return this.generateWithTarget(params)
+
+    const failedAttempts: FallbackAttempt[] = []
+    for (const [targetIndex, target] of chain.targets.entries()) {
+      try {
+        const result = await this.generateWithTarget(target)
+        const fallback = { provider: target.provider, model: target.model!, targetIndex, failedAttempts }
+        return { ...result, fallback }
+      } catch (error) {
+        if (targetIndex === chain.targets.length - 1 || !chain.shouldFallback(error)) throw error
+        failedAttempts.push({ provider: target.provider, model: target.model, error: toError(error) })
+      }
+    }
+    // Unreachable: the chain always contains the request's own target
+    throw new ConfigurationError('Fallback chain is empty.')
+  }
+
+  /** @internal Runs a single generate attempt (model resolution, middleware, execution). */
+  private async generateWithTarget(params: GenerateParams): Promise<GenerateResult> {
+    this.getProvider(params.provider) // Fail fast if the provider is not configured
     const model = params.model ?? this.config.defaultModels?.[params.provider]
     if (!model) {
       throw new ConfigurationError(`Model must be specified for provider ${params.provider} (or set a default).`)
     }
     const effectiveParams = { ...params, model, stream: false }
-    this.checkUnsupportedFeatures(params.provider, effectiveParams, 'Generate', !!this.azureOpenAIClient)
+    const context = this.createMiddlewareContext('generate')
+    return this.getOperationLog(context, effectiveParams).run(async () => {
+      const fitted = await this.applyContextFit(effectiveParams)
+      const result = await runMiddleware(this.middleware, fitted.params, context, p => this.executeGenerate(p, context))
+      return fitted.info ? { ...result, contextFit: fitted.info } : result
+    })
+  }
+
+  /** @internal Performs a chat completion once the middleware chain has run. */
+  private async executeGenerate(params: GenerateParams, context: MiddlewareContext): Promise<GenerateResult> {
+    const { mapper, transport } = this.getProvider(params.provider)
+    this.checkUnsupportedFeatures(params.provider, params, 'Generate')
 
+    const release = await this.acquireRateLimit(params)
     try {
-      const providerParams = mapper.mapToProviderParams(effectiveParams)
-      const client = this.getClientForProvider(params.provider)
-
-      // --- Client Call Logic ---
-      let providerResponse: any
-      if (params.provider === Provider.Anthropic) {
-        providerResponse = await (client as Anthropic).messages.create(providerParams)
-      } else if (params.provider === Provider.Google) {
-        const googleM = this.getGoogleModel(model, params.providerOptions) // Reuse existing helper
-        // The mapper now returns an object indicating if it's chat and the mapped params
-        const { googleMappedParams: googleP, isChat } = providerParams
-        if (isChat) {
-          const { contents: currentTurnContent, ...chatParams } = googleP as StartChatParams & {
-            contents: GooglePart[]
-          }
-          const chat = googleM.startChat(chatParams)
-          const googleCR = await chat.sendMessage(currentTurnContent)
-          providerResponse = googleCR.response // Extract the response part
-        } else {
-          const googleR = await googleM.generateContent(googleP as GenerateContentRequest)
-          providerResponse = googleR.response // Extract the response part
-        }
-      } else if (params.provider === Provider.Groq) {
-        providerResponse = await (client as Groq).chat.completions.create(providerParams)
-      } else if (params.provider === Provider.OpenAI) {
-        providerResponse = await (client as OpenAI | AzureOpenAI).chat.completions.create(providerParams)
-      } else {
-        // Ensure exhaustive check works with `never`
-        const _e: never = params.provider
-        throw new RosettaAIError(`Unsupported provider: ${_e}`)
-      }
-      // --- End Client Call Logic ---
+      const providerParams = await applyPayloadTransforms(
+        this.middleware,
+        mapper.mapToProviderParams(params),
+        params,
+        context
+      )
+      const providerResponse = await this.sendWithRetry(params, () => transport.generate!(providerParams, params))
 
       // Check for stream response in non-stream call (optional, mappers might handle)
       if (typeof providerResponse?.[Symbol.asyncIterator] === 'function') {
@@ -306,15 +578,73 @@ export class RosettaAI {
         )
       }
 
-      return mapper.mapFromProviderResponse(providerResponse, model)
+      const result = this.applyCost(params, mapper.mapFromProviderResponse(providerResponse, params.model!))
+      return validateStructuredOutput(params, result)
     } catch (error) {
-      throw this.wrapProviderError(error, params.provider) // Use updated wrapProviderError
+      throw this.wrapProviderError(error, params.provider, params.signal) // Use updated wrapProviderError
+    } finally {
+      release()
     }
   }
 
-  /** Generates a streaming response. */
+  /**
+   * Generates a streaming response.
+   * With `params.fallback`, retryable failures move on to the next target in the chain, but only
+   * until the first output chunk has been emitted, so consumers never see output from two targets.
+   */
   public async *stream(params: GenerateParams): AsyncIterable<StreamChunk> {
-    const mapper = this.getMapper(params.provider)
+    const chain = this.resolveFallbackChain(params)
+    if (!chain) {
+      yield* this.streamWithTarget(params)
+      return
+    }
+
+    const failedAttempts: FallbackAttempt[] = []
+    for (const [targetIndex, target] of chain.targets.entries()) {
+      const isLastTarget = targetIndex === chain.targets.length - 1
+      const info: FallbackInfo = { provider: target.provider, model: target.model!, targetIndex, failedAttempts }
+      // message_start is held back until output arrives, so a failed target leaves no trace in the stream
+      const pending: StreamChunk[] = []
+      let committed = false
+      let failure: unknown
+      let failed = false
+
+      try {
+        for await (const chunk of this.streamWithTarget(target)) {
+          if (committed) {
+            yield withFallbackInfo(chunk, info)
+          } else if (chunk.type === 'error' && !isLastTarget && chain.shouldFallback(chunk.data.error)) {
+            failure = chunk.data.error
+            failed = true
+            break
+          } else if (chunk.type === 'message_start' || chunk.type === 'error') {
+            pending.push(chunk)
+          } else {
+            committed = true
+            yield* pending.splice(0)
+            yield withFallbackInfo(chunk, info)
+          }
+        }
+      } catch (error) {
+        if (committed || isLastTarget || !chain.shouldFallback(error)) {
+          yield* pending
+          throw error
+        }
+        failure = error
+        failed = true
+      }
+
+      if (!failed) {
+        yield* pending
+        return
+      }
+      failedAttempts.push({ provider: target.provider, model: target.model, error: toError(failure) })
+    }
+  }
+
+  /** @internal Runs a single stream attempt (model resolution, middleware, execution). */
+  private async *streamWithTarget(params: GenerateParams): AsyncIterable<StreamChunk> {
+    this.getProvider(params.provider) // Fail fast if the provider is not configured
     const model = params.model ?? this.config.defaultModels?.[params.provider]
     if (!model) {
       const ce = new ConfigurationError(`Model must be specified for provider ${params.provider} (or set a default).`)
@@ -323,63 +653,106 @@ export class RosettaAI {
       return
     }
     const effectiveParams = { ...params, model, stream: true }
-    this.checkUnsupportedFeatures(params.provider, effectiveParams, 'Generate', !!this.azureOpenAIClient)
+    const context = this.createMiddlewareContext('stream')
+    const log = this.getOperationLog(context, effectiveParams)
+    let fitted: { params: GenerateParams; info?: ContextFitInfo }
+    try {
+      fitted = await log.run(() => this.applyContextFit(effectiveParams))
+    } catch (error) {
+      yield { type: 'error', data: { error: this.wrapProviderError(error, params.provider, params.signal) } }
+      return
+    }
+    const { info } = fitted
+    const chunks = log.bind(
+      runStreamMiddleware(this.middleware, fitted.params, context, p => this.executeStream(p, context))
+    )
+    for await (const chunk of chunks) yield info ? withContextFitInfo(chunk, info) : chunk
+  }
+
+  /** @internal Performs a streaming chat completion once the middleware chain has run. */
+  private async *executeStream(params: GenerateParams, context: MiddlewareContext): AsyncIterable<StreamChunk> {
+    const { mapper, transport } = this.getProvider(params.provider)
+    this.checkUnsupportedFeatures(params.provider, params, 'Generate')
 
+    const release = await this.acquireRateLimit(params)
     try {
       // Ensure the mapper sets stream: true correctly
-      const providerParams = mapper.mapToProviderParams(effectiveParams)
-      const client = this.getClientForProvider(params.provider)
-
-      // --- Client Call Logic ---
-      let providerStream: any
-
-      if (params.provider === Provider.Anthropic) {
-        providerStream = await (client as Anthropic).messages.create(providerParams)
-      } else if (params.provider === Provider.Google) {
-        const googleM = this.getGoogleModel(model, params.providerOptions)
-        const { googleMappedParams: googleP, isChat } = providerParams
-        if (isChat) {
-          const { contents: currentTurnContent, ...chatParams } = googleP as StartChatParams & {
-            contents: GooglePart[]
-          }
-          const chat = googleM.startChat(chatParams)
-          const googleSR = await chat.sendMessageStream(currentTurnContent)
-          providerStream = googleSR.stream
-        } else {
-          const googleSR = await googleM.generateContentStream(googleP as GenerateContentRequest)
-          providerStream = googleSR.stream
-        }
-      } else if (params.provider === Provider.Groq) {
-        providerStream = await (client as Groq).chat.completions.create(providerParams)
-      } else if (params.provider === Provider.OpenAI) {
-        providerStream = await (client as OpenAI | AzureOpenAI).chat.completions.create(providerParams)
-      } else {
-        // Ensure exhaustive check works with `never`
-        const _e: never = params.provider
-        throw new RosettaAIError(`Unsupported provider: ${_e}`)
-      }
-      // --- End Client Call Logic ---
+      const providerParams = await applyPayloadTransforms(
+        this.middleware,
+        mapper.mapToProviderParams(params),
+        params,
+        context
+      )
+      const providerStream = await this.sendWithRetry(params, () => transport.stream!(providerParams, params))
 
       if (!(typeof providerStream?.[Symbol.asyncIterator] === 'function')) {
-        console.error('Provider response details:', providerStream)
+        getLog().error('Provider response details:', { data: providerStream })
         throw new MappingError(
           `Provider ${params.provider} did not return a stream for a streaming request. Check mapper implementation.`,
           params.provider
         )
       }
 
-      yield* mapper.mapProviderStream(providerStream as AsyncIterable<any>)
+      const chunks = this.trackStreamCost(
+        params,
+        this.surfaceCancellation(params, mapper.mapProviderStream(providerStream))
+      )
+      yield* validateStructuredStream(params, chunks)
     } catch (error) {
-      const wrappedError = this.wrapProviderError(error, params.provider)
+      const wrappedError = this.wrapProviderError(error, params.provider, params.signal)
       yield { type: 'error', data: { error: wrappedError } }
       // Do not re-throw the error after yielding it. Exit generator.
       return
+    } finally {
+      release()
+    }
+  }
+
+  /**
+   * Counts the prompt tokens a chat request would consume, without generating anything.
+   * Uses the provider's counting endpoint where one exists (Anthropic, Google) and an offline
+   * estimate otherwise (OpenAI, Groq, ...), which includes the overhead of images and tool definitions.
+   *
+   * @param params The request to count, exactly as it would be passed to `generate`.
+   * @returns The prompt token count, flagged as `estimated` when computed offline.
+   * @throws {ConfigurationError} If the provider is not configured or no model can be resolved.
+   * @throws {ProviderAPIError} If the provider's counting endpoint fails.
+   */
+  public async countTokens(params: GenerateParams): Promise<TokenCountResult> {
+    this.getProvider(params.provider) // Fail fast if the provider is not configured
+    const model = params.model ?? this.config.defaultModels?.[params.provider]
+    if (!model) {
+      throw new ConfigurationError(`Model must be specified for provider ${params.provider} (or set a default).`)
+    }
+    const effectiveParams = { ...params, model, stream: false }
+    const log = this.log.child({ operation: 'countTokens', provider: params.provider, model })
+    return log.run(() => this.executeCountTokens(effectiveParams))
+  }
+
+  /** @internal Counts prompt tokens natively or offline once the model is resolved. */
+  private async executeCountTokens(params: GenerateParams): Promise<TokenCountResult> {
+    const { mapper, transport } = this.getProvider(params.provider)
+    this.checkUnsupportedFeatures(params.provider, params, 'Generate')
+
+    let promptTokens: number
+    let estimated = false
+    if (transport.countTokens) {
+      try {
+        const providerParams = mapper.mapToProviderParams(params)
+        promptTokens = await this.sendWithRetry(params, () => transport.countTokens!(providerParams, params))
+      } catch (error) {
+        throw this.wrapProviderError(error, params.provider, params.signal)
+      }
+    } else {
+      promptTokens = estimatePromptTokens(params)
+      estimated = true
     }
+    return { promptTokens, completionTokens: 0, totalTokens: promptTokens, estimated }
   }
 
   /** Generates embedding vectors. */
   public async embed(params: EmbedParams): Promise<EmbedResult> {
-    const mapper = this.getMapper(params.provider)
+    this.getProvider(params.provider) // Fail fast if the provider is not configured
     const model = params.model ?? this.config.defaultEmbeddingModels?.[params.provider]
     if (!model) {
       throw new ConfigurationError(
@@ -387,66 +760,67 @@ export class RosettaAI {
       )
     }
     const effectiveParams = { ...params, model }
-    this.checkUnsupportedFeatures(params.provider, effectiveParams, 'Embeddings', !!this.azureOpenAIClient)
+    const context = this.createMiddlewareContext('embed')
+    return this.getOperationLog(context, effectiveParams).run(() =>
+      runMiddleware(this.middleware, effectiveParams, context, p => this.executeEmbed(p, context))
+    )
+  }
 
-    try {
-      const providerParams = mapper.mapToEmbedParams(effectiveParams)
-      const client = this.getClientForProvider(params.provider)
-      let providerResponse: any
-
-      // --- Client Call Logic ---
-      if (params.provider === Provider.Google) {
-        const googleM = this.getGoogleModel(model, params.providerOptions) // Use embedding model ID
-        if ('requests' in providerParams) {
-          providerResponse = await googleM.batchEmbedContents(providerParams as BatchEmbedContentsRequest)
-        } else {
-          providerResponse = await googleM.embedContent(providerParams as EmbedContentRequest)
-        }
-      } else if (params.provider === Provider.Groq) {
-        providerResponse = await (client as Groq).embeddings.create(providerParams)
-      } else if (params.provider === Provider.OpenAI) {
-        providerResponse = await (client as OpenAI | AzureOpenAI).embeddings.create(providerParams)
-      } else {
-        throw new UnsupportedFeatureError(params.provider, 'Embeddings')
-      }
-      // --- End Client Call Logic ---
+  /** @internal Generates embeddings once the middleware chain has run. */
+  private async executeEmbed(params: EmbedParams, context: MiddlewareContext): Promise<EmbedResult> {
+    const { mapper, transport } = this.getProvider(params.provider)
+    this.checkUnsupportedFeatures(params.provider, params, 'Embeddings')
 
-      return mapper.mapFromEmbedResponse(providerResponse, model)
+    const release = await this.acquireRateLimit(params)
+    try {
+      const providerParams = await applyPayloadTransforms(
+        this.middleware,
+        mapper.mapToEmbedParams(params),
+        params,
+        context
+      )
+      const providerResponse = await this.sendWithRetry(params, () => transport.embed!(providerParams, params))
+      return this.applyCost(params, mapper.mapFromEmbedResponse(providerResponse, params.model!))
     } catch (error) {
-      throw this.wrapProviderError(error, params.provider)
+      throw this.wrapProviderError(error, params.provider, params.signal)
+    } finally {
+      release()
     }
   }
 
-  /** Generates speech audio (currently OpenAI/Azure). */
+  /** Generates speech audio (providers declaring the `textToSpeech` capability, e.g. OpenAI/Azure). */
   public async generateSpeech(params: SpeechParams): Promise<Buffer> {
-    if (params.provider !== Provider.OpenAI) {
+    if (!this.providers.get(params.provider)?.capabilities.textToSpeech) {
       throw new UnsupportedFeatureError(params.provider, 'Text-to-Speech')
     }
 
     const model = params.model ?? this.config.defaultTtsModels?.[params.provider] ?? 'tts-1'
     const effectiveParams = { ...params, model }
-    this.checkUnsupportedFeatures(params.provider, effectiveParams, 'Text-to-Speech', !!this.azureOpenAIClient)
+    const context = this.createMiddlewareContext('generateSpeech')
+    return this.getOperationLog(context, effectiveParams).run(() =>
+      runMiddleware(this.middleware, effectiveParams, context, p => this.executeGenerateSpeech(p))
+    )
+  }
 
-    const client = this.getClientForProvider(params.provider) // Gets OpenAI or Azure client
+  /** @internal Generates speech audio once the middleware chain has run. */
+  private async executeGenerateSpeech(params: SpeechParams): Promise<Buffer> {
+    const { transport } = this.getProvider(params.provider)
+    this.checkUnsupportedFeatures(params.provider, params, 'Text-to-Speech')
 
+    const release = await this.acquireRateLimit(params)
     try {
-      const ttsParams: OpenAI.Audio.Speech.SpeechCreateParams = {
-        model: effectiveParams.model,
-        input: effectiveParams.input,
-        voice: effectiveParams.voice as OpenAI.Audio.Speech.SpeechCreateParams['voice'],
-        response_format: effectiveParams.responseFormat ?? 'mp3',
-        speed: effectiveParams.speed ?? 1.0
-      }
-      const response = await (client as OpenAI | AzureOpenAI).audio.speech.create(ttsParams)
+      const response = await this.sendWithRetry(params, () => transport.speech!(params))
       return Buffer.from(await response.arrayBuffer())
     } catch (error) {
-      throw this.wrapProviderError(error, params.provider)
+      throw this.wrapProviderError(error, params.provider, params.signal)
+    } finally {
+      release()
     }
   }
 
-  /** Generates streaming speech audio (currently OpenAI/Azure). */
+  /** Generates streaming speech audio (providers declaring the `textToSpeech` capability, e.g. OpenAI/Azure). */
   public async *streamSpeech(params: SpeechParams): AsyncIterable<AudioStreamChunk> {
-    if (params.provider !== Provider.OpenAI) {
+    if (!this.providers.get(params.provider)?.capabilities.textToSpeech) {
       const ue = new UnsupportedFeatureError(params.provider, 'Streaming Text-to-Speech')
       yield { type: 'error', data: { error: ue } }
       // Do not re-throw the error after yielding it. Exit generator.
@@ -455,24 +829,20 @@ export class RosettaAI {
 
     const model = params.model ?? this.config.defaultTtsModels?.[params.provider] ?? 'tts-1'
     const effectiveParams = { ...params, model }
-    this.checkUnsupportedFeatures(
-      params.provider,
-      effectiveParams,
-      'Streaming Text-to-Speech',
-      !!this.azureOpenAIClient
+    const context = this.createMiddlewareContext('streamSpeech')
+    yield* this.getOperationLog(context, effectiveParams).bind(
+      runStreamMiddleware(this.middleware, effectiveParams, context, p => this.executeStreamSpeech(p))
     )
+  }
 
-    const client = this.getClientForProvider(params.provider)
+  /** @internal Streams speech audio once the middleware chain has run. */
+  private async *executeStreamSpeech(params: SpeechParams): AsyncIterable<AudioStreamChunk> {
+    const { transport } = this.getProvider(params.provider)
+    this.checkUnsupportedFeatures(params.provider, params, 'Streaming Text-to-Speech')
 
+    const release = await this.acquireRateLimit(params)
     try {
-      const ttsParams: OpenAI.Audio.Speech.SpeechCreateParams = {
-        model: effectiveParams.model,
-        input: effectiveParams.input,
-        voice: effectiveParams.voice as OpenAI.Audio.Speech.SpeechCreateParams['voice'],
-        response_format: effectiveParams.responseFormat ?? 'mp3',
-        speed: effectiveParams.speed ?? 1.0
-      }
-      const response = await (client as OpenAI | AzureOpenAI).audio.speech.create(ttsParams)
+      const response = await this.sendWithRetry(params, () => transport.speech!(params))
 
       if (!response.body) {
         throw new MappingError('Streaming response body is null.', params.provider)
@@ -482,21 +852,23 @@ export class RosettaAI {
         if (chunk instanceof Uint8Array) {
           yield { type: 'audio_chunk', data: Buffer.from(chunk) }
         } else {
-          console.warn('Received unexpected chunk type in audio stream:', typeof chunk)
+          getLog().warn('malformed_response', 'Received unexpected chunk type in audio stream:', { data: typeof chunk })
         }
       }
       yield { type: 'audio_stop' }
     } catch (error) {
-      const wrappedError = this.wrapProviderError(error, params.provider)
+      const wrappedError = this.wrapProviderError(error, params.provider, params.signal)
       yield { type: 'error', data: { error: wrappedError } }
       // Do not re-throw the error after yielding it. Exit generator.
       return
+    } finally {
+      release()
     }
   }
 
-  /** Transcribes audio to text (OpenAI or Groq). */
+  /** Transcribes audio to text (providers declaring the `transcription` capability, e.g. OpenAI or Groq). */
   public async transcribe(params: TranscribeParams): Promise<TranscriptionResult> {
-    const mapper = this.getMapper(params.provider)
+    this.getProvider(params.provider) // Fail fast if the provider is not configured
     const model = params.model ?? this.config.defaultSttModels?.[params.provider]
     if (!model) {
       throw new ConfigurationError(
@@ -504,33 +876,39 @@ export class RosettaAI {
       )
     }
     const effectiveParams = { ...params, model }
+    const context = this.createMiddlewareContext('transcribe')
+    return this.getOperationLog(context, effectiveParams).run(() =>
+      runMiddleware(this.middleware, effectiveParams, context, p => this.executeTranscribe(p, context))
+    )
+  }
+
+  /** @internal Transcribes audio once the middleware chain has run. */
+  private async executeTranscribe(params: TranscribeParams, context: MiddlewareContext): Promise<TranscriptionResult> {
+    const { mapper, transport } = this.getProvider(params.provider)
     // Pass explicit feature name
-    this.checkUnsupportedFeatures(params.provider, effectiveParams, 'Audio Transcription', !!this.azureOpenAIClient)
+    this.checkUnsupportedFeatures(params.provider, params, 'Audio Transcription')
 
+    const release = await this.acquireRateLimit(params)
     try {
-      const audioFile = await prepareAudioUpload(effectiveParams.audio)
-      const providerParams = mapper.mapToTranscribeParams(effectiveParams, audioFile)
-      const client = this.getClientForProvider(params.provider)
-      let providerResponse: any
-
-      if (params.provider === Provider.OpenAI) {
-        providerResponse = await (client as OpenAI | AzureOpenAI).audio.transcriptions.create(providerParams)
-      } else if (params.provider === Provider.Groq) {
-        providerResponse = await (client as Groq).audio.transcriptions.create(providerParams)
-      } else {
-        // This case should be caught by checkUnsupportedFeatures, but added for safety
-        throw new UnsupportedFeatureError(params.provider, 'Audio Transcription')
-      }
-
-      return mapper.mapFromTranscribeResponse(providerResponse, model)
+      const audioFile = await prepareAudioUpload(params.audio)
+      const providerParams = await applyPayloadTransforms(
+        this.middleware,
+        mapper.mapToTranscribeParams(params, audioFile),
+        params,
+        context
+      )
+      const providerResponse = await this.sendWithRetry(params, () => transport.transcribe!(providerParams, params))
+      return mapper.mapFromTranscribeResponse(providerResponse, params.model!)
     } catch (error) {
-      throw this.wrapProviderError(error, params.provider)
+      throw this.wrapProviderError(error, params.provider, params.signal)
+    } finally {
+      release()
     }
   }
 
-  /** Translates audio to English text (OpenAI or Groq). */
+  /** Translates audio to English text (providers declaring the `translation` capability, e.g. OpenAI or Groq). */
   public async translate(params: TranslateParams): Promise<TranscriptionResult> {
-    const mapper = this.getMapper(params.provider)
+    this.getProvider(params.provider) // Fail fast if the provider is not configured
     const model = params.model ?? this.config.defaultSttModels?.[params.provider]
     if (!model) {
       throw new ConfigurationError(
@@ -538,65 +916,287 @@ export class RosettaAI {
       )
     }
     const effectiveParams = { ...params, model }
+    const context = this.createMiddlewareContext('translate')
+    return this.getOperationLog(context, effectiveParams).run(() =>
+      runMiddleware(this.middleware, effectiveParams, context, p => this.executeTranslate(p, context))
+    )
+  }
+
+  /** @internal Translates audio once the middleware chain has run. */
+  private async executeTranslate(params: TranslateParams, context: MiddlewareContext): Promise<TranscriptionResult> {
+    const { mapper, transport } = this.getProvider(params.provider)
     // Pass explicit feature name
-    this.checkUnsupportedFeatures(params.provider, effectiveParams, 'Audio Translation', !!this.azureOpenAIClient)
+    this.checkUnsupportedFeatures(params.provider, params, 'Audio Translation')
 
+    const release = await this.acquireRateLimit(params)
     try {
-      const audioFile = await prepareAudioUpload(effectiveParams.audio)
-      const providerParams = mapper.mapToTranslateParams(effectiveParams, audioFile)
-      const client = this.getClientForProvider(params.provider)
-      let providerResponse: any
-
-      if (params.provider === Provider.OpenAI) {
-        providerResponse = await (client as OpenAI | AzureOpenAI).audio.translations.create(providerParams)
-      } else if (params.provider === Provider.Groq) {
-        providerResponse = await (client as Groq).audio.translations.create(providerParams)
+      const audioFile = await prepareAudioUpload(params.audio)
+      const providerParams = await applyPayloadTransforms(
+        this.middleware,
+        mapper.mapToTranslateParams(params, audioFile),
+        params,
+        context
+      )
+      const providerResponse = await this.sendWithRetry(params, () => transport.translate!(providerParams, params))
+      return mapper.mapFromTranslateResponse(providerResponse, params.model!)
+    } catch (error) {
+      throw this.wrapProviderError(error, params.provider, params.signal)
+    } finally {
+      release()
+    }
+  }
+
+  /**
+   * @internal Expands `params.fallback` into the ordered list of attempts, starting with the request's
+   * own provider/model. Returns undefined when the request has no fallback chain.
+   */
+  private resolveFallbackChain(
+    params: GenerateParams
+  ): { targets: GenerateParams[]; shouldFallback: (error: unknown) => boolean } | undefined {
+    const { fallback, ...request } = params
+    if (fallback === undefined) return undefined
+
+    let targets: FallbackTarget[]
+    let shouldFallback = isRetryableError
+    if (typeof fallback === 'string') {
+      const policy = this.config.fallbackPolicies?.[fallback]
+      if (!policy) {
+        throw new ConfigurationError(`Fallback policy '${fallback}' is not configured.`)
+      }
+      targets = policy.targets
+      shouldFallback = policy.shouldFallback ?? isRetryableError
+    } else {
+      targets = fallback
+    }
+
+    const attempts = [request, ...targets].map(target => ({
+      ...request,
+      provider: target.provider,
+      model: target.model ?? this.config.defaultModels?.[target.provider],
+      providerOptions: target.providerOptions ?? request.providerOptions
+    }))
+    attempts.forEach(attempt => this.getProvider(attempt.provider)) // Fail fast on unconfigured targets
+    // A cancelled request is never retried on another target
+    return {
+      targets: attempts,
+      shouldFallback: error => !(error instanceof CancellationError) && shouldFallback(error)
+    }
+  }
+
+  /** @internal Prices a call from its usage: by the model the provider reported, then by the requested one. */
+  private getCallCost(
+    params: GenerateParams | EmbedParams,
+    usage: TokenUsage,
+    reportedModel?: string
+  ): CostBreakdown | undefined {
+    const byReported = reportedModel ? this.costTracker.getCost(params.provider, reportedModel, usage) : undefined
+    return byReported ?? this.costTracker.getCost(params.provider, params.model!, usage)
+  }
+
+  /** @internal Attaches the cost to a result and records the call for `getCostReport`. */
+  private applyCost<T extends GenerateResult | EmbedResult>(params: GenerateParams | EmbedParams, result: T): T {
+    const cost = result.usage ? this.getCallCost(params, result.usage, result.model) : undefined
+    this.costTracker.record(params.provider, params.model!, result.usage, cost, params.tag)
+    return cost ? { ...result, cost } : result
+  }
+
+  /**
+   * @internal Reports a stream ended by its `signal` as a `CancellationError`: mappers report read failures
+   * as generic provider errors, and some SDKs end an aborted stream without any error.
+   */
+  private async *surfaceCancellation(
+    params: GenerateParams,
+    chunks: AsyncIterable<StreamChunk>
+  ): AsyncIterable<StreamChunk> {
+    const cancellation = (): StreamChunk => ({
+      type: 'error',
+      data: { error: new CancellationError(params.provider, params.signal?.reason) }
+    })
+    for await (const chunk of chunks) {
+      if (params.signal?.aborted) {
+        yield cancellation()
+        return
+      }
+      yield chunk
+    }
+    if (params.signal?.aborted) yield cancellation()
+  }
+
+  /** @internal Attaches costs to `final_usage`/`final_result` chunks and records the streamed call once. */
+  private async *trackStreamCost(
+    params: GenerateParams,
+    chunks: AsyncIterable<StreamChunk>
+  ): AsyncIterable<StreamChunk> {
+    let usage: TokenUsage | undefined
+    let recorded = false
+    for await (const chunk of chunks) {
+      if (chunk.type === 'final_usage') {
+        usage = chunk.data.usage
+        const cost = this.getCallCost(params, usage)
+        yield cost ? { type: 'final_usage', data: { ...chunk.data, cost } } : chunk
+      } else if (chunk.type === 'final_result' && !recorded) {
+        recorded = true
+        const result = chunk.data.result.usage ? chunk.data.result : { ...chunk.data.result, usage }
+        yield { type: 'final_result', data: { result: this.applyCost(params, result) } }
       } else {
-        // This case should be caught by checkUnsupportedFeatures, but added for safety
-        throw new UnsupportedFeatureError(params.provider, 'Audio Translation')
+        yield chunk
       }
+    }
+    if (!recorded && usage) {
+      this.costTracker.record(params.provider, params.model!, usage, this.getCallCost(params, usage), params.tag)
+    }
+  }
 
-      return mapper.mapFromTranslateResponse(providerResponse, model)
-    } catch (error) {
-      throw this.wrapProviderError(error, params.provider)
+  /**
+   * @internal Fits the request's messages into the model's context window when `contextFit` is enabled
+   * for the call. Fitting is skipped, with a warning, if the context window is unknown.
+   */
+  private async applyContextFit(params: GenerateParams): Promise<{ params: GenerateParams; info?: ContextFitInfo }> {
+    const options = params.contextFit === false ? undefined : params.contextFit ?? this.config.contextFit
+    if (!options) return { params }
+
+    const needsModelInfo =
+      options.contextWindow === undefined || (options.reserveTokens === undefined && params.maxTokens === undefined)
+    const modelInfo = needsModelInfo ? await this.findModelInfo(params.provider, params.model!) : undefined
+    const contextWindow = options.contextWindow ?? modelInfo?.context_window
+    if (contextWindow === undefined) {
+      getLog().warn(
+        'unknown_context_window',
+        `RosettaAI: Context window of ${params.provider} model '${params.model}' is unknown; skipping context fitting. Set contextFit.contextWindow.`
+      )
+      return { params }
+    }
+    const reserveTokens = options.reserveTokens ?? params.maxTokens ?? modelInfo?.max_completion_tokens ?? 0
+    return fitContext(params, options, contextWindow - reserveTokens, messages =>
+      this.summarizeMessages(params, options, messages)
+    )
+  }
+
+  /** @internal Looks a model up in its provider's model list, which is fetched once per instance. */
+  private async findModelInfo(provider: ProviderId, modelId: string): Promise<RosettaModel | undefined> {
+    let modelList = this.modelLists.get(provider)
+    if (!modelList) {
+      modelList = this.listModels(provider)
+      this.modelLists.set(provider, modelList)
+    }
+    try {
+      const { data } = await modelList
+      return data.find(model => model.id === modelId || model.id === `models/${modelId}`)
+    } catch {
+      this.modelLists.delete(provider) // Try again on the next call
+      return undefined
     }
   }
 
+  /** @internal Summarizes dropped messages for the `summarize` context-fit strategy. */
+  private async summarizeMessages(
+    params: GenerateParams,
+    options: ContextFitOptions,
+    messages: RosettaMessage[]
+  ): Promise<string> {
+    const provider = options.summaryProvider ?? params.provider
+    const result = await this.generate({
+      provider,
+      model: options.summaryModel ?? (provider === params.provider ? params.model : undefined),
+      messages: [
+        { role: 'system', content: SUMMARY_INSTRUCTIONS },
+        { role: 'user', content: formatTranscript(messages) }
+      ],
+      maxTokens: options.summaryMaxTokens ?? DEFAULT_SUMMARY_MAX_TOKENS,
+      contextFit: false,
+      signal: params.signal,
+      retry: params.retry,
+      tag: params.tag
+    })
+    return result.content ?? ''
+  }
+
+  /** @internal Merges the per-call retry policy over the global one. */
+  private getRetryPolicy(callPolicy?: RetryPolicy): ResolvedRetryPolicy {
+    return resolveRetryPolicy(this.config.defaultMaxRetries ?? 2, this.config.retry, callPolicy)
+  }
+
+  /**
+   * @internal Sends a request through a provider transport, retrying retryable failures with backoff.
+   * Errors are wrapped into `RosettaAIError`s first so they can be classified by status and type.
+   */
+  private sendWithRetry<T>(params: OperationParams, send: () => Promise<T>): Promise<T> {
+    return withRetry(
+      async () => {
+        try {
+          params.signal?.throwIfAborted() // Custom transports may ignore the signal
+          return await send()
+        } catch (error) {
+          throw this.wrapProviderError(error, params.provider, params.signal)
+        }
+      },
+      this.getRetryPolicy(params.retry),
+      params.signal
+    )
+  }
+
+  /**
+   * @internal Waits for the provider/model rate limits to admit a request.
+   * Resolves with the function releasing its concurrency slot once the request has finished.
+   */
+  private acquireRateLimit(params: OperationParams): Promise<() => void> {
+    return this.rateLimiter.acquire(params.provider, params.model, estimateRequestTokens(params), params.signal)
+  }
+
+  /** @internal Creates the per-call context shared by the middleware chain. */
+  private createMiddlewareContext(operation: RosettaOperation): MiddlewareContext {
+    return { operation, requestId: randomUUID(), state: {} }
+  }
+
+  /** @internal Returns the log for a single call, tagging its entries with the request's fields. */
+  private getOperationLog(context: MiddlewareContext, params: OperationParams): RosettaLog {
+    const { requestId, operation } = context
+    return this.log.child({ requestId, operation, provider: params.provider, model: params.model })
+  }
+
   /**
    * Lists the models available for a specific configured provider.
    * The structure and richness of the returned model data depend on the provider's API or static list.
    *
    * @param provider The provider for which to list models.
    * @param sourceConfig Optional configuration overriding the default listing source for this call.
+   * @param retry Optional retry policy overriding `RosettaAIConfig.retry` for this call.
+   * @param signal Optional `AbortSignal` cancelling the listing request.
    * @returns A promise resolving to a list of available models.
    * @throws {ConfigurationError} If the provider is not configured or the listing source is invalid.
+   * @throws {UnsupportedFeatureError} If the provider's transport does not implement model listing.
    * @throws {ProviderAPIError} If the API call fails (for API endpoints or SDK methods).
    * @throws {MappingError} If the response from the provider cannot be parsed or mapped correctly.
+   * @throws {CancellationError} If `signal` aborts before the list is returned.
    */
-  public async listModels(provider: Provider, sourceConfig?: ModelListingSourceConfig): Promise<RosettaModelList> {
-    // Ensure provider is configured (has a mapper, implies client/key exists)
-    if (!this.mappers.has(provider)) {
+  public async listModels(
+    provider: ProviderId,
+    sourceConfig?: ModelListingSourceConfig,
+    retry?: RetryPolicy,
+    signal?: AbortSignal
+  ): Promise<RosettaModelList> {
+    // Ensure provider is configured (registered)
+    const registration = this.providers.get(provider)
+    if (!registration) {
       throw new ConfigurationError(`Provider '${provider}' is not configured in this RosettaAI instance.`)
     }
-
-    // Prepare config needed by the internal lister
-    const listConfig = {
-      sourceConfig: sourceConfig ?? this.config.modelListingConfig?.[provider], // Use global config if no override
-      // Determine the correct API key based on provider (handle Azure distinction for OpenAI key)
-      apiKey:
-        provider === Provider.Anthropic
-          ? this.config.anthropicApiKey
-          : provider === Provider.Google
-          ? this.config.googleApiKey
-          : provider === Provider.Groq
-          ? this.config.groqApiKey
-          : provider === Provider.OpenAI
-          ? this.config.azureOpenAIApiKey ?? this.config.openaiApiKey // Prioritize Azure key if available
-          : undefined,
-      groqClient: this.groqClient // Pass Groq client if available
+    if (!registration.transport.listModels) {
+      throw new UnsupportedFeatureError(provider, 'Model listing')
     }
 
-    return listModelsForProvider(provider, listConfig)
+    // Use global config if no override
+    const log = this.log.child({ operation: 'listModels', provider })
+    try {
+      return await log.run(() =>
+        withRetry(
+          () => registration.transport.listModels!(sourceConfig ?? this.config.modelListingConfig?.[provider], signal),
+          this.getRetryPolicy(retry),
+          signal
+        )
+      )
+    } catch (error) {
+      throw signal?.aborted ? this.wrapProviderError(error, provider, signal) : error
+    }
   }
 
   /**
@@ -606,16 +1206,16 @@ export class RosettaAI {
    *
    * @returns A promise resolving to a record of provider model lists or errors.
    */
-  public async listAllModels(): Promise<Partial<Record<Provider, RosettaModelList | RosettaAIError>>> {
+  public async listAllModels(): Promise<Partial<Record<ProviderId, RosettaModelList | RosettaAIError>>> {
     const configuredProviders = this.getConfiguredProviders()
-    const results: Partial<Record<Provider, RosettaModelList | RosettaAIError>> = {}
+    const results: Partial<Record<ProviderId, RosettaModelList | RosettaAIError>> = {}
 
     const promises = configuredProviders.map(async provider => {
       try {
         const models = await this.listModels(provider) // Use the single provider method
         results[provider] = models
       } catch (error) {
-        console.error(`Error listing models for ${provider}:`, error)
+        this.log.error(`Error listing models for ${provider}:`, { provider, operation: 'listModels', error })
         // FIX: Pass the original error as the underlyingError argument
         results[provider] =
           error instanceof RosettaAIError
@@ -629,90 +1229,73 @@ export class RosettaAI {
   }
 
   /** @internal Gets provider client instance or throws config error. */
-  private providerNotConfigured(p: Provider): ConfigurationError {
+  private providerNotConfigured(p: ProviderId): ConfigurationError {
     return new ConfigurationError(
       `Provider '${p}' client is not configured or initialized. Check API keys and configuration.`
     )
   }
 
-  /** @internal Gets a configured Google GenerativeModel instance. */
-  private getGoogleModel(modelId: string, requestOptions?: ProviderOptions): GenerativeModel {
-    if (!this.googleClient) {
-      throw this.providerNotConfigured(Provider.Google)
-    }
-    const apiVersion =
-      requestOptions?.googleApiVersion ?? this.config.providerOptions?.[Provider.Google]?.googleApiVersion
-    const baseUrl = requestOptions?.baseURL ?? this.config.providerOptions?.[Provider.Google]?.baseURL
-
-    if (baseUrl) {
-      console.warn(
-        'Google provider: Custom baseURL provided but not directly used by the @google/generative-ai SDK constructor. Ensure environment variables (like GOOGLE_API_ENDPOINT) are set if needed.'
-      )
-    }
-
-    const safetySettings = [
-      { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-      { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-      { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-      { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE }
-    ]
-
-    const googleRequestOptions = apiVersion ? { apiVersion } : undefined
-
-    return this.googleClient.getGenerativeModel({ model: modelId, safetySettings }, googleRequestOptions)
-  }
-
-  /** @internal Checks for unsupported features for the given provider and parameters. */
+  /** @internal Checks the requested feature and parameters against the provider's declared capabilities. */
   private checkUnsupportedFeatures(
-    provider: Provider,
+    provider: ProviderId,
     params: GenerateParams | EmbedParams | SpeechParams | TranscribeParams | TranslateParams,
-    featureName: string, // Explicit feature name
-    _isAzure: boolean = false // Keep isAzure flag if needed for future checks
+    featureName: string // Explicit feature name
   ): void {
+    const { capabilities } = this.getProvider(provider)
+
     // Check based on explicit feature name first
-    if (
-      (featureName === 'Audio Transcription' || featureName === 'Audio Translation') &&
-      ![Provider.OpenAI, Provider.Groq].includes(provider)
-    ) {
+    if (featureName === 'Generate' && !capabilities.chat) {
+      throw new UnsupportedFeatureError(provider, featureName)
+    }
+    if (featureName === 'Audio Transcription' && !capabilities.transcription) {
+      throw new UnsupportedFeatureError(provider, featureName)
+    }
+    if (featureName === 'Audio Translation' && !capabilities.translation) {
       throw new UnsupportedFeatureError(provider, featureName)
     }
     if (
       (featureName === 'Text-to-Speech' || featureName === 'Streaming Text-to-Speech') &&
-      provider !== Provider.OpenAI
+      !capabilities.textToSpeech
     ) {
       throw new UnsupportedFeatureError(provider, featureName)
     }
-    if (featureName === 'Embeddings' && ![Provider.Google, Provider.OpenAI, Provider.Groq].includes(provider)) {
+    if (featureName === 'Embeddings' && !capabilities.embeddings) {
       throw new UnsupportedFeatureError(provider, featureName)
     }
 
     // Then check based on parameters for Generate/Embed
     if ('messages' in params) {
       // GenerateParams
+      if (params.stream && !capabilities.streaming) {
+        throw new UnsupportedFeatureError(provider, 'Streaming')
+      }
       const hasImage = params.messages.some(
         msg => Array.isArray(msg.content) && msg.content.some(part => part.type === 'image')
       )
-      if (hasImage && ![Provider.Anthropic, Provider.Google, Provider.OpenAI].includes(provider)) {
+      if (hasImage && !capabilities.imageInput) {
         throw new UnsupportedFeatureError(provider, 'Image input')
       }
-      if (
-        params.tools &&
-        params.tools.length > 0 &&
-        ![Provider.Anthropic, Provider.Google, Provider.Groq, Provider.OpenAI].includes(provider)
-      ) {
+      if (params.tools && params.tools.length > 0 && !capabilities.toolUse) {
         throw new UnsupportedFeatureError(provider, 'Tool use')
       }
-      if (params.responseFormat?.type === 'json_object' && ![Provider.OpenAI, Provider.Google].includes(provider)) {
-        if (provider !== Provider.OpenAI)
-          console.warn(
-            `JSON response format may not be directly supported by ${provider}. Ensure model is prompted accordingly.`
+      if (params.responseFormat?.type === 'json_object' && params.responseFormat.schema) {
+        if (!capabilities.structuredOutput) {
+          getLog().warn(
+            'ignored_schema_parameter',
+            `${provider} cannot enforce responseFormat.schema; the output is only validated against it.`
           )
+        }
+      } else if (params.responseFormat?.type === 'json_object' && !capabilities.jsonMode) {
+        getLog().warn(
+          'unsupported_response_format',
+          `JSON response format may not be directly supported by ${provider}. Ensure model is prompted accordingly.`
+        )
       }
-      if (params.grounding?.enabled && provider !== Provider.Google) {
+      if (params.grounding?.enabled && !capabilities.grounding) {
         throw new UnsupportedFeatureError(provider, 'Grounding/Citations')
       }
-      if (params.thinking && provider !== Provider.Anthropic) {
-        throw new UnsupportedFeatureError(provider, 'Thinking steps')
+      if ((params.reasoning || params.thinking) && !capabilities.thinking) {
+        throw new UnsupportedFeatureError(provider, 'Reasoning')
       }
     } else if (
       'input' in params &&
@@ -721,15 +1304,10 @@ export class RosettaAI {
       !('audio' in params)
     ) {
       // EmbedParams (already checked by featureName)
-      if (
-        Array.isArray(params.input) &&
-        params.input.length > 1 &&
-        ![Provider.Google, Provider.OpenAI].includes(provider)
-      ) {
-        // Groq might support batching, check SDK/API docs if needed. Assume not for now.
+      if (Array.isArray(params.input) && params.input.length > 1 && !capabilities.batchEmbeddings) {
         throw new UnsupportedFeatureError(provider, 'Batch Embeddings (Input Array)')
       }
-      if ('dimensions' in params && params.dimensions && provider !== Provider.OpenAI) {
+      if ('dimensions' in params && params.dimensions && !capabilities.embeddingDimensions) {
         throw new UnsupportedFeatureError(provider, 'Embeddings dimensions parameter')
       }
     } else if ('audio' in params) {
@@ -738,7 +1316,7 @@ export class RosettaAI {
         'timestampGranularities' in params &&
         params.timestampGranularities &&
         params.timestampGranularities.length > 0 &&
-        provider !== Provider.OpenAI
+        !capabilities.timestampGranularities
       ) {
         throw new UnsupportedFeatureError(provider, 'Timestamp Granularities')
       }
@@ -746,16 +1324,20 @@ export class RosettaAI {
   }
 
   /** @internal Wraps provider-specific errors using the appropriate mapper. */
-  private wrapProviderError(error: unknown, provider: Provider): RosettaAIError {
+  private wrapProviderError(error: unknown, provider: ProviderId, signal?: AbortSignal): RosettaAIError {
+    // Aborted requests surface as SDK-specific errors (or arbitrary stream failures); report them uniformly
+    if (error instanceof CancellationError) return error
+    if (signal?.aborted || isAbortError(error)) return new CancellationError(provider, signal?.reason)
+
     // Allow mapper to handle first if it exists
-    const mapper = this.mappers.get(provider)
+    const mapper = this.providers.get(provider)?.mapper
     if (mapper) {
       try {
         // Attempt to use the mapper's specific error wrapping
         return mapper.wrapProviderError(error, provider)
       } catch (mapperError) {
         // If the mapper's wrap function itself fails, fall back to generic handling
-        console.error(`Error during mapper's wrapProviderError for ${provider}:`, mapperError)
+        getLog().error(`Error during mapper's wrapProviderError for ${provider}:`, { error: mapperError })
       }
     }
 
@@ -0,0 +1,141 @@
+import { ValidationIssue } from '../../types'
+
+type JsonSchema = Record<string, any>
+type Path = Array<string | number>
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  if (type === 'integer') return Number.isInteger(value)
+  if (type === 'number') return typeof value === 'number' && Number.isFinite(value)
+  return typeOf(value) === type.toLowerCase() // Also accept Google's upper-case types
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+function resolveRef(root: JsonSchema, ref: string): JsonSchema | undefined {
+  if (ref === '#') return root
+  const match = /^#\/(\$defs|definitions)\/(.+)$/.exec(ref)
+  return match ? root[match[1]!]?.[match[2]!] : undefined
+}
+
+function validateNode(value: unknown, schema: unknown, root: JsonSchema, path: Path, issues: ValidationIssue[]): void {
+  if (schema === true || schema === undefined) return
+  if (schema === false) {
+    issues.push({ path, message: 'No value is allowed here' })
+    return
+  }
+  if (typeof schema !== 'object' || schema === null) return
+  const node = schema as JsonSchema
+
+  if (typeof node.$ref === 'string') {
+    const target = resolveRef(root, node.$ref)
+    if (!target) issues.push({ path, message: `Cannot resolve $ref '${node.$ref}'` })
+    else validateNode(value, target, root, path, issues)
+  }
+  if (value === null && node.nullable === true) return
+
+  if (node.type !== undefined) {
+    const types: string[] = Array.isArray(node.type) ? node.type : [node.type]
+    if (!types.some(type => matchesType(value, type))) {
+      issues.push({ path, message: `Expected ${types.join(' or ')}, received ${typeOf(value)}` })
+      return
+    }
+  }
+  if (node.const !== undefined && !isEqual(value, node.const)) {
+    issues.push({ path, message: `Expected ${JSON.stringify(node.const)}` })
+  }
+  if (Array.isArray(node.enum) && !node.enum.some((option: unknown) => isEqual(value, option))) {
+    issues.push({
+      path,
+      message: `Expected one of ${node.enum.map((option: unknown) => JSON.stringify(option)).join(', ')}`
+    })
+  }
+
+  const matches = (subschema: unknown): boolean => {
+    const nested: ValidationIssue[] = []
+    validateNode(value, subschema, root, path, nested)
+    return nested.length === 0
+  }
+  if (Array.isArray(node.allOf)) {
+    for (const subschema of node.allOf) validateNode(value, subschema, root, path, issues)
+  }
+  for (const keyword of ['anyOf', 'oneOf']) {
+    if (!Array.isArray(node[keyword])) continue
+    const matching = node[keyword].filter(matches).length
+    if (matching === 0) issues.push({ path, message: `Does not match any of the allowed schemas (${keyword})` })
+    else if (keyword === 'oneOf' && matching > 1) issues.push({ path, message: 'Matches more than one schema (oneOf)' })
+  }
+  if (node.not !== undefined && matches(node.not)) {
+    issues.push({ path, message: "Matches a disallowed schema ('not')" })
+  }
+
+  if (typeof value === 'string') {
+    if (typeof node.minLength === 'number' && value.length < node.minLength) {
+      issues.push({ path, message: `Must be at least ${node.minLength} characters` })
+    }
+    if (typeof node.maxLength === 'number' && value.length > node.maxLength) {
+      issues.push({ path, message: `Must be at most ${node.maxLength} characters` })
+    }
+    if (typeof node.pattern === 'string' && !new RegExp(node.pattern, 'u').test(value)) {
+      issues.push({ path, message: `Must match the pattern ${node.pattern}` })
+    }
+  } else if (typeof value === 'number') {
+    if (typeof node.minimum === 'number' && value < node.minimum) {
+      issues.push({ path, message: `Must be greater than or equal to ${node.minimum}` })
+    }
+    if (typeof node.maximum === 'number' && value > node.maximum) {
+      issues.push({ path, message: `Must be less than or equal to ${node.maximum}` })
+    }
+    if (typeof node.exclusiveMinimum === 'number' && value <= node.exclusiveMinimum) {
+      issues.push({ path, message: `Must be greater than ${node.exclusiveMinimum}` })
+    }
+    if (typeof node.exclusiveMaximum === 'number' && value >= node.exclusiveMaximum) {
+      issues.push({ path, message: `Must be less than ${node.exclusiveMaximum}` })
+    }
+    if (typeof node.multipleOf === 'number' && !Number.isInteger(value / node.multipleOf)) {
+      issues.push({ path, message: `Must be a multiple of ${node.multipleOf}` })
+    }
+  } else if (Array.isArray(value)) {
+    if (typeof node.minItems === 'number' && value.length < node.minItems) {
+      issues.push({ path, message: `Must contain at least ${node.minItems} items` })
+    }
+    if (typeof node.maxItems === 'number' && value.length > node.maxItems) {
+      issues.push({ path, message: `Must contain at most ${node.maxItems} items` })
+    }
+    if (node.items !== undefined && !Array.isArray(node.items)) {
+      value.forEach((item, index) => validateNode(item, node.items, root, [...path, index], issues))
+    }
+  } else if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>
+    const properties: JsonSchema = node.properties ?? {}
+    for (const key of Array.isArray(node.required) ? node.required : []) {
+      if (!(key in object)) issues.push({ path: [...path, key], message: 'Required' })
+    }
+    for (const [key, propertyValue] of Object.entries(object)) {
+      if (key in properties) validateNode(propertyValue, properties[key], root, [...path, key], issues)
+      else if (node.additionalProperties === false) issues.push({ path: [...path, key], message: 'Unrecognized key' })
+      else validateNode(propertyValue, node.additionalProperties, root, [...path, key], issues)
+    }
+  }
+}
+
+/**
+ * Validates a JSON value against a JSON Schema, as used for `responseFormat.schema`.
+ * Supports the keywords structured output relies on: `type` (including OpenAPI `nullable`), `enum`, `const`,
+ * `properties`/`required`/`additionalProperties`, `items`, `anyOf`/`oneOf`/`allOf`/`not`, local `$ref`s and the
+ * string, number and array bounds. Annotations such as `format` and `description` are not checked.
+ *
+ * @returns The problems found; empty if the value matches.
+ */
+export function validateJsonSchema(value: unknown, schema: unknown): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+  validateNode(value, schema, (schema ?? {}) as JsonSchema, [], issues)
+  return issues
+}
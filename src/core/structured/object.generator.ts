@@ -0,0 +1,165 @@
+import { z } from 'zod'
+import {
+  DeepPartial,
+  GenerateObjectParams,
+  GenerateObjectResult,
+  GenerateParams,
+  GenerateResult,
+  ObjectStreamChunk,
+  RosettaMessage,
+  TokenUsage
+} from '../../types'
+import { ConfigurationError, StructuredOutputError } from '../../errors'
+import { zodToJsonSchema } from '../tools/zod.schema'
+import { addTokenUsage } from '../utils'
+import { RosettaAI } from '../rosetta-ai'
+import { parsePartialJson } from './partial.json'
+
+/** The state of a `generateObject` or `streamObject` call. */
+interface ObjectRequest<T> {
+  /** The request of the next model call, including the repair requests made so far. */
+  params: GenerateParams
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+  maxRepairs: number
+  totalUsage: TokenUsage
+}
+
+type ObjectParseResult<T> = { success: true; object: T } | { success: false; error: StructuredOutputError }
+
+/** Whether an object in a JSON Schema (from `zodToJsonSchema`) has properties that are not `required`. */
+function hasOptionalProperties(schema: unknown): boolean {
+  if (typeof schema !== 'object' || schema === null) return false
+  const { properties = {}, required = [], items, anyOf = [], additionalProperties } = schema as Record<string, any>
+  const keys = Object.keys(properties)
+  return (
+    keys.some(key => !required.includes(key)) ||
+    [...keys.map(key => properties[key]), items, ...anyOf, additionalProperties].some(hasOptionalProperties)
+  )
+}
+
+function createObjectRequest<T>(params: GenerateObjectParams<T>): ObjectRequest<T> {
+  const { schema, schemaName, schemaDescription, strict, maxRepairs = 0, messages, ...rest } = params
+  if (!Number.isInteger(maxRepairs) || maxRepairs < 0) {
+    throw new ConfigurationError(`maxRepairs must be a non-negative integer, got ${maxRepairs}.`)
+  }
+  const jsonSchema = zodToJsonSchema(schema)
+  const responseFormat: GenerateParams['responseFormat'] = { type: 'json_object', schema: jsonSchema }
+  if (schemaName !== undefined) responseFormat.name = schemaName
+  if (schemaDescription !== undefined) responseFormat.description = schemaDescription
+  // OpenAI's strict mode requires every property, so schemas with `.optional()` properties are sent non-strict
+  if (strict !== undefined) responseFormat.strict = strict
+  else if (hasOptionalProperties(jsonSchema)) responseFormat.strict = false
+  return { params: { ...rest, messages, responseFormat }, schema, maxRepairs, totalUsage: {} }
+}
+
+/** Parses validated output with the Zod schema, which may check more than its JSON Schema (e.g., refinements). */
+function parseObject<T>(request: ObjectRequest<T>, result: GenerateResult): ObjectParseResult<T> {
+  const parsed = request.schema.safeParse(result.parsedContent)
+  if (parsed.success) return { success: true, object: parsed.data }
+  const issues = parsed.error.issues.map(({ path, message }) => ({ path, message }))
+  return {
+    success: false,
+    error: new StructuredOutputError(request.params.provider, result.content, issues, result.usage)
+  }
+}
+
+function toObjectResult<T>(
+  request: ObjectRequest<T>,
+  result: GenerateResult,
+  object: T,
+  repairs: number
+): GenerateObjectResult<T> {
+  if (!result.cached && result.usage) addTokenUsage(request.totalUsage, result.usage)
+  return { ...result, object, repairs, totalUsage: { ...request.totalUsage } }
+}
+
+/** Appends the rejected output and a user message listing its problems, asking the model for corrected output. */
+function addRepairRequest<T>(request: ObjectRequest<T>, error: StructuredOutputError): void {
+  if (error.usage) addTokenUsage(request.totalUsage, error.usage)
+  const messages: RosettaMessage[] = [...request.params.messages]
+  if (error.content) messages.push({ role: 'assistant', content: error.content })
+  const lines = [
+    'Your response does not match the required JSON schema:',
+    ...error.issues.map(({ path, message }) => `- ${path.length ? path.join('.') : '(root)'}: ${message}`),
+    'Respond again with only the corrected JSON.'
+  ]
+  messages.push({ role: 'user', content: lines.join('\n') })
+  request.params = { ...request.params, messages }
+}
+
+/** Runs `RosettaAI.generateObject`. */
+export async function generateObject<T>(
+  client: RosettaAI,
+  params: GenerateObjectParams<T>
+): Promise<GenerateObjectResult<T>> {
+  const request = createObjectRequest(params)
+  for (let repairs = 0; ; repairs++) {
+    let error: StructuredOutputError
+    try {
+      const result = await client.generate(request.params)
+      const parsed = parseObject(request, result)
+      if (parsed.success) return toObjectResult(request, result, parsed.object, repairs)
+      error = parsed.error
+    } catch (caught) {
+      if (!(caught instanceof StructuredOutputError)) throw caught
+      error = caught
+    }
+    if (repairs === request.maxRepairs) throw error
+    addRepairRequest(request, error)
+  }
+}
+
+/** Runs `RosettaAI.streamObject`. */
+export async function* streamObject<T>(
+  client: RosettaAI,
+  params: GenerateObjectParams<T>
+): AsyncIterable<ObjectStreamChunk<T>> {
+  let request: ObjectRequest<T>
+  try {
+    request = createObjectRequest(params)
+  } catch (error) {
+    yield { type: 'error', data: { error: error as Error } }
+    return
+  }
+
+  for (let repairs = 0; ; repairs++) {
+    let snapshot = ''
+    let lastPartial: string | undefined
+    let result: GenerateResult | undefined
+    let error: StructuredOutputError | undefined
+    for await (const chunk of client.stream(request.params)) {
+      if (chunk.type === 'final_result') {
+        result = chunk.data.result
+      } else if (chunk.type === 'error' && chunk.data.error instanceof StructuredOutputError) {
+        error = chunk.data.error
+      } else {
+        yield chunk
+      }
+      if (chunk.type !== 'json_delta' && chunk.type !== 'content_delta') continue
+
+      snapshot = chunk.type === 'json_delta' ? chunk.data.snapshot : snapshot + chunk.data.delta
+      const partial = parsePartialJson(snapshot)
+      const serialized = JSON.stringify(partial)
+      if (partial === undefined || serialized === lastPartial) continue
+      lastPartial = serialized
+      yield { type: 'partial_object', data: { object: partial as DeepPartial<T>, snapshot } }
+    }
+
+    if (result) {
+      const parsed = parseObject(request, result)
+      if (parsed.success) {
+        yield { type: 'final_result', data: { result } }
+        yield { type: 'object_done', data: { result: toObjectResult(request, result, parsed.object, repairs) } }
+        return
+      }
+      error = parsed.error
+    }
+    if (!error) return // The call failed; its error chunk was yielded
+    if (repairs === request.maxRepairs) {
+      yield { type: 'error', data: { error } }
+      return
+    }
+    yield { type: 'object_repair', data: { attempt: repairs + 1, error } }
+    addRepairRequest(request, error)
+  }
+}
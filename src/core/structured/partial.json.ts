@@ -0,0 +1,78 @@
+/** Returns the characters closing the open containers, innermost first. */
+function closers(stack: string[]): string {
+  return stack
+    .map(open => (open === '{' ? '}' : ']'))
+    .reverse()
+    .join('')
+}
+
+/**
+ * Parses the JSON received so far in a stream into the most complete value it describes: open objects and
+ * arrays are closed, a string value being received is cut at its last character, and an incomplete key,
+ * number or literal is left out with its property or item (e.g., `{"name": "Ada", "year": 18` gives
+ * `{ name: 'Ada' }`).
+ *
+ * @returns The partial value, or undefined if not even its outer container has been received.
+ */
+export function parsePartialJson(text: string): unknown {
+  try {
+    return JSON.parse(text)
+  } catch {
+    // Incomplete; repaired below
+  }
+
+  const stack: string[] = []
+  let inString = false
+  let inKey = false
+  let escaped = false
+  let expectingKey = false
+  /** The end of the last complete value, and what closes the containers open there. */
+  let complete: { end: number; closing: string } | undefined
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index]!
+    if (inString) {
+      if (escaped) escaped = false
+      else if (char === '\\') escaped = true
+      else if (char === '"') {
+        inString = false
+        if (!inKey) complete = { end: index + 1, closing: closers(stack) }
+      }
+    } else if (char === '"') {
+      inString = true
+      inKey = expectingKey
+    } else if (char === '{' || char === '[') {
+      stack.push(char)
+      expectingKey = char === '{'
+      complete = { end: index + 1, closing: closers(stack) }
+    } else if (char === '}' || char === ']') {
+      stack.pop()
+      complete = { end: index + 1, closing: closers(stack) }
+    } else if (char === ',') {
+      expectingKey = stack[stack.length - 1] === '{'
+    } else if (char === ':') {
+      expectingKey = false
+    } else if (/[-\w.+]/.test(char)) {
+      // A number or literal is complete once followed by another character, as more digits may follow otherwise
+      let end = index
+      while (end < text.length && /[-\w.+]/.test(text[end]!)) end++
+      if (end < text.length) complete = { end, closing: closers(stack) }
+      index = end - 1
+    }
+  }
+
+  if (inString && !inKey) {
+    const received = escaped ? text.slice(0, -1) : text
+    try {
+      return JSON.parse(`${received}"${closers(stack)}`)
+    } catch {
+      // An incomplete escape sequence; fall back to the last complete value
+    }
+  }
+  if (!complete) return undefined
+  try {
+    return JSON.parse(text.slice(0, complete.end) + complete.closing)
+  } catch {
+    return undefined
+  }
+}
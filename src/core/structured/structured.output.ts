@@ -0,0 +1,53 @@
+import { GenerateParams, GenerateResult, StreamChunk } from '../../types'
+import { StructuredOutputError } from '../../errors'
+import { validateJsonSchema } from './json.schema.validator'
+
+/**
+ * Parses and validates the content of a response requested with `responseFormat.schema`, setting `parsedContent`.
+ * Responses calling one of the request's tools are returned as is.
+ *
+ * @throws {StructuredOutputError} If the content is not valid JSON or does not match the schema.
+ */
+export function validateStructuredOutput(params: GenerateParams, result: GenerateResult): GenerateResult {
+  const schema = params.responseFormat?.type === 'json_object' ? params.responseFormat.schema : undefined
+  if (!schema || result.toolCalls?.length) return result
+
+  let value: unknown = result.parsedContent
+  if (value === undefined || value === null) {
+    if (!result.content) {
+      const issues = [{ path: [], message: 'Response is empty' }]
+      throw new StructuredOutputError(params.provider, result.content, issues, result.usage)
+    }
+    try {
+      value = JSON.parse(result.content)
+    } catch (error) {
+      const message = `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`
+      throw new StructuredOutputError(params.provider, result.content, [{ path: [], message }], result.usage)
+    }
+  }
+
+  const issues = validateJsonSchema(value, schema)
+  if (issues.length) throw new StructuredOutputError(params.provider, result.content, issues, result.usage)
+  return { ...result, parsedContent: value as GenerateResult['parsedContent'] }
+}
+
+/** Applies `validateStructuredOutput` to a stream's `final_result`, replacing it with an `error` chunk if invalid. */
+export async function* validateStructuredStream(
+  params: GenerateParams,
+  chunks: AsyncIterable<StreamChunk>
+): AsyncIterable<StreamChunk> {
+  for await (const chunk of chunks) {
+    if (chunk.type !== 'final_result') {
+      yield chunk
+      continue
+    }
+    let result: GenerateResult
+    try {
+      result = validateStructuredOutput(params, chunk.data.result)
+    } catch (error) {
+      yield { type: 'error', data: { error: error as StructuredOutputError } }
+      continue
+    }
+    yield { type: 'final_result', data: { result } }
+  }
+}
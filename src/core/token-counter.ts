@@ -0,0 +1,101 @@
+import { GenerateParams, RosettaContentPart, RosettaImageData, RosettaTool } from '../types'
+
+/** Rough characters-per-token ratio of BPE tokenizers on English text and code. */
+const CHARS_PER_TOKEN = 4
+
+/** Tokens added to every message for its role and delimiters (OpenAI chat format). */
+const TOKENS_PER_MESSAGE = 3
+
+/** Tokens priming the assistant's reply. */
+const REPLY_PRIMING_TOKENS = 3
+
+/** Tokens added once when tools are present, and per tool definition, for the injected tool preamble. */
+const TOOLS_BASE_TOKENS = 12
+const TOKENS_PER_TOOL = 8
+
+/** Image token costs of the OpenAI high-detail formula: a base cost plus a cost per 512px tile. */
+const IMAGE_BASE_TOKENS = 85
+const IMAGE_TOKENS_PER_TILE = 170
+
+/** Cost of an image whose dimensions cannot be read (a 1024x1024 image at high detail). */
+const DEFAULT_IMAGE_TOKENS = 765
+
+function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN)
+}
+
+/** Reads the pixel dimensions of a PNG, GIF or JPEG image from its header, if possible. */
+export function getImageDimensions(image: RosettaImageData): { width: number; height: number } | undefined {
+  const bytes = Buffer.from(image.base64Data, 'base64')
+
+  if (bytes.length >= 24 && bytes.toString('ascii', 1, 4) === 'PNG') {
+    return { width: bytes.readUInt32BE(16), height: bytes.readUInt32BE(20) }
+  }
+  if (bytes.length >= 10 && bytes.toString('ascii', 0, 3) === 'GIF') {
+    return { width: bytes.readUInt16LE(6), height: bytes.readUInt16LE(8) }
+  }
+  if (bytes.length >= 4 && bytes[0] === 0xff && bytes[1] === 0xd8) {
+    // Walk the JPEG segments up to the first start-of-frame marker (SOF0-SOF15, except DHT/JPG/DAC)
+    let offset = 2
+    while (offset + 9 < bytes.length && bytes[offset] === 0xff) {
+      const marker = bytes[offset + 1]!
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { width: bytes.readUInt16BE(offset + 7), height: bytes.readUInt16BE(offset + 5) }
+      }
+      offset += 2 + bytes.readUInt16BE(offset + 2)
+    }
+  }
+  return undefined
+}
+
+/**
+ * Estimates the prompt tokens of an image with OpenAI's high-detail formula: the image is scaled to fit
+ * within 2048x2048 and then to a shortest side of at most 768px, and each 512px tile costs 170 tokens.
+ */
+export function estimateImageTokens(image: RosettaImageData): number {
+  const dimensions = getImageDimensions(image)
+  if (!dimensions || dimensions.width === 0 || dimensions.height === 0) return DEFAULT_IMAGE_TOKENS
+
+  let { width, height } = dimensions
+  const fitScale = Math.min(1, 2048 / Math.max(width, height))
+  width *= fitScale
+  height *= fitScale
+  const shortSideScale = Math.min(1, 768 / Math.min(width, height))
+  width *= shortSideScale
+  height *= shortSideScale
+
+  return IMAGE_BASE_TOKENS + IMAGE_TOKENS_PER_TILE * Math.ceil(width / 512) * Math.ceil(height / 512)
+}
+
+function estimateContentTokens(content: string | RosettaContentPart[] | null): number {
+  if (typeof content === 'string') return estimateTextTokens(content)
+  if (!Array.isArray(content)) return 0
+  return content.reduce(
+    (sum, part) => sum + (part.type === 'text' ? estimateTextTokens(part.text) : estimateImageTokens(part.image)),
+    0
+  )
+}
+
+/** Estimates the tokens of tool definitions, which providers inject into the prompt. */
+export function estimateToolTokens(tools: RosettaTool[] | undefined): number {
+  if (!tools || tools.length === 0) return 0
+  return tools.reduce((sum, tool) => {
+    const { name, description, parameters } = tool.function
+    return sum + TOKENS_PER_TOOL + estimateTextTokens(name + (description ?? '') + JSON.stringify(parameters))
+  }, TOOLS_BASE_TOKENS)
+}
+
+/**
+ * Estimates the prompt tokens of a chat request offline, for providers without a counting endpoint.
+ * Counts message text (about 4 characters per token), per-message overhead, images and tool definitions.
+ */
+export function estimatePromptTokens(params: GenerateParams): number {
+  let tokens = REPLY_PRIMING_TOKENS
+  for (const message of params.messages) {
+    tokens += TOKENS_PER_MESSAGE + estimateContentTokens(message.content)
+    for (const toolCall of message.toolCalls ?? []) {
+      tokens += estimateTextTokens(toolCall.function.name + toolCall.function.arguments)
+    }
+  }
+  return tokens + estimateToolTokens(params.tools)
+}
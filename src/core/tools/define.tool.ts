@@ -0,0 +1,65 @@
+import { z } from 'zod'
+import { RosettaToolCallRequest, ToolDefinition, ToolArgumentsParseResult, TypedTool } from '../../types'
+import { ToolArgumentsError } from '../../errors'
+import { zodToJsonSchema } from './zod.schema'
+
+function safeParseArguments<TArgs>(
+  schema: z.ZodType<TArgs, z.ZodTypeDef, unknown>,
+  toolCall: RosettaToolCallRequest
+): ToolArgumentsParseResult<TArgs> {
+  const { name, arguments: rawArguments } = toolCall.function
+  let args: unknown
+  try {
+    args = rawArguments ? JSON.parse(rawArguments) : {}
+  } catch (error) {
+    const message = `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`
+    return { success: false, error: new ToolArgumentsError(name, toolCall.id, [{ path: [], message }]) }
+  }
+
+  const parsed = schema.safeParse(args)
+  if (parsed.success) return { success: true, data: parsed.data }
+  const issues = parsed.error.issues.map(({ path, message }) => ({ path, message }))
+  return { success: false, error: new ToolArgumentsError(name, toolCall.id, issues) }
+}
+
+/**
+ * Defines a tool from a Zod schema. The tool's JSON Schema `parameters` are generated from the schema,
+ * and its calls can be parsed into the schema's output type with `parseArguments`.
+ *
+ * @example
+ * const getWeather = defineTool({
+ *   name: 'get_weather',
+ *   schema: z.object({ city: z.string(), unit: z.enum(['celsius', 'fahrenheit']).optional() }),
+ *   handler: async ({ city, unit }) => fetchWeather(city, unit)
+ * })
+ * const result = await rosetta.generate({ provider, messages, tools: [getWeather] })
+ * const { city } = getWeather.parseArguments(result.toolCalls![0]!)
+ *
+ * @throws {MappingError} If the schema uses Zod types without a JSON Schema equivalent.
+ */
+export function defineTool<TSchema extends z.ZodTypeAny>(
+  definition: ToolDefinition<TSchema>
+): TypedTool<z.output<TSchema>> {
+  type TArgs = z.output<TSchema>
+  const { name, description, schema, handler } = definition
+  const tool = {
+    type: 'function' as const,
+    function: { name, ...(description ? { description } : {}), parameters: zodToJsonSchema(schema) }
+  }
+
+  const members: Omit<TypedTool<TArgs>, 'type' | 'function'> = {
+    schema,
+    handler,
+    parseArguments(toolCall: RosettaToolCallRequest): TArgs {
+      const parsed = safeParseArguments<TArgs>(schema, toolCall)
+      if (!parsed.success) throw parsed.error
+      return parsed.data
+    },
+    safeParseArguments: (toolCall: RosettaToolCallRequest) => safeParseArguments<TArgs>(schema, toolCall)
+  }
+  // Not enumerable, so that spreading or serializing the tool (mappers, cache keys, fixtures) only sees `RosettaTool`
+  for (const [key, value] of Object.entries(members)) {
+    Object.defineProperty(tool, key, { value, enumerable: false })
+  }
+  return tool as TypedTool<TArgs>
+}
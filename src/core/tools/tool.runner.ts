@@ -0,0 +1,185 @@
+import {
+  RosettaTracer,
+  RosettaToolCallRequest,
+  RosettaToolResult,
+  RosettaTool,
+  GenerateResult,
+  ToolHandler,
+  ToolRegistration,
+  TypedTool,
+  RunToolsParams,
+  RunToolsResult,
+  ToolLoopStep,
+  ToolLoopChunk
+} from '../../types'
+import { ConfigurationError } from '../../errors'
+import { Conversation } from '../conversation'
+import { traceToolExecution } from '../tracing/tracing.middleware'
+import { RosettaAI } from '../rosetta-ai'
+
+/** Model calls a tool loop makes at most unless `maxSteps` is set. */
+export const DEFAULT_MAX_TOOL_STEPS = 10
+
+/** A registered tool; `typed` is set for tools created by `defineTool`, whose arguments are validated. */
+interface LoopTool {
+  tool: RosettaTool
+  handler: ToolHandler
+  typed?: TypedTool<any>
+}
+
+/** The state of a running tool loop. */
+interface ToolLoop {
+  conversation: Conversation
+  tools: Map<string, LoopTool>
+  maxSteps: number
+  signal?: AbortSignal
+  tracer?: RosettaTracer
+}
+
+function toLoopTool(entry: ToolRegistration | TypedTool<any>): LoopTool {
+  if ('tool' in entry) return entry
+  if (!entry.handler) {
+    throw new ConfigurationError(`Tool '${entry.function.name}' needs a handler to be used in a tool loop.`)
+  }
+  return { tool: { type: entry.type, function: entry.function }, handler: entry.handler, typed: entry }
+}
+
+function createToolLoop(client: RosettaAI, params: RunToolsParams, tracer?: RosettaTracer): ToolLoop {
+  const { tools, maxSteps = DEFAULT_MAX_TOOL_STEPS, messages, ...rest } = params
+  if (!Number.isInteger(maxSteps) || maxSteps < 1) {
+    throw new ConfigurationError(`maxSteps must be a positive integer, got ${maxSteps}.`)
+  }
+  const registry = new Map<string, LoopTool>()
+  for (const entry of tools) {
+    const loopTool = toLoopTool(entry)
+    const { name } = loopTool.tool.function
+    if (registry.has(name)) throw new ConfigurationError(`Tool '${name}' is registered more than once.`)
+    registry.set(name, loopTool)
+  }
+
+  const conversation = new Conversation(client, {
+    params: { ...rest, tools: [...registry.values()].map(loopTool => loopTool.tool) },
+    messages
+  })
+  return { conversation, tools: registry, maxSteps, signal: params.signal, tracer }
+}
+
+function toErrorResult(toolCall: RosettaToolCallRequest, message: string, details?: object): RosettaToolResult {
+  return { toolCallId: toolCall.id, content: JSON.stringify({ error: message, ...details }), isError: true }
+}
+
+/**
+ * Executes a tool call with its handler. Unknown tools, invalid arguments (including arguments not matching
+ * a typed tool's schema) and handler errors become error results.
+ */
+async function executeToolCall(
+  loop: ToolLoop,
+  toolCall: RosettaToolCallRequest,
+  step: number
+): Promise<RosettaToolResult> {
+  const { name, arguments: rawArguments } = toolCall.function
+  const loopTool = loop.tools.get(name)
+  if (!loopTool) return toErrorResult(toolCall, `Tool '${name}' is not available.`)
+
+  let args: unknown
+  if (loopTool.typed) {
+    const parsed = loopTool.typed.safeParseArguments(toolCall)
+    if (!parsed.success) return toErrorResult(toolCall, parsed.error.message, { issues: parsed.error.issues })
+    args = parsed.data
+  } else {
+    try {
+      args = rawArguments ? JSON.parse(rawArguments) : {}
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      return toErrorResult(toolCall, `Invalid JSON arguments for tool '${name}': ${message}`)
+    }
+  }
+
+  try {
+    const output = await traceToolExecution(loop.tracer, toolCall, async () =>
+      loopTool.handler(args, { toolCall, step, signal: loop.signal })
+    )
+    return { toolCallId: toolCall.id, content: typeof output === 'string' ? output : JSON.stringify(output ?? null) }
+  } catch (error) {
+    return toErrorResult(toolCall, error instanceof Error ? error.message : String(error))
+  }
+}
+
+function toRunToolsResult(
+  loop: ToolLoop,
+  result: GenerateResult,
+  steps: ToolLoopStep[],
+  maxStepsReached: boolean
+): RunToolsResult {
+  return {
+    ...result,
+    steps,
+    messages: [...loop.conversation.messages],
+    totalUsage: loop.conversation.usage,
+    maxStepsReached
+  }
+}
+
+/** Runs the loop behind `RosettaAI.runTools`. */
+export async function runToolLoop(
+  client: RosettaAI,
+  params: RunToolsParams,
+  tracer?: RosettaTracer
+): Promise<RunToolsResult> {
+  const loop = createToolLoop(client, params, tracer)
+  const steps: ToolLoopStep[] = []
+  for (let step = 1; ; step++) {
+    const result = await loop.conversation.generate()
+    const toolCalls = result.toolCalls ?? []
+    if (toolCalls.length === 0 || step === loop.maxSteps) {
+      steps.push({ result, toolResults: [] })
+      return toRunToolsResult(loop, result, steps, toolCalls.length > 0)
+    }
+
+    const toolResults = await Promise.all(toolCalls.map(toolCall => executeToolCall(loop, toolCall, step)))
+    loop.conversation.addToolResults(...toolResults)
+    steps.push({ result, toolResults })
+  }
+}
+
+/** Runs the loop behind `RosettaAI.streamTools`. */
+export async function* streamToolLoop(
+  client: RosettaAI,
+  params: RunToolsParams,
+  tracer?: RosettaTracer
+): AsyncIterable<ToolLoopChunk> {
+  let loop: ToolLoop
+  try {
+    loop = createToolLoop(client, params, tracer)
+  } catch (error) {
+    yield { type: 'error', data: { error: error as Error } }
+    return
+  }
+
+  const steps: ToolLoopStep[] = []
+  for (let step = 1; ; step++) {
+    let result: GenerateResult | undefined
+    let failed = false
+    for await (const chunk of loop.conversation.stream()) {
+      if (chunk.type === 'error') failed = true
+      if (chunk.type === 'final_result') result = chunk.data.result
+      yield chunk
+    }
+    if (failed || !result) return
+
+    const toolCalls = result.toolCalls ?? []
+    if (toolCalls.length === 0 || step === loop.maxSteps) {
+      steps.push({ result, toolResults: [] })
+      yield { type: 'tool_loop_done', data: { result: toRunToolsResult(loop, result, steps, toolCalls.length > 0) } }
+      return
+    }
+
+    for (const toolCall of toolCalls) yield { type: 'tool_execution_start', data: { step, toolCall } }
+    const toolResults = await Promise.all(toolCalls.map(toolCall => executeToolCall(loop, toolCall, step)))
+    for (const [index, toolCall] of toolCalls.entries()) {
+      yield { type: 'tool_execution_done', data: { step, toolCall, result: toolResults[index]! } }
+    }
+    loop.conversation.addToolResults(...toolResults)
+    steps.push({ result, toolResults })
+  }
+}
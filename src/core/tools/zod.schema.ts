@@ -0,0 +1,133 @@
+import { z } from 'zod'
+import { MappingError } from '../../errors'
+
+type JsonSchema = Record<string, unknown>
+
+/** JSON Schema `format`s of the Zod string checks that have one (`ip` only with a version). */
+const STRING_FORMATS: Record<string, string> = {
+  email: 'email',
+  url: 'uri',
+  uuid: 'uuid',
+  datetime: 'date-time',
+  date: 'date',
+  time: 'time'
+}
+
+function describe(schema: z.ZodTypeAny, jsonSchema: JsonSchema): JsonSchema {
+  return schema.description ? { ...jsonSchema, description: schema.description } : jsonSchema
+}
+
+function convertString(schema: z.ZodString): JsonSchema {
+  const jsonSchema: JsonSchema = { type: 'string' }
+  for (const check of schema._def.checks) {
+    if (check.kind === 'min') jsonSchema.minLength = check.value
+    else if (check.kind === 'max') jsonSchema.maxLength = check.value
+    else if (check.kind === 'length') jsonSchema.minLength = jsonSchema.maxLength = check.value
+    else if (check.kind === 'regex') jsonSchema.pattern = check.regex.source
+    else if (check.kind === 'ip' && check.version) jsonSchema.format = check.version === 'v4' ? 'ipv4' : 'ipv6'
+    else if (STRING_FORMATS[check.kind]) jsonSchema.format = STRING_FORMATS[check.kind]
+  }
+  return jsonSchema
+}
+
+function convertNumber(schema: z.ZodNumber): JsonSchema {
+  const jsonSchema: JsonSchema = { type: 'number' }
+  for (const check of schema._def.checks) {
+    if (check.kind === 'int') jsonSchema.type = 'integer'
+    else if (check.kind === 'min') jsonSchema[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value
+    else if (check.kind === 'max') jsonSchema[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value
+    else if (check.kind === 'multipleOf') jsonSchema.multipleOf = check.value
+  }
+  return jsonSchema
+}
+
+/** Converts a Zod schema node; `path` names it in errors. */
+function convert(schema: z.ZodTypeAny, path: string): JsonSchema {
+  if (schema instanceof z.ZodString) return describe(schema, convertString(schema))
+  if (schema instanceof z.ZodNumber) return describe(schema, convertNumber(schema))
+  if (schema instanceof z.ZodBigInt) return describe(schema, { type: 'integer' })
+  if (schema instanceof z.ZodBoolean) return describe(schema, { type: 'boolean' })
+  if (schema instanceof z.ZodDate) {
+    // JSON has no dates, so only a schema that coerces the model's string to a Date can validate it
+    if (!schema._def.coerce) {
+      throw new MappingError(
+        `Cannot convert ZodDate at '${path || '(root)'}' to JSON Schema, as JSON values are never Dates. ` +
+          'Use z.coerce.date() or z.string().datetime() instead.',
+        undefined,
+        'zodToJsonSchema'
+      )
+    }
+    return describe(schema, { type: 'string', format: 'date-time' })
+  }
+  if (schema instanceof z.ZodNull) return describe(schema, { type: 'null' })
+  if (schema instanceof z.ZodAny || schema instanceof z.ZodUnknown) return describe(schema, {})
+  if (schema instanceof z.ZodLiteral) return describe(schema, { const: schema.value })
+  if (schema instanceof z.ZodEnum) return describe(schema, { type: 'string', enum: [...schema.options] })
+  if (schema instanceof z.ZodNativeEnum) {
+    return describe(schema, { enum: z.util.getValidEnumValues(schema.enum) }) // Without numeric enums' reverse keys
+  }
+  if (schema instanceof z.ZodObject) {
+    const properties: Record<string, JsonSchema> = {}
+    const required: string[] = []
+    for (const [key, property] of Object.entries<z.ZodTypeAny>(schema.shape)) {
+      properties[key] = convert(property, path ? `${path}.${key}` : key)
+      if (!property.isOptional()) required.push(key)
+    }
+    const { catchall, unknownKeys } = schema._def
+    const additionalProperties =
+      catchall instanceof z.ZodNever ? unknownKeys === 'passthrough' : convert(catchall, `${path}[*]`)
+    return describe(schema, {
+      type: 'object',
+      properties,
+      ...(required.length ? { required } : {}),
+      additionalProperties
+    })
+  }
+  if (schema instanceof z.ZodArray) {
+    const { minLength, maxLength, exactLength } = schema._def
+    return describe(schema, {
+      type: 'array',
+      items: convert(schema.element, `${path}[]`),
+      ...(minLength || exactLength ? { minItems: (exactLength ?? minLength)!.value } : {}),
+      ...(maxLength || exactLength ? { maxItems: (exactLength ?? maxLength)!.value } : {})
+    })
+  }
+  if (schema instanceof z.ZodRecord) {
+    return describe(schema, { type: 'object', additionalProperties: convert(schema.valueSchema, `${path}[*]`) })
+  }
+  if (schema instanceof z.ZodUnion || schema instanceof z.ZodDiscriminatedUnion) {
+    const options: z.ZodTypeAny[] = [...schema.options]
+    return describe(schema, { anyOf: options.map(option => convert(option, path)) })
+  }
+  if (schema instanceof z.ZodNullable) {
+    return describe(schema, { anyOf: [convert(schema.unwrap(), path), { type: 'null' }] })
+  }
+  if (schema instanceof z.ZodDefault) {
+    return describe(schema, { ...convert(schema.removeDefault(), path), default: schema._def.defaultValue() })
+  }
+  // Wrappers that do not change the JSON shape
+  if (schema instanceof z.ZodOptional) return describe(schema, convert(schema.unwrap(), path))
+  if (schema instanceof z.ZodEffects) return describe(schema, convert(schema.innerType(), path))
+  if (schema instanceof z.ZodBranded) return describe(schema, convert(schema.unwrap(), path))
+  if (schema instanceof z.ZodReadonly) return describe(schema, convert(schema._def.innerType, path))
+  if (schema instanceof z.ZodCatch) return describe(schema, convert(schema.removeCatch(), path))
+  if (schema instanceof z.ZodPipeline) return describe(schema, convert(schema._def.in, path))
+
+  throw new MappingError(
+    `Cannot convert ${schema._def.typeName ?? 'this Zod type'} at '${path || '(root)'}' to JSON Schema.`,
+    undefined,
+    'zodToJsonSchema'
+  )
+}
+
+/**
+ * Converts a Zod schema to JSON Schema, as used by `RosettaTool.function.parameters` and `responseFormat.schema`.
+ * Objects are closed (`additionalProperties: false`) unless they use `passthrough` or `catchall`.
+ * Refinements and transforms cannot be expressed and are only applied when validating.
+ *
+ * @throws {MappingError} For Zod types without a JSON Schema equivalent (e.g., functions, promises, lazy schemas,
+ *   dates not coerced from strings).
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  return convert(schema, '')
+}
@@ -0,0 +1,62 @@
+import { RosettaTracer, RosettaSpan, SpanAttributes, SpanAttributeValue, SpanOptions } from '../../types'
+
+/** A span recorded by `InMemoryTracer`. */
+export class InMemorySpan implements RosettaSpan {
+  readonly attributes: SpanAttributes
+  readonly events: Array<{ name: string; attributes?: SpanAttributes }> = []
+  readonly exceptions: Error[] = []
+  status: { code: number; message?: string } = { code: 0 }
+  readonly startTime = Date.now()
+  endTime?: number
+
+  constructor(readonly name: string, readonly kind?: number, attributes: SpanAttributes = {}) {
+    this.attributes = { ...attributes }
+  }
+
+  setAttribute(key: string, value: SpanAttributeValue): this {
+    this.attributes[key] = value
+    return this
+  }
+
+  addEvent(name: string, attributes?: SpanAttributes): this {
+    this.events.push({ name, attributes })
+    return this
+  }
+
+  recordException(exception: Error): void {
+    this.exceptions.push(exception)
+  }
+
+  setStatus(status: { code: number; message?: string }): this {
+    this.status = status
+    return this
+  }
+
+  end(): void {
+    if (this.endTime === undefined) this.endTime = Date.now()
+  }
+
+  /** Whether `end` has been called. */
+  get ended(): boolean {
+    return this.endTime !== undefined
+  }
+}
+
+/**
+ * Tracer keeping every span in memory, for tests and local debugging without an OpenTelemetry SDK.
+ */
+export class InMemoryTracer implements RosettaTracer {
+  /** The spans started so far, in start order. */
+  readonly spans: InMemorySpan[] = []
+
+  startSpan(name: string, options: SpanOptions = {}): InMemorySpan {
+    const span = new InMemorySpan(name, options.kind, options.attributes)
+    this.spans.push(span)
+    return span
+  }
+
+  /** Forgets the recorded spans. */
+  reset(): void {
+    this.spans.length = 0
+  }
+}
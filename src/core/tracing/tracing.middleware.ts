@@ -0,0 +1,165 @@
+import {
+  RosettaMiddleware,
+  RosettaOperation,
+  RosettaTracer,
+  RosettaSpan,
+  SpanAttributes,
+  SpanStatusCode,
+  MiddlewareContext,
+  OperationParams,
+  OperationResult,
+  OperationChunk,
+  GenerateParams,
+  RosettaToolCallRequest
+} from '../../types'
+
+/** OpenTelemetry `SpanKind.CLIENT`: RosettaAI spans describe calls to remote providers. */
+const SPAN_KIND_CLIENT = 2
+
+/** OpenTelemetry `SpanKind.INTERNAL`, for tool executions, which run in-process. */
+const SPAN_KIND_INTERNAL = 0
+
+/** `gen_ai.operation.name` of each operation (OpenTelemetry GenAI semantic conventions where they define one). */
+const OPERATION_NAMES: Record<RosettaOperation, string> = {
+  generate: 'chat',
+  stream: 'chat',
+  embed: 'embeddings',
+  generateSpeech: 'text_to_speech',
+  streamSpeech: 'text_to_speech',
+  transcribe: 'transcription',
+  translate: 'translation'
+}
+
+/** The attributes known before the call is made: operation, provider, requested model and sampling parameters. */
+function getRequestAttributes(params: OperationParams, context: MiddlewareContext): SpanAttributes {
+  const attributes: SpanAttributes = {
+    'gen_ai.operation.name': OPERATION_NAMES[context.operation],
+    'gen_ai.system': params.provider,
+    'rosetta.request_id': context.requestId
+  }
+  if (params.model) attributes['gen_ai.request.model'] = params.model
+  if (context.operation === 'generate' || context.operation === 'stream') {
+    const { maxTokens, temperature, topP } = params as GenerateParams
+    if (maxTokens !== undefined) attributes['gen_ai.request.max_tokens'] = maxTokens
+    if (temperature !== undefined) attributes['gen_ai.request.temperature'] = temperature
+    if (topP !== undefined) attributes['gen_ai.request.top_p'] = topP
+  }
+  return attributes
+}
+
+/** Records the reported model, token usage, finish reason and requested tool calls of a result. */
+function recordResult(span: RosettaSpan, result: OperationResult): void {
+  if (Buffer.isBuffer(result)) return
+  if (result.model) span.setAttribute('gen_ai.response.model', result.model)
+  if ('usage' in result && result.usage) {
+    const { promptTokens, completionTokens } = result.usage
+    if (promptTokens !== undefined) span.setAttribute('gen_ai.usage.input_tokens', promptTokens)
+    if (completionTokens !== undefined) span.setAttribute('gen_ai.usage.output_tokens', completionTokens)
+  }
+  if ('cached' in result && result.cached !== undefined) span.setAttribute('rosetta.cache_hit', result.cached)
+  if ('finishReason' in result) {
+    if (result.finishReason) span.setAttribute('gen_ai.response.finish_reasons', [result.finishReason])
+    result.toolCalls?.forEach(toolCall => {
+      span.addEvent('gen_ai.tool.call', {
+        'gen_ai.tool.name': toolCall.function.name,
+        'gen_ai.tool.call.id': toolCall.id
+      })
+    })
+  }
+}
+
+/** Marks the span as failed, with the error's class as `error.type`. */
+function recordError(span: RosettaSpan, error: unknown): void {
+  const exception = error instanceof Error ? error : new Error(String(error))
+  span.setAttribute('error.type', exception.name)
+  span.recordException(exception)
+  span.setStatus({ code: SpanStatusCode.ERROR, message: exception.message })
+}
+
+/** Whether a chunk carries output, as opposed to stream bookkeeping (start, usage, errors). */
+function isOutputChunk(chunk: OperationChunk): boolean {
+  return !['message_start', 'message_stop', 'final_usage', 'final_result', 'error', 'audio_stop'].includes(chunk.type)
+}
+
+/**
+ * Creates the middleware opening a span per `generate`, `stream`, `embed` and audio call, with
+ * OpenTelemetry GenAI semantic-convention attributes. RosettaAI installs it as the outermost middleware,
+ * so spans cover the whole call, including user middleware and cache hits.
+ * Fallback chains produce one span per attempted target.
+ */
+export function createTracingMiddleware(tracer: RosettaTracer): RosettaMiddleware {
+  const startSpan = (params: OperationParams, context: MiddlewareContext): RosettaSpan => {
+    const operationName = OPERATION_NAMES[context.operation]
+    return tracer.startSpan(params.model ? `${operationName} ${params.model}` : operationName, {
+      kind: SPAN_KIND_CLIENT,
+      attributes: getRequestAttributes(params, context)
+    })
+  }
+
+  return {
+    name: 'tracing',
+    async wrapOperation(params, context, next) {
+      const span = startSpan(params, context)
+      try {
+        const result = await next(params)
+        recordResult(span, result)
+        return result
+      } catch (error) {
+        recordError(span, error)
+        throw error
+      } finally {
+        span.end()
+      }
+    },
+    async *wrapStream(params, context, next) {
+      const span = startSpan(params, context)
+      const startedAt = Date.now()
+      let awaitingFirstOutput = true
+      try {
+        for await (const chunk of next(params)) {
+          if (awaitingFirstOutput && isOutputChunk(chunk)) {
+            // Seconds, like the gen_ai.server.time_to_first_token metric
+            span.setAttribute('gen_ai.server.time_to_first_token', (Date.now() - startedAt) / 1000)
+            awaitingFirstOutput = false
+          }
+          if (chunk.type === 'final_result' && 'result' in chunk.data) recordResult(span, chunk.data.result)
+          if (chunk.type === 'error') recordError(span, chunk.data.error)
+          yield chunk
+        }
+      } catch (error) {
+        recordError(span, error)
+        throw error
+      } finally {
+        span.end()
+      }
+    }
+  }
+}
+
+/**
+ * Runs a tool handler in an `execute_tool` span (OpenTelemetry GenAI conventions), or runs it as is
+ * without a tracer. Failures are recorded on the span and rethrown.
+ */
+export async function traceToolExecution<T>(
+  tracer: RosettaTracer | undefined,
+  toolCall: RosettaToolCallRequest,
+  run: () => Promise<T>
+): Promise<T> {
+  if (!tracer) return run()
+  const span = tracer.startSpan(`execute_tool ${toolCall.function.name}`, {
+    kind: SPAN_KIND_INTERNAL,
+    attributes: {
+      'gen_ai.operation.name': 'execute_tool',
+      'gen_ai.tool.name': toolCall.function.name,
+      'gen_ai.tool.call.id': toolCall.id
+    }
+  })
+  try {
+    return await run()
+  } catch (error) {
+    recordError(span, error)
+    throw error
+  } finally {
+    span.end()
+  }
+}
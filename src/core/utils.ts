@@ -1,7 +1,7 @@
 import { Readable } from 'stream'
 import { toFile } from 'openai'
 import { FileLike } from 'openai/uploads'
-import { RosettaAudioData } from '../types'
+import { RosettaAudioData, TokenUsage } from '../types'
 
 /**
  * Prepares audio data (Buffer or ReadableStream) into a format suitable for SDK uploads.
@@ -76,3 +76,46 @@ export function safeGet<T>(obj: any, ...path: (string | number)[]): T | undefine
   }
   return current as T
 }
+
+/** Error names used for aborted requests by fetch (`AbortError`) and the provider SDKs. */
+const ABORT_ERROR_NAMES = new Set(['AbortError', 'APIUserAbortError', 'GoogleGenerativeAIAbortError'])
+
+/**
+ * Checks whether an error reports an aborted request. The provider SDKs do not all set `name`
+ * on their abort errors, so the class name is checked as well.
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && (ABORT_ERROR_NAMES.has(error.name) || ABORT_ERROR_NAMES.has(error.constructor.name))
+}
+
+/** Serializes a value with sorted object keys and without undefined entries, so equal requests hash equally. */
+export function canonicalStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalStringify).join(',')}]`
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, entry]) => `${JSON.stringify(key)}:${canonicalStringify(entry)}`)
+    return `{${entries.join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'null'
+}
+
+/** Token counts that add up across calls. */
+const USAGE_FIELDS = [
+  'promptTokens',
+  'completionTokens',
+  'totalTokens',
+  'cachedContentTokenCount',
+  'cacheReadTokens',
+  'cacheWriteTokens',
+  'reasoningTokens'
+] as const
+
+/** Adds the token counts of `usage` to `total`, in place. */
+export function addTokenUsage(total: TokenUsage, usage: TokenUsage): void {
+  for (const field of USAGE_FIELDS) {
+    const tokens = usage[field]
+    if (tokens !== undefined) total[field] = (total[field] ?? 0) + tokens
+  }
+}
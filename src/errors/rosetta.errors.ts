@@ -1,4 +1,4 @@
-import { Provider } from '../types'
+import { ProviderId, TokenUsage, ValidationIssue, WarningCode } from '../types'
 
 /**
  * Base error class for all errors originating from the RosettaAI SDK.
@@ -34,10 +34,10 @@ export class ConfigurationError extends RosettaAIError {
  * is not supported by the selected AI provider or the specific model being used.
  */
 export class UnsupportedFeatureError extends RosettaAIError {
-  public readonly provider: Provider
+  public readonly provider: ProviderId
   public readonly feature: string
 
-  constructor(provider: Provider, feature: string) {
+  constructor(provider: ProviderId, feature: string) {
     super(`Provider '${provider}' does not support the requested feature: ${feature}`)
     this.name = 'UnsupportedFeatureError'
     this.provider = provider
@@ -53,7 +53,7 @@ export class UnsupportedFeatureError extends RosettaAIError {
  */
 export class ProviderAPIError extends RosettaAIError {
   /** The provider that generated the error. */
-  public readonly provider: Provider
+  public readonly provider: ProviderId
   /** The HTTP status code returned by the API (e.g., 429, 401, 500), if available. */
   public readonly statusCode?: number
   /** A provider-specific error code string (e.g., 'invalid_api_key', 'rate_limit_exceeded'), if available. */
@@ -65,7 +65,7 @@ export class ProviderAPIError extends RosettaAIError {
 
   constructor(
     message: string,
-    provider: Provider,
+    provider: ProviderId,
     statusCode?: number,
     errorCode?: string | null,
     errorType?: string | null,
@@ -89,17 +89,122 @@ export class ProviderAPIError extends RosettaAIError {
   }
 }
 
+/**
+ * Error indicating that an operation was cancelled through its `signal` (an `AbortSignal`)
+ * before it completed, including while it was queued by the rate limiter or waiting to be retried.
+ */
+export class CancellationError extends RosettaAIError {
+  /** The provider the cancelled operation was sent to, if known. */
+  public readonly provider?: ProviderId
+  /** The reason passed to `AbortController.abort()`, if any. */
+  public readonly reason?: unknown
+
+  constructor(provider?: ProviderId, reason?: unknown) {
+    const providerString = provider ? `[${provider}] ` : ''
+    super(`${providerString}Operation was cancelled.`)
+    this.name = 'CancellationError'
+    this.provider = provider
+    this.reason = reason
+  }
+}
+
+/**
+ * Error thrown in place of a warning that `RosettaAIConfig.strictWarnings` escalates,
+ * e.g. when a provider would silently ignore `responseFormat.schema`.
+ */
+export class StrictModeError extends RosettaAIError {
+  /** The escalated warning's code. */
+  public readonly code: WarningCode
+  /** The provider the operation was sent to, if known. */
+  public readonly provider?: ProviderId
+
+  constructor(code: WarningCode, message: string, provider?: ProviderId) {
+    const providerString = provider ? `[${provider}] ` : ''
+    super(`${providerString}${message} (${code})`)
+    this.name = 'StrictModeError'
+    this.code = code
+    this.provider = provider
+  }
+}
+
+/**
+ * Error indicating that no fixture was recorded for a request made in `recording.mode: 'replay'`,
+ * usually because the request changed since the fixtures were recorded.
+ */
+export class FixtureNotFoundError extends RosettaAIError {
+  /** The provider the request was sent to. */
+  public readonly provider: ProviderId
+  /** The path of the missing fixture file. */
+  public readonly fixturePath: string
+
+  constructor(provider: ProviderId, operation: string, fixturePath: string) {
+    super(`[${provider}] No recorded ${operation} exchange matches this request (expected ${fixturePath}).`)
+    this.name = 'FixtureNotFoundError'
+    this.provider = provider
+    this.fixturePath = fixturePath
+  }
+}
+
+function formatIssues(issues: ValidationIssue[]): string {
+  return issues.map(({ path, message }) => (path.length ? `${path.join('.')}: ${message}` : message)).join('; ')
+}
+
+/**
+ * Error indicating that the arguments of a tool call are not valid JSON or do not match the tool's schema
+ * (see `defineTool`). `issues` lists each problem with the path of the offending argument.
+ */
+export class ToolArgumentsError extends RosettaAIError {
+  /** The name of the called tool. */
+  public readonly toolName: string
+  /** The ID of the invalid tool call. */
+  public readonly toolCallId: string
+  /** The problems found with the arguments. */
+  public readonly issues: ValidationIssue[]
+
+  constructor(toolName: string, toolCallId: string, issues: ValidationIssue[]) {
+    super(`Invalid arguments for tool '${toolName}': ${formatIssues(issues)}`)
+    this.name = 'ToolArgumentsError'
+    this.toolName = toolName
+    this.toolCallId = toolCallId
+    this.issues = issues
+  }
+}
+
+/**
+ * Error indicating that a response requested with `responseFormat.schema` is not valid JSON or does not match
+ * the schema, e.g. because the provider cannot enforce the schema or the output was cut off by `maxTokens`.
+ */
+export class StructuredOutputError extends RosettaAIError {
+  /** The provider that produced the response. */
+  public readonly provider: ProviderId
+  /** The raw content of the response. */
+  public readonly content: string | null
+  /** The problems found with the content. */
+  public readonly issues: ValidationIssue[]
+  /** Token usage of the response, if reported; the call is billed even though its output is rejected. */
+  public readonly usage?: TokenUsage
+
+  constructor(provider: ProviderId, content: string | null, issues: ValidationIssue[], usage?: TokenUsage) {
+    super(`[${provider}] Response does not match responseFormat.schema: ${formatIssues(issues)}`)
+    this.name = 'StructuredOutputError'
+    this.provider = provider
+    this.content = content
+    this.issues = issues
+    this.usage = usage
+  }
+}
+
 /**
  * Error indicating a failure during data mapping or processing within the SDK,
  * such as converting between RosettaAI types and provider-specific formats.
  */
 export class MappingError extends RosettaAIError {
   /** The provider involved in the mapping, if applicable. */
-  public readonly provider?: Provider
+  public readonly provider?: ProviderId
   /** Contextual information about where the mapping error occurred (e.g., function name). */
   public readonly context?: string
 
-  constructor(message: string, provider?: Provider, context?: string, cause?: unknown) {
+  constructor(message: string, provider?: ProviderId, context?: string, cause?: unknown) {
     const providerString = provider ? `[${provider}]` : ''
     const ctxString = context ? ` [Context: ${context}]` : ''
     super(`Mapping Error ${providerString}${ctxString}: ${message}`)
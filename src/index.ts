@@ -5,5 +5,13 @@
  */
 
 export { RosettaAI } from './core/rosetta-ai'
+export { Conversation } from './core/conversation'
+export * from './core/mapping/base.mapper' // IProviderMapper, for implementing custom providers
+export { MemoryCacheStore } from './core/cache/memory.store'
+export { FileCacheStore } from './core/cache/file.store'
+export { defineTool } from './core/tools/define.tool'
+export { zodToJsonSchema } from './core/tools/zod.schema'
+export { InMemoryTracer, InMemorySpan } from './core/tracing/memory.tracer'
+export { isRetryableError } from './core/retry' // Default predicate for retry and fallback policies
 export * from './types' // Export all types from the types module
 export * from './errors' // Export all custom errors
@@ -0,0 +1,32 @@
+/**
+ * Storage backend for the RosettaAI response cache.
+ * Values are plain JSON-serializable objects; stores are responsible for honoring `ttlMs`.
+ */
+export interface CacheStore {
+  /** Returns the value stored under `key`, or undefined if it is missing or expired. */
+  get(key: string): Promise<unknown | undefined>
+  /** Stores `value` under `key`, expiring after `ttlMs` milliseconds if given. */
+  set(key: string, value: unknown, ttlMs?: number): Promise<void>
+  /** Removes the value stored under `key`. */
+  delete(key: string): Promise<void>
+}
+
+/**
+ * Configuration for the response cache used by `generate`, `stream` and `embed`.
+ */
+export interface CacheConfig {
+  /** Where cached results are kept (e.g., `new MemoryCacheStore()` or `new FileCacheStore('.cache')`). */
+  store: CacheStore
+  /** Default time-to-live for cached results, in milliseconds. Entries never expire if omitted. */
+  ttlMs?: number
+}
+
+/**
+ * Per-call cache options. Pass `false` to bypass the cache entirely (no lookup, no store).
+ */
+export interface CacheCallOptions {
+  /** Time-to-live for this result, in milliseconds. Overrides `CacheConfig.ttlMs`. */
+  ttlMs?: number
+  /** Skips the lookup but stores the fresh result, replacing any cached one. */
+  refresh?: boolean
+}
@@ -5,9 +5,16 @@ export enum Provider {
   Anthropic = 'anthropic',
   Google = 'google',
   Groq = 'groq',
-  OpenAI = 'openai' // Represents both OpenAI standard and Azure OpenAI
+  OpenAI = 'openai', // The public OpenAI API (api.openai.com or a `baseURL` override)
+  AzureOpenAI = 'azure-openai' // Azure OpenAI deployments
 }
 
+/**
+ * Identifier for a provider. Either one of the built-in `Provider` values or the
+ * string ID of a custom provider registered via `RosettaAI.registerProvider`.
+ */
+export type ProviderId = Provider | (string & {})
+
 export type ImageMimeType = 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp'
 /**
  * Represents raw image data, typically Base64 encoded.
@@ -33,9 +40,12 @@ export interface RosettaAudioData {
 
 /**
  * A discriminated union representing different parts of a message's content.
- * Supports text and image inputs.
+ * Supports text and image inputs. `cacheBreakpoint` marks the end of a prompt prefix to cache (see
+ * `RosettaMessage.cacheBreakpoint`).
  */
-export type RosettaContentPart = { type: 'text'; text: string } | { type: 'image'; image: RosettaImageData }
+export type RosettaContentPart =
+  | { type: 'text'; text: string; cacheBreakpoint?: boolean }
+  | { type: 'image'; image: RosettaImageData; cacheBreakpoint?: boolean }
 // | { type: 'audio'; audio: RosettaAudioData }; // Future: If models support inline audio content parts
 
 /**
@@ -44,12 +54,34 @@ export type RosettaContentPart = { type: 'text'; text: string } | { type: 'image
  * @property content - The content of the message, can be simple text or an array of content parts (for multimodal).
  * @property toolCalls - For 'assistant' role: An array of tool calls requested by the model.
  * @property toolCallId - For 'tool' role: The ID of the tool call this message is a response to.
+ * @property isError - For 'tool' role: Marks the result of a failed tool execution (sent as `is_error` to Anthropic).
+ * @property thinkingSteps - For 'assistant' role: The thinking steps of the reply, kept for reference. Not sent to providers.
+ * @property reasoningBlocks - For 'assistant' role: The reasoning blocks of the reply, sent back unchanged to the
+ *   provider that produced them.
+ * @property cacheBreakpoint - Caches the prompt up to and including this message for later requests that start the
+ *   same way (Anthropic `cache_control`, Google cached content). OpenAI/Azure cache prompts automatically and ignore it.
  */
 export interface RosettaMessage {
   role: 'system' | 'user' | 'assistant' | 'tool'
   content: string | RosettaContentPart[] | null // FIX: Allow content to be potentially null
   toolCalls?: RosettaToolCallRequest[]
   toolCallId?: string
+  isError?: boolean
+  thinkingSteps?: string | null
+  reasoningBlocks?: RosettaReasoningBlock[]
+  cacheBreakpoint?: boolean
+}
+
+/**
+ * A reasoning block of an assistant reply in the provider's own format, kept verbatim so that it can be sent
+ * back with the message. Anthropic requires its thinking blocks (with their signatures) and redacted thinking
+ * blocks when a tool-use turn with extended thinking is continued.
+ * @property provider - The provider that produced the block. Other providers do not receive it.
+ * @property data - The block as returned by the provider; treat it as opaque.
+ */
+export interface RosettaReasoningBlock {
+  provider: ProviderId
+  data: unknown
 }
 
 /**
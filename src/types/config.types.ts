@@ -1,5 +1,15 @@
-import { Provider } from './common.types'
+import { ProviderId } from './common.types'
 import { ModelListingSourceConfig } from './models.types'
+import { ProviderCapabilities, ProviderRegistration } from './provider.types'
+import { RosettaMiddleware } from './middleware.types'
+import { FallbackTarget } from './params.types'
+import { CacheConfig } from './cache.types'
+import { PricingTable } from './cost.types'
+import { ContextFitOptions } from './context.types'
+import { LogLevel, RosettaLogger, WarningCode } from './logger.types'
+import { RosettaTracer } from './tracing.types'
+import { RecordingConfig } from './recording.types'
+import { MockProviderConfig } from './mock.types'
 
 /**
  * Optional provider-specific configuration settings that can override global defaults
@@ -17,6 +27,105 @@ export interface ProviderOptions {
   // Add other provider-specific config options here as needed
 }
 
+/**
+ * Configuration for a named provider that speaks the OpenAI chat/embeddings wire format
+ * (e.g., vLLM, Ollama, LM Studio). Each entry is registered as its own provider under `name`.
+ */
+export interface OpenAICompatibleProviderConfig {
+  /** Provider ID used in requests (e.g., `'ollama'`). Must not collide with a built-in provider. */
+  name: string
+  /** Base URL of the API, including the version path (e.g., `'http://localhost:11434/v1'`). */
+  baseURL: string
+  /** API key sent as a Bearer token. Optional for local servers that don't check it. */
+  apiKey?: string
+  /** Default chat/completion model for this provider. Overridden by `RosettaAIConfig.defaultModels[name]`. */
+  defaultModel?: string
+  /** Default embedding model for this provider. Overridden by `RosettaAIConfig.defaultEmbeddingModels[name]`. */
+  defaultEmbeddingModel?: string
+  /**
+   * Capability overrides, merged over the defaults (chat, streaming, embeddings, batch embeddings,
+   * image input, tool use and JSON mode). Set flags to match what the server and its models support.
+   */
+  capabilities?: ProviderCapabilities
+}
+
+/**
+ * Controls how RosettaAI retries failed provider calls (chat, streaming setup, embeddings, audio and model listing).
+ * Delays grow exponentially from `baseDelayMs`, are capped at `maxDelayMs`, and honor `Retry-After` /
+ * `retry-after-ms` response headers when the provider sends them.
+ */
+export interface RetryPolicy {
+  /** Maximum number of retries after the first attempt. Defaults to `RosettaAIConfig.defaultMaxRetries` (2). */
+  maxRetries?: number
+  /** Delay before the first retry, in milliseconds. Doubles on each further retry. Defaults to 500. */
+  baseDelayMs?: number
+  /** Upper bound for any single delay, including delays requested by `Retry-After`. Defaults to 30000. */
+  maxDelayMs?: number
+  /** Fraction (0-1) of each backoff delay that is randomized to spread out concurrent retries. Defaults to 0.2. */
+  jitter?: number
+  /**
+   * HTTP status codes to retry. Setting this or `retryableErrorTypes` replaces the default classification
+   * (`isRetryableError`: 408, 409, 429, 5xx, overload/rate-limit errors, timeouts and connection failures).
+   */
+  retryableStatusCodes?: number[]
+  /** Provider error types or codes to retry (matched against `ProviderAPIError.errorType` and `errorCode`). */
+  retryableErrorTypes?: string[]
+}
+
+/**
+ * Client-side limits for requests sent to a provider (or one of its models).
+ * Requests over a limit are queued, in order, until they fit.
+ */
+export interface RateLimit {
+  /** Maximum requests started in any 60-second window. */
+  requestsPerMinute?: number
+  /**
+   * Maximum tokens in any 60-second window. Each request counts its estimated prompt tokens
+   * (about 4 characters per token) plus its `maxTokens`.
+   */
+  tokensPerMinute?: number
+  /** Maximum requests in flight at once. Streams hold their slot until they finish. */
+  maxConcurrent?: number
+}
+
+/**
+ * Rate limits for a provider, optionally refined per model.
+ * A request must satisfy both the provider limits and the limits of its model.
+ */
+export interface ProviderRateLimitConfig extends RateLimit {
+  /** Additional limits keyed by model ID. */
+  models?: Record<string, RateLimit>
+}
+
+/**
+ * Reported to `RosettaAIConfig.onRateLimit` when a rate-limited request is queued and when it starts.
+ */
+export interface RateLimitEvent {
+  /** `'queued'` when the request has to wait, `'acquired'` when it is allowed to proceed. */
+  type: 'queued' | 'acquired'
+  /** The provider the request is for. */
+  provider: ProviderId
+  /** The model the request is for, if known. */
+  model?: string
+  /** Number of requests waiting for this provider after this event. */
+  queueLength: number
+  /** How long the request waited before proceeding, in milliseconds (0 for `'queued'`). */
+  waitMs: number
+}
+
+/**
+ * A named fallback chain that requests can reference with `GenerateParams.fallback`.
+ */
+export interface FallbackPolicy {
+  /** Targets tried, in order, after the request's own provider/model fails. */
+  targets: FallbackTarget[]
+  /**
+   * Decides whether an error should move the request on to the next target.
+   * Defaults to `isRetryableError` (rate limits, overload, server errors, timeouts and connection failures).
+   */
+  shouldFallback?: (error: unknown) => boolean
+}
+
 /**
  * Configuration object for the RosettaAI client.
  * API keys can be provided here or loaded from standard environment variables.
@@ -28,7 +137,7 @@ export interface RosettaAIConfig {
   googleApiKey?: string
   /** API key for Groq. Falls back to `process.env.GROQ_API_KEY`. */
   groqApiKey?: string
-  /** API key for Standard OpenAI. Falls back to `process.env.OPENAI_API_KEY`. Ignored if Azure config is provided and valid. */
+  /** API key for Standard OpenAI. Falls back to `process.env.OPENAI_API_KEY`. */
   openaiApiKey?: string
 
   /** Azure OpenAI API key. Falls back to `process.env.AZURE_OPENAI_API_KEY`. */
@@ -43,22 +152,100 @@ export interface RosettaAIConfig {
   azureOpenAIApiVersion?: string
 
   /** Optional provider-specific configurations applied to all requests for that provider unless overridden per-request. */
-  providerOptions?: Partial<Record<Provider, ProviderOptions>>
+  providerOptions?: Partial<Record<ProviderId, ProviderOptions>>
 
   /** Default chat/completion model ID to use if not specified in request, keyed by provider. E.g., `{ openai: 'gpt-4o-mini' }`. */
-  defaultModels?: Partial<Record<Provider, string>>
+  defaultModels?: Partial<Record<ProviderId, string>>
   /** Default embedding model ID to use if not specified, keyed by provider. E.g., `{ openai: 'text-embedding-3-small' }`. */
-  defaultEmbeddingModels?: Partial<Record<Provider, string>>
+  defaultEmbeddingModels?: Partial<Record<ProviderId, string>>
   /** Default TTS model ID to use if not specified, keyed by provider. E.g., `{ openai: 'tts-1' }`. */
-  defaultTtsModels?: Partial<Record<Provider, string>>
+  defaultTtsModels?: Partial<Record<ProviderId, string>>
   /** Default STT model ID to use if not specified, keyed by provider. E.g., `{ openai: 'whisper-1' }`. */
-  defaultSttModels?: Partial<Record<Provider, string>>
+  defaultSttModels?: Partial<Record<ProviderId, string>>
 
-  /** Default maximum retries for API calls (where supported by underlying SDK). Defaults to 2. */
+  /** Default maximum retries for API calls, used when `retry.maxRetries` is not set. Defaults to 2. */
   defaultMaxRetries?: number
   /** Default request timeout in milliseconds (where supported by underlying SDK). Defaults to 60000 (1 minute). */
   defaultTimeoutMs?: number
 
+  /**
+   * Retry policy applied to every provider call. Overridden per call by the `retry` parameter.
+   * RosettaAI performs all retries itself; the underlying SDKs are configured not to retry.
+   */
+  retry?: RetryPolicy
+
+  /** Client-side rate limits, keyed by provider. Requests over a limit wait in a queue instead of failing. */
+  rateLimits?: Partial<Record<ProviderId, ProviderRateLimitConfig>>
+  /** Observes the rate limiter queues (e.g., for metrics on queue length and wait time). */
+  onRateLimit?: (event: RateLimitEvent) => void
+
   /** Optional configuration for how model lists are retrieved per provider. */
-  modelListingConfig?: Partial<Record<Provider, ModelListingSourceConfig>>
+  modelListingConfig?: Partial<Record<ProviderId, ModelListingSourceConfig>>
+
+  /** Named OpenAI-compatible endpoints (self-hosted or third-party) to register as providers. */
+  openAICompatibleProviders?: OpenAICompatibleProviderConfig[]
+
+  /** Registers the built-in mock provider (as `'mock'` by default), serving scripted responses for tests. */
+  mock?: MockProviderConfig
+
+  /**
+   * Custom providers to register on construction (see `RosettaAI.registerProvider`).
+   * Allows creating a client that only uses custom providers, without any built-in API keys.
+   */
+  providers?: ProviderRegistration[]
+
+  /**
+   * Middleware wrapping every `generate`, `stream`, `embed`, `generateSpeech`, `streamSpeech`,
+   * `transcribe` and `translate` call. The first entry is the outermost.
+   */
+  middleware?: RosettaMiddleware[]
+
+  /**
+   * Response cache for `generate`, `stream` and `embed`, keyed on the effective request parameters.
+   * Streams replay cached results as a synthetic chunk sequence.
+   */
+  cache?: CacheConfig
+
+  /**
+   * Model prices used to compute `cost` on results, merged over the built-in defaults per model.
+   * Azure OpenAI deployments fall back to OpenAI prices for the model name the API reports.
+   */
+  pricing?: PricingTable
+
+  /**
+   * Default context-window fitting for `generate` and `stream`. Overridden per call by `GenerateParams.contextFit`.
+   * Requests are measured with the offline token estimator, so leave some headroom in `reserveTokens`.
+   */
+  contextFit?: ContextFitOptions
+
+  /** Named fallback chains for `generate` and `stream`, referenced by `GenerateParams.fallback`. */
+  fallbackPolicies?: Record<string, FallbackPolicy>
+
+  /**
+   * Receives the SDK's warnings, errors and informational messages, with structured fields
+   * (provider, model, request ID, warning code, ...). Defaults to `console`.
+   */
+  logger?: RosettaLogger
+  /** Minimum level passed to `logger`; `'silent'` disables logging. Defaults to `'info'`. */
+  logLevel?: LogLevel | 'silent'
+  /**
+   * Escalates warnings into `StrictModeError`s thrown from the operation that caused them:
+   * `true` for all warnings, or a list of the warning codes to escalate. Defaults to `false`.
+   */
+  strictWarnings?: boolean | WarningCode[]
+
+  /**
+   * Opens a span per `generate`, `stream`, `embed` and audio call, with OpenTelemetry GenAI attributes
+   * (provider, requested and reported model, token usage, finish reason, time to first token, error type).
+   * Accepts an OpenTelemetry tracer or an `InMemoryTracer`.
+   */
+  tracer?: RosettaTracer
+
+  /**
+   * Records every provider exchange (mapped request and raw response or stream events) to fixture files,
+   * or replays them without contacting any provider, for deterministic offline tests.
+   * In replay mode, the Anthropic, Google, Groq, OpenAI and Azure OpenAI providers are registered even without
+   * API keys (or, for Azure, an endpoint and API version).
+   */
+  recording?: RecordingConfig
 }
@@ -0,0 +1,55 @@
+import { ProviderId } from './common.types'
+
+/**
+ * How `generate` and `stream` shrink `messages` that would not fit the model's context window.
+ * - `drop-oldest`: drops the oldest conversation turns until the request fits.
+ * - `keep-last-n`: keeps only the last `keepLastN` messages, then drops more turns if still needed.
+ * - `summarize`: replaces the oldest turns with a summary written by `summaryModel`.
+ *
+ * System messages are always kept, and a `tool` message is never separated from the assistant
+ * message whose `toolCalls` it answers.
+ */
+export type ContextFitStrategy = 'drop-oldest' | 'keep-last-n' | 'summarize'
+
+/**
+ * Options for automatic context-window fitting.
+ */
+export interface ContextFitOptions {
+  strategy: ContextFitStrategy
+  /** `keep-last-n`: the most recent non-system messages to keep, rounded down to whole turns. Defaults to 10. */
+  keepLastN?: number
+  /** `summarize`: the provider writing the summary. Defaults to the request's provider. */
+  summaryProvider?: ProviderId
+  /**
+   * `summarize`: the (cheaper) model writing the summary. Defaults to the request's model, or to the
+   * default model of `summaryProvider` if that is a different provider.
+   */
+  summaryModel?: string
+  /** `summarize`: the maximum length of the summary, in tokens. Defaults to 512. */
+  summaryMaxTokens?: number
+  /** The model's context window, in tokens. Defaults to the `context_window` reported by `listModels`. */
+  contextWindow?: number
+  /**
+   * Tokens kept free for the completion. Defaults to the request's `maxTokens`, then to the model's
+   * `max_completion_tokens`.
+   */
+  reserveTokens?: number
+}
+
+/**
+ * Reports the context-window fitting applied to a request, set on the result only when messages were changed.
+ */
+export interface ContextFitInfo {
+  /** The strategy that ran. */
+  strategy: ContextFitStrategy
+  /** The number of messages removed (for `summarize`, the number replaced by the summary). */
+  removedMessages: number
+  /** The estimated prompt tokens before fitting. */
+  originalTokens: number
+  /** The estimated prompt tokens after fitting. */
+  fittedTokens: number
+  /** The token budget the messages had to fit in: the context window minus the reserved completion tokens. */
+  budgetTokens: number
+  /** `summarize`: the summary that replaced the older messages. */
+  summary?: string
+}
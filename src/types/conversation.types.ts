@@ -0,0 +1,25 @@
+import { RosettaMessage } from './common.types'
+import { GenerateParams } from './params.types'
+import { TokenUsage } from './result.types'
+
+/**
+ * Request parameters of a conversation turn: everything `generate` takes except the messages,
+ * which come from the conversation history.
+ */
+export type ConversationParams = Partial<Omit<GenerateParams, 'messages'>>
+
+/** Options for creating a `Conversation`. */
+export interface ConversationOptions {
+  /** Defaults for every turn (e.g., `provider`, `model`, `tools`). Per-turn parameters override them. */
+  params?: ConversationParams
+  /** Initial history, such as a system message. */
+  messages?: RosettaMessage[]
+  /** Initial cumulative usage, e.g. when resuming a stored conversation. */
+  usage?: TokenUsage
+}
+
+/** The JSON-serializable state of a `Conversation`, as returned by `Conversation.toJSON`. */
+export interface ConversationSnapshot {
+  messages: RosettaMessage[]
+  usage: TokenUsage
+}
@@ -0,0 +1,68 @@
+import { ProviderId } from './common.types'
+
+/**
+ * Prices for a model, in USD per million tokens.
+ */
+export interface ModelPricing {
+  /** Price per million prompt (input) tokens. */
+  inputPerMTok: number
+  /** Price per million completion (output) tokens. */
+  outputPerMTok: number
+  /** Price per million prompt tokens served from the provider's cache. Defaults to `inputPerMTok`. */
+  cachedInputPerMTok?: number
+  /** Price per million prompt tokens written to the provider's cache (e.g., Anthropic). Defaults to `inputPerMTok`. */
+  cacheWriteInputPerMTok?: number
+}
+
+/**
+ * Model prices keyed by provider, then by model ID. A model ID also prices its snapshots, the IDs that add a
+ * date or version suffix to it (e.g., `'gpt-4o'` prices `'gpt-4o-2024-08-06'`, but not `'gpt-4o-mini'`).
+ */
+export type PricingTable = Partial<Record<ProviderId, Record<string, ModelPricing>>>
+
+/**
+ * The cost of a single call, computed from its token usage and the model's pricing.
+ */
+export interface CostBreakdown {
+  /** Cost of the prompt tokens. */
+  inputCost: number
+  /** Cost of the completion tokens. */
+  outputCost: number
+  /** `inputCost + outputCost`. */
+  totalCost: number
+  /** Currency of the amounts. Built-in prices are in USD. */
+  currency: 'USD'
+}
+
+/**
+ * Accumulated spend for one provider/model/tag combination.
+ */
+export interface CostReportEntry {
+  provider: ProviderId
+  model: string
+  /** The `tag` passed with the calls, if any. */
+  tag?: string
+  /** Number of provider calls recorded. */
+  requests: number
+  /** Calls for which no pricing was found; they are counted with a cost of 0. */
+  unpricedRequests: number
+  promptTokens: number
+  completionTokens: number
+  /** Total cost of the recorded calls. */
+  totalCost: number
+}
+
+/**
+ * Spend recorded by a RosettaAI instance since creation (or the last reset).
+ */
+export interface CostReport {
+  /** Total cost across all entries. */
+  totalCost: number
+  currency: 'USD'
+  /** Total cost per provider. */
+  byProvider: Partial<Record<ProviderId, number>>
+  /** Total cost per tag. Untagged calls are not included. */
+  byTag: Record<string, number>
+  /** One entry per provider/model/tag combination. */
+  entries: CostReportEntry[]
+}
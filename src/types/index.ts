@@ -11,3 +11,15 @@ export * from './params.types'
 export * from './result.types'
 export * from './stream.types'
 export * from './models.types'
+export * from './provider.types'
+export * from './middleware.types'
+export * from './cache.types'
+export * from './cost.types'
+export * from './context.types'
+export * from './logger.types'
+export * from './tracing.types'
+export * from './recording.types'
+export * from './mock.types'
+export * from './conversation.types'
+export * from './tools.types'
+export * from './structured.types'
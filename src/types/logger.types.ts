@@ -0,0 +1,74 @@
+import { ProviderId } from './common.types'
+
+/** Severity of a log entry, from most to least verbose. */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+/**
+ * Identifies a kind of warning, so it can be filtered or escalated with `RosettaAIConfig.strictWarnings`.
+ * - `provider_init_failed`: a provider's client could not be created from the given configuration.
+ * - `cache_unavailable`: the cache store failed; the call went to the provider instead.
+ * - `unknown_context_window`: context fitting was skipped because the model's context window is unknown.
+ * - `empty_content`: a message with empty content was mapped to an empty value or skipped.
+ * - `content_parts_dropped`: content parts the provider cannot take in that position were dropped or stringified.
+ * - `unsupported_tool_choice`: a `toolChoice` the provider cannot express was downgraded or ignored.
+ * - `unsupported_response_format`: a response format the provider may not support was requested or replaced.
+ * - `ignored_parameter`: a parameter the provider does not support was ignored.
+ * - `ignored_schema_parameter`: `responseFormat.schema` is not enforced by the provider, only used to validate the output.
+ * - `unverified_batch_input`: batch input was sent to a provider that may not support it.
+ * - `tool_result_not_json`: a tool result that must be JSON for the provider was wrapped as `{ content }`.
+ * - `unresolved_tool_result`: the function a tool result answers could not be found in the history.
+ * - `content_blocked`: the provider blocked the prompt or the response (e.g., by its safety filters).
+ * - `malformed_response`: the provider response or stream lacked expected data; a best-effort result was used.
+ * - `json_parse_failed`: content that looked like JSON could not be parsed into `parsedContent`.
+ * - `prompt_cache_failed`: a prompt cache breakpoint could not be applied; the prompt was sent uncached.
+ */
+export type WarningCode =
+  | 'provider_init_failed'
+  | 'cache_unavailable'
+  | 'unknown_context_window'
+  | 'empty_content'
+  | 'content_parts_dropped'
+  | 'unsupported_tool_choice'
+  | 'unsupported_response_format'
+  | 'ignored_parameter'
+  | 'ignored_schema_parameter'
+  | 'unverified_batch_input'
+  | 'tool_result_not_json'
+  | 'unresolved_tool_result'
+  | 'content_blocked'
+  | 'malformed_response'
+  | 'json_parse_failed'
+  | 'prompt_cache_failed'
+
+/**
+ * Structured fields attached to a log entry. Entries logged while an operation runs carry its
+ * `requestId`, `operation`, `provider` and `model`.
+ */
+export interface LogFields {
+  /** The warning kind (warnings only). */
+  code?: WarningCode
+  /** ID of the provider request being made; matches `MiddlewareContext.requestId`. */
+  requestId?: string
+  /** The RosettaAI operation being performed (e.g., `'generate'`, `'listModels'`). */
+  operation?: string
+  provider?: ProviderId
+  model?: string
+  /** Where the entry was logged, such as the mapping function (like `MappingError.context`). */
+  context?: string
+  /** The error that caused the entry, if any. */
+  error?: unknown
+  /** Extra data about the entry (e.g., an unexpected stream event). */
+  data?: unknown
+  [field: string]: unknown
+}
+
+/**
+ * Receives RosettaAI's log entries. `console` satisfies this interface; other logging libraries
+ * usually need a thin adapter mapping `fields` to their structured-data argument.
+ */
+export interface RosettaLogger {
+  debug(message: string, fields?: LogFields): void
+  info(message: string, fields?: LogFields): void
+  warn(message: string, fields?: LogFields): void
+  error(message: string, fields?: LogFields): void
+}
@@ -0,0 +1,67 @@
+import { GenerateParams, EmbedParams, SpeechParams, TranscribeParams, TranslateParams } from './params.types'
+import { GenerateResult, EmbedResult, TranscriptionResult } from './result.types'
+import { StreamChunk, AudioStreamChunk } from './stream.types'
+
+/** The RosettaAI operations that run through the middleware chain. */
+export type RosettaOperation =
+  | 'generate'
+  | 'stream'
+  | 'embed'
+  | 'generateSpeech'
+  | 'streamSpeech'
+  | 'transcribe'
+  | 'translate'
+
+/** Unified parameters of any middleware-wrapped operation. Narrow using `context.operation`. */
+export type OperationParams = GenerateParams | EmbedParams | SpeechParams | TranscribeParams | TranslateParams
+
+/** Result of any non-streaming operation (`Buffer` for `generateSpeech`). */
+export type OperationResult = GenerateResult | EmbedResult | TranscriptionResult | Buffer
+
+/** Chunk yielded by any streaming operation. */
+export type OperationChunk = StreamChunk | AudioStreamChunk
+
+/** Per-call information shared by every middleware in the chain. */
+export interface MiddlewareContext {
+  /** The operation being performed. */
+  readonly operation: RosettaOperation
+  /** Unique ID of this call, also attached to the entries it logs (see `RosettaAIConfig.logger`). */
+  readonly requestId: string
+  /** Scratch space for middleware to share data during a single call (e.g., timings, request tags). */
+  readonly state: Record<string, unknown>
+}
+
+/**
+ * Intercepts RosettaAI operations. Middleware configured via `RosettaAIConfig.middleware` run in order,
+ * the first one being the outermost. All hooks are optional.
+ */
+export interface RosettaMiddleware {
+  /** Optional name, useful for debugging. */
+  name?: string
+  /**
+   * Wraps non-streaming operations (`generate`, `embed`, `generateSpeech`, `transcribe`, `translate`).
+   * Receives the unified params (model already resolved) before they are mapped. Call `next` with the
+   * (optionally modified) params to continue, post-process its result, or return a result without
+   * calling `next` to short-circuit.
+   */
+  wrapOperation?(
+    params: OperationParams,
+    context: MiddlewareContext,
+    next: (params: OperationParams) => Promise<OperationResult>
+  ): Promise<OperationResult>
+  /**
+   * Wraps streaming operations (`stream`, `streamSpeech`). Iterate `next(params)` to see, modify or
+   * drop each chunk, or yield chunks without calling `next` to short-circuit.
+   */
+  wrapStream?(
+    params: OperationParams,
+    context: MiddlewareContext,
+    next: (params: OperationParams) => AsyncIterable<OperationChunk>
+  ): AsyncIterable<OperationChunk>
+  /**
+   * Sees the provider-specific payload produced by the mapper, just before it is sent.
+   * Return a replacement payload, or `undefined` to keep it unchanged. Not called for speech operations,
+   * which send the unified params directly.
+   */
+  transformPayload?(payload: any, params: OperationParams, context: MiddlewareContext): any | Promise<any>
+}
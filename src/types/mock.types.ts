@@ -0,0 +1,50 @@
+import { GenerateParams, EmbedParams } from './params.types'
+import { GenerateResult, EmbedResult } from './result.types'
+import { StreamChunk } from './stream.types'
+import { ProviderCapabilities } from './provider.types'
+
+/**
+ * A scripted mock response: the value to respond with, an error to throw (e.g., a `ProviderAPIError`
+ * with status 429, which RosettaAI retries like a real one), or a function computing the response from
+ * the request. Functions may throw, and make it possible to assert on the requests the mock receives.
+ */
+export type MockResponse<TParams, TValue> = TValue | Error | ((params: TParams) => TValue | Promise<TValue>)
+
+/**
+ * A scripted `generate` response. Missing fields are filled in: `content` defaults to null, `model` to the
+ * requested model and `finishReason` to `'tool_calls'` when `toolCalls` are given, `'stop'` otherwise.
+ */
+export type MockGenerateResponse = MockResponse<GenerateParams, Partial<GenerateResult>>
+
+/**
+ * A scripted `stream` response: the exact chunk sequence to stream (errors in the sequence are thrown
+ * at that point, after the preceding chunks), or a `generate` response streamed as the chunks a provider
+ * would send for it.
+ */
+export type MockStreamResponse = MockResponse<GenerateParams, Partial<GenerateResult> | Array<StreamChunk | Error>>
+
+/** A scripted `embed` response: the embedding vectors, or a result whose `model` defaults to the requested model. */
+export type MockEmbedResponse = MockResponse<EmbedParams, number[][] | Partial<EmbedResult>>
+
+/**
+ * Configuration for the built-in mock provider, which serves scripted responses through the same
+ * capability checks, middleware, retries and result handling as real providers.
+ * Each operation consumes its scripted responses in order; a call with none left fails with a `ConfigurationError`.
+ */
+export interface MockProviderConfig {
+  /** Provider ID used in requests. Defaults to `'mock'`. Must not collide with a built-in provider. */
+  name?: string
+  /** Default model for chat and embeddings. Defaults to `'mock-model'`. */
+  defaultModel?: string
+  /** Responses to `generate` calls. */
+  generate?: MockGenerateResponse[]
+  /** Responses to `stream` calls. Without them, `stream` calls consume the `generate` responses. */
+  stream?: MockStreamResponse[]
+  /** Responses to `embed` calls. */
+  embed?: MockEmbedResponse[]
+  /**
+   * Capability overrides, merged over the defaults (chat, streaming, embeddings, batch embeddings,
+   * embedding dimensions, image input, tool use and JSON mode), e.g. to test `UnsupportedFeatureError` handling.
+   */
+  capabilities?: ProviderCapabilities
+}
@@ -1,12 +1,51 @@
-import { Provider, RosettaMessage, RosettaTool, RosettaAudioData } from './common.types'
-import { ProviderOptions } from './config.types'
+import { ProviderId, RosettaMessage, RosettaTool, RosettaAudioData } from './common.types'
+import { ProviderOptions, RetryPolicy } from './config.types'
+import { CacheCallOptions } from './cache.types'
+import { ContextFitOptions } from './context.types'
+
+/** How much a model reasons before answering. */
+export type ReasoningEffort = 'low' | 'medium' | 'high'
+
+/** Reasoning controls (`GenerateParams.reasoning`). */
+export interface ReasoningOptions {
+  /**
+   * How much to reason. Sent as is to OpenAI/Azure and Groq, and as a token budget (1024, 4096 or 16384
+   * tokens) to Anthropic and Google. Defaults to 'medium' when `budgetTokens` is not set either.
+   */
+  effort?: ReasoningEffort
+  /**
+   * Tokens the model may spend on reasoning (Anthropic `budget_tokens`, Gemini `thinkingBudget`), overriding
+   * `effort` there. OpenAI/Azure get the effort whose budget is closest; Groq ignores it. Anthropic counts it
+   * within `maxTokens`, which must be greater.
+   */
+  budgetTokens?: number
+  /**
+   * Whether to return the reasoning text. Defaults to true. Google and Groq then leave it out; Anthropic always
+   * returns it, and OpenAI/Azure never do.
+   */
+  includeReasoning?: boolean
+}
+
+/** Prompt caching options (`GenerateParams.promptCache`). */
+export interface PromptCacheOptions {
+  /**
+   * Google: how long the cached content created for the prompt up to the last cache breakpoint lives, in
+   * seconds. Defaults to 300. Requests with the same prefix reuse it until it expires.
+   */
+  ttlSeconds?: number
+  /**
+   * Google: the name of an existing cached content resource (`cachedContents/...`) to use. It holds the start
+   * of the conversation, with its system instruction and tools, so `messages` and `tools` leave those out.
+   */
+  cachedContentName?: string
+}
 
 /**
  * Parameters for generating chat completions (streaming or non-streaming).
  */
 export interface GenerateParams {
   /** The provider to use for this request (e.g., 'openai', 'anthropic'). */
-  provider: Provider
+  provider: ProviderId
   /** The specific model ID for the chosen provider. Optional if a default is configured. */
   model?: string
   /** An array of messages forming the conversation history and the current prompt. */
@@ -27,8 +66,21 @@ export interface GenerateParams {
   /** Request the model to respond in a specific format (e.g., JSON). Support varies by provider/model. */
   responseFormat?: {
     type: 'text' | 'json_object'
-    /** Optional JSON schema to guide the model's JSON output (currently informational, used in system prompt construction where applicable). */
+    /**
+     * JSON Schema the JSON output must match. Enforced by the provider where possible (OpenAI/Azure `json_schema`
+     * response format, Google `responseSchema`, a forced tool call for Anthropic), and always validated:
+     * `parsedContent` is set to the matching output, and a `StructuredOutputError` is thrown otherwise.
+     */
     schema?: Record<string, unknown>
+    /** Name of the schema, sent to OpenAI/Azure. Defaults to 'response'. */
+    name?: string
+    /** Describes the expected output to the model (OpenAI/Azure schema description, Anthropic tool description). */
+    description?: string
+    /**
+     * Whether OpenAI/Azure enforce the schema exactly (strict mode). Defaults to true; strict mode requires every
+     * property to be listed in `required` and `additionalProperties: false` on every object.
+     */
+    strict?: boolean
   }
 
   /** Request the model to provide citations or grounding for its response. Support varies by provider/model. */
@@ -38,25 +90,77 @@ export interface GenerateParams {
     source?: 'web' | string[]
   }
 
-  /** Request the model to output intermediate thinking steps (Anthropic specific). */
+  /**
+   * Reasoning controls for models that reason before answering: Anthropic extended thinking, OpenAI/Azure
+   * o-series `reasoning_effort`, Gemini thinking budgets and Groq reasoning models. The reasoning text, where
+   * the provider returns it, comes back as `thinkingSteps` and `thinking_delta` chunks.
+   */
+  reasoning?: ReasoningOptions
+
+  /**
+   * Request the model to output intermediate thinking steps.
+   * @deprecated Use `reasoning`; `thinking: true` is equivalent to `reasoning: { budgetTokens: 1024 }`.
+   */
   thinking?: boolean
 
+  /**
+   * Prompt caching options. Mark the end of the prompt prefix to cache with `cacheBreakpoint` on a message or
+   * content part; cache reads and writes are reported in `usage`.
+   */
+  promptCache?: PromptCacheOptions
+
   // Internal flag, not set by user directly on top-level call
   /** @internal */
   stream?: boolean
 
   /** Provider-specific options overriding global config for this call. */
   providerOptions?: ProviderOptions
+  /** Retry policy overriding `RosettaAIConfig.retry` for this call. */
+  retry?: RetryPolicy
+  /** Cancels the call when aborted, including its in-flight HTTP request; the call then fails with a `CancellationError`. */
+  signal?: AbortSignal
+
+  /** Response cache options for this call, or `false` to bypass the cache. Ignored unless `RosettaAIConfig.cache` is set. */
+  cache?: CacheCallOptions | false
+
+  /** Label grouping this call's spend in `RosettaAI.getCostReport()` (e.g., the internal team to bill). */
+  tag?: string
+
+  /**
+   * Targets to try, in order, when the request's own provider/model fails with a retryable error
+   * (rate limit, overload, server error, timeout). Either an explicit list or the name of a policy
+   * configured in `RosettaAIConfig.fallbackPolicies`. The target that served the request is reported in
+   * `GenerateResult.fallback`. Streams only fall back before any output has been emitted.
+   */
+  fallback?: FallbackTarget[] | string
+
+  /**
+   * Trims or summarizes `messages` when they would exceed the model's context window, overriding
+   * `RosettaAIConfig.contextFit`. Pass `false` to disable fitting for this call.
+   */
+  contextFit?: ContextFitOptions | false
 
   // Add other common parameters like 'presence_penalty', 'frequency_penalty' if needed
 }
 
+/**
+ * A provider/model pair that a `generate` or `stream` request can fall back to.
+ */
+export interface FallbackTarget {
+  /** The provider to send the request to. */
+  provider: ProviderId
+  /** The model to use. Optional if a default is configured for the provider. */
+  model?: string
+  /** Provider-specific options for this target. Defaults to the request's `providerOptions`. */
+  providerOptions?: ProviderOptions
+}
+
 /**
  * Parameters for generating embeddings.
  */
 export interface EmbedParams {
   /** The provider to use for this request. */
-  provider: Provider
+  provider: ProviderId
   /** The specific embedding model ID. Optional if a default is configured. */
   model?: string
   /** The input text(s) to embed. Can be a single string or an array for batching (if supported). */
@@ -67,6 +171,16 @@ export interface EmbedParams {
   dimensions?: number
   /** Provider-specific options overriding global config for this call. */
   providerOptions?: ProviderOptions
+  /** Retry policy overriding `RosettaAIConfig.retry` for this call. */
+  retry?: RetryPolicy
+  /** Cancels the call when aborted, including its in-flight HTTP request; the call then fails with a `CancellationError`. */
+  signal?: AbortSignal
+
+  /** Response cache options for this call, or `false` to bypass the cache. Ignored unless `RosettaAIConfig.cache` is set. */
+  cache?: CacheCallOptions | false
+
+  /** Label grouping this call's spend in `RosettaAI.getCostReport()` (e.g., the internal team to bill). */
+  tag?: string
 }
 
 /**
@@ -74,7 +188,7 @@ export interface EmbedParams {
  */
 export interface SpeechParams {
   /** The provider to use for this request (currently primarily OpenAI). */
-  provider: Provider.OpenAI // Restrict for now as it's the main provider with this
+  provider: ProviderId
   /** The specific TTS model ID. Optional if a default is configured (e.g., 'tts-1'). */
   model?: string
   /** The text to synthesize into speech. */
@@ -87,6 +201,10 @@ export interface SpeechParams {
   speed?: number
   /** Provider-specific options overriding global config for this call. */
   providerOptions?: ProviderOptions
+  /** Retry policy overriding `RosettaAIConfig.retry` for this call. */
+  retry?: RetryPolicy
+  /** Cancels the call when aborted, including its in-flight HTTP request; the call then fails with a `CancellationError`. */
+  signal?: AbortSignal
 }
 
 /**
@@ -94,7 +212,7 @@ export interface SpeechParams {
  */
 interface BaseAudioParams {
   /** The provider to use for this request (e.g., OpenAI, Groq). */
-  provider: Provider
+  provider: ProviderId
   /** The specific STT/translation model ID. Optional if a default is configured (e.g., 'whisper-1'). */
   model?: string
   /** The audio data to process. */
@@ -109,6 +227,10 @@ interface BaseAudioParams {
   timestampGranularities?: ('word' | 'segment')[]
   /** Provider-specific options overriding global config for this call. */
   providerOptions?: ProviderOptions
+  /** Retry policy overriding `RosettaAIConfig.retry` for this call. */
+  retry?: RetryPolicy
+  /** Cancels the call when aborted, including its in-flight HTTP request; the call then fails with a `CancellationError`. */
+  signal?: AbortSignal
 }
 
 /**
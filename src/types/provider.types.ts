@@ -0,0 +1,90 @@
+import { ProviderId } from './common.types'
+import { GenerateParams, EmbedParams, SpeechParams, TranscribeParams, TranslateParams } from './params.types'
+import { ModelListingSourceConfig, RosettaModelList } from './models.types'
+import { IProviderMapper } from '../core/mapping/base.mapper'
+
+/**
+ * Declares which operations and features a provider supports.
+ * RosettaAI uses this declaration to reject unsupported requests with an `UnsupportedFeatureError`
+ * before anything is mapped or sent. Omitted flags are treated as `false`.
+ */
+export interface ProviderCapabilities {
+  /** Non-streaming chat/completion generation (`generate`). Requires `transport.generate`. */
+  chat?: boolean
+  /** Streaming chat/completion generation (`stream`). Requires `transport.stream`. */
+  streaming?: boolean
+  /** Embedding generation (`embed`). Requires `transport.embed`. */
+  embeddings?: boolean
+  /** Audio transcription (`transcribe`). Requires `transport.transcribe`. */
+  transcription?: boolean
+  /** Audio translation to English (`translate`). Requires `transport.translate`. */
+  translation?: boolean
+  /** Text-to-speech (`generateSpeech`, `streamSpeech`). Requires `transport.speech`. */
+  textToSpeech?: boolean
+
+  /** Image content parts in messages. */
+  imageInput?: boolean
+  /** Tool/function calling. */
+  toolUse?: boolean
+  /** Native JSON response format. When false, JSON mode only triggers a warning. */
+  jsonMode?: boolean
+  /** Schema-enforced JSON output (`responseFormat.schema`). When false, the schema is only used to validate the output. */
+  structuredOutput?: boolean
+  /** Grounding/citations (`GenerateParams.grounding`). */
+  grounding?: boolean
+  /** Reasoning controls (`GenerateParams.reasoning` and `thinking`). */
+  thinking?: boolean
+  /** Multiple inputs in a single embedding request. */
+  batchEmbeddings?: boolean
+  /** The `dimensions` embedding parameter. */
+  embeddingDimensions?: boolean
+  /** The `timestampGranularities` audio parameter. */
+  timestampGranularities?: boolean
+}
+
+/**
+ * Sends mapped payloads to a provider and returns the raw provider responses.
+ * Each method receives the payload produced by the provider's mapper together with the
+ * effective RosettaAI parameters (model already resolved) for any extra context it needs,
+ * such as the `signal` to pass on to the underlying HTTP request.
+ * Only the methods matching the declared capabilities need to be implemented.
+ */
+export interface ProviderTransport {
+  /** Sends a chat payload and resolves with the raw, non-streaming provider response. */
+  generate?(payload: any, params: GenerateParams): Promise<any>
+  /** Sends a chat payload and resolves with the raw provider stream. */
+  stream?(payload: any, params: GenerateParams): Promise<AsyncIterable<any>>
+  /** Sends an embedding payload and resolves with the raw provider response. */
+  embed?(payload: any, params: EmbedParams): Promise<any>
+  /** Sends a transcription payload and resolves with the raw provider response. */
+  transcribe?(payload: any, params: TranscribeParams): Promise<any>
+  /** Sends a translation payload and resolves with the raw provider response. */
+  translate?(payload: any, params: TranslateParams): Promise<any>
+  /**
+   * Synthesizes speech. Resolves with a fetch-style response exposing `arrayBuffer()`
+   * and an async-iterable `body` of `Uint8Array` chunks.
+   */
+  speech?(params: SpeechParams): Promise<any>
+  /**
+   * Counts the prompt tokens of a chat payload with the provider's native endpoint.
+   * Without it, `RosettaAI.countTokens` falls back to an offline estimate.
+   */
+  countTokens?(payload: any, params: GenerateParams): Promise<number>
+  /** Lists the models available from the provider. */
+  listModels?(sourceConfig?: ModelListingSourceConfig, signal?: AbortSignal): Promise<RosettaModelList>
+}
+
+/**
+ * Everything RosettaAI needs to route requests to a provider.
+ * Built-in providers are registered this way too, so custom providers use the exact same dispatch path.
+ */
+export interface ProviderRegistration {
+  /** The provider ID requests will use (e.g., `'my-llm'`). */
+  provider: ProviderId
+  /** Translates between RosettaAI types and the provider's wire format. */
+  mapper: IProviderMapper
+  /** Sends mapped payloads to the provider. */
+  transport: ProviderTransport
+  /** The operations and features the provider supports. */
+  capabilities: ProviderCapabilities
+}
@@ -0,0 +1,45 @@
+import { ProviderId } from './common.types'
+
+/**
+ * - `record`: calls the providers and writes every exchange to a fixture file.
+ * - `replay`: serves every call from the fixture files and never contacts a provider.
+ */
+export type RecordingMode = 'record' | 'replay'
+
+/**
+ * Configuration for recording provider exchanges to fixture files and replaying them, so tests run
+ * the real mappers end to end without network access or API keys.
+ */
+export interface RecordingConfig {
+  mode: RecordingMode
+  /** Directory holding the fixture files, one subdirectory per provider. Created on first write. */
+  directory: string
+}
+
+/** The provider transport calls that are recorded. */
+export type RecordedOperation =
+  | 'generate'
+  | 'stream'
+  | 'embed'
+  | 'transcribe'
+  | 'translate'
+  | 'speech'
+  | 'countTokens'
+  | 'listModels'
+
+/**
+ * A recorded provider exchange, as stored in a fixture file.
+ * Binary request data is stored as a SHA-256 digest, audio files by name, size and type.
+ */
+export interface RecordedExchange {
+  provider: ProviderId
+  operation: RecordedOperation
+  /** The resolved model of the request, if any. */
+  model?: string
+  /** The mapped provider request (the payload sent by the transport). */
+  request: unknown
+  /** The raw provider response (non-streaming operations). */
+  response?: unknown
+  /** The raw provider stream events (`stream`), or the base64 audio chunks (`speech`), in order. */
+  chunks?: unknown[]
+}
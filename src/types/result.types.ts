@@ -1,4 +1,6 @@
-import { RosettaToolCallRequest, Citation } from './common.types'
+import { RosettaToolCallRequest, RosettaReasoningBlock, Citation, ProviderId } from './common.types'
+import { CostBreakdown } from './cost.types'
+import { ContextFitInfo } from './context.types'
 
 /**
  * Represents token usage statistics for an API call.
@@ -8,8 +10,29 @@ export interface TokenUsage {
   promptTokens?: number
   completionTokens?: number
   totalTokens?: number
-  /** Tokens related to cached content (Google specific). */
+  /**
+   * Tokens related to cached content (Google specific).
+   * @deprecated Use `cacheReadTokens`, which every provider reports.
+   */
   cachedContentTokenCount?: number
+  /** Prompt tokens read from the provider's prompt cache, included in `promptTokens`. */
+  cacheReadTokens?: number
+  /** Prompt tokens written to the provider's prompt cache, included in `promptTokens` (Anthropic). */
+  cacheWriteTokens?: number
+  /** Tokens spent on reasoning, included in `completionTokens` (OpenAI/Azure, Google, Groq). */
+  reasoningTokens?: number
+}
+
+/**
+ * The result of `RosettaAI.countTokens`: the prompt tokens a request would consume.
+ * `completionTokens` is always 0 and `totalTokens` equals `promptTokens`.
+ */
+export interface TokenCountResult extends TokenUsage {
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  /** False when the provider counted the tokens, true for the offline estimate. */
+  estimated: boolean
 }
 
 /**
@@ -24,16 +47,52 @@ export interface GenerateResult {
   finishReason: string | null
   /** Token usage statistics, if provided by the API. */
   usage?: TokenUsage
+  /** Cost of the call, if usage was reported and pricing is known for the model. */
+  cost?: CostBreakdown
   /** Citations or grounding information, if provided by the API (e.g., Google grounding). */
   citations?: Citation[]
-  /** Intermediate thinking steps, if requested and provided (Anthropic specific). */
+  /** The model's reasoning text, if requested with `reasoning` and returned by the provider. */
   thinkingSteps?: string | null
+  /** The reasoning blocks of the reply, to send back as `RosettaMessage.reasoningBlocks` (as `Conversation` does). */
+  reasoningBlocks?: RosettaReasoningBlock[]
   /** The parsed JSON object if `responseFormat: { type: 'json_object' }` was requested and parsing succeeded. Null otherwise. */
   parsedContent?: Record<string, unknown> | Array<unknown> | null
   /** The exact model ID string used for the completion, as reported by the provider. */
   model: string
   /** The raw response object from the underlying SDK (use with caution, structure varies). */
   rawResponse?: unknown
+  /** Which target served the request, set only when the request used a fallback chain. */
+  fallback?: FallbackInfo
+  /** Whether the result was served from the response cache. Set only when a cache is configured. */
+  cached?: boolean
+  /** How `messages` were fitted into the context window, set only when fitting changed them. */
+  contextFit?: ContextFitInfo
+}
+
+/**
+ * A fallback target that failed before the request was served.
+ */
+export interface FallbackAttempt {
+  /** The provider that was tried. */
+  provider: ProviderId
+  /** The model that was requested, if one was resolved. */
+  model?: string
+  /** The error that caused RosettaAI to move on to the next target. */
+  error: Error
+}
+
+/**
+ * Reports the outcome of a request that used a fallback chain.
+ */
+export interface FallbackInfo {
+  /** The provider that served the request. */
+  provider: ProviderId
+  /** The model requested from the serving provider. */
+  model: string
+  /** Position of the serving target in the chain (0 is the request's own provider/model). */
+  targetIndex: number
+  /** The targets that failed before this one, in the order they were tried. */
+  failedAttempts: FallbackAttempt[]
 }
 
 /**
@@ -44,10 +103,14 @@ export interface EmbedResult {
   embeddings: number[][]
   /** Token usage statistics for the embedding operation, if provided. */
   usage?: TokenUsage
+  /** Cost of the call, if usage was reported and pricing is known for the model. */
+  cost?: CostBreakdown
   /** The exact model ID string used for the embedding (or deployment ID for Azure). */
   model: string
   /** The raw response object from the underlying SDK. */
   rawResponse?: unknown
+  /** Whether the result was served from the response cache. Set only when a cache is configured. */
+  cached?: boolean
 }
 
 /**
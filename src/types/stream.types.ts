@@ -1,6 +1,7 @@
 import { TokenUsage, GenerateResult } from './result.types'
 import { Citation } from './common.types'
-import { Provider } from './common.types'
+import { ProviderId } from './common.types'
+import { CostBreakdown } from './cost.types'
 
 /**
  * Discriminated union representing the different types of events
@@ -9,11 +10,11 @@ import { Provider } from './common.types'
 export type StreamChunk =
   // --- Lifecycle & Metadata ---
   /** Signals the start of the stream, providing initial metadata like provider and model ID. */
-  | { type: 'message_start'; data: { provider: Provider; model: string } }
+  | { type: 'message_start'; data: { provider: ProviderId; model: string } }
   /** Signals the end of the message generation, indicating the reason for stopping. */
   | { type: 'message_stop'; data: { finishReason: string | null } }
-  /** Contains the final token usage statistics for the entire operation, usually sent at the very end. */
-  | { type: 'final_usage'; data: { usage: TokenUsage } }
+  /** Contains the final token usage statistics (and cost, if pricing is known) for the entire operation, usually sent at the very end. */
+  | { type: 'final_usage'; data: { usage: TokenUsage; cost?: CostBreakdown } }
   /** Contains the fully aggregated `GenerateResult` object, often sent as the last event. */
   | { type: 'final_result'; data: { result: GenerateResult } }
   /** Indicates an error occurred either during stream setup or processing. */
@@ -22,11 +23,11 @@ export type StreamChunk =
   // --- Content & Thinking ---
   /** A chunk of the primary text content being generated. */
   | { type: 'content_delta'; data: { delta: string } }
-  /** Anthropic: Signals that the model has started its internal "thinking" process (if requested). */
+  /** Signals that the model has started reasoning (if requested with `reasoning` and returned by the provider). */
   | { type: 'thinking_start' }
-  /** Anthropic: A chunk of the model's internal "thinking" text (if requested). */
+  /** A chunk of the model's reasoning text. */
   | { type: 'thinking_delta'; data: { delta: string } }
-  /** Anthropic: Signals that the model has finished its internal "thinking" process. */
+  /** Signals that the model has finished reasoning. */
   | { type: 'thinking_stop' }
 
   // --- Tool Calls ---
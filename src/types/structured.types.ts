@@ -0,0 +1,63 @@
+import { z } from 'zod'
+import { StructuredOutputError } from '../errors'
+import { GenerateParams } from './params.types'
+import { GenerateResult, TokenUsage } from './result.types'
+import { StreamChunk } from './stream.types'
+
+/** A problem found when validating a value against a schema. */
+export interface ValidationIssue {
+  /** The path of the offending value; empty for problems with the value as a whole (e.g., invalid JSON). */
+  path: Array<string | number>
+  message: string
+}
+
+/** Parameters of `RosettaAI.generateObject` and `streamObject`: a `generate` request for an object of a Zod schema. */
+export interface GenerateObjectParams<T> extends Omit<GenerateParams, 'responseFormat'> {
+  /** The schema of the object. Converted to `responseFormat.schema`, and used to validate the output. */
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+  /** Name of the schema (`responseFormat.name`). */
+  schemaName?: string
+  /** Describes the expected object to the model (`responseFormat.description`). */
+  schemaDescription?: string
+  /**
+   * Whether OpenAI/Azure enforce the schema exactly (`responseFormat.strict`). Defaults to true, or to false for
+   * schemas with `.optional()` properties, which strict mode rejects (use `.nullable()` to keep it).
+   */
+  strict?: boolean
+  /**
+   * How many times the model is asked to correct output that does not match the schema, given the problems
+   * found, before a `StructuredOutputError` is thrown. Defaults to 0.
+   */
+  maxRepairs?: number
+}
+
+/** The result of `RosettaAI.generateObject`: the response of the call whose output matched the schema. */
+export interface GenerateObjectResult<T> extends GenerateResult {
+  /** The output, parsed with the schema. */
+  object: T
+  /** The number of repair requests made. */
+  repairs: number
+  /** Token usage summed across the first call and the repair requests. */
+  totalUsage: TokenUsage
+}
+
+/** A value under construction: objects and arrays at any depth may be missing properties and items. */
+export type DeepPartial<T> = T extends Array<infer TItem>
+  ? Array<DeepPartial<TItem>>
+  : T extends object
+  ? { [K in keyof T]?: DeepPartial<T[K]> }
+  : T
+
+/**
+ * Events yielded by `RosettaAI.streamObject`: the chunks of each model call (except the `final_result` and
+ * `error` of rejected output), the object as it is received, and the result once the output matched the schema.
+ * A failed call or rejected output without repairs left ends the stream with an `error` chunk.
+ */
+export type ObjectStreamChunk<T> =
+  | StreamChunk
+  /** The object received so far, unvalidated; emitted whenever it grows. Starts over after a repair request. */
+  | { type: 'partial_object'; data: { object: DeepPartial<T>; snapshot: string } }
+  /** The output did not match the schema, and the model is asked to correct it. `attempt` is 1-based. */
+  | { type: 'object_repair'; data: { attempt: number; error: StructuredOutputError } }
+  /** The output matched the schema. */
+  | { type: 'object_done'; data: { result: GenerateObjectResult<T> } }
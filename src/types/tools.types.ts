@@ -0,0 +1,102 @@
+import { z } from 'zod'
+import { ToolArgumentsError } from '../errors'
+import { RosettaMessage, RosettaTool, RosettaToolCallRequest, RosettaToolResult } from './common.types'
+import { GenerateParams } from './params.types'
+import { GenerateResult, TokenUsage } from './result.types'
+import { StreamChunk } from './stream.types'
+
+/** What a tool handler receives besides the parsed arguments. */
+export interface ToolHandlerContext {
+  /** The tool call being executed. */
+  toolCall: RosettaToolCallRequest
+  /** The step of the loop (1-based) whose reply requested the call. */
+  step: number
+  /** The `signal` of the loop, to cancel long-running tools along with it. */
+  signal?: AbortSignal
+}
+
+/**
+ * Executes a tool call. Strings are sent back to the model as is, other return values as JSON.
+ * Thrown errors are sent back as a failed tool result (`isError`), so the model can react to them.
+ */
+export type ToolHandler<TArgs = any> = (args: TArgs, context: ToolHandlerContext) => unknown | Promise<unknown>
+
+/** A tool the model may call, with the handler executing its calls. */
+export interface ToolRegistration {
+  /** The definition sent to the model. */
+  tool: RosettaTool
+  handler: ToolHandler
+}
+
+/** The definition of a tool whose parameters are described by a Zod schema, passed to `defineTool`. */
+export interface ToolDefinition<TSchema extends z.ZodTypeAny> {
+  name: string
+  description?: string
+  /** The schema of the arguments. Converted to the tool's JSON Schema `parameters`, and used to validate calls. */
+  schema: TSchema
+  /** Executes calls with validated arguments, when the tool is passed to `runTools` or `streamTools`. */
+  handler?: ToolHandler<z.output<TSchema>>
+}
+
+/** The result of `TypedTool.safeParseArguments`. */
+export type ToolArgumentsParseResult<TArgs> =
+  | { success: true; data: TArgs }
+  | { success: false; error: ToolArgumentsError }
+
+/**
+ * A tool created by `defineTool`. It can be used wherever a `RosettaTool` is expected; its other members
+ * are not enumerable, so they are not sent to providers.
+ */
+export interface TypedTool<TArgs = unknown> extends RosettaTool {
+  readonly schema: z.ZodType<TArgs, z.ZodTypeDef, unknown>
+  readonly handler?: ToolHandler<TArgs>
+  /**
+   * Parses and validates the arguments of a call to this tool.
+   * @throws {ToolArgumentsError} If the arguments are not valid JSON or do not match the schema.
+   */
+  parseArguments(toolCall: RosettaToolCallRequest): TArgs
+  /** Like `parseArguments`, but returns the error instead of throwing it. */
+  safeParseArguments(toolCall: RosettaToolCallRequest): ToolArgumentsParseResult<TArgs>
+}
+
+/**
+ * Parameters for `RosettaAI.runTools` and `RosettaAI.streamTools`: a `generate` request whose tools
+ * come with handlers.
+ */
+export interface RunToolsParams extends Omit<GenerateParams, 'tools'> {
+  /** Tools with their handlers; typed tools (see `defineTool`) must have a `handler`. */
+  tools: Array<ToolRegistration | TypedTool<any>>
+  /** Maximum number of model calls. Defaults to 10. */
+  maxSteps?: number
+}
+
+/** A model call of a tool loop and the results of the tool calls it requested. */
+export interface ToolLoopStep {
+  result: GenerateResult
+  /** The results sent back to the model, in the order of `result.toolCalls`. Empty for the final answer. */
+  toolResults: RosettaToolResult[]
+}
+
+/** The final answer of a tool loop (the last model reply), with the steps that led to it. */
+export interface RunToolsResult extends GenerateResult {
+  steps: ToolLoopStep[]
+  /** The whole conversation: the request messages, every reply and every tool result. */
+  messages: RosettaMessage[]
+  /** Token usage summed across all model calls. */
+  totalUsage: TokenUsage
+  /** True if the loop stopped at `maxSteps` with tool calls left unanswered. */
+  maxStepsReached: boolean
+}
+
+/**
+ * Events yielded by `RosettaAI.streamTools`: the chunks of each model call, tool execution events,
+ * and the loop's result once it stops. A failed model call ends the loop after its `error` chunk.
+ */
+export type ToolLoopChunk =
+  | StreamChunk
+  /** A requested tool is about to be executed. */
+  | { type: 'tool_execution_start'; data: { step: number; toolCall: RosettaToolCallRequest } }
+  /** A tool was executed; `result.isError` is set if its handler failed. */
+  | { type: 'tool_execution_done'; data: { step: number; toolCall: RosettaToolCallRequest; result: RosettaToolResult } }
+  /** The loop stopped with a final answer or at `maxSteps`. */
+  | { type: 'tool_loop_done'; data: { result: RunToolsResult } }
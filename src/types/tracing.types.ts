@@ -0,0 +1,41 @@
+/** A span attribute value (the OpenTelemetry primitive and array types). */
+export type SpanAttributeValue = string | number | boolean | string[] | number[]
+
+/** Span attributes, keyed by attribute name (e.g., `'gen_ai.request.model'`). */
+export type SpanAttributes = Record<string, SpanAttributeValue>
+
+/** Span status codes, with the values of OpenTelemetry's `SpanStatusCode`. */
+export enum SpanStatusCode {
+  UNSET = 0,
+  OK = 1,
+  ERROR = 2
+}
+
+/** Options for starting a span. */
+export interface SpanOptions {
+  /** An OpenTelemetry `SpanKind` value. RosettaAI starts `CLIENT` (2) spans. */
+  kind?: number
+  attributes?: SpanAttributes
+}
+
+/**
+ * A span, as created by `RosettaTracer.startSpan`. A subset of OpenTelemetry's `Span` interface,
+ * so OpenTelemetry spans can be used directly.
+ */
+export interface RosettaSpan {
+  setAttribute(key: string, value: SpanAttributeValue): unknown
+  addEvent(name: string, attributes?: SpanAttributes): unknown
+  recordException(exception: Error): unknown
+  /** Sets the span status; `code` is a `SpanStatusCode`. */
+  setStatus(status: { code: number; message?: string }): unknown
+  end(): void
+}
+
+/**
+ * Creates spans for RosettaAI operations. A subset of OpenTelemetry's `Tracer` interface, so the
+ * tracer returned by `trace.getTracer(...)` from `@opentelemetry/api` can be passed as is.
+ * See `InMemoryTracer` for a tracer that keeps spans in memory (e.g., for tests).
+ */
+export interface RosettaTracer {
+  startSpan(name: string, options?: SpanOptions): RosettaSpan
+}
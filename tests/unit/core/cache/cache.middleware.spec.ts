@@ -0,0 +1,209 @@
+import {
+  RosettaAI,
+  ProviderRegistration,
+  MemoryCacheStore,
+  CacheStore,
+  GenerateParams,
+  GenerateResult,
+  StreamChunk
+} from '../../../../src'
+import { createCacheKey, replayCachedResult } from '../../../../src/core/cache/cache.middleware'
+
+const generateResult: GenerateResult = {
+  content: 'Hello',
+  finishReason: 'stop',
+  usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 },
+  model: 'test-model',
+  rawResponse: { id: 'raw' }
+}
+
+// Minimal custom provider so the cache runs through the real RosettaAI pipeline
+function createTestProvider(): ProviderRegistration {
+  return {
+    provider: 'test',
+    mapper: {
+      provider: 'test',
+      mapToProviderParams: jest.fn(() => ({})),
+      mapFromProviderResponse: jest.fn(() => generateResult),
+      mapProviderStream: jest.fn(async function*(): AsyncIterable<StreamChunk> {
+        yield { type: 'message_start', data: { provider: 'test', model: 'test-model' } }
+        yield { type: 'content_delta', data: { delta: 'Hel' } }
+        yield { type: 'content_delta', data: { delta: 'lo' } }
+        yield { type: 'final_result', data: { result: generateResult } }
+      }),
+      mapToEmbedParams: jest.fn(() => ({})),
+      mapFromEmbedResponse: jest.fn(() => ({ embeddings: [[0.1, 0.2]], model: 'embed-model' })),
+      wrapProviderError: jest.fn(error => error)
+    } as any,
+    transport: {
+      generate: jest.fn().mockResolvedValue({}),
+      stream: jest.fn(async () =>
+        (async function*() {
+          yield 'raw'
+        })()
+      ),
+      embed: jest.fn().mockResolvedValue({})
+    },
+    capabilities: { chat: true, streaming: true, embeddings: true }
+  }
+}
+
+const baseParams: GenerateParams = {
+  provider: 'test',
+  model: 'test-model',
+  messages: [{ role: 'user', content: 'Hi' }],
+  temperature: 0.2
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const chunks: T[] = []
+  for await (const chunk of iterable) chunks.push(chunk)
+  return chunks
+}
+
+describe('createCacheKey', () => {
+  it('should ignore key order, undefined values and call-control parameters', () => {
+    const key = createCacheKey('generate', baseParams)
+
+    expect(
+      createCacheKey('generate', {
+        temperature: 0.2,
+        messages: [{ content: 'Hi', role: 'user' }],
+        model: 'test-model',
+        provider: 'test',
+        topP: undefined,
+        retry: { maxRetries: 0 },
+        cache: { ttlMs: 5 }
+      })
+    ).toBe(key)
+  })
+
+  it('should differ by operation kind and by request content', () => {
+    const key = createCacheKey('generate', baseParams)
+
+    expect(createCacheKey('embed', baseParams)).not.toBe(key)
+    expect(createCacheKey('generate', { ...baseParams, temperature: 0.3 })).not.toBe(key)
+    expect(createCacheKey('generate', { ...baseParams, model: 'other' })).not.toBe(key)
+  })
+})
+
+describe('replayCachedResult', () => {
+  it('should replay content, tool calls and usage as stream chunks', () => {
+    const chunks = replayCachedResult(
+      {
+        ...generateResult,
+        toolCalls: [{ id: 'call_1', type: 'function', function: { name: 'lookup', arguments: '{"q":1}' } }],
+        finishReason: 'tool_calls'
+      },
+      baseParams
+    )
+
+    expect(chunks.map(c => c.type)).toEqual([
+      'message_start',
+      'content_delta',
+      'tool_call_start',
+      'tool_call_delta',
+      'tool_call_done',
+      'message_stop',
+      'final_usage',
+      'final_result'
+    ])
+    expect(chunks[3]).toEqual({
+      type: 'tool_call_delta',
+      data: { index: 0, id: 'call_1', functionArgumentChunk: '{"q":1}' }
+    })
+  })
+
+  it('should replay JSON content as json chunks when JSON mode was requested', () => {
+    const chunks = replayCachedResult(
+      { ...generateResult, content: '{"a":1}', parsedContent: { a: 1 } },
+      { ...baseParams, responseFormat: { type: 'json_object' } }
+    )
+
+    expect(chunks.map(c => c.type)).toContain('json_done')
+    expect(chunks.map(c => c.type)).not.toContain('content_delta')
+  })
+})
+
+describe('RosettaAI response cache', () => {
+  it('should serve repeated generate calls from the cache', async () => {
+    const provider = createTestProvider()
+    const store = new MemoryCacheStore()
+    const client = new RosettaAI({ providers: [provider], cache: { store } })
+
+    const first = await client.generate(baseParams)
+    const second = await client.generate({ ...baseParams })
+
+    expect(first.cached).toBe(false)
+    expect(second).toMatchObject({ content: 'Hello', cached: true })
+    expect(second.rawResponse).toBeUndefined()
+    expect(provider.transport.generate).toHaveBeenCalledTimes(1)
+  })
+
+  it('should cache embeddings and pass the configured TTL to the store', async () => {
+    const provider = createTestProvider()
+    const store = new MemoryCacheStore()
+    const setSpy = jest.spyOn(store, 'set')
+    const client = new RosettaAI({ providers: [provider], cache: { store, ttlMs: 60000 } })
+    const params = { provider: 'test', model: 'embed-model', input: 'doc' }
+
+    await client.embed(params)
+    const second = await client.embed(params)
+
+    expect(second).toMatchObject({ embeddings: [[0.1, 0.2]], cached: true })
+    expect(provider.transport.embed).toHaveBeenCalledTimes(1)
+    expect(setSpy).toHaveBeenCalledWith(expect.any(String), expect.anything(), 60000)
+  })
+
+  it('should bypass the cache per call and refresh entries on request', async () => {
+    const provider = createTestProvider()
+    const client = new RosettaAI({ providers: [provider], cache: { store: new MemoryCacheStore() } })
+
+    await client.generate(baseParams)
+    const bypassed = await client.generate({ ...baseParams, cache: false })
+    const refreshed = await client.generate({ ...baseParams, cache: { refresh: true } })
+
+    expect(bypassed.cached).toBeUndefined()
+    expect(refreshed.cached).toBe(false)
+    expect(provider.transport.generate).toHaveBeenCalledTimes(3)
+  })
+
+  it('should cache streamed results and replay them as a synthetic stream', async () => {
+    const provider = createTestProvider()
+    const client = new RosettaAI({ providers: [provider], cache: { store: new MemoryCacheStore() } })
+
+    const live = await collect(client.stream(baseParams))
+    const replayed = await collect(client.stream(baseParams))
+
+    expect(provider.transport.stream).toHaveBeenCalledTimes(1)
+    expect(live.map(c => c.type)).toEqual(['message_start', 'content_delta', 'content_delta', 'final_result'])
+    expect(replayed.map(c => c.type)).toEqual([
+      'message_start',
+      'content_delta',
+      'message_stop',
+      'final_usage',
+      'final_result'
+    ])
+    const final = replayed[4] as Extract<StreamChunk, { type: 'final_result' }>
+    expect(final.data.result).toMatchObject({ content: 'Hello', cached: true })
+
+    // A generate call with the same parameters is served by the streamed entry
+    await expect(client.generate(baseParams)).resolves.toMatchObject({ cached: true })
+    expect(provider.transport.generate).not.toHaveBeenCalled()
+  })
+
+  it('should call the provider when the store fails', async () => {
+    const provider = createTestProvider()
+    const brokenStore: CacheStore = {
+      get: jest.fn().mockRejectedValue(new Error('disk full')),
+      set: jest.fn().mockRejectedValue(new Error('disk full')),
+      delete: jest.fn()
+    }
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+    const client = new RosettaAI({ providers: [provider], cache: { store: brokenStore } })
+
+    await expect(client.generate(baseParams)).resolves.toMatchObject({ content: 'Hello', cached: false })
+    expect(warnSpy).toHaveBeenCalledTimes(2)
+    warnSpy.mockRestore()
+  })
+})
@@ -0,0 +1,48 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { FileCacheStore } from '../../../../src'
+
+describe('FileCacheStore', () => {
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'rosetta-cache-'))
+  })
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true })
+  })
+
+  it('should persist values across store instances', async () => {
+    await new FileCacheStore(directory).set('key', { embeddings: [[1, 2]] })
+
+    expect(await new FileCacheStore(directory).get('key')).toEqual({ embeddings: [[1, 2]] })
+    expect(await fs.readdir(directory)).toEqual(['key.json'])
+  })
+
+  it('should create the directory on first write', async () => {
+    const store = new FileCacheStore(path.join(directory, 'nested'))
+    await store.set('key', 1)
+
+    expect(await store.get('key')).toBe(1)
+  })
+
+  it('should treat missing and expired entries as misses', async () => {
+    const store = new FileCacheStore(directory)
+    expect(await store.get('missing')).toBeUndefined()
+
+    await store.set('old', 1, -1)
+    expect(await store.get('old')).toBeUndefined()
+    expect(await fs.readdir(directory)).toEqual([]) // Expired entry removed
+  })
+
+  it('should delete entries', async () => {
+    const store = new FileCacheStore(directory)
+    await store.set('key', 1)
+    await store.delete('key')
+    await store.delete('key') // Deleting a missing entry is a no-op
+
+    expect(await store.get('key')).toBeUndefined()
+  })
+})
@@ -0,0 +1,38 @@
+import { MemoryCacheStore } from '../../../../src'
+
+describe('MemoryCacheStore', () => {
+  afterEach(() => jest.useRealTimers())
+
+  it('should store, return and delete values', async () => {
+    const store = new MemoryCacheStore()
+    await store.set('a', { content: 'x' })
+
+    expect(await store.get('a')).toEqual({ content: 'x' })
+    await store.delete('a')
+    expect(await store.get('a')).toBeUndefined()
+  })
+
+  it('should expire entries after their TTL', async () => {
+    jest.useFakeTimers()
+    const store = new MemoryCacheStore()
+    await store.set('a', 1, 1000)
+
+    jest.advanceTimersByTime(999)
+    expect(await store.get('a')).toBe(1)
+    jest.advanceTimersByTime(1)
+    expect(await store.get('a')).toBeUndefined()
+  })
+
+  it('should evict the least recently used entry when full', async () => {
+    const store = new MemoryCacheStore(2)
+    await store.set('a', 1)
+    await store.set('b', 2)
+    await store.get('a') // 'b' is now the least recently used
+    await store.set('c', 3)
+
+    expect(store.size).toBe(2)
+    expect(await store.get('b')).toBeUndefined()
+    expect(await store.get('a')).toBe(1)
+    expect(await store.get('c')).toBe(3)
+  })
+})
@@ -0,0 +1,121 @@
+import { RosettaAI, ProviderRegistration, CancellationError, GenerateParams, StreamChunk } from '../../../src'
+
+const abortError = (): Error => Object.assign(new Error('Request was aborted.'), { name: 'AbortError' })
+
+// Minimal custom provider whose transport calls each test controls
+function createTestProvider(
+  provider: string,
+  transport: Partial<ProviderRegistration['transport']> = {}
+): ProviderRegistration {
+  return {
+    provider,
+    mapper: {
+      provider,
+      mapToProviderParams: jest.fn(() => ({})),
+      mapFromProviderResponse: jest.fn((_response: any, modelId: string) => ({
+        content: 'Hello',
+        finishReason: 'stop',
+        model: modelId
+      })),
+      mapProviderStream: jest.fn(async function*(stream: AsyncIterable<any>): AsyncIterable<StreamChunk> {
+        yield { type: 'message_start', data: { provider, model: 'test-model' } }
+        for await (const delta of stream) yield { type: 'content_delta', data: { delta } }
+        yield { type: 'message_stop', data: { finishReason: 'stop' } }
+      }),
+      mapToEmbedParams: jest.fn(() => ({})),
+      mapFromEmbedResponse: jest.fn(() => ({ embeddings: [[1]], model: 'embed-model' })),
+      wrapProviderError: jest.fn(error => error)
+    } as any,
+    transport: {
+      generate: jest.fn().mockResolvedValue({}),
+      stream: jest.fn(async () =>
+        (async function*() {
+          yield 'Hello'
+        })()
+      ),
+      embed: jest.fn().mockResolvedValue({}),
+      ...transport
+    },
+    capabilities: { chat: true, streaming: true, embeddings: true }
+  }
+}
+
+const params: GenerateParams = { provider: 'test', model: 'test-model', messages: [{ role: 'user', content: 'Hi' }] }
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const chunks: T[] = []
+  for await (const chunk of iterable) chunks.push(chunk)
+  return chunks
+}
+
+describe('RosettaAI cancellation', () => {
+  it('should reject with CancellationError without calling the provider when the signal is already aborted', async () => {
+    const provider = createTestProvider('test')
+    const client = new RosettaAI({ providers: [provider] })
+    const controller = new AbortController()
+    controller.abort('user left')
+
+    const error = await client.generate({ ...params, signal: controller.signal }).catch(e => e)
+
+    expect(error).toBeInstanceOf(CancellationError)
+    expect(error).toMatchObject({ provider: 'test', reason: 'user left' })
+    expect(provider.transport.generate).not.toHaveBeenCalled()
+  })
+
+  it('should pass the signal to the transport and convert SDK abort errors', async () => {
+    const controller = new AbortController()
+    const provider = createTestProvider('test', {
+      embed: jest.fn(async (_payload, callParams) => {
+        controller.abort()
+        expect(callParams.signal).toBe(controller.signal)
+        throw abortError()
+      })
+    })
+    const client = new RosettaAI({ providers: [provider], retry: { maxRetries: 3 } })
+
+    await expect(
+      client.embed({ provider: 'test', model: 'embed-model', input: 'doc', signal: controller.signal })
+    ).rejects.toBeInstanceOf(CancellationError)
+    expect(provider.transport.embed).toHaveBeenCalledTimes(1)
+  })
+
+  it('should end a stream aborted mid-way with a CancellationError chunk', async () => {
+    const controller = new AbortController()
+    const provider = createTestProvider('test', {
+      stream: jest.fn(async () =>
+        (async function*() {
+          yield 'Hel'
+          controller.abort()
+          yield 'lo'
+        })()
+      )
+    })
+    const client = new RosettaAI({ providers: [provider] })
+
+    const chunks = await collect(client.stream({ ...params, signal: controller.signal }))
+
+    expect(chunks.map(c => c.type)).toEqual(['message_start', 'content_delta', 'error'])
+    const last = chunks[2] as Extract<StreamChunk, { type: 'error' }>
+    expect(last.data.error).toBeInstanceOf(CancellationError)
+  })
+
+  it('should not fall back to another provider after a cancellation', async () => {
+    const controller = new AbortController()
+    const primary = createTestProvider('test', {
+      generate: jest.fn(async () => {
+        controller.abort()
+        throw abortError()
+      })
+    })
+    const backup = createTestProvider('backup')
+    const client = new RosettaAI({
+      providers: [primary, backup],
+      fallbackPolicies: { always: { targets: [{ provider: 'backup' }], shouldFallback: () => true } }
+    })
+
+    await expect(client.generate({ ...params, signal: controller.signal, fallback: 'always' })).rejects.toBeInstanceOf(
+      CancellationError
+    )
+    expect(backup.transport.generate).not.toHaveBeenCalled()
+  })
+})
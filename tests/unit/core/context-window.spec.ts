@@ -0,0 +1,184 @@
+import { RosettaAI, ProviderRegistration, GenerateParams, RosettaMessage, StreamChunk } from '../../../src'
+import { fitContext, formatTranscript, groupTurns } from '../../../src/core/context-window'
+
+// 400 characters: about 100 tokens per message
+const long = (label: string): string => `${label} `.padEnd(400, '.')
+
+const conversation: RosettaMessage[] = [
+  { role: 'system', content: 'Be helpful.' },
+  { role: 'user', content: long('q1') },
+  {
+    role: 'assistant',
+    content: null,
+    toolCalls: [{ id: 'c1', type: 'function', function: { name: 'lookup', arguments: '{}' } }]
+  },
+  { role: 'tool', toolCallId: 'c1', content: long('tool result') },
+  { role: 'assistant', content: long('a1') },
+  { role: 'user', content: long('q2') },
+  { role: 'assistant', content: long('a2') },
+  { role: 'user', content: long('q3') }
+]
+
+const params: GenerateParams = { provider: 'test', model: 'm', messages: conversation }
+const noSummary = jest.fn()
+
+describe('groupTurns', () => {
+  it('should keep tool results in the turn of the assistant message that called the tool', () => {
+    const turns = groupTurns(conversation.slice(1))
+    expect(turns.map(turn => turn.map(m => m.role))).toEqual([
+      ['user', 'assistant', 'tool', 'assistant'],
+      ['user', 'assistant'],
+      ['user']
+    ])
+  })
+})
+
+describe('formatTranscript', () => {
+  it('should render roles, text, images and tool calls', () => {
+    const transcript = formatTranscript([
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Look' },
+          { type: 'image', image: { mimeType: 'image/png', base64Data: '' } }
+        ]
+      },
+      conversation[2]!
+    ])
+    expect(transcript).toBe('user: Look\n[image]\n\nassistant: [called lookup({})]')
+  })
+})
+
+describe('fitContext', () => {
+  it('should leave requests that fit unchanged', async () => {
+    await expect(fitContext(params, { strategy: 'drop-oldest' }, 100000, noSummary)).resolves.toEqual({ params })
+  })
+
+  it('should drop the oldest turns without orphaning tool messages', async () => {
+    const { params: fitted, info } = await fitContext(params, { strategy: 'drop-oldest' }, 350, noSummary)
+
+    expect(fitted.messages.map(m => m.role)).toEqual(['system', 'user', 'assistant', 'user'])
+    expect(info).toMatchObject({ strategy: 'drop-oldest', removedMessages: 4, budgetTokens: 350 })
+    expect(info!.fittedTokens).toBeLessThanOrEqual(350)
+    expect(info!.originalTokens).toBeGreaterThan(350)
+  })
+
+  it('should keep the system message and the last N messages in whole turns', async () => {
+    const { params: fitted, info } = await fitContext(params, { strategy: 'keep-last-n', keepLastN: 2 }, 600, noSummary)
+
+    expect(fitted.messages).toEqual([conversation[0], conversation[7]])
+    expect(info).toMatchObject({ strategy: 'keep-last-n', removedMessages: 6 })
+  })
+
+  it('should always keep the latest turn', async () => {
+    const { params: fitted } = await fitContext(params, { strategy: 'drop-oldest' }, 10, noSummary)
+    expect(fitted.messages).toEqual([conversation[0], conversation[7]])
+  })
+
+  it('should replace older turns with a summary appended to the system message', async () => {
+    const summarize = jest.fn().mockResolvedValue('The user asked q1 and q2.')
+
+    const { params: fitted, info } = await fitContext(
+      params,
+      { strategy: 'summarize', summaryMaxTokens: 50 },
+      400,
+      summarize
+    )
+
+    expect(summarize).toHaveBeenCalledWith(conversation.slice(1, 5))
+    expect(fitted.messages[0]).toEqual({
+      role: 'system',
+      content: 'Be helpful.\n\nSummary of the earlier conversation:\nThe user asked q1 and q2.'
+    })
+    expect(fitted.messages.slice(1)).toEqual(conversation.slice(5))
+    expect(info).toMatchObject({ strategy: 'summarize', removedMessages: 4, summary: 'The user asked q1 and q2.' })
+  })
+
+  it('should drop the oldest kept turns when the summary is longer than expected', async () => {
+    const summarize = jest.fn().mockResolvedValue(long('summary'))
+
+    const { params: fitted, info } = await fitContext(
+      params,
+      { strategy: 'summarize', summaryMaxTokens: 50 },
+      400,
+      summarize
+    )
+
+    expect(fitted.messages.slice(1)).toEqual([conversation[7]])
+    expect(info).toMatchObject({ strategy: 'summarize', removedMessages: 6 })
+    expect(info!.fittedTokens).toBeLessThanOrEqual(400)
+  })
+})
+
+describe('RosettaAI context fitting', () => {
+  function createTestProvider(contextWindow?: number): ProviderRegistration {
+    return {
+      provider: 'test',
+      mapper: {
+        provider: 'test',
+        mapToProviderParams: jest.fn(p => ({ messages: p.messages })),
+        mapFromProviderResponse: jest.fn((_response, model) => ({ content: 'Summary.', finishReason: 'stop', model })),
+        mapProviderStream: jest.fn(async function*(): AsyncIterable<StreamChunk> {
+          yield { type: 'final_result', data: { result: { content: 'ok', finishReason: 'stop', model: 'm' } } }
+        }),
+        wrapProviderError: jest.fn(error => error)
+      } as any,
+      transport: {
+        generate: jest.fn().mockResolvedValue({}),
+        stream: jest.fn(async () =>
+          (async function*() {
+            yield 'raw'
+          })()
+        ),
+        listModels: jest.fn().mockResolvedValue({
+          object: 'list',
+          data: [{ id: 'm', object: 'model', owned_by: 'test', provider: 'test', context_window: contextWindow }]
+        })
+      },
+      capabilities: { chat: true, streaming: true }
+    }
+  }
+
+  it('should fit generate requests using the context window from the model list', async () => {
+    const provider = createTestProvider(450)
+    const client = new RosettaAI({ providers: [provider], contextFit: { strategy: 'drop-oldest' } })
+
+    const result = await client.generate({ ...params, maxTokens: 100 })
+    await client.generate({ ...params, maxTokens: 100 })
+
+    expect(result.contextFit).toMatchObject({ strategy: 'drop-oldest', removedMessages: 4, budgetTokens: 350 })
+    const sent = (provider.transport.generate as jest.Mock).mock.calls[0][0]
+    expect(sent.messages).toHaveLength(4)
+    expect(provider.transport.listModels).toHaveBeenCalledTimes(1)
+  })
+
+  it('should summarize with the configured model and report it on the stream result', async () => {
+    const provider = createTestProvider()
+    const client = new RosettaAI({ providers: [provider] })
+
+    const chunks: StreamChunk[] = []
+    const stream = client.stream({
+      ...params,
+      contextFit: { strategy: 'summarize', summaryModel: 'cheap', contextWindow: 450, reserveTokens: 50 }
+    })
+    for await (const chunk of stream) chunks.push(chunk)
+
+    const summaryRequest = (provider.transport.generate as jest.Mock).mock.calls[0][1]
+    expect(summaryRequest).toMatchObject({ model: 'cheap', contextFit: false })
+    const final = chunks[0] as Extract<StreamChunk, { type: 'final_result' }>
+    expect(final.data.result.contextFit).toMatchObject({ strategy: 'summarize', summary: 'Summary.' })
+  })
+
+  it('should skip fitting with a warning when the context window is unknown', async () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+    const provider = createTestProvider()
+    const client = new RosettaAI({ providers: [provider], contextFit: { strategy: 'drop-oldest' } })
+
+    const result = await client.generate(params)
+
+    expect(result.contextFit).toBeUndefined()
+    expect((provider.transport.generate as jest.Mock).mock.calls[0][0].messages).toHaveLength(8)
+    expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining("model 'm' is unknown"))
+    warnSpy.mockRestore()
+  })
+})
@@ -0,0 +1,102 @@
+import { RosettaAI, Conversation, ConfigurationError, ProviderAPIError, GenerateParams } from '../../../src'
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const chunks: T[] = []
+  for await (const chunk of iterable) chunks.push(chunk)
+  return chunks
+}
+
+const toolCall = { id: 'call_1', type: 'function' as const, function: { name: 'lookup', arguments: '{"q":"x"}' } }
+const reasoningBlocks = [
+  { provider: 'anthropic', data: { type: 'thinking', thinking: 'Need to look it up.', signature: 'sig' } }
+]
+
+describe('Conversation', () => {
+  it('should send the history and append each reply with its tool calls, thinking steps and reasoning blocks', async () => {
+    const requests: GenerateParams[] = []
+    const respond = (result: object) => (request: GenerateParams) => {
+      requests.push(request)
+      return result
+    }
+    const client = new RosettaAI({
+      mock: {
+        generate: [
+          respond({
+            toolCalls: [toolCall],
+            thinkingSteps: 'Need to look it up.',
+            reasoningBlocks,
+            usage: { promptTokens: 10 }
+          }),
+          respond({ content: 'Found it.', usage: { promptTokens: 20, completionTokens: 5 } })
+        ]
+      }
+    })
+    const conversation = client.createConversation({
+      params: { provider: 'mock' },
+      messages: [{ role: 'system', content: 'Be brief.' }]
+    })
+
+    await conversation.addUserMessage('Find x').generate()
+    await conversation.addToolResults({ toolCallId: 'call_1', content: 'x found' }).generate({ temperature: 0 })
+
+    expect(conversation.messages).toEqual([
+      { role: 'system', content: 'Be brief.' },
+      { role: 'user', content: 'Find x' },
+      {
+        role: 'assistant',
+        content: null,
+        toolCalls: [toolCall],
+        thinkingSteps: 'Need to look it up.',
+        reasoningBlocks
+      },
+      { role: 'tool', toolCallId: 'call_1', content: 'x found' },
+      { role: 'assistant', content: 'Found it.' }
+    ])
+    expect(requests[1]).toMatchObject({ temperature: 0, messages: conversation.messages.slice(0, 4) })
+    expect(requests[0]!.messages).toHaveLength(2) // The history as it was when the turn was sent
+    expect(conversation.usage).toEqual({ promptTokens: 30, completionTokens: 5 })
+  })
+
+  it('should mark failed tool results', () => {
+    const conversation = new RosettaAI({ mock: {} }).createConversation()
+
+    conversation.addToolResults({ toolCallId: 'call_1', content: 'Timed out.', isError: true })
+
+    expect(conversation.messages).toEqual([
+      { role: 'tool', toolCallId: 'call_1', content: 'Timed out.', isError: true }
+    ])
+  })
+
+  it('should append streamed replies once the stream completes, and nothing when it fails', async () => {
+    const client = new RosettaAI({
+      mock: { generate: [{ content: 'Hello' }, new ProviderAPIError('Bad request', 'mock', 400)] }
+    })
+    const conversation = client.createConversation({ params: { provider: 'mock' } }).addUserMessage('Hi')
+
+    await collect(conversation.stream())
+    const failed = await collect(conversation.stream())
+
+    expect(failed.map(chunk => chunk.type)).toEqual(['error'])
+    expect(conversation.messages).toEqual([
+      { role: 'user', content: 'Hi' },
+      { role: 'assistant', content: 'Hello' }
+    ])
+  })
+
+  it('should round-trip through JSON', async () => {
+    const client = new RosettaAI({ mock: { generate: [{ content: 'Hello', usage: { totalTokens: 7 } }] } })
+    const conversation = client.createConversation({ params: { provider: 'mock' } }).addUserMessage('Hi')
+    await conversation.generate()
+
+    const restored = Conversation.fromJSON(client, JSON.stringify(conversation), { provider: 'mock' })
+
+    expect(restored.messages).toEqual(conversation.messages)
+    expect(restored.usage).toEqual({ totalTokens: 7 })
+  })
+
+  it('should require a provider', async () => {
+    const conversation = new RosettaAI({ mock: {} }).createConversation().addUserMessage('Hi')
+
+    await expect(conversation.generate()).rejects.toThrow(ConfigurationError)
+  })
+})
@@ -0,0 +1,179 @@
+import { RosettaAI, ProviderRegistration, GenerateParams, StreamChunk, MemoryCacheStore } from '../../../../src'
+import { CostTracker, calculateCost, findModelPricing, mergePricing } from '../../../../src/core/cost/cost.tracker'
+
+const usage = { promptTokens: 1000, completionTokens: 500, totalTokens: 1500 }
+
+describe('findModelPricing', () => {
+  const pricing = mergePricing()
+
+  it('should match exact IDs before versioned snapshots', () => {
+    expect(findModelPricing(pricing, 'openai', 'gpt-4o-mini')).toMatchObject({ inputPerMTok: 0.15 })
+    expect(findModelPricing(pricing, 'openai', 'gpt-4o-2024-08-06')).toMatchObject({ inputPerMTok: 2.5 })
+  })
+
+  it('should price the prompt cache of dated Anthropic IDs from the static model list', () => {
+    const haiku = findModelPricing(pricing, 'anthropic', 'claude-3-haiku-20240307')
+    expect(haiku).toEqual({
+      inputPerMTok: 0.25,
+      outputPerMTok: 1.25,
+      cachedInputPerMTok: 0.03,
+      cacheWriteInputPerMTok: 0.3
+    })
+    const cost = calculateCost({ ...usage, cacheReadTokens: 600, cacheWriteTokens: 200 }, haiku!)
+    expect(cost.inputCost).toBeCloseTo((200 * 0.25 + 600 * 0.03 + 200 * 0.3) / 1_000_000)
+  })
+
+  it('should only use the price of a model ID for its versioned snapshots', () => {
+    expect(findModelPricing(pricing, 'openai', 'gpt-4-0613')).toMatchObject({ inputPerMTok: 30 })
+    expect(findModelPricing(pricing, 'google', 'gemini-1.5-flash-001')).toMatchObject({ inputPerMTok: 0.075 })
+    expect(findModelPricing(pricing, 'openai', 'gpt-4.1')).toBeUndefined()
+    expect(findModelPricing(pricing, 'openai', 'gpt-4.1-mini')).toBeUndefined()
+    expect(findModelPricing(pricing, 'openai', 'gpt-4.5-preview')).toBeUndefined()
+    expect(findModelPricing(pricing, 'openai', 'o1-pro')).toBeUndefined()
+  })
+
+  it('should strip Google model prefixes and fall back to OpenAI prices for Azure', () => {
+    expect(findModelPricing(pricing, 'google', 'models/gemini-2.0-flash')).toMatchObject({ inputPerMTok: 0.1 })
+    expect(findModelPricing(pricing, 'azure-openai', 'gpt-4o')).toMatchObject({ inputPerMTok: 2.5 })
+  })
+
+  it('should return undefined for unknown models and let overrides replace defaults', () => {
+    expect(findModelPricing(pricing, 'openai', 'my-finetune')).toBeUndefined()
+    const custom = mergePricing({ openai: { 'gpt-4o': { inputPerMTok: 1, outputPerMTok: 2 } } })
+    expect(findModelPricing(custom, 'openai', 'gpt-4o')).toEqual({ inputPerMTok: 1, outputPerMTok: 2 })
+    expect(findModelPricing(custom, 'openai', 'gpt-4o-mini')).toMatchObject({ inputPerMTok: 0.15 })
+  })
+})
+
+describe('calculateCost', () => {
+  it('should price input and output tokens per million', () => {
+    expect(calculateCost(usage, { inputPerMTok: 2, outputPerMTok: 10 })).toEqual({
+      inputCost: 0.002,
+      outputCost: 0.005,
+      totalCost: 0.007,
+      currency: 'USD'
+    })
+  })
+
+  it('should price cached prompt tokens at the cached-input rate', () => {
+    const cost = calculateCost(
+      { ...usage, cachedContentTokenCount: 600 },
+      { inputPerMTok: 2, outputPerMTok: 0, cachedInputPerMTok: 1 }
+    )
+    expect(cost.inputCost).toBeCloseTo(0.0014)
+  })
+
+  it('should price prompt cache reads and writes at their rates', () => {
+    const cost = calculateCost(
+      { ...usage, cacheReadTokens: 600, cacheWriteTokens: 200 },
+      { inputPerMTok: 2, outputPerMTok: 0, cachedInputPerMTok: 1, cacheWriteInputPerMTok: 2.5 }
+    )
+    expect(cost.inputCost).toBeCloseTo(0.0015) // 200 * 2 + 600 * 1 + 200 * 2.5 per million
+  })
+})
+
+describe('CostTracker', () => {
+  it('should aggregate spend per provider, model and tag', () => {
+    const tracker = new CostTracker()
+    const cost = calculateCost(usage, { inputPerMTok: 2, outputPerMTok: 10 })
+    tracker.record('openai', 'gpt-4o', usage, cost, 'search')
+    tracker.record('openai', 'gpt-4o', usage, cost, 'search')
+    tracker.record('groq', 'custom', usage, undefined)
+
+    const report = tracker.getReport()
+    expect(report.totalCost).toBeCloseTo(0.014)
+    expect(report.byTag.search).toBeCloseTo(0.014)
+    expect(report.byProvider.groq).toBe(0)
+    expect(report.entries).toHaveLength(2)
+    expect(report.entries[0]).toMatchObject({ requests: 2, promptTokens: 2000, completionTokens: 1000 })
+    expect(report.entries[1]).toMatchObject({ requests: 1, unpricedRequests: 1 })
+
+    tracker.reset()
+    expect(tracker.getReport().entries).toEqual([])
+  })
+})
+
+describe('RosettaAI cost tracking', () => {
+  function createTestProvider(): ProviderRegistration {
+    const result = { content: 'ok', finishReason: 'stop', usage, model: 'priced-model-001' }
+    return {
+      provider: 'test',
+      mapper: {
+        provider: 'test',
+        mapToProviderParams: jest.fn(() => ({})),
+        mapFromProviderResponse: jest.fn(() => result),
+        mapProviderStream: jest.fn(async function*(): AsyncIterable<StreamChunk> {
+          yield { type: 'content_delta', data: { delta: 'ok' } }
+          yield { type: 'final_usage', data: { usage } }
+          yield { type: 'final_result', data: { result: result as any } }
+        }),
+        wrapProviderError: jest.fn(error => error)
+      } as any,
+      transport: {
+        generate: jest.fn().mockResolvedValue({}),
+        stream: jest.fn(async () =>
+          (async function*() {
+            yield 'raw'
+          })()
+        )
+      },
+      capabilities: { chat: true, streaming: true }
+    }
+  }
+
+  const params: GenerateParams = {
+    provider: 'test',
+    model: 'priced-model',
+    messages: [{ role: 'user', content: 'Hi' }],
+    tag: 'feature-a'
+  }
+  const pricing = { test: { 'priced-model': { inputPerMTok: 2, outputPerMTok: 10 } } }
+
+  it('should attach the cost to generate results and report it by tag', async () => {
+    const client = new RosettaAI({ providers: [createTestProvider()], pricing })
+
+    const result = await client.generate(params)
+
+    expect(result.cost).toMatchObject({ totalCost: 0.007, currency: 'USD' })
+    const report = client.getCostReport()
+    expect(report.byTag['feature-a']).toBeCloseTo(0.007)
+    expect(report.entries[0]).toMatchObject({ provider: 'test', model: 'priced-model', requests: 1 })
+
+    client.resetCostReport()
+    expect(client.getCostReport().totalCost).toBe(0)
+  })
+
+  it('should attach the cost to streamed usage and results and record the stream once', async () => {
+    const client = new RosettaAI({ providers: [createTestProvider()], pricing })
+
+    const chunks: StreamChunk[] = []
+    for await (const chunk of client.stream(params)) chunks.push(chunk)
+
+    const finalUsage = chunks.find(c => c.type === 'final_usage') as Extract<StreamChunk, { type: 'final_usage' }>
+    const finalResult = chunks.find(c => c.type === 'final_result') as Extract<StreamChunk, { type: 'final_result' }>
+    expect(finalUsage.data.cost?.totalCost).toBeCloseTo(0.007)
+    expect(finalResult.data.result.cost?.totalCost).toBeCloseTo(0.007)
+    expect(client.getCostReport().entries[0]).toMatchObject({ requests: 1 })
+  })
+
+  it('should not record cache hits as spend', async () => {
+    const client = new RosettaAI({
+      providers: [createTestProvider()],
+      pricing,
+      cache: { store: new MemoryCacheStore() }
+    })
+
+    const original = await client.generate(params)
+    const cached = await client.generate(params)
+    const chunks: StreamChunk[] = []
+    for await (const chunk of client.stream(params)) chunks.push(chunk)
+
+    expect(original.cost).toMatchObject({ totalCost: 0.007 })
+    expect(cached.cached).toBe(true)
+    expect(cached.cost).toBeUndefined()
+    const finalResult = chunks.find(c => c.type === 'final_result') as Extract<StreamChunk, { type: 'final_result' }>
+    expect(finalResult.data.result).toMatchObject({ cached: true })
+    expect(finalResult.data.result.cost).toBeUndefined()
+    expect(client.getCostReport().entries[0]).toMatchObject({ requests: 1 })
+  })
+})
@@ -0,0 +1,224 @@
+import {
+  RosettaAI,
+  ProviderRegistration,
+  ProviderAPIError,
+  ConfigurationError,
+  GenerateParams,
+  GenerateResult,
+  StreamChunk
+} from '../../../src'
+
+type StreamStep = string | Error
+
+// Minimal custom provider whose transport behaviour each test controls
+function createTestProvider(
+  provider: string,
+  generate: jest.Mock,
+  streamSteps: StreamStep[] = ['ok']
+): ProviderRegistration {
+  return {
+    provider,
+    mapper: {
+      provider,
+      mapToProviderParams: jest.fn((params: GenerateParams) => ({ model: params.model })),
+      mapFromProviderResponse: jest.fn(
+        (response: any, modelId: string): GenerateResult => ({
+          content: response.content,
+          finishReason: 'stop',
+          model: modelId
+        })
+      ),
+      mapProviderStream: jest.fn(async function*(stream: AsyncIterable<StreamStep>): AsyncIterable<StreamChunk> {
+        yield { type: 'message_start', data: { provider, model: 'm' } }
+        let content = ''
+        for await (const step of stream) {
+          if (step instanceof Error) {
+            yield { type: 'error', data: { error: step } }
+            return
+          }
+          content += step
+          yield { type: 'content_delta', data: { delta: step } }
+        }
+        yield { type: 'final_result', data: { result: { content, finishReason: 'stop', model: 'm' } } }
+      }),
+      mapToEmbedParams: jest.fn(),
+      mapFromEmbedResponse: jest.fn(),
+      mapToTranscribeParams: jest.fn(),
+      mapFromTranscribeResponse: jest.fn(),
+      mapToTranslateParams: jest.fn(),
+      mapFromTranslateResponse: jest.fn(),
+      wrapProviderError: jest.fn(error => error)
+    } as any,
+    transport: {
+      generate,
+      stream: jest.fn(async () =>
+        (async function*() {
+          yield* streamSteps
+        })()
+      )
+    },
+    capabilities: { chat: true, streaming: true }
+  }
+}
+
+const overloaded = (provider: string): ProviderAPIError =>
+  new ProviderAPIError('Overloaded', provider, 529, null, 'overloaded_error')
+const badRequest = (provider: string): ProviderAPIError =>
+  new ProviderAPIError('Invalid request', provider, 400, null, 'invalid_request_error')
+
+const baseParams: GenerateParams = {
+  provider: 'primary',
+  model: 'primary-model',
+  messages: [{ role: 'user', content: 'Hi' }]
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const chunks: T[] = []
+  for await (const chunk of iterable) chunks.push(chunk)
+  return chunks
+}
+
+describe('RosettaAI fallback chains', () => {
+  describe('generate', () => {
+    it('should not report fallback info when no chain is given', async () => {
+      const primary = createTestProvider('primary', jest.fn().mockResolvedValue({ content: 'from primary' }))
+      const client = new RosettaAI({ providers: [primary] })
+
+      const result = await client.generate(baseParams)
+
+      expect(result.content).toBe('from primary')
+      expect(result.fallback).toBeUndefined()
+    })
+
+    it('should fall back to the next target on a retryable error and report the serving target', async () => {
+      const primaryError = overloaded('primary')
+      const primary = createTestProvider('primary', jest.fn().mockRejectedValue(primaryError))
+      const backupGenerate = jest.fn().mockResolvedValue({ content: 'from backup' })
+      const backup = createTestProvider('backup', backupGenerate)
+      const client = new RosettaAI({ providers: [primary, backup] })
+
+      const result = await client.generate({
+        ...baseParams,
+        fallback: [{ provider: 'backup', model: 'backup-model' }]
+      })
+
+      expect(result.content).toBe('from backup')
+      expect(backupGenerate).toHaveBeenCalledWith({ model: 'backup-model' }, expect.anything())
+      expect(result.fallback).toEqual({
+        provider: 'backup',
+        model: 'backup-model',
+        targetIndex: 1,
+        failedAttempts: [{ provider: 'primary', model: 'primary-model', error: primaryError }]
+      })
+    })
+
+    it('should report target 0 when the primary succeeds', async () => {
+      const primary = createTestProvider('primary', jest.fn().mockResolvedValue({ content: 'from primary' }))
+      const backupGenerate = jest.fn()
+      const backup = createTestProvider('backup', backupGenerate)
+      const client = new RosettaAI({ providers: [primary, backup] })
+
+      const result = await client.generate({ ...baseParams, fallback: [{ provider: 'backup', model: 'b' }] })
+
+      expect(result.fallback).toEqual({
+        provider: 'primary',
+        model: 'primary-model',
+        targetIndex: 0,
+        failedAttempts: []
+      })
+      expect(backupGenerate).not.toHaveBeenCalled()
+    })
+
+    it('should not fall back on non-retryable errors', async () => {
+      const primary = createTestProvider('primary', jest.fn().mockRejectedValue(badRequest('primary')))
+      const backupGenerate = jest.fn()
+      const backup = createTestProvider('backup', backupGenerate)
+      const client = new RosettaAI({ providers: [primary, backup] })
+
+      await expect(client.generate({ ...baseParams, fallback: [{ provider: 'backup', model: 'b' }] })).rejects.toThrow(
+        'Invalid request'
+      )
+      expect(backupGenerate).not.toHaveBeenCalled()
+    })
+
+    it('should throw the last error when every target fails', async () => {
+      const primary = createTestProvider('primary', jest.fn().mockRejectedValue(overloaded('primary')))
+      const backup = createTestProvider('backup', jest.fn().mockRejectedValue(overloaded('backup')))
+      const client = new RosettaAI({ providers: [primary, backup] })
+
+      await expect(client.generate({ ...baseParams, fallback: [{ provider: 'backup', model: 'b' }] })).rejects.toThrow(
+        '[backup] API Error'
+      )
+    })
+
+    it('should use a named policy with its default model and custom predicate', async () => {
+      const primary = createTestProvider('primary', jest.fn().mockRejectedValue(badRequest('primary')))
+      const backup = createTestProvider('backup', jest.fn().mockResolvedValue({ content: 'from backup' }))
+      const client = new RosettaAI({
+        providers: [primary, backup],
+        defaultModels: { backup: 'backup-default' },
+        fallbackPolicies: {
+          resilient: { targets: [{ provider: 'backup' }], shouldFallback: () => true }
+        }
+      })
+
+      const result = await client.generate({ ...baseParams, fallback: 'resilient' })
+
+      expect(result.fallback?.provider).toBe('backup')
+      expect(result.fallback?.model).toBe('backup-default')
+    })
+
+    it('should reject unknown policies and unconfigured targets before calling any provider', async () => {
+      const primaryGenerate = jest.fn()
+      const client = new RosettaAI({ providers: [createTestProvider('primary', primaryGenerate)] })
+
+      await expect(client.generate({ ...baseParams, fallback: 'missing' })).rejects.toThrow(
+        "Fallback policy 'missing' is not configured."
+      )
+      await expect(client.generate({ ...baseParams, fallback: [{ provider: 'nowhere' }] })).rejects.toThrow(
+        ConfigurationError
+      )
+      expect(primaryGenerate).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('stream', () => {
+    it('should fall back when the primary fails before emitting any content', async () => {
+      const primary = createTestProvider('primary', jest.fn(), [overloaded('primary')])
+      const backup = createTestProvider('backup', jest.fn(), ['Hel', 'lo'])
+      const client = new RosettaAI({ providers: [primary, backup] })
+
+      const chunks = await collect(client.stream({ ...baseParams, fallback: [{ provider: 'backup', model: 'b' }] }))
+
+      expect(chunks.map(c => c.type)).toEqual(['message_start', 'content_delta', 'content_delta', 'final_result'])
+      expect(chunks[0]).toEqual({ type: 'message_start', data: { provider: 'backup', model: 'm' } })
+      const final = chunks[3] as Extract<StreamChunk, { type: 'final_result' }>
+      expect(final.data.result.content).toBe('Hello')
+      expect(final.data.result.fallback).toMatchObject({ provider: 'backup', model: 'b', targetIndex: 1 })
+      expect(final.data.result.fallback?.failedAttempts[0]?.provider).toBe('primary')
+    })
+
+    it('should not fall back once content has been emitted', async () => {
+      const primary = createTestProvider('primary', jest.fn(), ['Hel', overloaded('primary')])
+      const backup = createTestProvider('backup', jest.fn(), ['Hello'])
+      const client = new RosettaAI({ providers: [primary, backup] })
+
+      const chunks = await collect(client.stream({ ...baseParams, fallback: [{ provider: 'backup', model: 'b' }] }))
+
+      expect(chunks.map(c => c.type)).toEqual(['message_start', 'content_delta', 'error'])
+      expect(backup.transport.stream).not.toHaveBeenCalled()
+    })
+
+    it('should yield the error when the last target fails', async () => {
+      const primary = createTestProvider('primary', jest.fn(), [overloaded('primary')])
+      const backup = createTestProvider('backup', jest.fn(), [overloaded('backup')])
+      const client = new RosettaAI({ providers: [primary, backup] })
+
+      const chunks = await collect(client.stream({ ...baseParams, fallback: [{ provider: 'backup', model: 'b' }] }))
+
+      expect(chunks.map(c => c.type)).toEqual(['message_start', 'error'])
+      const error = chunks[1] as Extract<StreamChunk, { type: 'error' }>
+      expect(error.data.error.message).toContain('[backup]')
+    })
+  })
+})
@@ -0,0 +1,82 @@
+import { fetchAzureDeployments, getAzureDeploymentsUrl } from '../../../../src/core/listing/azure.deployments'
+import { Provider } from '../../../../src/types'
+import { ProviderAPIError, MappingError } from '../../../../src/errors'
+
+// Mock the global fetch function
+global.fetch = jest.fn()
+
+const mockFetch = fetch as jest.Mock
+
+describe('Azure deployments listing', () => {
+  const testUrl = 'https://res.openai.azure.com/openai/deployments?api-version=2022-12-01'
+
+  beforeEach(() => {
+    mockFetch.mockReset()
+  })
+
+  it('[Easy] should build the deployments URL from the endpoint', () => {
+    expect(getAzureDeploymentsUrl('https://res.openai.azure.com/')).toBe(testUrl)
+    expect(getAzureDeploymentsUrl('https://res.openai.azure.com')).toBe(testUrl)
+  })
+
+  it('[Easy] should fetch deployments with the api-key header and map them to models', async () => {
+    const deployment = {
+      id: 'my-gpt4o',
+      model: 'gpt-4o',
+      owner: 'organization-owner',
+      status: 'succeeded',
+      created_at: 1700000000,
+      object: 'deployment'
+    }
+    mockFetch.mockResolvedValue({ ok: true, status: 200, json: async () => ({ data: [deployment], object: 'list' }) })
+
+    const result = await fetchAzureDeployments(testUrl, 'azure-key')
+
+    expect(mockFetch).toHaveBeenCalledWith(testUrl, {
+      method: 'GET',
+      headers: { 'api-key': 'azure-key', Accept: 'application/json' }
+    })
+    expect(result).toEqual({
+      object: 'list',
+      data: [
+        {
+          id: 'my-gpt4o',
+          object: 'model',
+          owned_by: 'organization-owner',
+          created: 1700000000,
+          active: true,
+          properties: { description: 'Deployment of gpt-4o' },
+          provider: Provider.AzureOpenAI,
+          rawData: deployment
+        }
+      ]
+    })
+  })
+
+  it('[Easy] should throw ProviderAPIError if the API key is missing', async () => {
+    await expect(fetchAzureDeployments(testUrl, undefined)).rejects.toThrow(ProviderAPIError)
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('[Medium] should throw ProviderAPIError with the status for failed responses', async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 404, text: async () => 'Resource not found' })
+    const error = await fetchAzureDeployments(testUrl, 'azure-key').catch(e => e)
+    expect(error).toBeInstanceOf(ProviderAPIError)
+    expect(error.statusCode).toBe(404)
+    expect(error.provider).toBe(Provider.AzureOpenAI)
+    expect(error.message).toContain('Resource not found')
+  })
+
+  it('[Medium] should throw MappingError for an invalid response structure', async () => {
+    mockFetch.mockResolvedValue({ ok: true, status: 200, json: async () => ({ value: [] }) })
+    jest.spyOn(console, 'error').mockImplementation()
+    await expect(fetchAzureDeployments(testUrl, 'azure-key')).rejects.toThrow(MappingError)
+  })
+
+  it('[Medium] should wrap network errors in ProviderAPIError', async () => {
+    mockFetch.mockRejectedValue(new Error('ECONNRESET'))
+    await expect(fetchAzureDeployments(testUrl, 'azure-key')).rejects.toThrow(
+      'Network or parsing error fetching deployments for azure-openai: ECONNRESET'
+    )
+  })
+})
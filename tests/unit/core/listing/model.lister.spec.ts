@@ -159,7 +159,8 @@ describe('listModelsForProvider', () => {
       expect(mockFetchAndValidateModelsFromApi).toHaveBeenCalledWith(
         'https://api.openai.com/v1/models',
         Provider.OpenAI,
-        testApiKey
+        testApiKey,
+        undefined
       )
       expect(mockGroqClientInstance.models.list).not.toHaveBeenCalled()
     })
@@ -169,7 +170,8 @@ describe('listModelsForProvider', () => {
       expect(mockFetchAndValidateModelsFromApi).toHaveBeenCalledWith(
         'https://generativelanguage.googleapis.com/v1beta/models',
         Provider.Google,
-        testApiKey
+        testApiKey,
+        undefined
       )
     })
 
@@ -177,7 +179,7 @@ describe('listModelsForProvider', () => {
       const customUrl = 'http://custom.openai/api/models'
       const sourceConfig: ModelListingSourceConfig = { type: 'apiEndpoint', url: customUrl }
       await listModelsForProvider(Provider.OpenAI, { sourceConfig, apiKey: testApiKey })
-      expect(mockFetchAndValidateModelsFromApi).toHaveBeenCalledWith(customUrl, Provider.OpenAI, testApiKey)
+      expect(mockFetchAndValidateModelsFromApi).toHaveBeenCalledWith(customUrl, Provider.OpenAI, testApiKey, undefined)
     })
 
     it('[Medium] should throw ConfigurationError if default URL not found for apiEndpoint', async () => {
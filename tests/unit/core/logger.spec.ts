@@ -0,0 +1,177 @@
+import {
+  RosettaAI,
+  ProviderRegistration,
+  RosettaLogger,
+  RosettaMiddleware,
+  StrictModeError,
+  GenerateParams,
+  StreamChunk
+} from '../../../src'
+import { RosettaLog, consoleLogger, getLog } from '../../../src/core/logger'
+
+function createTestLogger(): jest.Mocked<RosettaLogger> {
+  return { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}
+
+// Minimal custom provider without JSON mode, so JSON requests log a warning; its stream mapper logs too
+function createTestProvider(): ProviderRegistration {
+  return {
+    provider: 'test',
+    mapper: {
+      provider: 'test',
+      mapToProviderParams: jest.fn(() => ({})),
+      mapFromProviderResponse: jest.fn((_response: any, modelId: string) => ({
+        content: '{}',
+        finishReason: 'stop',
+        model: modelId
+      })),
+      mapProviderStream: jest.fn(async function*(): AsyncIterable<StreamChunk> {
+        yield { type: 'message_start', data: { provider: 'test', model: 'test-model' } }
+        getLog().warn('malformed_response', 'Stream ended early.', { context: 'mapProviderStream' })
+        yield { type: 'message_stop', data: { finishReason: 'stop' } }
+      }),
+      wrapProviderError: jest.fn(error => error)
+    } as any,
+    transport: {
+      generate: jest.fn().mockResolvedValue({}),
+      stream: jest.fn(async () =>
+        (async function*() {
+          yield 'raw'
+        })()
+      )
+    },
+    capabilities: { chat: true, streaming: true }
+  }
+}
+
+const jsonParams: GenerateParams = {
+  provider: 'test',
+  model: 'test-model',
+  messages: [{ role: 'user', content: 'Hi' }],
+  responseFormat: { type: 'json_object' }
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const chunks: T[] = []
+  for await (const chunk of iterable) chunks.push(chunk)
+  return chunks
+}
+
+describe('RosettaLog', () => {
+  it('should filter entries below the configured level', () => {
+    const logger = createTestLogger()
+    const log = new RosettaLog({ logger, level: 'warn', strictWarnings: false })
+
+    log.debug('debug')
+    log.info('info')
+    log.warn('ignored_parameter', 'warn')
+    log.error('error')
+
+    expect(logger.debug).not.toHaveBeenCalled()
+    expect(logger.info).not.toHaveBeenCalled()
+    expect(logger.warn).toHaveBeenCalledWith('warn', { code: 'ignored_parameter' })
+    expect(logger.error).toHaveBeenCalledWith('error', {})
+  })
+
+  it('should escalate only the listed warning codes', () => {
+    const logger = createTestLogger()
+    const log = new RosettaLog({ logger, level: 'info', strictWarnings: ['ignored_schema_parameter'] }).child({
+      provider: 'test'
+    })
+
+    expect(() => log.warn('ignored_schema_parameter', 'Schema ignored.')).toThrow(StrictModeError)
+    expect(() => log.warn('empty_content', 'Empty.')).not.toThrow()
+    expect(logger.warn).toHaveBeenCalledTimes(1)
+  })
+
+  it('should stay active across awaits in run and while a bound iterable produces items', async () => {
+    const log = new RosettaLog({ logger: createTestLogger(), level: 'info', strictWarnings: false })
+    const source = async function*(): AsyncIterable<RosettaLog> {
+      await Promise.resolve()
+      yield getLog()
+    }
+
+    await expect(
+      log.run(async () => {
+        await Promise.resolve()
+        return getLog()
+      })
+    ).resolves.toBe(log)
+    expect(await collect(log.bind(source()))).toEqual([log])
+    expect(getLog()).not.toBe(log)
+  })
+
+  it('should print only the message and its error or data with the console logger', () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation()
+    const error = new Error('boom')
+
+    consoleLogger.warn('Plain.', { code: 'empty_content', requestId: 'id' })
+    consoleLogger.warn('With error.', { code: 'cache_unavailable', error })
+
+    expect(warnSpy).toHaveBeenNthCalledWith(1, 'Plain.')
+    expect(warnSpy).toHaveBeenNthCalledWith(2, 'With error.', error)
+    warnSpy.mockRestore()
+  })
+})
+
+describe('RosettaAI logging', () => {
+  it('should send warnings to the configured logger with the request fields', async () => {
+    const logger = createTestLogger()
+    let requestId: string | undefined
+    const middleware: RosettaMiddleware = {
+      wrapOperation: (params, context, next) => {
+        requestId = context.requestId
+        return next(params)
+      }
+    }
+    const client = new RosettaAI({ providers: [createTestProvider()], logger, middleware: [middleware] })
+
+    await client.generate(jsonParams)
+
+    expect(logger.info).toHaveBeenCalledWith(expect.stringContaining('RosettaAI: Active providers:'), {})
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('JSON response format'), {
+      code: 'unsupported_response_format',
+      requestId,
+      operation: 'generate',
+      provider: 'test',
+      model: 'test-model'
+    })
+    expect(requestId).toEqual(expect.any(String))
+  })
+
+  it('should tag warnings logged while a stream is consumed', async () => {
+    const logger = createTestLogger()
+    const client = new RosettaAI({ providers: [createTestProvider()], logger })
+
+    await collect(client.stream({ ...jsonParams, responseFormat: undefined }))
+
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Stream ended early.',
+      expect.objectContaining({ code: 'malformed_response', operation: 'stream', context: 'mapProviderStream' })
+    )
+  })
+
+  it("should log nothing with logLevel 'silent'", async () => {
+    const logger = createTestLogger()
+    const client = new RosettaAI({ providers: [createTestProvider()], logger, logLevel: 'silent' })
+
+    await client.generate(jsonParams)
+
+    Object.values(logger).forEach(method => expect(method).not.toHaveBeenCalled())
+  })
+
+  it('should fail the call instead of warning when the warning is escalated', async () => {
+    const provider = createTestProvider()
+    const client = new RosettaAI({
+      providers: [provider],
+      logger: createTestLogger(),
+      strictWarnings: ['unsupported_response_format']
+    })
+
+    const error = await client.generate(jsonParams).catch(e => e)
+
+    expect(error).toBeInstanceOf(StrictModeError)
+    expect(error).toMatchObject({ code: 'unsupported_response_format', provider: 'test' })
+    expect(provider.transport.generate).not.toHaveBeenCalled()
+  })
+})
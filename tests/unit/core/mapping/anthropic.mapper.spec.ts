@@ -1,15 +1,22 @@
-import { AnthropicMapper } from '../../../../src/core/mapping/anthropic.mapper'
+import { AnthropicMapper, STRUCTURED_OUTPUT_TOOL } from '../../../../src/core/mapping/anthropic.mapper'
 import {
   GenerateParams,
   Provider,
   RosettaImageData,
+  RosettaMessage,
   StreamChunk,
   EmbedParams,
   TranscribeParams,
   TranslateParams,
   GenerateResult // Import result type
 } from '../../../../src/types'
-import { MappingError, ProviderAPIError, RosettaAIError, UnsupportedFeatureError } from '../../../../src/errors'
+import {
+  ConfigurationError,
+  MappingError,
+  ProviderAPIError,
+  RosettaAIError,
+  UnsupportedFeatureError
+} from '../../../../src/errors'
 import Anthropic from '@anthropic-ai/sdk'
 import { RawMessageStreamEvent } from '@anthropic-ai/sdk/resources/messages'
 
@@ -178,6 +185,26 @@ describe('Anthropic Mapper', () => {
       ])
     })
 
+    it('[Easy] should flag failed tool results with is_error', () => {
+      const params: GenerateParams = {
+        ...baseParams,
+        messages: [
+          { role: 'user', content: 'Use the tool.' },
+          {
+            role: 'assistant',
+            content: null,
+            toolCalls: [{ id: 'tool_123', type: 'function', function: { name: 'my_tool', arguments: '{}' } }]
+          },
+          { role: 'tool', toolCallId: 'tool_123', content: 'Timed out.', isError: true }
+        ]
+      }
+      const result = mapper.mapToProviderParams(params) as Anthropic.Messages.MessageCreateParamsNonStreaming
+      expect(result.messages[2]).toEqual({
+        role: 'user',
+        content: [{ type: 'tool_result', tool_use_id: 'tool_123', content: 'Timed out.', is_error: true }]
+      })
+    })
+
     it('[Easy] should map tools correctly', () => {
       const params: GenerateParams = {
         ...baseParams,
@@ -274,6 +301,116 @@ describe('Anthropic Mapper', () => {
       expect(result.thinking).toEqual({ type: 'enabled', budget_tokens: 1024 })
     })
 
+    it('[Medium] should map reasoning effort and budget to a thinking budget within max_tokens', () => {
+      const messages: RosettaMessage[] = [{ role: 'user', content: 'Test' }]
+      const byEffort = mapper.mapToProviderParams({ ...baseParams, messages, reasoning: { effort: 'high' } })
+      expect(byEffort.thinking).toEqual({ type: 'enabled', budget_tokens: 16384 })
+      expect(byEffort.max_tokens).toBe(16384 + 4096)
+
+      const byBudget = mapper.mapToProviderParams({
+        ...baseParams,
+        messages,
+        maxTokens: 8000,
+        reasoning: { effort: 'low', budgetTokens: 2000 }
+      })
+      expect(byBudget.thinking).toEqual({ type: 'enabled', budget_tokens: 2000 })
+      expect(byBudget.max_tokens).toBe(8000)
+    })
+
+    it('[Medium] should reject a maxTokens that does not exceed the thinking budget', () => {
+      const params: GenerateParams = {
+        ...baseParams,
+        messages: [{ role: 'user', content: 'Test' }],
+        maxTokens: 1000,
+        reasoning: { effort: 'medium' }
+      }
+      expect(() => mapper.mapToProviderParams(params)).toThrow(ConfigurationError)
+      expect(() => mapper.mapToProviderParams(params)).toThrow(
+        'maxTokens (1000) must be greater than the Anthropic thinking budget (4096), as it includes the thinking tokens.'
+      )
+    })
+
+    it('[Medium] should send Anthropic reasoning blocks back before the other blocks of assistant messages', () => {
+      const thinking = { type: 'thinking', thinking: 'Look it up.', signature: 'sig-1' }
+      const redacted = { type: 'redacted_thinking', data: 'encrypted' }
+      const params: GenerateParams = {
+        ...baseParams,
+        reasoning: { budgetTokens: 2000 },
+        messages: [
+          { role: 'user', content: 'Weather?' },
+          {
+            role: 'assistant',
+            content: null,
+            toolCalls: [{ id: 't1', type: 'function', function: { name: 'get_weather', arguments: '{}' } }],
+            reasoningBlocks: [
+              { provider: Provider.Anthropic, data: thinking },
+              { provider: Provider.Anthropic, data: redacted },
+              { provider: Provider.Google, data: { text: 'Other provider', thought: true } }
+            ]
+          },
+          { role: 'tool', toolCallId: 't1', content: 'Sunny' },
+          {
+            role: 'assistant',
+            content: 'Sunny.',
+            reasoningBlocks: [{ provider: Provider.Anthropic, data: thinking }]
+          }
+        ]
+      }
+      const result = mapper.mapToProviderParams(params)
+      expect(result.messages[1]!.content).toEqual([
+        thinking,
+        redacted,
+        { type: 'tool_use', id: 't1', name: 'get_weather', input: {} }
+      ])
+      expect(result.messages[3]!.content).toEqual([thinking, { type: 'text', text: 'Sunny.' }])
+    })
+
+    it('[Medium] should map cache breakpoints to cache_control', () => {
+      const ephemeral = { type: 'ephemeral' }
+      const params: GenerateParams = {
+        ...baseParams,
+        messages: [
+          { role: 'system', content: 'Long instructions', cacheBreakpoint: true },
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: 'Long document', cacheBreakpoint: true },
+              { type: 'text', text: 'Summarize it.' }
+            ]
+          },
+          { role: 'assistant', content: 'Summary.' },
+          { role: 'user', content: 'Shorter?', cacheBreakpoint: true }
+        ]
+      }
+      const result = mapper.mapToProviderParams(params)
+      expect(result.system).toEqual([{ type: 'text', text: 'Long instructions', cache_control: ephemeral }])
+      expect(result.messages[0]!.content).toEqual([
+        { type: 'text', text: 'Long document', cache_control: ephemeral },
+        { type: 'text', text: 'Summarize it.' }
+      ])
+      expect(result.messages[1]!.content).toBe('Summary.')
+      expect(result.messages[2]!.content).toEqual([{ type: 'text', text: 'Shorter?', cache_control: ephemeral }])
+    })
+
+    it('[Medium] should force a tool call for a responseFormat schema', () => {
+      const schema = { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] }
+      const params: GenerateParams = {
+        ...baseParams,
+        responseFormat: { type: 'json_object', schema, description: 'The person mentioned' }
+      }
+      const result = mapper.mapToProviderParams(params)
+      expect(result.tools).toEqual([
+        { name: STRUCTURED_OUTPUT_TOOL, description: 'The person mentioned', input_schema: schema }
+      ])
+      expect(result.tool_choice).toEqual({ type: 'tool', name: STRUCTURED_OUTPUT_TOOL })
+      expect(() =>
+        mapper.mapToProviderParams({
+          ...params,
+          tools: [{ type: 'function', function: { name: 'get_weather', parameters: { type: 'object' } } }]
+        })
+      ).toThrow(UnsupportedFeatureError)
+    })
+
     it('[Medium] should throw MappingError for multiple system messages', () => {
       const params: GenerateParams = {
         ...baseParams,
@@ -512,6 +649,40 @@ describe('Anthropic Mapper', () => {
       expect(result.finishReason).toBe('stop')
     })
 
+    it('[Medium] should keep every thinking and redacted thinking block as a reasoning block', () => {
+      const thinking = { type: 'thinking' as const, thinking: 'First.', signature: 'sig-1' }
+      const redacted = { type: 'redacted_thinking' as const, data: 'encrypted' }
+      const later = { type: 'thinking' as const, thinking: 'Second.', signature: 'sig-2' }
+      const response = createMockAnthropicMessage(
+        [thinking, redacted, later, createMockToolUseBlock('t1', 'get_weather', {})],
+        'tool_use',
+        { input_tokens: 10, output_tokens: 5 },
+        modelUsed
+      )
+      const result = mapper.mapFromProviderResponse(response, modelUsed)
+      expect(result.thinkingSteps).toBe('First.\nSecond.')
+      expect(result.reasoningBlocks).toEqual([
+        { provider: Provider.Anthropic, data: thinking },
+        { provider: Provider.Anthropic, data: redacted },
+        { provider: Provider.Anthropic, data: later }
+      ])
+    })
+
+    it('[Medium] should return the structured output tool input as JSON content', () => {
+      const response = createMockAnthropicMessage(
+        [createMockToolUseBlock('toolu_json', STRUCTURED_OUTPUT_TOOL, { name: 'Ada' })],
+        'tool_use',
+        { input_tokens: 10, output_tokens: 5 }
+      )
+      const result = mapper.mapFromProviderResponse(response, modelUsed)
+      expect(result).toMatchObject({
+        content: '{"name":"Ada"}',
+        parsedContent: { name: 'Ada' },
+        toolCalls: undefined,
+        finishReason: 'stop'
+      })
+    })
+
     it('[Medium] should handle response with only tool calls (no text)', () => {
       const response = createMockAnthropicMessage(
         [createMockToolUseBlock('toolu_xyz', 'another_tool', {})],
@@ -582,6 +753,29 @@ describe('Anthropic Mapper', () => {
       )
     })
 
+    it('[Medium] should keep the prompt cache usage of message_start', async () => {
+      const messageStart: Anthropic.Messages.MessageStartEvent = {
+        ...baseMessageStart,
+        message: {
+          ...baseMessageStart.message,
+          usage: { input_tokens: 10, output_tokens: 0, cache_creation_input_tokens: 0, cache_read_input_tokens: 90 }
+        }
+      }
+      const events: RawMessageStreamEvent[] = [
+        messageStart,
+        { type: 'message_delta', delta: { stop_reason: 'end_turn', stop_sequence: null }, usage: { output_tokens: 2 } },
+        { type: 'message_stop' }
+      ]
+
+      const results = await collectStreamChunks(mapper.mapProviderStream(mockAnthropicStreamGenerator(events)))
+
+      expect(results.find(chunk => chunk.type === 'final_usage')).toMatchObject({
+        data: {
+          usage: { promptTokens: 100, completionTokens: 2, totalTokens: 102, cacheReadTokens: 90, cacheWriteTokens: 0 }
+        }
+      })
+    })
+
     it('[Medium] should handle stream ending with max_tokens', async () => {
       const events: RawMessageStreamEvent[] = [
         baseMessageStart,
@@ -650,6 +844,36 @@ describe('Anthropic Mapper', () => {
       ])
     })
 
+    it('[Hard] should stream the structured output tool input as JSON', async () => {
+      const events: RawMessageStreamEvent[] = [
+        baseMessageStart,
+        {
+          type: 'content_block_start',
+          index: 0,
+          content_block: { type: 'tool_use', id: 'toolu_json', name: STRUCTURED_OUTPUT_TOOL, input: {} }
+        },
+        { type: 'content_block_delta', index: 0, delta: { type: 'input_json_delta', partial_json: '{"name":' } },
+        { type: 'content_block_delta', index: 0, delta: { type: 'input_json_delta', partial_json: ' "Ada"}' } },
+        { type: 'content_block_stop', index: 0 },
+        { type: 'message_delta', delta: { stop_reason: 'tool_use', stop_sequence: null }, usage: { output_tokens: 5 } },
+        { type: 'message_stop' }
+      ]
+
+      const results = await collectStreamChunks(mapper.mapProviderStream(mockAnthropicStreamGenerator(events)))
+
+      expect(results.slice(1, 5)).toEqual([
+        { type: 'json_delta', data: { delta: '{"name":', parsed: undefined, snapshot: '{"name":' } },
+        { type: 'json_delta', data: { delta: ' "Ada"}', parsed: { name: 'Ada' }, snapshot: '{"name": "Ada"}' } },
+        { type: 'json_done', data: { parsed: { name: 'Ada' }, snapshot: '{"name": "Ada"}' } },
+        { type: 'message_stop', data: { finishReason: 'stop' } }
+      ])
+      expect((results[results.length - 1] as any).data.result).toMatchObject({
+        content: '{"name": "Ada"}',
+        parsedContent: { name: 'Ada' },
+        toolCalls: undefined
+      })
+    })
+
     it('[Hard] should handle thinking steps streaming', async () => {
       const events: RawMessageStreamEvent[] = [
         baseMessageStart,
@@ -681,6 +905,35 @@ describe('Anthropic Mapper', () => {
       expect(finalResult.thinkingSteps).toBe('Step 1...Step 2.')
     })
 
+    it('[Hard] should aggregate streamed thinking blocks with their signatures into reasoning blocks', async () => {
+      const events: RawMessageStreamEvent[] = [
+        baseMessageStart,
+        { type: 'content_block_start', index: 0, content_block: { type: 'thinking', thinking: '', signature: '' } },
+        { type: 'content_block_delta', index: 0, delta: { type: 'thinking_delta', thinking: 'Step 1.' } },
+        { type: 'content_block_delta', index: 0, delta: { type: 'signature_delta', signature: 'sig-1' } },
+        { type: 'content_block_stop', index: 0 },
+        { type: 'content_block_start', index: 1, content_block: { type: 'redacted_thinking', data: 'encrypted' } },
+        { type: 'content_block_stop', index: 1 },
+        {
+          type: 'content_block_start',
+          index: 2,
+          content_block: { type: 'tool_use', id: 't1', name: 'get_weather', input: {} }
+        },
+        { type: 'content_block_stop', index: 2 },
+        { type: 'message_delta', delta: { stop_reason: 'tool_use', stop_sequence: null }, usage: { output_tokens: 3 } },
+        { type: 'message_stop' }
+      ]
+
+      const results = await collectStreamChunks(mapper.mapProviderStream(mockAnthropicStreamGenerator(events)))
+
+      const finalResult = (results[results.length - 1] as any).data.result
+      expect(finalResult.reasoningBlocks).toEqual([
+        { provider: Provider.Anthropic, data: { type: 'thinking', thinking: 'Step 1.', signature: 'sig-1' } },
+        { provider: Provider.Anthropic, data: { type: 'redacted_thinking', data: 'encrypted' } }
+      ])
+      expect(finalResult.toolCalls).toHaveLength(1)
+    })
+
     it('[Hard] should handle stream error', async () => {
       const apiError = new Anthropic.APIError(
         500,
@@ -152,7 +152,7 @@ describe('Azure OpenAI Mapper (V2)', () => {
   })
 
   it('[Easy] should have the correct provider property', () => {
-    expect(mapper.provider).toBe(Provider.OpenAI)
+    expect(mapper.provider).toBe(Provider.AzureOpenAI)
   })
 
   describe('mapToProviderParams (Generate)', () => {
@@ -201,6 +201,19 @@ describe('Azure OpenAI Mapper (V2)', () => {
       expect(result.model).toBe('provider-chat-deploy')
     })
 
+    it('[Easy] should prefer providerOptions keyed by the Azure provider over the legacy OpenAI key', () => {
+      const configWithProviderOpts: RosettaAIConfig = {
+        ...baseConfig,
+        providerOptions: {
+          [Provider.AzureOpenAI]: { azureChatDeploymentId: 'azure-keyed-deploy' },
+          [Provider.OpenAI]: { azureChatDeploymentId: 'provider-chat-deploy' }
+        }
+      }
+      const mapperWithOptions = new AzureOpenAIMapper(configWithProviderOpts)
+      const result = mapperWithOptions.mapToProviderParams(baseGenerateParams)
+      expect(result.model).toBe('azure-keyed-deploy')
+    })
+
     it('[Easy] should use deployment ID from params (overriding providerOptions and config)', () => {
       const configWithProviderOpts: RosettaAIConfig = {
         ...baseConfig,
@@ -217,6 +230,19 @@ describe('Azure OpenAI Mapper (V2)', () => {
       expect(result.model).toBe('param-chat-deploy')
     })
 
+    it('[Easy] should use the model as the deployment ID (overriding providerOptions and config)', () => {
+      const mapperWithOptions = new AzureOpenAIMapper({
+        ...baseConfig,
+        providerOptions: { [Provider.AzureOpenAI]: { azureChatDeploymentId: 'provider-chat-deploy' } }
+      })
+      const params: GenerateParams = { ...baseGenerateParams, model: 'listed-chat-deploy' }
+      expect(mapperWithOptions.mapToProviderParams(params).model).toBe('listed-chat-deploy')
+      expect(
+        mapperWithOptions.mapToProviderParams({ ...params, providerOptions: { azureChatDeploymentId: 'param-deploy' } })
+          .model
+      ).toBe('param-deploy')
+    })
+
     it('[Easy] should map toolChoice: none, auto, required', () => {
       const paramsNone: GenerateParams = { ...baseGenerateParams, toolChoice: 'none' }
       const paramsAuto: GenerateParams = { ...baseGenerateParams, toolChoice: 'auto' }
@@ -342,13 +368,21 @@ describe('Azure OpenAI Mapper (V2)', () => {
       })
     })
 
-    it('[Medium] should throw UnsupportedFeatureError for thinking/grounding', () => {
-      const paramsThinking: GenerateParams = { ...baseGenerateParams, thinking: true }
+    it('[Medium] should throw UnsupportedFeatureError for grounding', () => {
       const paramsGrounding: GenerateParams = { ...baseGenerateParams, grounding: { enabled: true } }
-      expect(() => mapper.mapToProviderParams(paramsThinking)).toThrow(UnsupportedFeatureError)
       expect(() => mapper.mapToProviderParams(paramsGrounding)).toThrow(UnsupportedFeatureError)
     })
 
+    it('[Medium] should map reasoning to reasoning_effort and max_completion_tokens', () => {
+      const result = mapper.mapToProviderParams({
+        ...baseGenerateParams,
+        maxTokens: 500,
+        reasoning: { effort: 'high' }
+      })
+      expect(result).toMatchObject({ reasoning_effort: 'high', max_completion_tokens: 500 })
+      expect(result.max_tokens).toBeUndefined()
+    })
+
     it('[Hard] should map complex message history', () => {
       const params: GenerateParams = {
         ...baseGenerateParams,
@@ -443,6 +477,15 @@ describe('Azure OpenAI Mapper (V2)', () => {
       expect(result.model).toBe('param-embed-deploy')
     })
 
+    it('[Easy] should use the model as the deployment ID (overriding providerOptions and config)', () => {
+      const mapperWithOptions = new AzureOpenAIMapper({
+        ...baseConfig,
+        providerOptions: { [Provider.AzureOpenAI]: { azureEmbeddingDeploymentId: 'provider-embed-deploy' } }
+      })
+      const result = mapperWithOptions.mapToEmbedParams({ ...baseEmbedParams, model: 'listed-embed-deploy' })
+      expect(result.model).toBe('listed-embed-deploy')
+    })
+
     it('[Easy] should map encodingFormat: base64', () => {
       const params: EmbedParams = { ...baseEmbedParams, encodingFormat: 'base64' }
       const result = mapper.mapToEmbedParams(params)
@@ -498,7 +541,7 @@ describe('Azure OpenAI Mapper (V2)', () => {
       }
       // FIX: Check the correct mock function
       expect(mockMapOpenAIStream).toHaveBeenCalledTimes(1)
-      expect(mockMapOpenAIStream).toHaveBeenCalledWith(mockStream, Provider.OpenAI) // Pass provider
+      expect(mockMapOpenAIStream).toHaveBeenCalledWith(mockStream, Provider.AzureOpenAI) // Pass provider
       expect(results).toHaveLength(4)
       expect(results[0].type).toBe('message_start')
       expect(results[3].type).toBe('message_stop')
@@ -1,4 +1,12 @@
-import { mapTokenUsage, mapBaseParams, mapBaseToolChoice } from '../../../../src/core/mapping/common.utils'
+import {
+  mapTokenUsage,
+  mapBaseParams,
+  mapBaseToolChoice,
+  mapReasoningOptions,
+  mapReasoningBudget,
+  mapReasoningEffort,
+  hasCacheBreakpoint
+} from '../../../../src/core/mapping/common.utils'
 import { GenerateParams, TokenUsage } from '../../../../src/types'
 
 describe('Common Mapping Utilities', () => {
@@ -43,11 +51,37 @@ describe('Common Mapping Utilities', () => {
         promptTokens: 5,
         completionTokens: 10,
         totalTokens: 15,
-        cachedContentTokenCount: 3
+        cachedContentTokenCount: 3,
+        cacheReadTokens: 3
       }
       expect(mapTokenUsage(providerUsage)).toEqual(expected)
     })
 
+    it('[Medium] should map prompt cache reads and writes, adding Anthropic cache tokens to the prompt tokens', () => {
+      expect(
+        mapTokenUsage({
+          input_tokens: 10,
+          output_tokens: 5,
+          cache_read_input_tokens: 100,
+          cache_creation_input_tokens: 50
+        })
+      ).toMatchObject({
+        promptTokens: 160,
+        completionTokens: 5,
+        totalTokens: 165,
+        cacheReadTokens: 100,
+        cacheWriteTokens: 50
+      })
+      expect(
+        mapTokenUsage({
+          prompt_tokens: 110,
+          completion_tokens: 5,
+          total_tokens: 115,
+          prompt_tokens_details: { cached_tokens: 100 }
+        })
+      ).toMatchObject({ promptTokens: 110, totalTokens: 115, cacheReadTokens: 100 })
+    })
+
     it('[Easy] should return undefined for null or undefined input', () => {
       expect(mapTokenUsage(null)).toBeUndefined()
       expect(mapTokenUsage(undefined)).toBeUndefined()
@@ -207,4 +241,36 @@ describe('Common Mapping Utilities', () => {
       warnSpy.mockRestore()
     })
   })
+
+  describe('reasoning', () => {
+    const base: GenerateParams = { provider: 'openai', messages: [] }
+
+    it('[Easy] should resolve reasoning, or the deprecated thinking flag as a 1024-token budget', () => {
+      expect(mapReasoningOptions(base)).toBeUndefined()
+      expect(mapReasoningOptions({ ...base, thinking: true })).toEqual({ budgetTokens: 1024 })
+      expect(mapReasoningOptions({ ...base, thinking: true, reasoning: { effort: 'high' } })).toEqual({
+        effort: 'high'
+      })
+    })
+
+    it('[Easy] should map effort and budget to each other', () => {
+      expect(mapReasoningBudget({})).toBe(4096)
+      expect(mapReasoningBudget({ effort: 'high' })).toBe(16384)
+      expect(mapReasoningBudget({ effort: 'high', budgetTokens: 2000 })).toBe(2000)
+      expect(mapReasoningEffort({})).toBe('medium')
+      expect(mapReasoningEffort({ budgetTokens: 1024 })).toBe('low')
+      expect(mapReasoningEffort({ budgetTokens: 1025 })).toBe('medium')
+      expect(mapReasoningEffort({ budgetTokens: 50000 })).toBe('high')
+    })
+  })
+
+  describe('hasCacheBreakpoint', () => {
+    it('[Easy] should find breakpoints on messages and content parts', () => {
+      expect(hasCacheBreakpoint({ role: 'user', content: 'Hi' })).toBe(false)
+      expect(hasCacheBreakpoint({ role: 'user', content: 'Hi', cacheBreakpoint: true })).toBe(true)
+      expect(
+        hasCacheBreakpoint({ role: 'user', content: [{ type: 'text', text: 'Doc', cacheBreakpoint: true }] })
+      ).toBe(true)
+    })
+  })
 })
@@ -30,7 +30,8 @@ describe('Google Embed Mapper', () => {
         promptTokens: undefined,
         completionTokens: undefined,
         totalTokens: 10,
-        cachedContentTokenCount: 2
+        cachedContentTokenCount: 2,
+        cacheReadTokens: 2
       }
       const result = mapFromGoogleEmbedResponse(response, modelUsed)
       expect(result.embeddings).toEqual([[0.1, 0.2, 0.3]])
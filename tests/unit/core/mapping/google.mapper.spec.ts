@@ -251,6 +251,50 @@ describe('Google Mapper', () => {
       ])
     })
 
+    it('[Medium] should convert standard JSON Schema tool parameters to Google schemas', () => {
+      const params: GenerateParams = {
+        ...baseParams,
+        messages: [{ role: 'user', content: 'Use the tool.' }],
+        tools: [
+          {
+            type: 'function',
+            function: {
+              name: 'get_weather',
+              parameters: {
+                type: 'object',
+                properties: { location: { type: 'string' }, unit: { anyOf: [{ enum: ['c', 'f'] }, { type: 'null' }] } },
+                required: ['location'],
+                additionalProperties: false
+              }
+            }
+          }
+        ]
+      }
+      const { googleMappedParams } = mapper.mapToProviderParams(params)
+      const result = googleMappedParams as GenerateContentRequest
+      expect((result.tools![0] as FunctionDeclarationsTool).functionDeclarations![0]!.parameters).toEqual({
+        type: 'object',
+        properties: {
+          location: { type: 'string' },
+          unit: { type: 'string', format: 'enum', enum: ['c', 'f'], nullable: true }
+        },
+        required: ['location']
+      })
+    })
+
+    it('[Medium] should omit parameters from declarations of tools without parameters', () => {
+      const params: GenerateParams = {
+        ...baseParams,
+        messages: [{ role: 'user', content: 'What time is it?' }],
+        tools: [{ type: 'function', function: { name: 'get_time', parameters: { type: 'object', properties: {} } } }]
+      }
+      const { googleMappedParams } = mapper.mapToProviderParams(params)
+      const result = googleMappedParams as GenerateContentRequest
+      expect((result.tools![0] as FunctionDeclarationsTool).functionDeclarations).toEqual([
+        { name: 'get_time', description: undefined }
+      ])
+    })
+
     it('[Easy] should map grounding tool', () => {
       const params: GenerateParams = {
         ...baseParams,
@@ -350,22 +394,88 @@ describe('Google Mapper', () => {
       warnSpy.mockRestore()
     })
 
-    it('[Medium] should warn for responseFormat schema presence', () => {
-      const warnSpy = jest.spyOn(console, 'warn').mockImplementation()
+    it('[Medium] should map responseFormat schema to responseSchema', () => {
       const params: GenerateParams = {
         ...baseParams,
         messages: [{ role: 'user', content: 'JSON please.' }],
-        responseFormat: { type: 'json_object', schema: { type: 'object' } }
+        responseFormat: {
+          type: 'json_object',
+          schema: {
+            type: 'object',
+            properties: { name: { type: 'string' }, tags: { type: 'array', items: { type: 'string' } } },
+            required: ['name'],
+            additionalProperties: false
+          }
+        }
       }
       const { googleMappedParams } = mapper.mapToProviderParams(params)
       const result = googleMappedParams as GenerateContentRequest
       expect(result.generationConfig?.responseMimeType).toBe('application/json')
+      expect(result.generationConfig?.responseSchema).toEqual({
+        type: 'object',
+        properties: { name: { type: 'string' }, tags: { type: 'array', items: { type: 'string' } } },
+        required: ['name']
+      })
+    })
+
+    it('[Medium] should map reasoning to a thinking budget', () => {
+      const messages: GenerateParams['messages'] = [{ role: 'user', content: 'Think.' }]
+      const byEffort = mapper.mapToProviderParams({ ...baseParams, messages, reasoning: { effort: 'low' } })
+      expect((byEffort.googleMappedParams as GenerateContentRequest).generationConfig).toMatchObject({
+        thinkingConfig: { thinkingBudget: 1024, includeThoughts: true }
+      })
+
+      const hidden = mapper.mapToProviderParams({
+        ...baseParams,
+        messages,
+        reasoning: { budgetTokens: 0, includeReasoning: false }
+      })
+      expect((hidden.googleMappedParams as GenerateContentRequest).generationConfig).toMatchObject({
+        thinkingConfig: { thinkingBudget: 0, includeThoughts: false }
+      })
+    })
+
+    it('[Medium] should mark the history up to the last cache breakpoint as the cached prefix', () => {
+      const messages: GenerateParams['messages'] = [
+        { role: 'system', content: 'Long instructions', cacheBreakpoint: true },
+        { role: 'user', content: [{ type: 'text', text: 'Long document', cacheBreakpoint: true }] },
+        { role: 'assistant', content: 'Read it.' },
+        { role: 'user', content: 'Summarize it.', cacheBreakpoint: true }
+      ]
+      expect(mapper.mapToProviderParams({ ...baseParams, messages }).cachePrefixLength).toBe(1)
+      expect(mapper.mapToProviderParams({ ...baseParams, messages: [messages[0]!, messages[3]!] })).toMatchObject({
+        isChat: true,
+        cachePrefixLength: 0
+      })
+      expect(
+        mapper.mapToProviderParams({ ...baseParams, messages: messages.slice(2) }).cachePrefixLength
+      ).toBeUndefined()
+    })
+
+    it('[Medium] should warn that a breakpoint on the only message of a single-turn request is ignored', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation()
+      const result = mapper.mapToProviderParams({
+        ...baseParams,
+        messages: [{ role: 'user', content: 'Long document', cacheBreakpoint: true }]
+      })
+      expect(result).toMatchObject({ isChat: false })
+      expect(result.cachePrefixLength).toBeUndefined()
       expect(warnSpy).toHaveBeenCalledWith(
-        'Google JSON mode requested via responseFormat. Ensure schema is described in the prompt. `schema` parameter is ignored for Google GenerationConfig.'
+        'Google can only cache the prompt before the final message; sending the prompt uncached.'
       )
       warnSpy.mockRestore()
     })
 
+    it('[Medium] should reference an existing cached content by name', () => {
+      const result = mapper.mapToProviderParams({
+        ...baseParams,
+        messages: [{ role: 'user', content: 'Summarize it.' }],
+        promptCache: { cachedContentName: 'cachedContents/abc' }
+      })
+      expect(result.googleMappedParams).toMatchObject({ cachedContent: 'cachedContents/abc' })
+      expect(result.cachePrefixLength).toBeUndefined()
+    })
+
     it('[Medium] should map tool result with non-JSON string content', () => {
       const params: GenerateParams = {
         ...baseParams,
@@ -512,6 +622,23 @@ describe('Google Mapper', () => {
       expect(result.citations).toBeUndefined()
     })
 
+    it('[Medium] should map thought parts to thinkingSteps and thought tokens to reasoningTokens', () => {
+      const parts = [{ text: 'Adding up. ', thought: true }, { text: '4' }] as Part[]
+      const response: GenerateContentResponse = {
+        candidates: [createMockCandidate(parts, FinishReason.STOP)],
+        usageMetadata: {
+          promptTokenCount: 10,
+          candidatesTokenCount: 1,
+          totalTokenCount: 31,
+          thoughtsTokenCount: 20
+        } as any
+      }
+      const result = mapper.mapFromProviderResponse(response, modelUsed)
+      expect(result.content).toBe('4')
+      expect(result.thinkingSteps).toBe('Adding up. ')
+      expect(result.usage).toMatchObject({ completionTokens: 21, totalTokens: 31, reasoningTokens: 20 })
+    })
+
     it('[Easy] should map response with tool calls', () => {
       const functionCall: FunctionCall = { name: 'get_weather', args: { location: 'Paris' } }
       const response: GenerateContentResponse = {
@@ -818,6 +945,23 @@ describe('Google Mapper', () => {
       )
     })
 
+    it('[Hard] should stream thought parts as thinking chunks', async () => {
+      const mockChunks: GenerateContentResponse[] = [
+        { candidates: [createMockCandidate([{ text: 'Hmm.', thought: true } as Part], null)] },
+        { candidates: [createMockCandidate([{ text: 'Done' }], FinishReason.STOP)] }
+      ]
+      const results = await collectStreamChunks(mapper.mapProviderStream(mockGoogleStreamGenerator(mockChunks)))
+
+      expect(results.slice(1, 5)).toEqual([
+        { type: 'thinking_start' },
+        { type: 'thinking_delta', data: { delta: 'Hmm.' } },
+        { type: 'thinking_stop' },
+        { type: 'content_delta', data: { delta: 'Done' } }
+      ])
+      const final = results[results.length - 1] as Extract<StreamChunk, { type: 'final_result' }>
+      expect(final.data.result).toMatchObject({ content: 'Done', thinkingSteps: 'Hmm.' })
+    })
+
     it('[Hard] should handle stream with tool call', async () => {
       const toolName = 'stream_tool'
       const mockChunks: GenerateContentResponse[] = [
@@ -0,0 +1,128 @@
+import { SchemaType } from '@google/generative-ai'
+import { mapToGoogleSchema, mapToGoogleFunctionParameters } from '../../../../src/core/mapping/google.schema'
+import { MappingError } from '../../../../src/errors'
+
+describe('Google Schema Mapping', () => {
+  it('should convert standard JSON Schema and drop keywords Google does not know', () => {
+    const schema = {
+      $schema: 'http://json-schema.org/draft-07/schema#',
+      type: 'object',
+      properties: {
+        email: { type: 'string', format: 'email', minLength: 3, description: 'Contact address' },
+        when: { type: 'string', format: 'date-time' },
+        unit: { type: 'string', enum: ['celsius', 'fahrenheit'] },
+        days: { type: 'integer', minimum: 1 },
+        tags: { type: 'array', items: { type: 'string' }, maxItems: 3 }
+      },
+      required: ['email', 'unknown'],
+      additionalProperties: false
+    }
+
+    expect(mapToGoogleFunctionParameters(schema, 'book')).toEqual({
+      type: SchemaType.OBJECT,
+      properties: {
+        email: { type: SchemaType.STRING, description: 'Contact address' },
+        when: { type: SchemaType.STRING, format: 'date-time' },
+        unit: { type: SchemaType.STRING, format: 'enum', enum: ['celsius', 'fahrenheit'] },
+        days: { type: SchemaType.INTEGER },
+        tags: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING }, maxItems: 3 }
+      },
+      required: ['email']
+    })
+  })
+
+  it('should map nullable alternatives and type arrays to nullable', () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        note: { anyOf: [{ type: 'string', description: 'A note' }, { type: 'null' }] },
+        count: { type: ['integer', 'null'] },
+        mode: { enum: ['fast', null] }
+      }
+    }
+
+    expect(mapToGoogleSchema(schema, "tool 'x'")).toEqual({
+      type: SchemaType.OBJECT,
+      properties: {
+        note: { type: SchemaType.STRING, description: 'A note', nullable: true },
+        count: { type: SchemaType.INTEGER, nullable: true },
+        mode: { type: SchemaType.STRING, format: 'enum', enum: ['fast'], nullable: true }
+      }
+    })
+  })
+
+  it('should inline $ref definitions', () => {
+    const schema = {
+      type: 'object',
+      properties: { from: { $ref: '#/$defs/place' }, to: { $ref: '#/definitions/place', description: 'Arrival' } },
+      $defs: { place: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] } },
+      definitions: { place: { type: 'object', properties: { city: { type: 'string' } } } }
+    }
+
+    expect(mapToGoogleSchema(schema, "tool 'x'")).toEqual({
+      type: SchemaType.OBJECT,
+      properties: {
+        from: { type: SchemaType.OBJECT, properties: { city: { type: SchemaType.STRING } }, required: ['city'] },
+        to: { type: SchemaType.OBJECT, description: 'Arrival', properties: { city: { type: SchemaType.STRING } } }
+      }
+    })
+  })
+
+  it('should accept schemas already in Google upper-case types', () => {
+    expect(mapToGoogleSchema({ type: 'STRING' }, "tool 'x'")).toEqual({ type: SchemaType.STRING })
+  })
+
+  it.each([
+    [
+      { anyOf: [{ type: 'string' }, { type: 'number' }] },
+      "Unsupported 'anyOf' with 2 non-null alternatives at '#.properties.value'"
+    ],
+    [{ type: ['string', 'number'] }, "Unsupported union type [string, number] at '#.properties.value'"],
+    [
+      { $ref: '#/$defs/node' },
+      "Recursive $ref '#/$defs/node' cannot be inlined at '#.properties.value.properties.next'"
+    ],
+    [{ $ref: 'https://example.com/schema' }, "Unsupported $ref 'https://example.com/schema'"],
+    [{ enum: [1, 2] }, "Unsupported 'enum' of non-string values"],
+    [{ type: 'array' }, "Array schema without 'items' is not supported"],
+    [{}, "Schema without a type is not supported at '#.properties.value' in tool 'calc'"]
+  ])('should throw a MappingError naming unsupported constructs (%j)', (value, message) => {
+    const schema = {
+      type: 'object',
+      properties: { value },
+      $defs: { node: { type: 'object', properties: { next: { $ref: '#/$defs/node' } } } }
+    }
+
+    expect(() => mapToGoogleFunctionParameters(schema, 'calc')).toThrow(MappingError)
+    expect(() => mapToGoogleFunctionParameters(schema, 'calc')).toThrow(message)
+  })
+
+  it('should return no parameters for tools without properties', () => {
+    expect(mapToGoogleFunctionParameters({ type: 'object' }, 'ping')).toBeUndefined()
+    expect(
+      mapToGoogleFunctionParameters({ type: 'object', properties: {}, additionalProperties: false }, 'ping')
+    ).toBeUndefined()
+    expect(mapToGoogleSchema({ type: 'object', properties: { options: { type: 'object' } } }, 'test')).toEqual({
+      type: SchemaType.OBJECT,
+      properties: { options: { type: SchemaType.OBJECT } }
+    })
+  })
+
+  it('should reject map objects that would have no properties', () => {
+    const schema = {
+      type: 'object',
+      properties: { scores: { type: 'object', additionalProperties: { type: 'number' } } }
+    }
+
+    expect(() => mapToGoogleFunctionParameters(schema, 'rank')).toThrow(MappingError)
+    expect(() => mapToGoogleFunctionParameters(schema, 'rank')).toThrow(
+      "Unsupported map object ('additionalProperties' without 'properties') at '#.properties.scores' in tool 'rank'."
+    )
+  })
+
+  it('should reject tool parameters that are not an object schema', () => {
+    expect(() => mapToGoogleFunctionParameters({ type: 'string' }, 'calc')).toThrow(
+      "Invalid parameters schema for tool calc. Expected an object schema, got 'string'."
+    )
+  })
+})
@@ -244,12 +244,13 @@ describe('Groq Mapper', () => {
       expect(result.stream).toBe(true)
     })
 
-    it('[Easy] should throw error for unsupported features (thinking)', () => {
-      const paramsThinking: GenerateParams = { ...baseParams, thinking: true }
-      expect(() => mapper.mapToProviderParams(paramsThinking)).toThrow(UnsupportedFeatureError)
-      expect(() => mapper.mapToProviderParams(paramsThinking)).toThrow(
-        "Provider 'groq' does not support the requested feature: Thinking steps"
-      )
+    it('[Easy] should map reasoning to the reasoning format and effort', () => {
+      const parsed = mapper.mapToProviderParams({ ...baseParams, reasoning: { effort: 'low' } })
+      expect(parsed).toMatchObject({ reasoning_format: 'parsed', reasoning_effort: 'low' })
+
+      const hidden = mapper.mapToProviderParams({ ...baseParams, reasoning: { includeReasoning: false } })
+      expect(hidden).toMatchObject({ reasoning_format: 'hidden' })
+      expect(hidden).not.toHaveProperty('reasoning_effort')
     })
 
     it('[Easy] should throw error for unsupported features (grounding)', () => {
@@ -464,6 +465,26 @@ describe('Groq Mapper', () => {
       expect(result.model).toBe('llama3-8b-8192-test-id')
     })
 
+    it('[Easy] should map parsed reasoning to thinkingSteps', () => {
+      const response: Groq.Chat.Completions.ChatCompletion = {
+        id: 'chat_124',
+        object: 'chat.completion',
+        created: 1700000000,
+        model: 'qwen-qwq-32b',
+        choices: [
+          {
+            index: 0,
+            message: { role: 'assistant', content: '4', reasoning: '2 + 2 is 4.' },
+            finish_reason: 'stop',
+            logprobs: null
+          }
+        ]
+      }
+      const result = mapper.mapFromProviderResponse(response, modelUsed)
+      expect(result.content).toBe('4')
+      expect(result.thinkingSteps).toBe('2 + 2 is 4.')
+    })
+
     it('[Easy] should map response with tool calls', () => {
       const toolCalls: Groq.Chat.Completions.ChatCompletionMessageToolCall[] = [
         { id: 'call_abc', type: 'function', function: { name: 'get_info', arguments: '{"id": 1}' } }
@@ -697,6 +718,33 @@ describe('Groq Mapper', () => {
     const modelId = 'llama3-stream-test'
     const baseChunkProps = { id: 'chatcmpl-123', object: 'chat.completion.chunk' as const, created: 1700000000 }
 
+    it('[Hard] should stream parsed reasoning as thinking chunks', async () => {
+      const mockChunks: ChatCompletionChunk[] = [
+        {
+          ...baseChunkProps,
+          model: modelId,
+          choices: [
+            { index: 0, delta: { role: 'assistant', reasoning: 'Adding.' }, logprobs: null, finish_reason: null }
+          ]
+        },
+        {
+          ...baseChunkProps,
+          model: modelId,
+          choices: [{ index: 0, delta: { content: '4' }, logprobs: null, finish_reason: 'stop' }]
+        }
+      ]
+      const results = await collectStreamChunks(mapper.mapProviderStream(mockGroqStreamGenerator(mockChunks)))
+
+      expect(results.slice(1, 5)).toEqual([
+        { type: 'thinking_start' },
+        { type: 'thinking_delta', data: { delta: 'Adding.' } },
+        { type: 'thinking_stop' },
+        { type: 'content_delta', data: { delta: '4' } }
+      ])
+      const final = results[results.length - 1] as Extract<StreamChunk, { type: 'final_result' }>
+      expect(final.data.result).toMatchObject({ content: '4', thinkingSteps: 'Adding.' })
+    })
+
     it('[Hard] should handle basic text stream', async () => {
       const mockChunks: ChatCompletionChunk[] = [
         {
@@ -195,6 +195,28 @@ describe('OpenAI Common Mapping Utilities', () => {
       expect(result.usage).toEqual({ promptTokens: 10, completionTokens: 5, totalTokens: 15 })
     })
 
+    it('[Medium] should map reasoning tokens in usage', () => {
+      const response: OpenAI.Chat.Completions.ChatCompletion = {
+        id: 'chatcmpl-1',
+        object: 'chat.completion',
+        created: 1,
+        model: 'o3-mini',
+        choices: [{ index: 0, message: createMockMessage('42'), finish_reason: 'stop', logprobs: null }],
+        usage: {
+          prompt_tokens: 10,
+          completion_tokens: 50,
+          total_tokens: 60,
+          completion_tokens_details: { reasoning_tokens: 40 }
+        }
+      }
+      expect(mapFromOpenAIResponse(response, modelUsed).usage).toEqual({
+        promptTokens: 10,
+        completionTokens: 50,
+        totalTokens: 60,
+        reasoningTokens: 40
+      })
+    })
+
     it('[Medium] should map response with tool calls', () => {
       const toolCalls: OpenAI.Chat.Completions.ChatCompletionMessageToolCall[] = [
         { id: 't1', type: 'function', function: { name: 'f1', arguments: '{}' } }
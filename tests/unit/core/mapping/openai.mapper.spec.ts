@@ -11,6 +11,7 @@ import {
   GenerateParams,
   Provider,
   RosettaImageData,
+  RosettaMessage,
   StreamChunk,
   EmbedParams,
   TranscribeParams,
@@ -258,13 +259,40 @@ describe('OpenAI Mapper', () => {
       expect(result.response_format).toEqual({ type: 'json_object' })
     })
 
+    it('[Easy] should map a responseFormat schema to a strict json_schema response format', () => {
+      const schema = { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] }
+      const params: GenerateParams = {
+        ...baseParams,
+        messages: [{ role: 'user', content: 'Return JSON' }],
+        responseFormat: { type: 'json_object', schema, name: 'person', description: 'A person' }
+      }
+      const result = mapper.mapToProviderParams(params)
+      expect(result.response_format).toEqual({
+        type: 'json_schema',
+        json_schema: { name: 'person', description: 'A person', schema, strict: true }
+      })
+    })
+
     it('[Easy] should throw error for unsupported features', () => {
-      const paramsThinking: GenerateParams = { ...baseParams, messages: [], thinking: true }
       const paramsGrounding: GenerateParams = { ...baseParams, messages: [], grounding: { enabled: true } }
-      expect(() => mapper.mapToProviderParams(paramsThinking)).toThrow(UnsupportedFeatureError)
       expect(() => mapper.mapToProviderParams(paramsGrounding)).toThrow(UnsupportedFeatureError)
     })
 
+    it('[Medium] should map reasoning to reasoning_effort and max_completion_tokens', () => {
+      const messages: RosettaMessage[] = [{ role: 'user', content: 'Prove it.' }]
+      const budget = mapper.mapToProviderParams({
+        ...baseParams,
+        messages,
+        maxTokens: 800,
+        reasoning: { budgetTokens: 3000 }
+      })
+      expect(budget).toMatchObject({ reasoning_effort: 'medium', max_completion_tokens: 800 })
+      expect(budget.max_tokens).toBeUndefined()
+
+      const legacy = mapper.mapToProviderParams({ ...baseParams, messages, thinking: true })
+      expect(legacy.reasoning_effort).toBe('low')
+    })
+
     it('[Medium] should map assistant message with both text content and tool calls', () => {
       const params: GenerateParams = {
         ...baseParams,
@@ -0,0 +1,245 @@
+import {
+  RosettaAI,
+  RosettaMiddleware,
+  ProviderRegistration,
+  GenerateParams,
+  GenerateResult,
+  StreamChunk,
+  OperationChunk
+} from '../../../src'
+import { runMiddleware, runStreamMiddleware, applyPayloadTransforms } from '../../../src/core/middleware'
+
+const generateResult: GenerateResult = {
+  content: 'provider result',
+  toolCalls: undefined,
+  finishReason: 'stop',
+  model: 'test-model'
+}
+
+// Minimal custom provider so middleware runs through the real RosettaAI pipeline
+function createTestProvider(): ProviderRegistration {
+  return {
+    provider: 'test',
+    mapper: {
+      provider: 'test',
+      mapToProviderParams: jest.fn((params: GenerateParams) => ({ prompt: params.messages[0]?.content })),
+      mapFromProviderResponse: jest.fn(() => generateResult),
+      mapProviderStream: jest.fn(async function*(stream: AsyncIterable<string>): AsyncIterable<StreamChunk> {
+        for await (const delta of stream) yield { type: 'content_delta', data: { delta } }
+      }),
+      mapToEmbedParams: jest.fn(params => ({ input: params.input })),
+      mapFromEmbedResponse: jest.fn(() => ({ embeddings: [[1]], model: 'embed-model' })),
+      mapToTranscribeParams: jest.fn(),
+      mapFromTranscribeResponse: jest.fn(),
+      mapToTranslateParams: jest.fn(),
+      mapFromTranslateResponse: jest.fn(),
+      wrapProviderError: jest.fn(error => error)
+    } as any,
+    transport: {
+      generate: jest.fn().mockResolvedValue({ raw: true }),
+      stream: jest.fn(async () =>
+        (async function*() {
+          yield 'Hel'
+          yield 'lo'
+        })()
+      ),
+      embed: jest.fn().mockResolvedValue({ raw: true })
+    },
+    capabilities: { chat: true, streaming: true, embeddings: true }
+  }
+}
+
+const baseParams: GenerateParams = {
+  provider: 'test',
+  model: 'test-model',
+  messages: [{ role: 'user', content: 'Hi' }]
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const chunks: T[] = []
+  for await (const chunk of iterable) chunks.push(chunk)
+  return chunks
+}
+
+describe('Middleware', () => {
+  let provider: ProviderRegistration
+  let logSpy: jest.SpyInstance
+
+  beforeEach(() => {
+    provider = createTestProvider()
+    logSpy = jest.spyOn(console, 'log').mockImplementation()
+  })
+
+  afterEach(() => {
+    logSpy.mockRestore()
+  })
+
+  describe('runMiddleware', () => {
+    it('[Easy] should run middleware in order, first being outermost', async () => {
+      const calls: string[] = []
+      const track = (name: string): RosettaMiddleware => ({
+        name,
+        wrapOperation: async (params, _context, next) => {
+          calls.push(`${name}:before`)
+          const result = await next(params)
+          calls.push(`${name}:after`)
+          return result
+        }
+      })
+      const execute = jest.fn(async () => {
+        calls.push('execute')
+        return generateResult
+      })
+
+      await runMiddleware([track('a'), {}, track('b')], baseParams, { operation: 'generate', state: {} }, execute)
+
+      expect(calls).toEqual(['a:before', 'b:before', 'execute', 'b:after', 'a:after'])
+    })
+
+    it('[Easy] should call execute directly without middleware', async () => {
+      const execute = jest.fn().mockResolvedValue(generateResult)
+      await expect(runMiddleware([], baseParams, { operation: 'generate', state: {} }, execute)).resolves.toBe(
+        generateResult
+      )
+      expect(execute).toHaveBeenCalledWith(baseParams)
+    })
+  })
+
+  describe('runStreamMiddleware', () => {
+    it('[Medium] should let middleware transform and drop chunks', async () => {
+      const upperCase: RosettaMiddleware = {
+        async *wrapStream(params, _context, next) {
+          for await (const chunk of next(params)) {
+            if (chunk.type === 'content_delta') {
+              if (chunk.data.delta === 'drop') continue
+              yield { type: 'content_delta', data: { delta: chunk.data.delta.toUpperCase() } }
+            } else {
+              yield chunk
+            }
+          }
+        }
+      }
+      async function* execute(): AsyncIterable<OperationChunk> {
+        yield { type: 'content_delta', data: { delta: 'a' } }
+        yield { type: 'content_delta', data: { delta: 'drop' } }
+        yield { type: 'content_delta', data: { delta: 'b' } }
+      }
+
+      const chunks = await collect(
+        runStreamMiddleware([upperCase], baseParams, { operation: 'stream', state: {} }, execute)
+      )
+
+      expect(chunks).toEqual([
+        { type: 'content_delta', data: { delta: 'A' } },
+        { type: 'content_delta', data: { delta: 'B' } }
+      ])
+    })
+  })
+
+  describe('applyPayloadTransforms', () => {
+    it('[Easy] should chain transforms and keep the payload when a transform returns undefined', async () => {
+      const middleware: RosettaMiddleware[] = [
+        { transformPayload: payload => ({ ...payload, tagged: true }) },
+        { transformPayload: () => undefined },
+        { transformPayload: async payload => ({ ...payload, user: 'abc' }) }
+      ]
+      const result = await applyPayloadTransforms(middleware, { prompt: 'Hi' }, baseParams, {
+        operation: 'generate',
+        state: {}
+      })
+      expect(result).toEqual({ prompt: 'Hi', tagged: true, user: 'abc' })
+    })
+  })
+
+  describe('RosettaAI integration', () => {
+    it('[Medium] should pass modified params, payload and results through the chain', async () => {
+      const middleware: RosettaMiddleware = {
+        wrapOperation: async (params, context, next) => {
+          expect(context.operation).toBe('generate')
+          const redacted = { ...params, messages: [{ role: 'user' as const, content: '[redacted]' }] }
+          const result = (await next(redacted)) as GenerateResult
+          return { ...result, content: `${result.content} (post-processed)` }
+        },
+        transformPayload: payload => ({ ...payload, metadata: { tag: 'team-a' } })
+      }
+      const rosetta = new RosettaAI({ providers: [provider], middleware: [middleware] })
+
+      const resolved = await rosetta.generate(baseParams)
+
+      expect(provider.mapper.mapToProviderParams).toHaveBeenCalledWith(
+        expect.objectContaining({ messages: [{ role: 'user', content: '[redacted]' }], model: 'test-model' })
+      )
+      expect(provider.transport.generate).toHaveBeenCalledWith(
+        { prompt: '[redacted]', metadata: { tag: 'team-a' } },
+        expect.objectContaining({ model: 'test-model' })
+      )
+      expect(resolved.content).toBe('provider result (post-processed)')
+    })
+
+    it('[Medium] should allow short-circuiting without calling the provider', async () => {
+      const cached: GenerateResult = { ...generateResult, content: 'cached' }
+      const rosetta = new RosettaAI({
+        providers: [provider],
+        middleware: [{ wrapOperation: async () => cached }]
+      })
+
+      await expect(rosetta.generate(baseParams)).resolves.toBe(cached)
+      expect(provider.transport.generate).not.toHaveBeenCalled()
+    })
+
+    it('[Medium] should see each stream chunk and share state within a call', async () => {
+      const seen: string[] = []
+      const rosetta = new RosettaAI({
+        providers: [provider],
+        middleware: [
+          {
+            async *wrapStream(params, context, next) {
+              context.state.startedAt = 1
+              for await (const chunk of next(params)) {
+                seen.push(chunk.type)
+                yield chunk
+              }
+            }
+          },
+          {
+            async *wrapStream(params, context, next) {
+              expect(context.state.startedAt).toBe(1)
+              yield* next(params)
+            }
+          }
+        ]
+      })
+
+      const chunks = await collect(rosetta.stream(baseParams))
+
+      expect(chunks).toEqual([
+        { type: 'content_delta', data: { delta: 'Hel' } },
+        { type: 'content_delta', data: { delta: 'lo' } }
+      ])
+      expect(seen).toEqual(['content_delta', 'content_delta'])
+      expect(provider.transport.stream).toHaveBeenCalledWith(
+        { prompt: 'Hi' },
+        expect.objectContaining({ stream: true })
+      )
+    })
+
+    it('[Easy] should wrap embed calls with the embed operation', async () => {
+      const operations: string[] = []
+      const rosetta = new RosettaAI({
+        providers: [provider],
+        middleware: [
+          {
+            wrapOperation: (params, context, next) => {
+              operations.push(context.operation)
+              return next(params)
+            }
+          }
+        ]
+      })
+
+      await rosetta.embed({ provider: 'test', model: 'embed-model', input: 'Hi' })
+
+      expect(operations).toEqual(['embed'])
+    })
+  })
+})
@@ -0,0 +1,76 @@
+import { GoogleChatParams, GoogleContentCache } from '../../../../src/core/providers/google.cache'
+
+describe('GoogleContentCache', () => {
+  const chatParams: GoogleChatParams = {
+    systemInstruction: { role: 'system', parts: [{ text: 'Long instructions' }] },
+    tools: [{ functionDeclarations: [{ name: 'lookup' }] }],
+    history: [
+      { role: 'user', parts: [{ text: 'Long document' }] },
+      { role: 'model', parts: [{ text: 'Read it.' }] }
+    ],
+    generationConfig: { temperature: 0 },
+    contents: [{ text: 'Summarize it.' }]
+  }
+  let warnSpy: jest.SpyInstance
+
+  beforeEach(() => {
+    warnSpy = jest.spyOn(console, 'warn').mockImplementation()
+  })
+
+  afterEach(() => {
+    warnSpy.mockRestore()
+  })
+
+  it('[Medium] should move the prefix into cached content and reuse it for the same prefix', async () => {
+    const create = jest.fn().mockResolvedValue({
+      name: 'cachedContents/abc',
+      expireTime: new Date(Date.now() + 300000).toISOString()
+    })
+    const cache = new GoogleContentCache(create)
+
+    const cached = await cache.apply(chatParams, 'gemini-1.5-flash-001', 1, 600)
+    await cache.apply(chatParams, 'gemini-1.5-flash-001', 1)
+
+    expect(create).toHaveBeenCalledTimes(1)
+    expect(create).toHaveBeenCalledWith({
+      model: 'gemini-1.5-flash-001',
+      systemInstruction: chatParams.systemInstruction,
+      tools: chatParams.tools,
+      contents: [chatParams.history![0]],
+      ttlSeconds: 600
+    })
+    expect(cached).toEqual({
+      history: [chatParams.history![1]],
+      generationConfig: { temperature: 0 },
+      contents: [{ text: 'Summarize it.' }],
+      cachedContent: 'cachedContents/abc'
+    })
+  })
+
+  it('[Medium] should create new cached content when the prefix differs or the cached one expires', async () => {
+    const create = jest
+      .fn()
+      .mockResolvedValueOnce({ name: 'cachedContents/soon', expireTime: new Date(Date.now() + 5000).toISOString() })
+      .mockResolvedValue({ name: 'cachedContents/later' })
+    const cache = new GoogleContentCache(create)
+
+    await cache.apply(chatParams, 'gemini-1.5-flash-001', 1)
+    const renewed = await cache.apply(chatParams, 'gemini-1.5-flash-001', 1)
+    await cache.apply(chatParams, 'gemini-1.5-flash-001', 2)
+
+    expect(renewed.cachedContent).toBe('cachedContents/later')
+    expect(create).toHaveBeenCalledTimes(3)
+  })
+
+  it('[Medium] should send the chat uncached when the cached content cannot be created', async () => {
+    const cache = new GoogleContentCache(jest.fn().mockRejectedValue(new Error('Cached content is too small.')))
+
+    const result = await cache.apply(chatParams, 'gemini-1.5-flash-001', 1)
+
+    expect(result).toBe(chatParams)
+    expect(warnSpy).toHaveBeenCalledWith(
+      'Could not create Google cached content; sending the prompt uncached.',
+      expect.objectContaining({ message: 'Cached content is too small.' })
+    )
+  })
+})
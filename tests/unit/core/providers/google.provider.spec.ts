@@ -0,0 +1,161 @@
+import { GoogleAICacheManager } from '@google/generative-ai/server'
+import { Provider } from '../../../../src'
+import { createGoogleProvider, getGoogleModel } from '../../../../src/core/providers/google.provider'
+
+jest.mock('../../../../src/core/mapping/google.mapper')
+jest.mock('@google/generative-ai/server')
+
+describe('Google Provider', () => {
+  let mockModel: any
+  let mockClient: any
+  let warnSpy: jest.SpyInstance
+
+  beforeEach(() => {
+    mockModel = {
+      generateContent: jest.fn().mockResolvedValue({ response: { raw: 'generate' } }),
+      generateContentStream: jest.fn().mockResolvedValue({ stream: 'generate-stream' }),
+      startChat: jest.fn(),
+      embedContent: jest.fn().mockResolvedValue({ embedding: { values: [1] } }),
+      batchEmbedContents: jest.fn().mockResolvedValue({ embeddings: [] }),
+      countTokens: jest.fn().mockResolvedValue({ totalTokens: 42 })
+    }
+    mockClient = { getGenerativeModel: jest.fn().mockReturnValue(mockModel) }
+    warnSpy = jest.spyOn(console, 'warn').mockImplementation()
+  })
+
+  afterEach(() => {
+    warnSpy.mockRestore()
+  })
+
+  describe('getGoogleModel', () => {
+    it('[Easy] should call getGenerativeModel with modelId and safety settings', () => {
+      const modelInstance = getGoogleModel(mockClient, 'gemini-pro')
+      expect(mockClient.getGenerativeModel).toHaveBeenCalledWith(
+        expect.objectContaining({
+          model: 'gemini-pro',
+          safetySettings: expect.any(Array)
+        }),
+        undefined // No request options
+      )
+      expect(modelInstance).toBe(mockModel)
+    })
+
+    it('[Medium] should pass apiVersion from request options', () => {
+      getGoogleModel(mockClient, 'gemini-pro', { googleApiVersion: 'v1beta' })
+      expect(mockClient.getGenerativeModel).toHaveBeenCalledWith(expect.any(Object), { apiVersion: 'v1beta' })
+    })
+
+    it('[Medium] should pass apiVersion from global options if not in request options', () => {
+      getGoogleModel(mockClient, 'gemini-pro', undefined, { googleApiVersion: 'v1alpha' })
+      expect(mockClient.getGenerativeModel).toHaveBeenCalledWith(expect.any(Object), { apiVersion: 'v1alpha' })
+    })
+
+    it('[Medium] should warn if baseURL is provided (not used by SDK)', () => {
+      getGoogleModel(mockClient, 'gemini-pro', { baseURL: 'http://custom.google' })
+      expect(warnSpy).toHaveBeenCalledWith(
+        'Google provider: Custom baseURL provided but not directly used by the @google/generative-ai SDK constructor. Ensure environment variables (like GOOGLE_API_ENDPOINT) are set if needed.'
+      )
+    })
+  })
+
+  describe('createGoogleProvider', () => {
+    it('[Easy] should register under the Google provider ID with its capabilities', () => {
+      const registration = createGoogleProvider(mockClient, { googleApiKey: 'key' })
+      expect(registration.provider).toBe(Provider.Google)
+      expect(registration.capabilities).toEqual(
+        expect.objectContaining({ chat: true, streaming: true, embeddings: true, grounding: true })
+      )
+      expect(registration.capabilities.transcription).toBeFalsy()
+    })
+
+    it('[Medium] should use global provider options when resolving the model', async () => {
+      const registration = createGoogleProvider(mockClient, {
+        googleApiKey: 'key',
+        providerOptions: { [Provider.Google]: { googleApiVersion: 'v1alpha' } }
+      })
+      await registration.transport.generate!(
+        { googleMappedParams: { contents: [] }, isChat: false },
+        { provider: Provider.Google, model: 'gemini-pro', messages: [] }
+      )
+      expect(mockClient.getGenerativeModel).toHaveBeenCalledWith(expect.objectContaining({ model: 'gemini-pro' }), {
+        apiVersion: 'v1alpha'
+      })
+    })
+
+    it('[Medium] should send chat payloads through startChat', async () => {
+      const mockChat = { sendMessage: jest.fn().mockResolvedValue({ response: { raw: 'chat' } }) }
+      mockModel.startChat.mockReturnValue(mockChat)
+      const registration = createGoogleProvider(mockClient, { googleApiKey: 'key' })
+
+      const response = await registration.transport.generate!(
+        { googleMappedParams: { history: [], contents: [{ text: 'Hi' }] }, isChat: true },
+        { provider: Provider.Google, model: 'gemini-pro', messages: [] }
+      )
+
+      expect(mockModel.startChat).toHaveBeenCalledWith({ history: [] })
+      expect(mockChat.sendMessage).toHaveBeenCalledWith([{ text: 'Hi' }], { signal: undefined })
+      expect(response).toEqual({ raw: 'chat' })
+    })
+
+    it('[Medium] should send the prefix marked by a cache breakpoint as cached content', async () => {
+      const create = jest.fn().mockResolvedValue({ name: 'cachedContents/abc' })
+      ;(GoogleAICacheManager as jest.Mock).mockImplementation(() => ({ create }))
+      const mockChat = { sendMessage: jest.fn().mockResolvedValue({ response: { raw: 'chat' } }) }
+      mockModel.startChat.mockReturnValue(mockChat)
+      mockClient.apiKey = 'key'
+      const registration = createGoogleProvider(mockClient, { googleApiKey: 'key' })
+      const history = [{ role: 'user', parts: [{ text: 'Long document' }] }]
+
+      await registration.transport.generate!(
+        { googleMappedParams: { history, contents: [{ text: 'Summarize it.' }] }, isChat: true, cachePrefixLength: 1 },
+        { provider: Provider.Google, model: 'gemini-1.5-flash-001', messages: [], promptCache: { ttlSeconds: 60 } }
+      )
+
+      expect(GoogleAICacheManager).toHaveBeenCalledWith('key', undefined)
+      expect(create).toHaveBeenCalledWith(expect.objectContaining({ contents: history, ttlSeconds: 60 }))
+      expect(mockModel.startChat).toHaveBeenCalledWith({ history: [], cachedContent: 'cachedContents/abc' })
+    })
+
+    it('[Medium] should return the raw stream for non-chat streaming payloads', async () => {
+      const registration = createGoogleProvider(mockClient, { googleApiKey: 'key' })
+      const stream = await registration.transport.stream!(
+        { googleMappedParams: { contents: [] }, isChat: false },
+        { provider: Provider.Google, model: 'gemini-pro', messages: [] }
+      )
+      expect(stream).toBe('generate-stream')
+    })
+
+    it('[Medium] should count chat payloads as history plus the current turn', async () => {
+      const registration = createGoogleProvider(mockClient, { googleApiKey: 'key' })
+      const history = [{ role: 'user', parts: [{ text: 'Hi' }] }]
+      const systemInstruction = { role: 'system', parts: [{ text: 'Be brief' }] }
+
+      const tokens = await registration.transport.countTokens!(
+        {
+          googleMappedParams: { history, systemInstruction, generationConfig: {}, contents: [{ text: 'Again' }] },
+          isChat: true
+        },
+        { provider: Provider.Google, model: 'gemini-pro', messages: [] }
+      )
+
+      expect(tokens).toBe(42)
+      expect(mockModel.countTokens).toHaveBeenCalledWith(
+        {
+          generateContentRequest: {
+            contents: [...history, { role: 'user', parts: [{ text: 'Again' }] }],
+            systemInstruction,
+            tools: undefined
+          }
+        },
+        { signal: undefined }
+      )
+    })
+
+    it('[Medium] should use batchEmbedContents for batch embedding payloads', async () => {
+      const registration = createGoogleProvider(mockClient, { googleApiKey: 'key' })
+      await registration.transport.embed!({ requests: [] }, { provider: Provider.Google, input: ['a', 'b'] })
+      expect(mockModel.batchEmbedContents).toHaveBeenCalledWith({ requests: [] }, { signal: undefined })
+      expect(mockModel.embedContent).not.toHaveBeenCalled()
+    })
+  })
+})
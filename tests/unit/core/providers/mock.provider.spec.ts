@@ -0,0 +1,103 @@
+import {
+  RosettaAI,
+  ConfigurationError,
+  ProviderAPIError,
+  UnsupportedFeatureError,
+  GenerateParams,
+  StreamChunk
+} from '../../../../src'
+
+const params: GenerateParams = { provider: 'mock', messages: [{ role: 'user', content: 'Hi' }] }
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const chunks: T[] = []
+  for await (const chunk of iterable) chunks.push(chunk)
+  return chunks
+}
+
+describe('Mock provider', () => {
+  it('should serve scripted results in order, completing missing fields', async () => {
+    const toolCall = { id: 'call_1', type: 'function' as const, function: { name: 'lookup', arguments: '{}' } }
+    const client = new RosettaAI({ mock: { generate: [{ toolCalls: [toolCall] }, { content: 'Done.' }] } })
+
+    expect(await client.generate(params)).toEqual({
+      content: null,
+      toolCalls: [toolCall],
+      finishReason: 'tool_calls',
+      model: 'mock-model'
+    })
+    expect(await client.generate(params)).toEqual({ content: 'Done.', finishReason: 'stop', model: 'mock-model' })
+    await expect(client.generate(params)).rejects.toThrow(ConfigurationError)
+  })
+
+  it('should pass the request to scripted functions', async () => {
+    const respond = jest.fn((request: GenerateParams) => ({ content: `Echo: ${request.messages[0]!.content}` }))
+    const client = new RosettaAI({ mock: { generate: [respond] } })
+
+    const result = await client.generate({ ...params, model: 'custom-model' })
+
+    expect(result).toMatchObject({ content: 'Echo: Hi', model: 'custom-model' })
+    expect(respond).toHaveBeenCalledWith(expect.objectContaining({ model: 'custom-model', messages: params.messages }))
+  })
+
+  it('should retry scripted retryable errors like provider errors', async () => {
+    const rateLimited = new ProviderAPIError('Rate limited', 'mock', 429)
+    const client = new RosettaAI({
+      mock: { generate: [{ content: 'First' }, rateLimited, { content: 'Second' }] },
+      retry: { baseDelayMs: 1, jitter: 0 }
+    })
+
+    expect((await client.generate(params)).content).toBe('First')
+    expect((await client.generate(params)).content).toBe('Second')
+
+    const failing = new RosettaAI({ mock: { generate: [rateLimited] }, retry: { maxRetries: 0 } })
+    await expect(failing.generate(params)).rejects.toBe(rateLimited)
+  })
+
+  it('should stream scripted chunk sequences and surface errors within them', async () => {
+    const chunks: StreamChunk[] = [
+      { type: 'message_start', data: { provider: 'mock', model: 'mock-model' } },
+      { type: 'content_delta', data: { delta: 'Hel' } }
+    ]
+    const client = new RosettaAI({ mock: { stream: [[...chunks, new ProviderAPIError('Dropped', 'mock', 400)]] } })
+
+    const streamed = await collect(client.stream(params))
+
+    expect(streamed.slice(0, 2)).toEqual(chunks)
+    expect(streamed[2]).toMatchObject({ type: 'error', data: { error: { statusCode: 400 } } })
+  })
+
+  it('should stream scripted generate results when no stream responses are given', async () => {
+    const client = new RosettaAI({ mock: { generate: [{ content: 'Hello', usage: { totalTokens: 3 } }] } })
+
+    const streamed = await collect(client.stream(params))
+
+    expect(streamed.map(chunk => chunk.type)).toEqual([
+      'message_start',
+      'content_delta',
+      'message_stop',
+      'final_usage',
+      'final_result'
+    ])
+  })
+
+  it('should serve scripted embeddings', async () => {
+    const client = new RosettaAI({ mock: { embed: [[[0.1, 0.2]]] } })
+
+    expect(await client.embed({ provider: 'mock', input: 'Hi' })).toEqual({
+      embeddings: [[0.1, 0.2]],
+      model: 'mock-model'
+    })
+  })
+
+  it('should check requests against the configured capabilities', async () => {
+    const client = new RosettaAI({ mock: { name: 'no-tools', capabilities: { toolUse: false } } })
+    const tools = [{ type: 'function' as const, function: { name: 'lookup', parameters: { type: 'object' } } }]
+
+    await expect(client.generate({ ...params, provider: 'no-tools', tools })).rejects.toThrow(UnsupportedFeatureError)
+  })
+
+  it('should reject a name used by a built-in provider', () => {
+    expect(() => new RosettaAI({ mock: { name: 'openai' } })).toThrow(ConfigurationError)
+  })
+})
@@ -0,0 +1,199 @@
+import http from 'http'
+import { AddressInfo } from 'net'
+import {
+  RosettaAI,
+  Provider,
+  ConfigurationError,
+  ProviderAPIError,
+  UnsupportedFeatureError,
+  StreamChunk
+} from '../../../../src'
+
+interface RecordedRequest {
+  method?: string
+  url?: string
+  headers: http.IncomingHttpHeaders
+  body: any
+}
+
+const chatCompletion = {
+  id: 'chatcmpl-local',
+  object: 'chat.completion',
+  created: 1700000000,
+  model: 'llama3',
+  choices: [{ index: 0, message: { role: 'assistant', content: 'Hello from the stub' }, finish_reason: 'stop' }],
+  usage: { prompt_tokens: 5, completion_tokens: 4, total_tokens: 9 }
+}
+
+const streamChunks = [
+  {
+    id: 'c1',
+    object: 'chat.completion.chunk',
+    created: 1,
+    model: 'llama3',
+    choices: [{ index: 0, delta: { role: 'assistant', content: 'Hel' }, finish_reason: null }]
+  },
+  {
+    id: 'c1',
+    object: 'chat.completion.chunk',
+    created: 1,
+    model: 'llama3',
+    choices: [{ index: 0, delta: { content: 'lo' }, finish_reason: 'stop' }]
+  },
+  {
+    id: 'c1',
+    object: 'chat.completion.chunk',
+    created: 1,
+    model: 'llama3',
+    choices: [],
+    usage: { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 }
+  }
+]
+
+describe('OpenAI-Compatible Provider', () => {
+  let server: http.Server
+  let baseURL: string
+  let requests: RecordedRequest[]
+  let failNextRequest: boolean
+  let logSpy: jest.SpyInstance
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let raw = ''
+      req.on('data', chunk => (raw += chunk))
+      req.on('end', () => {
+        const body = raw ? JSON.parse(raw) : undefined
+        requests.push({ method: req.method, url: req.url, headers: req.headers, body })
+
+        if (failNextRequest) {
+          failNextRequest = false
+          res.writeHead(500, { 'Content-Type': 'application/json' })
+          res.end(JSON.stringify({ error: { message: 'model not loaded', type: 'server_error' } }))
+          return
+        }
+
+        if (req.url === '/v1/chat/completions' && body?.stream) {
+          res.writeHead(200, { 'Content-Type': 'text/event-stream' })
+          for (const chunk of streamChunks) res.write(`data: ${JSON.stringify(chunk)}\n\n`)
+          res.end('data: [DONE]\n\n')
+        } else if (req.url === '/v1/chat/completions') {
+          res.writeHead(200, { 'Content-Type': 'application/json' })
+          res.end(JSON.stringify(chatCompletion))
+        } else if (req.url === '/v1/embeddings') {
+          res.writeHead(200, { 'Content-Type': 'application/json' })
+          res.end(
+            JSON.stringify({
+              object: 'list',
+              data: [{ object: 'embedding', index: 0, embedding: [0.5, 0.25] }],
+              model: body.model,
+              usage: { prompt_tokens: 2, total_tokens: 2 }
+            })
+          )
+        } else if (req.url === '/v1/models') {
+          res.writeHead(200, { 'Content-Type': 'application/json' })
+          res.end(JSON.stringify({ object: 'list', data: [{ id: 'llama3', object: 'model', owned_by: 'library' }] }))
+        } else {
+          res.writeHead(404)
+          res.end()
+        }
+      })
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`
+  })
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  beforeEach(() => {
+    requests = []
+    failNextRequest = false
+    logSpy = jest.spyOn(console, 'log').mockImplementation()
+  })
+
+  afterEach(() => {
+    logSpy.mockRestore()
+  })
+
+  const createClient = (overrides: Record<string, any> = {}): RosettaAI =>
+    new RosettaAI({
+      defaultMaxRetries: 0,
+      openAICompatibleProviders: [{ name: 'local', baseURL, defaultModel: 'llama3', ...overrides }]
+    })
+
+  it('[Easy] should register the endpoint under its name', () => {
+    expect(createClient().getConfiguredProviders()).toContain('local')
+  })
+
+  it('[Easy] should generate through the compatible endpoint using the default model', async () => {
+    const rosetta = createClient({ apiKey: 'local-key' })
+    const result = await rosetta.generate({ provider: 'local', messages: [{ role: 'user', content: 'Hi' }] })
+
+    expect(result.content).toBe('Hello from the stub')
+    expect(result.usage).toEqual({ promptTokens: 5, completionTokens: 4, totalTokens: 9 })
+    expect(requests[0]?.body).toEqual(expect.objectContaining({ model: 'llama3', stream: false }))
+    expect(requests[0]?.headers.authorization).toBe('Bearer local-key')
+  })
+
+  it('[Medium] should stream and report the custom provider ID', async () => {
+    const rosetta = createClient()
+    const chunks: StreamChunk[] = []
+    for await (const chunk of rosetta.stream({ provider: 'local', messages: [{ role: 'user', content: 'Hi' }] })) {
+      chunks.push(chunk)
+    }
+
+    expect(chunks[0]).toEqual({ type: 'message_start', data: { provider: 'local', model: 'llama3' } })
+    const text = chunks
+      .filter(c => c.type === 'content_delta')
+      .map(c => (c.type === 'content_delta' ? c.data.delta : ''))
+      .join('')
+    expect(text).toBe('Hello')
+    expect(chunks.some(c => c.type === 'final_result')).toBe(true)
+  })
+
+  it('[Medium] should embed using the provider default embedding model', async () => {
+    const rosetta = createClient({ defaultEmbeddingModel: 'nomic-embed-text' })
+    const result = await rosetta.embed({ provider: 'local', input: 'Hi', encodingFormat: 'float' })
+
+    expect(result.embeddings).toEqual([[0.5, 0.25]])
+    expect(requests[0]?.body).toEqual(expect.objectContaining({ model: 'nomic-embed-text' }))
+  })
+
+  it('[Medium] should list models from the base URL', async () => {
+    const rosetta = createClient()
+    const models = await rosetta.listModels('local')
+
+    expect(requests[0]?.url).toBe('/v1/models')
+    expect(models.data).toEqual([expect.objectContaining({ id: 'llama3', provider: 'local' })])
+  })
+
+  it('[Medium] should wrap API errors with the custom provider ID', async () => {
+    const rosetta = createClient()
+    failNextRequest = true
+
+    const error = await rosetta
+      .generate({ provider: 'local', messages: [{ role: 'user', content: 'Hi' }] })
+      .catch(e => e)
+
+    expect(error).toBeInstanceOf(ProviderAPIError)
+    expect(error.provider).toBe('local')
+    expect(error.statusCode).toBe(500)
+    expect(error.message).toContain('model not loaded')
+  })
+
+  it('[Medium] should honour capability overrides', async () => {
+    const rosetta = createClient({ capabilities: { embeddings: false } })
+    await expect(rosetta.embed({ provider: 'local', model: 'any', input: 'Hi' })).rejects.toThrow(
+      UnsupportedFeatureError
+    )
+    expect(requests).toHaveLength(0)
+  })
+
+  it('[Easy] should reject names that collide with built-in providers', () => {
+    expect(() => createClient({ name: Provider.OpenAI })).toThrow(ConfigurationError)
+    expect(() => createClient({ name: Provider.OpenAI })).toThrow(
+      "OpenAI-compatible provider name 'openai' is already in use."
+    )
+  })
+})
@@ -0,0 +1,223 @@
+import { RosettaAI, ProviderRegistration, RateLimitEvent, GenerateParams } from '../../../src'
+import { RateLimiter, estimateRequestTokens } from '../../../src/core/rate-limiter'
+
+// Resolves pending promise callbacks without advancing fake time
+const flush = (): Promise<void> => new Promise(resolve => jest.requireActual('timers').setImmediate(resolve))
+
+describe('estimateRequestTokens', () => {
+  it('should count message text at ~4 characters per token plus maxTokens', () => {
+    const params: GenerateParams = {
+      provider: 'openai',
+      messages: [
+        { role: 'system', content: 'x'.repeat(40) },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'y'.repeat(20) },
+            { type: 'image', image: { mimeType: 'image/png', base64Data: 'abc' } }
+          ]
+        }
+      ],
+      maxTokens: 100
+    }
+    expect(estimateRequestTokens(params)).toBe(115)
+  })
+
+  it('should count embedding and speech input', () => {
+    expect(estimateRequestTokens({ provider: 'openai', input: ['abcd', 'efgh'] })).toBe(2)
+    expect(estimateRequestTokens({ provider: 'openai', input: 'abcde', voice: 'alloy' })).toBe(2)
+  })
+})
+
+describe('RateLimiter', () => {
+  beforeEach(() => jest.useFakeTimers())
+  afterEach(() => jest.useRealTimers())
+
+  it('should not limit providers without configured limits', async () => {
+    const onEvent = jest.fn()
+    const limiter = new RateLimiter({}, onEvent)
+
+    const release = await limiter.acquire('openai', 'gpt-4o', 10)
+
+    release()
+    expect(onEvent).not.toHaveBeenCalled()
+  })
+
+  it('should queue requests beyond maxConcurrent until a slot is released', async () => {
+    const events: RateLimitEvent[] = []
+    const limiter = new RateLimiter({ groq: { maxConcurrent: 1 } }, event => events.push(event))
+
+    const releaseFirst = await limiter.acquire('groq', 'llama', 1)
+    let secondAcquired = false
+    const second = limiter.acquire('groq', 'llama', 1).then(release => {
+      secondAcquired = true
+      return release
+    })
+    await flush()
+
+    expect(secondAcquired).toBe(false)
+    expect(events.map(e => e.type)).toEqual(['acquired', 'queued'])
+    expect(events[1]).toMatchObject({ provider: 'groq', model: 'llama', queueLength: 1 })
+
+    jest.advanceTimersByTime(250)
+    releaseFirst()
+    const releaseSecond = await second
+
+    expect(secondAcquired).toBe(true)
+    expect(events[2]).toMatchObject({ type: 'acquired', queueLength: 0, waitMs: 250 })
+    releaseSecond()
+  })
+
+  it('should remove a queued request from the queue when its signal aborts', async () => {
+    const limiter = new RateLimiter({ groq: { maxConcurrent: 1 } })
+    const controller = new AbortController()
+
+    const releaseFirst = await limiter.acquire('groq', 'llama', 1)
+    const aborted = limiter.acquire('groq', 'llama', 1, controller.signal)
+    let thirdAcquired = false
+    const third = limiter.acquire('groq', 'llama', 1).then(release => {
+      thirdAcquired = true
+      return release
+    })
+
+    controller.abort()
+    await aborted
+    await flush()
+    expect(thirdAcquired).toBe(false) // The aborted request never held the slot
+
+    releaseFirst()
+    ;(await third)()
+    expect(thirdAcquired).toBe(true)
+  })
+
+  it('should wait for the sliding window when requestsPerMinute is reached', async () => {
+    const limiter = new RateLimiter({ openai: { requestsPerMinute: 2 } })
+    ;(await limiter.acquire('openai', undefined, 1))()
+    jest.advanceTimersByTime(10 * 1000)
+    ;(await limiter.acquire('openai', undefined, 1))()
+
+    let acquired = false
+    const third = limiter.acquire('openai', undefined, 1).then(release => {
+      acquired = true
+      release()
+    })
+
+    jest.advanceTimersByTime(49 * 1000)
+    await flush()
+    expect(acquired).toBe(false)
+
+    jest.advanceTimersByTime(1000) // First request leaves the window
+    await third
+    expect(acquired).toBe(true)
+  })
+
+  it('should enforce tokensPerMinute but let an oversized request run alone', async () => {
+    const limiter = new RateLimiter({ openai: { tokensPerMinute: 100 } })
+    ;(await limiter.acquire('openai', undefined, 80))()
+
+    let acquired = false
+    const next = limiter.acquire('openai', undefined, 500).then(release => {
+      acquired = true
+      release()
+    })
+    await flush()
+    expect(acquired).toBe(false)
+
+    jest.advanceTimersByTime(60 * 1000)
+    await next
+    expect(acquired).toBe(true)
+  })
+
+  it('should apply model limits in addition to provider limits', async () => {
+    const limiter = new RateLimiter({ openai: { maxConcurrent: 5, models: { 'gpt-4o': { maxConcurrent: 1 } } } })
+    const releaseModel = await limiter.acquire('openai', 'gpt-4o', 1)
+
+    // Other models only share the provider limit
+    const releaseOther = await limiter.acquire('openai', 'gpt-4o-mini', 1)
+
+    let acquired = false
+    const sameModel = limiter.acquire('openai', 'gpt-4o', 1).then(release => {
+      acquired = true
+      release()
+    })
+    await flush()
+    expect(acquired).toBe(false)
+
+    releaseModel()
+    await sameModel
+    expect(acquired).toBe(true)
+    releaseOther()
+  })
+
+  it('should let requests for other models pass a request waiting for its saturated model', async () => {
+    const limiter = new RateLimiter({ openai: { maxConcurrent: 5, models: { 'gpt-4o': { requestsPerMinute: 1 } } } })
+    ;(await limiter.acquire('openai', 'gpt-4o', 1))()
+
+    const order: string[] = []
+    const track = (label: string) => (release: () => void) => {
+      order.push(label)
+      release()
+    }
+    const queued = [
+      limiter.acquire('openai', 'gpt-4o', 1).then(track('gpt-4o second')),
+      limiter.acquire('openai', 'gpt-4o', 1).then(track('gpt-4o third'))
+    ]
+    await limiter.acquire('openai', 'gpt-4o-mini', 1).then(track('gpt-4o-mini'))
+    await flush()
+    expect(order).toEqual(['gpt-4o-mini'])
+
+    jest.advanceTimersByTime(60 * 1000)
+    await queued[0]
+    jest.advanceTimersByTime(60 * 1000)
+    await Promise.all(queued)
+    expect(order).toEqual(['gpt-4o-mini', 'gpt-4o second', 'gpt-4o third'])
+  })
+})
+
+describe('RosettaAI rate limiting', () => {
+  it('should cap concurrent requests and hold stream slots until the stream ends', async () => {
+    let inFlight = 0
+    let maxInFlight = 0
+    const track = async <T>(value: T): Promise<T> => {
+      inFlight++
+      maxInFlight = Math.max(maxInFlight, inFlight)
+      await new Promise(resolve => setTimeout(resolve, 5))
+      inFlight--
+      return value
+    }
+    const provider: ProviderRegistration = {
+      provider: 'test',
+      mapper: {
+        provider: 'test',
+        mapToProviderParams: jest.fn(() => ({})),
+        mapFromProviderResponse: jest.fn(() => ({ content: 'ok', finishReason: 'stop', model: 'm' })),
+        mapProviderStream: jest.fn(async function*() {
+          yield { type: 'content_delta', data: { delta: 'ok' } }
+        }),
+        wrapProviderError: jest.fn(error => error)
+      } as any,
+      transport: {
+        generate: jest.fn(() => track({})),
+        stream: jest.fn(() => track([] as any[])) // The mapper ignores the raw stream
+      },
+      capabilities: { chat: true, streaming: true }
+    }
+    const events: RateLimitEvent[] = []
+    const client = new RosettaAI({
+      providers: [provider],
+      rateLimits: { test: { maxConcurrent: 1 } },
+      onRateLimit: event => events.push(event)
+    })
+    const params: GenerateParams = { provider: 'test', model: 'm', messages: [{ role: 'user', content: 'Hi' }] }
+
+    const stream = client.stream(params)[Symbol.asyncIterator]()
+    await stream.next() // Stream is open and holds the only slot
+    const generation = client.generate(params)
+    await new Promise(resolve => setTimeout(resolve, 20))
+    expect(events.map(e => e.type)).toEqual(['acquired', 'queued'])
+
+    await stream.next() // Stream ends, releasing its slot
+    await expect(generation).resolves.toMatchObject({ content: 'ok' })
+    expect(maxInFlight).toBe(1)
+  })
+})
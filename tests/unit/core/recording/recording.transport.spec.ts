@@ -0,0 +1,139 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+  RosettaAI,
+  ProviderRegistration,
+  RecordingConfig,
+  RecordedExchange,
+  FixtureNotFoundError,
+  StreamChunk
+} from '../../../../src'
+
+// Custom provider whose transport stands in for the network; its mapper reads the raw responses
+function createTestProvider(): ProviderRegistration {
+  return {
+    provider: 'test',
+    mapper: {
+      provider: 'test',
+      mapToProviderParams: jest.fn((params: any) => ({ model: params.model, prompt: params.messages[0].content })),
+      mapFromProviderResponse: jest.fn((response: any, modelId: string) => ({
+        content: response.text,
+        finishReason: 'stop',
+        model: modelId
+      })),
+      mapProviderStream: jest.fn(async function*(stream: AsyncIterable<any>): AsyncIterable<StreamChunk> {
+        for await (const event of stream) yield { type: 'content_delta', data: { delta: event.delta } }
+      }),
+      wrapProviderError: jest.fn(error => error)
+    } as any,
+    transport: {
+      generate: jest.fn().mockResolvedValue({ text: 'Hello!', createdAt: new Date(0) }),
+      stream: jest.fn(async () =>
+        (async function*() {
+          yield { delta: 'Hel' }
+          yield { delta: 'lo!' }
+        })()
+      ),
+      speech: jest.fn().mockResolvedValue({
+        body: (async function*() {
+          yield new Uint8Array([1, 2])
+          yield new Uint8Array([3])
+        })()
+      })
+    },
+    capabilities: { chat: true, streaming: true, textToSpeech: true }
+  }
+}
+
+const params = { provider: 'test', model: 'test-model', messages: [{ role: 'user' as const, content: 'Hi' }] }
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const chunks: T[] = []
+  for await (const chunk of iterable) chunks.push(chunk)
+  return chunks
+}
+
+describe('Recording transport', () => {
+  let directory: string
+  let recording: RecordingConfig
+  let replaying: RecordingConfig
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'rosetta-fixtures-'))
+    recording = { mode: 'record', directory }
+    replaying = { mode: 'replay', directory }
+  })
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true })
+  })
+
+  it('should record the mapped request and raw response, and replay them without calling the provider', async () => {
+    const recorded = await new RosettaAI({ providers: [createTestProvider()], recording }).generate(params)
+
+    const [fixture] = await fs.readdir(path.join(directory, 'test'))
+    const exchange: RecordedExchange = JSON.parse(await fs.readFile(path.join(directory, 'test', fixture!), 'utf8'))
+    expect(exchange).toEqual({
+      provider: 'test',
+      operation: 'generate',
+      model: 'test-model',
+      request: { model: 'test-model', prompt: 'Hi' },
+      response: { text: 'Hello!', createdAt: '1970-01-01T00:00:00.000Z' }
+    })
+
+    const provider = createTestProvider()
+    const replayed = await new RosettaAI({ providers: [provider], recording: replaying }).generate(params)
+    expect(replayed).toEqual(recorded)
+    expect(provider.transport.generate).not.toHaveBeenCalled()
+    expect(provider.mapper.mapFromProviderResponse).toHaveBeenCalledWith(exchange.response, 'test-model')
+  })
+
+  it('should record and replay the raw stream events', async () => {
+    const recorded = await collect(new RosettaAI({ providers: [createTestProvider()], recording }).stream(params))
+
+    const provider = createTestProvider()
+    const replayed = await collect(new RosettaAI({ providers: [provider], recording: replaying }).stream(params))
+    expect(replayed).toEqual(recorded)
+    expect(replayed.map(chunk => chunk.type)).toEqual(['content_delta', 'content_delta'])
+    expect(provider.transport.stream).not.toHaveBeenCalled()
+  })
+
+  it('should record and replay speech audio', async () => {
+    const speechParams = { provider: 'test', model: 'tts', input: 'Hi', voice: 'alloy' }
+    const recorded = await new RosettaAI({ providers: [createTestProvider()], recording }).generateSpeech(speechParams)
+
+    const client = new RosettaAI({ providers: [createTestProvider()], recording: replaying })
+    expect(recorded).toEqual(Buffer.from([1, 2, 3]))
+    expect(await client.generateSpeech(speechParams)).toEqual(recorded)
+    expect(await collect(client.streamSpeech(speechParams))).toEqual([
+      { type: 'audio_chunk', data: Buffer.from([1, 2]) },
+      { type: 'audio_chunk', data: Buffer.from([3]) },
+      { type: 'audio_stop' }
+    ])
+  })
+
+  it('should fail with a FixtureNotFoundError when no recording matches the request', async () => {
+    await new RosettaAI({ providers: [createTestProvider()], recording }).generate(params)
+    const client = new RosettaAI({ providers: [createTestProvider()], recording: replaying })
+
+    const error = await client.generate({ ...params, messages: [{ role: 'user', content: 'Bye' }] }).catch(e => e)
+
+    expect(error).toBeInstanceOf(FixtureNotFoundError)
+    expect(error.fixturePath).toContain(path.join(directory, 'test', 'generate-'))
+  })
+
+  it('should register the built-in providers without API keys in replay mode', () => {
+    const apiKey = process.env.OPENAI_API_KEY
+    delete process.env.OPENAI_API_KEY
+    try {
+      const client = new RosettaAI({ recording: replaying, logLevel: 'silent' })
+
+      expect(client.getConfiguredProviders()).toEqual(
+        expect.arrayContaining(['anthropic', 'google', 'groq', 'openai', 'azure-openai'])
+      )
+    } finally {
+      if (apiKey !== undefined) process.env.OPENAI_API_KEY = apiKey
+    }
+  })
+})
@@ -0,0 +1,176 @@
+import { RosettaAI, ProviderRegistration, ProviderAPIError, ConfigurationError, isRetryableError } from '../../../src'
+import {
+  resolveRetryPolicy,
+  shouldRetry,
+  getRetryAfterMs,
+  getRetryDelayMs,
+  withRetry,
+  ResolvedRetryPolicy
+} from '../../../src/core/retry'
+
+const fastPolicy: ResolvedRetryPolicy = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 5, jitter: 0 }
+
+const rateLimited = (headers?: Record<string, string>): ProviderAPIError =>
+  new ProviderAPIError('Too many requests', 'test', 429, 'rate_limit_exceeded', null, { headers })
+
+// Minimal custom provider whose transport calls each test controls
+function createTestProvider(transport: Partial<ProviderRegistration['transport']>): ProviderRegistration {
+  return {
+    provider: 'test',
+    mapper: {
+      provider: 'test',
+      mapToProviderParams: jest.fn(() => ({})),
+      mapFromProviderResponse: jest.fn((response: any, modelId: string) => ({
+        content: response.content,
+        finishReason: 'stop',
+        model: modelId
+      })),
+      mapToEmbedParams: jest.fn(() => ({})),
+      mapFromEmbedResponse: jest.fn(() => ({ embeddings: [[1]], model: 'embed-model' })),
+      wrapProviderError: jest.fn(error => error)
+    } as any,
+    transport: { generate: jest.fn(), embed: jest.fn(), ...transport },
+    capabilities: { chat: true, embeddings: true }
+  }
+}
+
+describe('isRetryableError', () => {
+  it('should treat rate limits, overload and server errors as retryable', () => {
+    expect(isRetryableError(new ProviderAPIError('x', 'groq', 429))).toBe(true)
+    expect(isRetryableError(new ProviderAPIError('x', 'anthropic', 529, null, 'overloaded_error'))).toBe(true)
+    expect(isRetryableError(new ProviderAPIError('x', 'openai', 503))).toBe(true)
+    expect(isRetryableError(new ProviderAPIError('x', 'openai', undefined, 'rate_limit_exceeded'))).toBe(true)
+  })
+
+  it('should treat connection failures without a status as retryable', () => {
+    const cause = Object.assign(new Error('Connection error.'), { name: 'APIConnectionError' })
+    expect(isRetryableError(new ProviderAPIError('x', 'openai', undefined, null, null, cause))).toBe(true)
+  })
+
+  it('should not retry client errors or non-provider errors', () => {
+    expect(isRetryableError(new ProviderAPIError('x', 'openai', 400, null, 'invalid_request_error'))).toBe(false)
+    expect(isRetryableError(new ProviderAPIError('x', 'openai', 401))).toBe(false)
+    expect(isRetryableError(new ConfigurationError('x'))).toBe(false)
+    expect(isRetryableError(new Error('boom'))).toBe(false)
+  })
+})
+
+describe('retry policy', () => {
+  it('should merge call policy over global policy over defaults', () => {
+    expect(resolveRetryPolicy(2)).toEqual({ maxRetries: 2, baseDelayMs: 500, maxDelayMs: 30000, jitter: 0.2 })
+    expect(resolveRetryPolicy(2, { maxRetries: 5, baseDelayMs: 100 }, { maxRetries: 0 })).toEqual({
+      maxRetries: 0,
+      baseDelayMs: 100,
+      maxDelayMs: 30000,
+      jitter: 0.2
+    })
+  })
+
+  it('should use configured status codes and error types instead of the default classification', () => {
+    const policy = { ...fastPolicy, retryableStatusCodes: [503], retryableErrorTypes: ['busy'] }
+    expect(shouldRetry(new ProviderAPIError('x', 'test', 503), policy)).toBe(true)
+    expect(shouldRetry(new ProviderAPIError('x', 'test', 400, null, 'busy'), policy)).toBe(true)
+    expect(shouldRetry(new ProviderAPIError('x', 'test', 429), policy)).toBe(false)
+    expect(shouldRetry(new ProviderAPIError('x', 'test', 429), fastPolicy)).toBe(true)
+  })
+
+  it('should read retry-after-ms and Retry-After (seconds or HTTP date) from the underlying error', () => {
+    expect(getRetryAfterMs(rateLimited({ 'retry-after-ms': '250', 'retry-after': '9' }))).toBe(250)
+    expect(getRetryAfterMs(rateLimited({ 'retry-after': '2' }))).toBe(2000)
+    const headers = new Headers({ 'Retry-After': new Date(Date.now() + 60_000).toUTCString() })
+    const fromDate = getRetryAfterMs(new ProviderAPIError('x', 'test', 429, null, null, { headers }))
+    expect(fromDate).toBeGreaterThan(55_000)
+    expect(getRetryAfterMs(rateLimited())).toBeUndefined()
+    expect(getRetryAfterMs(new Error('x'))).toBeUndefined()
+  })
+
+  it('should back off exponentially, honoring Retry-After, capped at maxDelayMs', () => {
+    const policy = { maxRetries: 5, baseDelayMs: 100, maxDelayMs: 1000, jitter: 0 }
+    expect(getRetryDelayMs(rateLimited(), 0, policy)).toBe(100)
+    expect(getRetryDelayMs(rateLimited(), 2, policy)).toBe(400)
+    expect(getRetryDelayMs(rateLimited(), 6, policy)).toBe(1000)
+    expect(getRetryDelayMs(rateLimited({ 'retry-after': '0.3' }), 0, policy)).toBe(300)
+    expect(getRetryDelayMs(rateLimited({ 'retry-after': '60' }), 0, policy)).toBe(1000)
+  })
+
+  it('should apply jitter below the backoff delay', () => {
+    const delay = getRetryDelayMs(rateLimited(), 1, { maxRetries: 1, baseDelayMs: 100, maxDelayMs: 1000, jitter: 0.5 })
+    expect(delay).toBeGreaterThan(100)
+    expect(delay).toBeLessThanOrEqual(200)
+  })
+})
+
+describe('withRetry', () => {
+  it('should retry retryable errors until the operation succeeds', async () => {
+    const operation = jest
+      .fn()
+      .mockRejectedValueOnce(rateLimited())
+      .mockRejectedValueOnce(rateLimited())
+      .mockResolvedValue('ok')
+
+    await expect(withRetry(operation, fastPolicy)).resolves.toBe('ok')
+    expect(operation).toHaveBeenCalledTimes(3)
+  })
+
+  it('should give up after maxRetries and rethrow the last error', async () => {
+    const operation = jest.fn().mockRejectedValue(rateLimited())
+
+    await expect(withRetry(operation, { ...fastPolicy, maxRetries: 1 })).rejects.toThrow('Too many requests')
+    expect(operation).toHaveBeenCalledTimes(2)
+  })
+
+  it('should not retry non-retryable errors', async () => {
+    const operation = jest.fn().mockRejectedValue(new ProviderAPIError('Bad', 'test', 400))
+
+    await expect(withRetry(operation, fastPolicy)).rejects.toThrow('Bad')
+    expect(operation).toHaveBeenCalledTimes(1)
+  })
+
+  it('should stop waiting and retrying once the signal aborts', async () => {
+    const controller = new AbortController()
+    const operation = jest.fn().mockRejectedValue(rateLimited())
+    const slowPolicy = { ...fastPolicy, baseDelayMs: 60000, maxDelayMs: 60000 }
+
+    const result = withRetry(operation, slowPolicy, controller.signal)
+    setTimeout(() => controller.abort(), 5)
+
+    await expect(result).rejects.toThrow('Too many requests')
+    expect(operation).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('RosettaAI retries', () => {
+  it('should retry chat requests with the global policy', async () => {
+    const generate = jest
+      .fn()
+      .mockRejectedValueOnce(rateLimited({ 'retry-after-ms': '1' }))
+      .mockResolvedValue({ content: 'done' })
+    const client = new RosettaAI({ providers: [createTestProvider({ generate })], retry: fastPolicy })
+
+    const result = await client.generate({ provider: 'test', model: 'm', messages: [{ role: 'user', content: 'Hi' }] })
+
+    expect(result.content).toBe('done')
+    expect(generate).toHaveBeenCalledTimes(2)
+  })
+
+  it('should let a per-call policy override the global one', async () => {
+    const embed = jest.fn().mockRejectedValue(rateLimited())
+    const client = new RosettaAI({ providers: [createTestProvider({ embed })], retry: fastPolicy })
+
+    await expect(client.embed({ provider: 'test', model: 'e', input: 'x', retry: { maxRetries: 0 } })).rejects.toThrow(
+      ProviderAPIError
+    )
+    expect(embed).toHaveBeenCalledTimes(1)
+  })
+
+  it('should retry model listing', async () => {
+    const listModels = jest
+      .fn()
+      .mockRejectedValueOnce(new ProviderAPIError('Unavailable', 'test', 503))
+      .mockResolvedValue({ object: 'list', data: [] })
+    const client = new RosettaAI({ providers: [createTestProvider({ listModels })] })
+
+    await expect(client.listModels('test', undefined, fastPolicy)).resolves.toEqual({ object: 'list', data: [] })
+    expect(listModels).toHaveBeenCalledTimes(2)
+  })
+})
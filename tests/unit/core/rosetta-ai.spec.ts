@@ -20,7 +20,8 @@ import {
   TranscriptionResult,
   RosettaAIError, // Import base error
   RosettaModelList, // Import model types
-  ModelListingSourceConfig
+  ModelListingSourceConfig,
+  ProviderRegistration
 } from '../../../src'
 
 // Mock the mapper classes
@@ -265,7 +266,7 @@ describe('RosettaAI Core (with V2 Mappers)', () => {
       expect(AnthropicMapper).toHaveBeenCalled()
       expect(OpenAIMapper).toHaveBeenCalled()
       expect(AzureOpenAIMapper).not.toHaveBeenCalled()
-      expect((rosetta as any).mappers.size).toBe(2)
+      expect((rosetta as any).providers.size).toBe(2)
     })
 
     it('should initialize Azure client and mapper when Azure config is provided', () => {
@@ -276,21 +277,15 @@ describe('RosettaAI Core (with V2 Mappers)', () => {
       }
       const rosetta = new RosettaAI(config)
 
-      expect(rosetta.getConfiguredProviders()).toEqual([Provider.OpenAI]) // Only OpenAI provider key
+      expect(rosetta.getConfiguredProviders()).toEqual([Provider.AzureOpenAI]) // Azure has its own provider ID
       expect(AzureOpenAI).toHaveBeenCalled()
       expect(OpenAI).not.toHaveBeenCalled()
       expect(AzureOpenAIMapper).toHaveBeenCalledWith(expect.objectContaining(config)) // Check config passed
       expect(OpenAIMapper).not.toHaveBeenCalled()
-
-      // FIX: Check that the correct *mock constructor* was called, not instanceof
-      // This verifies that the logic inside RosettaAI correctly chose to instantiate AzureOpenAIMapper
-      expect(AzureOpenAIMapper).toHaveBeenCalledTimes(1)
-      expect(OpenAIMapper).not.toHaveBeenCalled()
-      // Optional: Check the instance stored is the one returned by the mock constructor
-      expect((rosetta as any).mappers.get(Provider.OpenAI)).toBe(mockAzureMapperInstance)
+      expect((rosetta as any).providers.get(Provider.AzureOpenAI).mapper).toBe(mockAzureMapperInstance)
     })
 
-    it('should prioritize Azure mapper over standard OpenAI mapper', () => {
+    it('should register Azure and standard OpenAI side by side when both are configured', () => {
       const config = {
         openaiApiKey: 'standard-key', // Standard key also present
         azureOpenAIApiKey: 'azure-key',
@@ -299,17 +294,34 @@ describe('RosettaAI Core (with V2 Mappers)', () => {
       }
       const rosetta = new RosettaAI(config)
 
-      expect(rosetta.getConfiguredProviders()).toEqual([Provider.OpenAI])
-      expect(AzureOpenAI).toHaveBeenCalled()
-      expect(OpenAI).not.toHaveBeenCalled() // Standard client not initialized
-      expect(AzureOpenAIMapper).toHaveBeenCalled()
-      expect(OpenAIMapper).not.toHaveBeenCalled() // Standard mapper not initialized
+      expect(rosetta.getConfiguredProviders()).toEqual([Provider.OpenAI, Provider.AzureOpenAI])
+      expect(AzureOpenAI).toHaveBeenCalledTimes(1)
+      expect(OpenAI).toHaveBeenCalledTimes(1)
+      expect((rosetta as any).providers.get(Provider.OpenAI).mapper).toBe(mockOpenAIMapperInstance)
+      expect((rosetta as any).providers.get(Provider.AzureOpenAI).mapper).toBe(mockAzureMapperInstance)
+    })
 
-      // FIX: Check that the correct *mock constructor* was called
-      expect(AzureOpenAIMapper).toHaveBeenCalledTimes(1)
-      expect(OpenAIMapper).not.toHaveBeenCalled()
-      // Optional: Check the instance stored is the one returned by the mock constructor
-      expect((rosetta as any).mappers.get(Provider.OpenAI)).toBe(mockAzureMapperInstance)
+    it('should use the Azure default deployments as default models for the Azure provider', () => {
+      const rosetta = new RosettaAI({
+        azureOpenAIApiKey: 'azure-key',
+        azureOpenAIEndpoint: 'https://azure.endpoint',
+        azureOpenAIApiVersion: '2024-05-01-preview',
+        azureOpenAIDefaultChatDeploymentName: 'chat-deploy',
+        azureOpenAIDefaultEmbeddingDeploymentName: 'embed-deploy'
+      })
+      expect((rosetta as any).config.defaultModels[Provider.AzureOpenAI]).toBe('chat-deploy')
+      expect((rosetta as any).config.defaultEmbeddingModels[Provider.AzureOpenAI]).toBe('embed-deploy')
+    })
+
+    it('should point Provider.OpenAI callers at the Azure provider when only Azure is configured', async () => {
+      const rosetta = new RosettaAI({
+        azureOpenAIApiKey: 'azure-key',
+        azureOpenAIEndpoint: 'https://azure.endpoint',
+        azureOpenAIApiVersion: '2024-05-01-preview'
+      })
+      await expect(
+        rosetta.generate({ provider: Provider.OpenAI, model: 'gpt-4o', messages: [{ role: 'user', content: 'Hi' }] })
+      ).rejects.toThrow("Azure OpenAI is configured as provider 'azure-openai'.")
     })
 
     // --- New Tests for Constructor Warnings ---
@@ -374,10 +386,10 @@ describe('RosettaAI Core (with V2 Mappers)', () => {
     })
   })
 
-  describe('getMapper', () => {
-    it('should return the correct mapper instance', () => {
+  describe('getProvider', () => {
+    it('should return the registration with the correct mapper instance', () => {
       const rosetta = new RosettaAI({ openaiApiKey: 'key' })
-      const mapper = (rosetta as any).getMapper(Provider.OpenAI)
+      const mapper = (rosetta as any).getProvider(Provider.OpenAI).mapper
 
       // FIX: Check that the returned object is the *mock instance* we expect
       expect(mapper).toBe(mockOpenAIMapperInstance)
@@ -386,15 +398,109 @@ describe('RosettaAI Core (with V2 Mappers)', () => {
       expect(AzureOpenAIMapper).not.toHaveBeenCalled()
     })
 
-    it('should throw ConfigurationError if mapper not found', () => {
+    it('should throw ConfigurationError if provider not registered', () => {
       const rosetta = new RosettaAI({ openaiApiKey: 'key' })
-      expect(() => (rosetta as any).getMapper(Provider.Groq)).toThrow(ConfigurationError)
-      expect(() => (rosetta as any).getMapper(Provider.Groq)).toThrow(
+      expect(() => (rosetta as any).getProvider(Provider.Groq)).toThrow(ConfigurationError)
+      expect(() => (rosetta as any).getProvider(Provider.Groq)).toThrow(
         "Provider 'groq' client is not configured or initialized."
       )
     })
   })
 
+  describe('registerProvider', () => {
+    const createCustomRegistration = (overrides: Partial<ProviderRegistration> = {}): ProviderRegistration => ({
+      provider: 'my-llm',
+      mapper: {
+        provider: 'my-llm',
+        mapToProviderParams: jest.fn().mockReturnValue({ custom: 'params' }),
+        mapFromProviderResponse: jest.fn().mockReturnValue({ content: 'custom result' }),
+        mapProviderStream: jest.fn(),
+        mapToEmbedParams: jest.fn(),
+        mapFromEmbedResponse: jest.fn(),
+        mapToTranscribeParams: jest.fn(),
+        mapFromTranscribeResponse: jest.fn(),
+        mapToTranslateParams: jest.fn(),
+        mapFromTranslateResponse: jest.fn(),
+        wrapProviderError: jest.fn(error => error)
+      } as any,
+      transport: { generate: jest.fn().mockResolvedValue({ raw: 'custom response' }) },
+      capabilities: { chat: true },
+      ...overrides
+    })
+
+    it('[Easy] should route generate calls for a custom provider through its mapper and transport', async () => {
+      const rosetta = new RosettaAI({ openaiApiKey: 'key' })
+      const registration = createCustomRegistration()
+      rosetta.registerProvider(registration)
+
+      const result = await rosetta.generate({
+        provider: 'my-llm',
+        model: 'custom-model',
+        messages: [{ role: 'user', content: 'Hi' }]
+      })
+
+      expect(rosetta.getConfiguredProviders()).toEqual([Provider.OpenAI, 'my-llm'])
+      expect(registration.mapper.mapToProviderParams).toHaveBeenCalledWith(
+        expect.objectContaining({ provider: 'my-llm', model: 'custom-model', stream: false })
+      )
+      expect(registration.transport.generate).toHaveBeenCalledWith(
+        { custom: 'params' },
+        expect.objectContaining({ model: 'custom-model' })
+      )
+      expect(registration.mapper.mapFromProviderResponse).toHaveBeenCalledWith(
+        { raw: 'custom response' },
+        'custom-model'
+      )
+      expect(result).toEqual({ content: 'custom result' })
+    })
+
+    it('[Easy] should allow constructing a client with only custom providers', () => {
+      const rosetta = new RosettaAI({ providers: [createCustomRegistration()] })
+      expect(rosetta.getConfiguredProviders()).toEqual(['my-llm'])
+    })
+
+    it('[Medium] should throw ConfigurationError if a declared capability has no transport method', () => {
+      const rosetta = new RosettaAI({ openaiApiKey: 'key' })
+      expect(() =>
+        rosetta.registerProvider(createCustomRegistration({ capabilities: { chat: true, streaming: true } }))
+      ).toThrow("Provider 'my-llm' declares 'streaming' but its transport does not implement 'stream'.")
+    })
+
+    it('[Medium] should reject operations the custom provider does not declare', async () => {
+      const rosetta = new RosettaAI({ providers: [createCustomRegistration()] })
+      await expect(rosetta.embed({ provider: 'my-llm', model: 'embed-model', input: 'Hi' })).rejects.toThrow(
+        UnsupportedFeatureError
+      )
+      await expect(
+        rosetta.generate({
+          provider: 'my-llm',
+          model: 'custom-model',
+          messages: [{ role: 'user', content: 'Hi' }],
+          tools: [{ type: 'function', function: { name: 'test', parameters: {} } }]
+        })
+      ).rejects.toThrow("Provider 'my-llm' does not support the requested feature: Tool use")
+      await expect(rosetta.listModels('my-llm')).rejects.toThrow(
+        "Provider 'my-llm' does not support the requested feature: Model listing"
+      )
+    })
+
+    it('[Medium] should replace an existing registration with the same ID', async () => {
+      const rosetta = new RosettaAI({ openaiApiKey: 'key' })
+      const override = createCustomRegistration({ provider: Provider.OpenAI })
+      rosetta.registerProvider(override)
+
+      await rosetta.generate({
+        provider: Provider.OpenAI,
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'Hi' }]
+      })
+
+      expect(rosetta.getConfiguredProviders()).toEqual([Provider.OpenAI])
+      expect(override.transport.generate).toHaveBeenCalled()
+      expect(mockOpenAIMapperInstance.mapToProviderParams).not.toHaveBeenCalled()
+    })
+  })
+
   describe('generate', () => {
     let rosetta: RosettaAI
     let mockOpenAIClientInstance: any
@@ -422,7 +528,7 @@ describe('RosettaAI Core (with V2 Mappers)', () => {
         model: 'gpt-4o-mini',
         messages: [{ role: 'user', content: 'Hi' }]
       }
-      const getMapperSpy = jest.spyOn(rosetta as any, 'getMapper')
+      const getProviderSpy = jest.spyOn(rosetta as any, 'getProvider')
       const checkUnsupportedSpy = jest.spyOn(rosetta as any, 'checkUnsupportedFeatures')
 
       // Setup mock return value for the specific mapper instance used
@@ -431,20 +537,22 @@ describe('RosettaAI Core (with V2 Mappers)', () => {
 
       const result = await rosetta.generate(params)
 
-      expect(getMapperSpy).toHaveBeenCalledWith(Provider.OpenAI)
+      expect(getProviderSpy).toHaveBeenCalledWith(Provider.OpenAI)
       expect(checkUnsupportedSpy).toHaveBeenCalledWith(
         Provider.OpenAI,
         expect.objectContaining({ provider: Provider.OpenAI, stream: false }),
-        'Generate', // Feature name
-        false // isAzure
+        'Generate' // Feature name
       )
       expect(mockOpenAIMapperInstance.mapToProviderParams).toHaveBeenCalledWith(
         expect.objectContaining({ provider: Provider.OpenAI, stream: false })
       )
-      expect(mockOpenAIClientInstance.chat.completions.create).toHaveBeenCalledWith({
-        mapped: 'openai_params',
-        model: 'gpt-4o-mini'
-      })
+      expect(mockOpenAIClientInstance.chat.completions.create).toHaveBeenCalledWith(
+        {
+          mapped: 'openai_params',
+          model: 'gpt-4o-mini'
+        },
+        { signal: undefined }
+      )
       expect(mockOpenAIMapperInstance.mapFromProviderResponse).toHaveBeenCalledWith(
         { mapped: 'openai_raw_response' },
         'gpt-4o-mini'
@@ -476,10 +584,13 @@ describe('RosettaAI Core (with V2 Mappers)', () => {
         expect.objectContaining({ model: 'default-gpt' }) // Check effective params passed to mapper
       )
       // Check that the client was called with the mapped params (which include the model from the mapper)
-      expect(clientInstance.chat.completions.create).toHaveBeenCalledWith({
-        mapped: 'openai_params',
-        model: 'default-gpt' // Model comes from the mapped params
-      })
+      expect(clientInstance.chat.completions.create).toHaveBeenCalledWith(
+        {
+          mapped: 'openai_params',
+          model: 'default-gpt' // Model comes from the mapped params
+        },
+        { signal: undefined }
+      )
     })
 
     it('should throw ConfigurationError if model is missing (no default)', async () => {
@@ -543,8 +654,7 @@ describe('RosettaAI Core (with V2 Mappers)', () => {
       expect(checkUnsupportedSpy).toHaveBeenCalledWith(
         Provider.Anthropic,
         expect.objectContaining({ tools: params.tools }),
-        'Generate', // Feature name
-        false // isAzure
+        'Generate' // Feature name
       )
       // Verify the client mock was called (assuming the generate call resolves)
       expect(mockAnthropicClientInstance.messages.create).toHaveBeenCalled()
@@ -584,7 +694,7 @@ describe('RosettaAI Core (with V2 Mappers)', () => {
         model: 'gpt-4o-mini',
         messages: [{ role: 'user', content: 'Stream Hi' }]
       }
-      const getMapperSpy = jest.spyOn(rosetta as any, 'getMapper')
+      const getProviderSpy = jest.spyOn(rosetta as any, 'getProvider')
       const checkUnsupportedSpy = jest.spyOn(rosetta as any, 'checkUnsupportedFeatures')
       // Setup mock return value for the specific mapper instance used
       mockOpenAIMapperInstance.mapToProviderParams.mockReturnValue({ mapped: 'openai_params', model: 'gpt-4o-mini' })
@@ -599,20 +709,22 @@ describe('RosettaAI Core (with V2 Mappers)', () => {
       const stream = rosetta.stream(params)
       const results = await collectStreamChunks(stream) // Consume the stream
 
-      expect(getMapperSpy).toHaveBeenCalledWith(Provider.OpenAI)
+      expect(getProviderSpy).toHaveBeenCalledWith(Provider.OpenAI)
       expect(checkUnsupportedSpy).toHaveBeenCalledWith(
         Provider.OpenAI,
         expect.objectContaining({ provider: Provider.OpenAI, stream: true }),
-        'Generate', // Feature name
-        false // isAzure
+        'Generate' // Feature name
       )
       expect(mockOpenAIMapperInstance.mapToProviderParams).toHaveBeenCalledWith(
         expect.objectContaining({ provider: Provider.OpenAI, stream: true })
       )
-      expect(mockOpenAIClientInstance.chat.completions.create).toHaveBeenCalledWith({
-        mapped: 'openai_params',
-        model: 'gpt-4o-mini'
-      }) // Check client call args
+      expect(mockOpenAIClientInstance.chat.completions.create).toHaveBeenCalledWith(
+        {
+          mapped: 'openai_params',
+          model: 'gpt-4o-mini'
+        },
+        { signal: undefined }
+      ) // Check client call args
       expect(mockOpenAIMapperInstance.mapProviderStream).toHaveBeenCalled()
       expect(results).toHaveLength(3)
       expect(results[1]).toEqual({ type: 'content_delta', data: { delta: 'Mapped Stream' } })
@@ -715,7 +827,7 @@ describe('RosettaAI Core (with V2 Mappers)', () => {
         model: 'text-embedding-ada-002',
         input: 'Embed me'
       }
-      const getMapperSpy = jest.spyOn(rosetta as any, 'getMapper')
+      const getProviderSpy = jest.spyOn(rosetta as any, 'getProvider')
       const checkUnsupportedSpy = jest.spyOn(rosetta as any, 'checkUnsupportedFeatures')
       // Setup mock return value for the specific mapper instance used
       mockOpenAIMapperInstance.mapToEmbedParams.mockReturnValue({
@@ -726,20 +838,22 @@ describe('RosettaAI Core (with V2 Mappers)', () => {
 
       const result = await rosetta.embed(params)
 
-      expect(getMapperSpy).toHaveBeenCalledWith(Provider.OpenAI)
+      expect(getProviderSpy).toHaveBeenCalledWith(Provider.OpenAI)
       expect(checkUnsupportedSpy).toHaveBeenCalledWith(
         Provider.OpenAI,
         expect.objectContaining({ provider: Provider.OpenAI }),
-        'Embeddings', // Feature name
-        false // isAzure
+        'Embeddings' // Feature name
       )
       expect(mockOpenAIMapperInstance.mapToEmbedParams).toHaveBeenCalledWith(
         expect.objectContaining({ provider: Provider.OpenAI })
       )
-      expect(mockOpenAIClientInstance.embeddings.create).toHaveBeenCalledWith({
-        mapped: 'openai_embed_params',
-        model: 'text-embedding-ada-002'
-      })
+      expect(mockOpenAIClientInstance.embeddings.create).toHaveBeenCalledWith(
+        {
+          mapped: 'openai_embed_params',
+          model: 'text-embedding-ada-002'
+        },
+        { signal: undefined }
+      )
       expect(mockOpenAIMapperInstance.mapFromEmbedResponse).toHaveBeenCalledWith(
         { mapped: 'openai_raw_embed_response' },
         'text-embedding-ada-002'
@@ -791,16 +905,18 @@ describe('RosettaAI Core (with V2 Mappers)', () => {
       expect(checkUnsupportedSpy).toHaveBeenCalledWith(
         Provider.OpenAI,
         expect.objectContaining({ provider: Provider.OpenAI }),
-        'Text-to-Speech', // Feature name
-        false // isAzure
+        'Text-to-Speech' // Feature name
+      )
+      expect(mockOpenAIClientInstance.audio.speech.create).toHaveBeenCalledWith(
+        {
+          model: 'tts-1', // Default model
+          input: 'Speak this',
+          voice: 'alloy',
+          response_format: 'mp3', // Default format
+          speed: 1.0 // Default speed
+        },
+        { signal: undefined }
       )
-      expect(mockOpenAIClientInstance.audio.speech.create).toHaveBeenCalledWith({
-        model: 'tts-1', // Default model
-        input: 'Speak this',
-        voice: 'alloy',
-        response_format: 'mp3', // Default format
-        speed: 1.0 // Default speed
-      })
       expect(result).toBeInstanceOf(Buffer)
       expect(result.toString()).toBe('speech')
     })
@@ -831,7 +947,8 @@ describe('RosettaAI Core (with V2 Mappers)', () => {
       await rosettaWithDefault.generateSpeech(params)
 
       expect(clientInstance.audio.speech.create).toHaveBeenCalledWith(
-        expect.objectContaining({ model: 'tts-1-hd' }) // Check default model used
+        expect.objectContaining({ model: 'tts-1-hd' }), // Check default model used
+        { signal: undefined }
       )
     })
     // --- End New Test ---
@@ -877,11 +994,11 @@ describe('RosettaAI Core (with V2 Mappers)', () => {
       expect(checkUnsupportedSpy).toHaveBeenCalledWith(
         Provider.OpenAI,
         expect.objectContaining({ provider: Provider.OpenAI }),
-        'Streaming Text-to-Speech', // Feature name
-        false // isAzure
+        'Streaming Text-to-Speech' // Feature name
       )
       expect(mockOpenAIClientInstance.audio.speech.create).toHaveBeenCalledWith(
-        expect.objectContaining({ input: 'Stream audio', voice: 'fable' })
+        expect.objectContaining({ input: 'Stream audio', voice: 'fable' }),
+        { signal: undefined }
       )
       expect(chunks).toHaveLength(3) // chunk1, chunk2, stop
       expect(chunks[0]).toEqual({ type: 'audio_chunk', data: Buffer.from('chunk1') })
@@ -953,7 +1070,7 @@ describe('RosettaAI Core (with V2 Mappers)', () => {
         model: 'whisper-1',
         audio: audioData
       }
-      const getMapperSpy = jest.spyOn(rosetta as any, 'getMapper')
+      const getProviderSpy = jest.spyOn(rosetta as any, 'getProvider')
       const checkUnsupportedSpy = jest.spyOn(rosetta as any, 'checkUnsupportedFeatures')
       // Setup mock return value for the specific mapper instance used
       mockOpenAIMapperInstance.mapToTranscribeParams.mockReturnValue({ mapped: 'openai_stt_params' })
@@ -961,19 +1078,21 @@ describe('RosettaAI Core (with V2 Mappers)', () => {
 
       const result = await rosetta.transcribe(params)
 
-      expect(getMapperSpy).toHaveBeenCalledWith(Provider.OpenAI)
+      expect(getProviderSpy).toHaveBeenCalledWith(Provider.OpenAI)
       expect(checkUnsupportedSpy).toHaveBeenCalledWith(
         Provider.OpenAI,
         expect.objectContaining({ provider: Provider.OpenAI }),
-        'Audio Transcription', // Feature name
-        false // isAzure
+        'Audio Transcription' // Feature name
       )
       expect(mockPrepareAudioUpload).toHaveBeenCalledWith(audioData)
       expect(mockOpenAIMapperInstance.mapToTranscribeParams).toHaveBeenCalledWith(
         expect.objectContaining({ provider: Provider.OpenAI }),
         mockAudioFile
       )
-      expect(mockOpenAIClientInstance.audio.transcriptions.create).toHaveBeenCalledWith({ mapped: 'openai_stt_params' })
+      expect(mockOpenAIClientInstance.audio.transcriptions.create).toHaveBeenCalledWith(
+        { mapped: 'openai_stt_params' },
+        { signal: undefined }
+      )
       expect(mockOpenAIMapperInstance.mapFromTranscribeResponse).toHaveBeenCalledWith(
         { mapped: 'openai_raw_stt_response' },
         'whisper-1'
@@ -1038,7 +1157,7 @@ describe('RosettaAI Core (with V2 Mappers)', () => {
         model: 'whisper-1',
         audio: audioData
       }
-      const getMapperSpy = jest.spyOn(rosetta as any, 'getMapper')
+      const getProviderSpy = jest.spyOn(rosetta as any, 'getProvider')
       const checkUnsupportedSpy = jest.spyOn(rosetta as any, 'checkUnsupportedFeatures')
       // Setup mock return value for the specific mapper instance used
       mockOpenAIMapperInstance.mapToTranslateParams.mockReturnValue({ mapped: 'openai_translate_params' })
@@ -1046,21 +1165,23 @@ describe('RosettaAI Core (with V2 Mappers)', () => {
 
       const result = await rosetta.translate(params)
 
-      expect(getMapperSpy).toHaveBeenCalledWith(Provider.OpenAI)
+      expect(getProviderSpy).toHaveBeenCalledWith(Provider.OpenAI)
       expect(checkUnsupportedSpy).toHaveBeenCalledWith(
         Provider.OpenAI,
         expect.objectContaining({ provider: Provider.OpenAI }),
-        'Audio Translation', // Feature name
-        false // isAzure
+        'Audio Translation' // Feature name
       )
       expect(mockPrepareAudioUpload).toHaveBeenCalledWith(audioData)
       expect(mockOpenAIMapperInstance.mapToTranslateParams).toHaveBeenCalledWith(
         expect.objectContaining({ provider: Provider.OpenAI }),
         mockAudioFile
       )
-      expect(mockOpenAIClientInstance.audio.translations.create).toHaveBeenCalledWith({
-        mapped: 'openai_translate_params'
-      })
+      expect(mockOpenAIClientInstance.audio.translations.create).toHaveBeenCalledWith(
+        {
+          mapped: 'openai_translate_params'
+        },
+        { signal: undefined }
+      )
       expect(mockOpenAIMapperInstance.mapFromTranslateResponse).toHaveBeenCalledWith(
         { mapped: 'openai_raw_translate_response' },
         'whisper-1'
@@ -1106,8 +1227,8 @@ describe('RosettaAI Core (with V2 Mappers)', () => {
       const groqError = new Groq.APIError(401, {}, '', {})
 
       // Mock the wrapProviderError method on the instances retrieved from the map
-      const openaiMapperInstance = (rosetta as any).mappers.get(Provider.OpenAI)
-      const groqMapperInstance = (rosetta as any).mappers.get(Provider.Groq)
+      const openaiMapperInstance = (rosetta as any).providers.get(Provider.OpenAI).mapper
+      const groqMapperInstance = (rosetta as any).providers.get(Provider.Groq).mapper
       ;(rosetta as any).wrapProviderError(openaiError, Provider.OpenAI)
       expect(openaiMapperInstance.wrapProviderError).toHaveBeenCalledWith(openaiError, Provider.OpenAI)
       expect(groqMapperInstance.wrapProviderError).not.toHaveBeenCalled()
@@ -1121,7 +1242,7 @@ describe('RosettaAI Core (with V2 Mappers)', () => {
     it('should handle generic errors if mapper fails or is missing', () => {
       const rosetta = new RosettaAI({ openaiApiKey: 'key' })
       const genericError = new Error('Something failed')
-      const mapperInstance = (rosetta as any).mappers.get(Provider.OpenAI)
+      const mapperInstance = (rosetta as any).providers.get(Provider.OpenAI).mapper
       // Simulate mapper's wrap function throwing an error
       mapperInstance.wrapProviderError.mockImplementation(() => {
         throw new Error('Mapper wrap failed')
@@ -1139,7 +1260,7 @@ describe('RosettaAI Core (with V2 Mappers)', () => {
     it('[Hard] should handle non-Error object in fallback wrapProviderError', () => {
       const rosetta = new RosettaAI({ openaiApiKey: 'key' })
       const nonError = { detail: 'Failed object' }
-      const mapperInstance = (rosetta as any).mappers.get(Provider.OpenAI)
+      const mapperInstance = (rosetta as any).providers.get(Provider.OpenAI).mapper
       // Simulate mapper's wrap function throwing an error
       mapperInstance.wrapProviderError.mockImplementation(() => {
         throw new Error('Mapper wrap failed')
@@ -1156,72 +1277,6 @@ describe('RosettaAI Core (with V2 Mappers)', () => {
     // --- End New Test ---
   })
 
-  // --- New Tests for getGoogleModel ---
-  describe('getGoogleModel (internal)', () => {
-    let rosetta: RosettaAI
-    let mockGoogleClientInstance: any
-
-    beforeEach(() => {
-      mockGoogleClientInstance = {
-        getGenerativeModel: jest.fn().mockReturnValue({ mocked: 'google-model-instance' })
-      }
-      ;(GoogleGenerativeAI as jest.Mock).mockReturnValue(mockGoogleClientInstance)
-      rosetta = new RosettaAI({ googleApiKey: 'key' })
-    })
-
-    it('[Easy] should call getGenerativeModel with modelId and safety settings', () => {
-      const modelInstance = (rosetta as any).getGoogleModel('gemini-pro', undefined)
-      expect(mockGoogleClientInstance.getGenerativeModel).toHaveBeenCalledWith(
-        expect.objectContaining({
-          model: 'gemini-pro',
-          safetySettings: expect.any(Array)
-        }),
-        undefined // No request options
-      )
-      expect(modelInstance).toEqual({ mocked: 'google-model-instance' })
-    })
-
-    it('[Medium] should pass apiVersion from providerOptions', () => {
-      const providerOptions = { googleApiVersion: 'v1beta' as const }
-      ;(rosetta as any).getGoogleModel('gemini-pro', providerOptions)
-      expect(mockGoogleClientInstance.getGenerativeModel).toHaveBeenCalledWith(
-        expect.any(Object), // model/safety
-        { apiVersion: 'v1beta' } // request options
-      )
-    })
-
-    it('[Medium] should pass apiVersion from global config if not in request options', () => {
-      const rosettaWithGlobalOpts = new RosettaAI({
-        googleApiKey: 'key',
-        providerOptions: { [Provider.Google]: { googleApiVersion: 'v1alpha' as const } }
-      })
-      ;(rosettaWithGlobalOpts as any).getGoogleModel('gemini-pro', undefined) // No request options passed
-      // Need to get the client instance associated with rosettaWithGlobalOpts
-      const clientInstance = (GoogleGenerativeAI as jest.Mock).mock.results[1].value
-      expect(clientInstance.getGenerativeModel).toHaveBeenCalledWith(
-        expect.any(Object), // model/safety
-        { apiVersion: 'v1alpha' } // request options from global config
-      )
-    })
-
-    it('[Medium] should warn if baseURL is provided (not used by SDK)', () => {
-      const providerOptions = { baseURL: 'http://custom.google' }
-      ;(rosetta as any).getGoogleModel('gemini-pro', providerOptions)
-      expect(warnSpy).toHaveBeenCalledWith(
-        'Google provider: Custom baseURL provided but not directly used by the @google/generative-ai SDK constructor. Ensure environment variables (like GOOGLE_API_ENDPOINT) are set if needed.'
-      )
-    })
-
-    it('[Medium] should throw ConfigurationError if Google client not configured', () => {
-      const rosettaNoGoogle = new RosettaAI({ openaiApiKey: 'key' }) // No Google key
-      expect(() => (rosettaNoGoogle as any).getGoogleModel('gemini-pro', undefined)).toThrow(ConfigurationError)
-      expect(() => (rosettaNoGoogle as any).getGoogleModel('gemini-pro', undefined)).toThrow(
-        "Provider 'google' client is not configured or initialized."
-      )
-    })
-  })
-  // --- End New Tests ---
-
   // --- NEW: Tests for listModels and listAllModels ---
   describe('listModels & listAllModels', () => {
     const mockOpenAIModelList: RosettaModelList = {
@@ -1256,8 +1311,7 @@ describe('RosettaAI Core (with V2 Mappers)', () => {
         expect(mockListModelsForProvider).toHaveBeenCalledWith(
           Provider.OpenAI,
           expect.objectContaining({
-            apiKey: 'key-openai',
-            groqClient: expect.any(Object) // Groq client is initialized even if not used for OpenAI listing
+            apiKey: 'key-openai'
           })
         )
         expect(result).toEqual(mockOpenAIModelList)
@@ -1285,29 +1339,43 @@ describe('RosettaAI Core (with V2 Mappers)', () => {
         )
       })
 
-      it('[Medium] should correctly determine API key (prioritize Azure)', async () => {
-        const rosettaAzure = new RosettaAI({
+      it('[Medium] should use the standard OpenAI key even when Azure is also configured', async () => {
+        const rosettaBoth = new RosettaAI({
+          openaiApiKey: 'key-std',
           azureOpenAIApiKey: 'key-azure',
           azureOpenAIEndpoint: 'ep',
           azureOpenAIApiVersion: 'v1'
         })
-        await rosettaAzure.listModels(Provider.OpenAI)
+        await rosettaBoth.listModels(Provider.OpenAI)
         expect(mockListModelsForProvider).toHaveBeenCalledWith(
           Provider.OpenAI,
-          expect.objectContaining({ apiKey: 'key-azure' }) // Should use Azure key
+          expect.objectContaining({ apiKey: 'key-std' })
         )
+      })
 
-        const rosettaBoth = new RosettaAI({
-          openaiApiKey: 'key-std',
-          azureOpenAIApiKey: 'key-azure-2',
-          azureOpenAIEndpoint: 'ep2',
-          azureOpenAIApiVersion: 'v2'
+      it('[Medium] should list Azure deployments for the Azure provider', async () => {
+        const fetchSpy = jest.spyOn(global, 'fetch').mockResolvedValue({
+          ok: true,
+          status: 200,
+          json: async () => ({ data: [{ id: 'my-gpt4o', model: 'gpt-4o', owner: 'organization-owner' }] })
+        } as any)
+        const rosettaAzure = new RosettaAI({
+          azureOpenAIApiKey: 'key-azure',
+          azureOpenAIEndpoint: 'https://res.openai.azure.com/',
+          azureOpenAIApiVersion: 'v1'
         })
-        await rosettaBoth.listModels(Provider.OpenAI)
-        expect(mockListModelsForProvider).toHaveBeenCalledWith(
-          Provider.OpenAI,
-          expect.objectContaining({ apiKey: 'key-azure-2' }) // Should prioritize Azure key
+
+        const result = await rosettaAzure.listModels(Provider.AzureOpenAI)
+
+        expect(mockListModelsForProvider).not.toHaveBeenCalled()
+        expect(fetchSpy).toHaveBeenCalledWith(
+          'https://res.openai.azure.com/openai/deployments?api-version=2022-12-01',
+          expect.objectContaining({ headers: expect.objectContaining({ 'api-key': 'key-azure' }) })
         )
+        expect(result.data).toEqual([
+          expect.objectContaining({ id: 'my-gpt4o', provider: Provider.AzureOpenAI, owned_by: 'organization-owner' })
+        ])
+        fetchSpy.mockRestore()
       })
 
       it('[Medium] should pass Groq client to internal lister', async () => {
@@ -0,0 +1,48 @@
+import { validateJsonSchema } from '../../../../src/core/structured/json.schema.validator'
+
+const schema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', minLength: 1 },
+    age: { type: 'integer', minimum: 0 },
+    role: { enum: ['admin', 'user'] },
+    address: { $ref: '#/$defs/address' },
+    tags: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+    nickname: { anyOf: [{ type: 'string' }, { type: 'null' }] }
+  },
+  required: ['name', 'age'],
+  additionalProperties: false,
+  $defs: { address: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] } }
+}
+
+describe('validateJsonSchema', () => {
+  it('should accept matching values', () => {
+    const value = { name: 'Ada', age: 36, role: 'admin', address: { city: 'London' }, tags: ['math'], nickname: null }
+
+    expect(validateJsonSchema(value, schema)).toEqual([])
+  })
+
+  it('should report each problem with its path', () => {
+    const value = { name: '', age: 3.5, role: 'owner', address: {}, tags: ['a', 'b', 1], nickname: 7, extra: true }
+
+    expect(validateJsonSchema(value, schema)).toEqual([
+      { path: ['name'], message: 'Must be at least 1 characters' },
+      { path: ['age'], message: 'Expected integer, received number' },
+      { path: ['role'], message: 'Expected one of "admin", "user"' },
+      { path: ['address', 'city'], message: 'Required' },
+      { path: ['tags'], message: 'Must contain at most 2 items' },
+      { path: ['tags', 2], message: 'Expected string, received number' },
+      { path: ['nickname'], message: 'Does not match any of the allowed schemas (anyOf)' },
+      { path: ['extra'], message: 'Unrecognized key' }
+    ])
+  })
+
+  it('should report missing required properties and wrong root types', () => {
+    expect(validateJsonSchema({ name: 'Ada' }, schema)).toEqual([{ path: ['age'], message: 'Required' }])
+    expect(validateJsonSchema([], schema)).toEqual([{ path: [], message: 'Expected object, received array' }])
+  })
+
+  it('should accept null for nullable schemas', () => {
+    expect(validateJsonSchema(null, { type: 'string', nullable: true })).toEqual([])
+  })
+})
@@ -0,0 +1,162 @@
+import { z } from 'zod'
+import { RosettaAI, GenerateParams, ObjectStreamChunk, StreamChunk, StructuredOutputError } from '../../../../src'
+
+const schema = z.object({
+  name: z.string(),
+  year: z
+    .number()
+    .int()
+    .refine(year => year > 1800, 'Must be after 1800')
+})
+type Person = z.infer<typeof schema>
+
+const messages = [{ role: 'user' as const, content: 'Who wrote the first program?' }]
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const chunks: T[] = []
+  for await (const chunk of iterable) chunks.push(chunk)
+  return chunks
+}
+
+function jsonChunks(...deltas: string[]): StreamChunk[] {
+  let snapshot = ''
+  const chunks: StreamChunk[] = deltas.map(delta => {
+    snapshot += delta
+    return { type: 'json_delta', data: { delta, snapshot } }
+  })
+  const result = { content: snapshot, model: 'mock-model', finishReason: 'stop' as const }
+  return [...chunks, { type: 'final_result', data: { result } }]
+}
+
+describe('Object generation', () => {
+  it('should send the schema as responseFormat and return the parsed object', async () => {
+    const requests: GenerateParams[] = []
+    const client = new RosettaAI({
+      mock: {
+        generate: [
+          request => {
+            requests.push(request)
+            return { content: '{"name":"Ada Lovelace","year":1843}', usage: { totalTokens: 10 } }
+          }
+        ]
+      }
+    })
+
+    const result = await client.generateObject({ provider: 'mock', messages, schema, schemaName: 'person' })
+
+    const object: Person = result.object
+    expect(object).toEqual({ name: 'Ada Lovelace', year: 1843 })
+    expect(result).toMatchObject({ repairs: 0, totalUsage: { totalTokens: 10 } })
+    expect(requests[0]!.responseFormat).toEqual({
+      type: 'json_object',
+      name: 'person',
+      schema: {
+        type: 'object',
+        properties: { name: { type: 'string' }, year: { type: 'integer' } },
+        required: ['name', 'year'],
+        additionalProperties: false
+      }
+    })
+  })
+
+  it('should not request strict mode for schemas with optional properties unless asked to', async () => {
+    const requests: GenerateParams[] = []
+    const respond = (request: GenerateParams) => {
+      requests.push(request)
+      return { content: '{"title":"Notes","author":{"name":"Ada"}}' }
+    }
+    const client = new RosettaAI({ mock: { generate: [respond, respond] } })
+    const book = z.object({ title: z.string(), author: z.object({ name: z.string(), born: z.number().optional() }) })
+
+    await client.generateObject({ provider: 'mock', messages, schema: book })
+    await client.generateObject({ provider: 'mock', messages, schema: book, strict: true })
+
+    expect(requests[0]!.responseFormat!.strict).toBe(false)
+    expect(requests[1]!.responseFormat!.strict).toBe(true)
+  })
+
+  it('should send invalid output back with its problems until it matches', async () => {
+    const requests: GenerateParams[] = []
+    const respond = (content: string) => (request: GenerateParams) => {
+      requests.push(request)
+      return { content, usage: { totalTokens: 10 } }
+    }
+    const client = new RosettaAI({
+      mock: {
+        generate: [
+          respond('{"name":"Ada"}'),
+          respond('{"name":"Ada","year":1700}'),
+          respond('{"name":"Ada","year":1843}')
+        ]
+      }
+    })
+
+    const result = await client.generateObject({ provider: 'mock', messages, schema, maxRepairs: 2 })
+
+    expect(result).toMatchObject({ object: { name: 'Ada', year: 1843 }, repairs: 2, totalUsage: { totalTokens: 30 } })
+    expect(requests[1]!.messages.slice(1)).toEqual([
+      { role: 'assistant', content: '{"name":"Ada"}' },
+      {
+        role: 'user',
+        content:
+          'Your response does not match the required JSON schema:\n- year: Required\n' +
+          'Respond again with only the corrected JSON.'
+      }
+    ])
+    expect(requests[2]!.messages[4]!.content).toContain('- year: Must be after 1800')
+    expect(messages).toHaveLength(1)
+  })
+
+  it('should throw a StructuredOutputError once the repairs are used up', async () => {
+    const client = new RosettaAI({
+      mock: { generate: [{ content: 'Ada' }, { content: '{"name":"Ada","year":1700}' }] }
+    })
+
+    const error = await client
+      .generateObject({ provider: 'mock', messages, schema, maxRepairs: 1 })
+      .catch(caught => caught)
+
+    expect(error).toBeInstanceOf(StructuredOutputError)
+    expect(error.issues).toEqual([{ path: ['year'], message: 'Must be after 1800' }])
+  })
+
+  it('should stream progressively more complete partial objects', async () => {
+    const client = new RosettaAI({
+      mock: { stream: [jsonChunks('{"name": "Ada', ' Lovelace", "ye', 'ar": 1843', '}')] }
+    })
+
+    const chunks = await collect(client.streamObject({ provider: 'mock', messages, schema }))
+
+    const partials = chunks.filter(chunk => chunk.type === 'partial_object').map(chunk => chunk.data)
+    expect(partials.map(partial => (partial as { object: unknown }).object)).toEqual([
+      { name: 'Ada' },
+      { name: 'Ada Lovelace' },
+      { name: 'Ada Lovelace', year: 1843 }
+    ])
+    const last = chunks[chunks.length - 1] as Extract<ObjectStreamChunk<Person>, { type: 'object_done' }>
+    expect(last.type).toBe('object_done')
+    expect(last.data.result.object).toEqual({ name: 'Ada Lovelace', year: 1843 })
+  })
+
+  it('should stream a repair request for invalid output and end with an error once repairs are used up', async () => {
+    const client = new RosettaAI({
+      mock: {
+        stream: [jsonChunks('{"name": "Ada"}'), jsonChunks('{"name": "Ada", "year": 1843}')]
+      }
+    })
+
+    const repaired = await collect(client.streamObject({ provider: 'mock', messages, schema, maxRepairs: 1 }))
+    const types = repaired.map(chunk => chunk.type)
+    expect(types.filter(type => type !== 'json_delta' && type !== 'partial_object')).toEqual([
+      'object_repair',
+      'final_result',
+      'object_done'
+    ])
+
+    const failing = new RosettaAI({ mock: { stream: [jsonChunks('{"name": "Ada"}')] } })
+    const chunks = await collect(failing.streamObject({ provider: 'mock', messages, schema }))
+    const last = chunks[chunks.length - 1]!
+    expect(last.type).toBe('error')
+    expect((last as { data: { error: Error } }).data.error).toBeInstanceOf(StructuredOutputError)
+  })
+})
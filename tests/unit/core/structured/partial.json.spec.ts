@@ -0,0 +1,26 @@
+import { parsePartialJson } from '../../../../src/core/structured/partial.json'
+
+describe('parsePartialJson', () => {
+  it.each([
+    ['{"name": "Ada", "year": 1815}', { name: 'Ada', year: 1815 }],
+    ['{"name": "Ada Lo', { name: 'Ada Lo' }],
+    ['{"name": "Ada", "ye', { name: 'Ada' }],
+    ['{"name": "Ada", "year": 18', { name: 'Ada' }],
+    ['{"name": "Ada", "year": 1815,', { name: 'Ada', year: 1815 }],
+    ['{"tags": ["math", "poe', { tags: ['math', 'poe'] }],
+    ['{"works": [{"title": "Notes"}, {"ti', { works: [{ title: 'Notes' }, {}] }],
+    ['{"quote": "a \\"b', { quote: 'a "b' }],
+    ['{"quote": "a \\', { quote: 'a ' }],
+    ['{"quote": "a \\u00', {}],
+    ['{"ok": tr', {}],
+    ['[1, 2', [1]],
+    ['{', {}]
+  ])('should parse %j', (text, expected) => {
+    expect(parsePartialJson(text)).toEqual(expected)
+  })
+
+  it('should return undefined before a value is received', () => {
+    expect(parsePartialJson('')).toBeUndefined()
+    expect(parsePartialJson('  ')).toBeUndefined()
+  })
+})
@@ -0,0 +1,59 @@
+import { RosettaAI, GenerateParams, StreamChunk, StructuredOutputError } from '../../../../src'
+
+const params: GenerateParams = {
+  provider: 'mock',
+  messages: [{ role: 'user', content: 'Who wrote the first program?' }],
+  responseFormat: {
+    type: 'json_object',
+    schema: { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] }
+  }
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const chunks: T[] = []
+  for await (const chunk of iterable) chunks.push(chunk)
+  return chunks
+}
+
+describe('Structured output', () => {
+  it('should set parsedContent to output matching the schema', async () => {
+    const client = new RosettaAI({ mock: { generate: [{ content: '{"name":"Ada Lovelace"}' }] } })
+
+    const result = await client.generate(params)
+
+    expect(result.parsedContent).toEqual({ name: 'Ada Lovelace' })
+  })
+
+  it('should throw a StructuredOutputError for output not matching the schema', async () => {
+    const client = new RosettaAI({ mock: { generate: [{ content: '{"author":"Ada"}' }, { content: 'Ada' }] } })
+
+    const error = await client.generate(params).catch(caught => caught)
+    expect(error).toBeInstanceOf(StructuredOutputError)
+    expect(error).toMatchObject({ content: '{"author":"Ada"}', issues: [{ path: ['name'], message: 'Required' }] })
+
+    await expect(client.generate(params)).rejects.toThrow(/Invalid JSON/)
+  })
+
+  it('should not validate replies calling one of the tools', async () => {
+    const toolCall = { id: 'c1', type: 'function' as const, function: { name: 'search', arguments: '{}' } }
+    const client = new RosettaAI({ mock: { generate: [{ toolCalls: [toolCall] }] } })
+
+    const result = await client.generate({
+      ...params,
+      tools: [{ type: 'function', function: { name: 'search', parameters: { type: 'object' } } }]
+    })
+
+    expect(result.toolCalls).toEqual([toolCall])
+  })
+
+  it('should replace the final result of an invalid stream with an error chunk', async () => {
+    const client = new RosettaAI({ mock: { generate: [{ content: '{"name":42}' }] } })
+
+    const chunks: StreamChunk[] = await collect(client.stream(params))
+
+    expect(chunks.some(chunk => chunk.type === 'final_result')).toBe(false)
+    const last = chunks[chunks.length - 1]!
+    expect(last.type).toBe('error')
+    expect((last as { data: { error: Error } }).data.error).toBeInstanceOf(StructuredOutputError)
+  })
+})
@@ -0,0 +1,135 @@
+import { RosettaAI, ProviderRegistration, GenerateParams, RosettaTool } from '../../../src'
+import {
+  estimateImageTokens,
+  estimatePromptTokens,
+  estimateToolTokens,
+  getImageDimensions
+} from '../../../src/core/token-counter'
+
+// Minimal image headers; only the dimensions are read
+function pngHeader(width: number, height: number): string {
+  const bytes = Buffer.alloc(24)
+  bytes.write('\x89PNG\r\n\x1a\n', 0, 'latin1')
+  bytes.writeUInt32BE(width, 16)
+  bytes.writeUInt32BE(height, 20)
+  return bytes.toString('base64')
+}
+
+function jpegHeader(width: number, height: number): string {
+  const app0 = [0xff, 0xe0, 0x00, 0x04, 0x00, 0x00]
+  const sof0 = [0xff, 0xc0, 0x00, 0x11, 0x08, height >> 8, height & 0xff, width >> 8, width & 0xff, 0x03]
+  return Buffer.from([0xff, 0xd8, ...app0, ...sof0, 0, 0, 0, 0]).toString('base64')
+}
+
+const tool: RosettaTool = {
+  type: 'function',
+  function: {
+    name: 'get_weather',
+    description: 'Gets the weather',
+    parameters: { type: 'object', properties: { city: { type: 'string' } } }
+  }
+}
+
+describe('getImageDimensions', () => {
+  it('should read PNG and JPEG dimensions and give up on unknown formats', () => {
+    expect(getImageDimensions({ mimeType: 'image/png', base64Data: pngHeader(640, 480) })).toEqual({
+      width: 640,
+      height: 480
+    })
+    expect(getImageDimensions({ mimeType: 'image/jpeg', base64Data: jpegHeader(1920, 1080) })).toEqual({
+      width: 1920,
+      height: 1080
+    })
+    expect(getImageDimensions({ mimeType: 'image/webp', base64Data: 'AAAA' })).toBeUndefined()
+  })
+})
+
+describe('estimateImageTokens', () => {
+  it('should apply the high-detail tile formula', () => {
+    // 512x512: a single tile
+    expect(estimateImageTokens({ mimeType: 'image/png', base64Data: pngHeader(512, 512) })).toBe(255)
+    // 2048x4096 -> 1024x2048 -> 768x1536: 2x3 tiles
+    expect(estimateImageTokens({ mimeType: 'image/png', base64Data: pngHeader(2048, 4096) })).toBe(1105)
+  })
+
+  it('should assume a 1024x1024 image when the dimensions are unknown', () => {
+    expect(estimateImageTokens({ mimeType: 'image/webp', base64Data: 'AAAA' })).toBe(765)
+  })
+})
+
+describe('estimatePromptTokens', () => {
+  it('should count message text and per-message overhead', () => {
+    const params: GenerateParams = {
+      provider: 'openai',
+      messages: [
+        { role: 'system', content: 'x'.repeat(40) },
+        { role: 'user', content: 'y'.repeat(20) }
+      ]
+    }
+    // 3 reply priming + (3 + 10) + (3 + 5)
+    expect(estimatePromptTokens(params)).toBe(24)
+  })
+
+  it('should include images, tool calls and tool definitions', () => {
+    const base: GenerateParams = { provider: 'openai', messages: [{ role: 'user', content: 'Hi' }] }
+    const withExtras: GenerateParams = {
+      provider: 'openai',
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Hi' },
+            { type: 'image', image: { mimeType: 'image/png', base64Data: pngHeader(512, 512) } }
+          ]
+        }
+      ],
+      tools: [tool]
+    }
+
+    expect(estimatePromptTokens(withExtras) - estimatePromptTokens(base)).toBe(255 + estimateToolTokens([tool]))
+    expect(estimateToolTokens([tool])).toBeGreaterThan(20)
+    expect(estimateToolTokens(undefined)).toBe(0)
+  })
+})
+
+describe('RosettaAI.countTokens', () => {
+  function createTestProvider(countTokens?: jest.Mock): ProviderRegistration {
+    return {
+      provider: 'test',
+      mapper: {
+        provider: 'test',
+        mapToProviderParams: jest.fn(params => ({ mapped: params.model })),
+        mapFromProviderResponse: jest.fn(),
+        mapProviderStream: jest.fn(),
+        wrapProviderError: jest.fn(error => error)
+      } as any,
+      transport: { generate: jest.fn(), countTokens },
+      capabilities: { chat: true }
+    }
+  }
+
+  const params: GenerateParams = { provider: 'test', messages: [{ role: 'user', content: 'Hello there' }] }
+
+  it('should use the provider counting endpoint when available', async () => {
+    const countTokens = jest.fn().mockResolvedValue(17)
+    const client = new RosettaAI({ providers: [createTestProvider(countTokens)], defaultModels: { test: 'm' } })
+
+    await expect(client.countTokens(params)).resolves.toEqual({
+      promptTokens: 17,
+      completionTokens: 0,
+      totalTokens: 17,
+      estimated: false
+    })
+    expect(countTokens).toHaveBeenCalledWith({ mapped: 'm' }, expect.objectContaining({ model: 'm' }))
+  })
+
+  it('should estimate offline when the provider cannot count tokens', async () => {
+    const provider = createTestProvider()
+    const client = new RosettaAI({ providers: [provider] })
+
+    const result = await client.countTokens({ ...params, model: 'm' })
+
+    expect(result).toEqual({ promptTokens: 9, completionTokens: 0, totalTokens: 9, estimated: true })
+    expect(provider.transport.generate).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,88 @@
+import { z } from 'zod'
+import { defineTool, RosettaAI, RosettaToolCallRequest, ToolArgumentsError, ConfigurationError } from '../../../../src'
+
+function call(args: object | string, name = 'get_weather'): RosettaToolCallRequest {
+  return {
+    id: 'c1',
+    type: 'function',
+    function: { name, arguments: typeof args === 'string' ? args : JSON.stringify(args) }
+  }
+}
+
+const schema = z.object({
+  city: z.string(),
+  days: z
+    .number()
+    .int()
+    .default(1)
+})
+
+describe('defineTool', () => {
+  it('should create a RosettaTool with generated parameters', () => {
+    const tool = defineTool({ name: 'get_weather', description: 'Gets the forecast', schema })
+
+    expect(JSON.parse(JSON.stringify(tool))).toEqual({
+      type: 'function',
+      function: {
+        name: 'get_weather',
+        description: 'Gets the forecast',
+        parameters: {
+          type: 'object',
+          properties: { city: { type: 'string' }, days: { type: 'integer', default: 1 } },
+          required: ['city'],
+          additionalProperties: false
+        }
+      }
+    })
+    expect(Object.keys(tool)).toEqual(['type', 'function'])
+  })
+
+  it('should parse arguments into the schema output', () => {
+    const tool = defineTool({ name: 'get_weather', schema })
+
+    expect(tool.parseArguments(call({ city: 'Paris' }))).toEqual({ city: 'Paris', days: 1 })
+  })
+
+  it('should report invalid arguments with their paths', () => {
+    const tool = defineTool({ name: 'get_weather', schema })
+
+    const parsed = tool.safeParseArguments(call({ days: 1.5 }))
+
+    expect(parsed.success).toBe(false)
+    const error = (parsed as { error: ToolArgumentsError }).error
+    expect(error).toBeInstanceOf(ToolArgumentsError)
+    expect(error).toMatchObject({ toolName: 'get_weather', toolCallId: 'c1' })
+    expect(error.issues.map(issue => issue.path)).toEqual([['city'], ['days']])
+    expect(() => tool.parseArguments(call('{bad'))).toThrow(/Invalid arguments for tool 'get_weather': Invalid JSON/)
+  })
+
+  it('should validate arguments before calling the handler in a tool loop', async () => {
+    const handler = jest.fn(({ city, days }: { city: string; days: number }) => `${days} day(s) of sun in ${city}`)
+    const tool = defineTool({ name: 'get_weather', schema, handler })
+    const client = new RosettaAI({
+      mock: {
+        generate: [{ toolCalls: [call({ city: 7 })] }, { toolCalls: [call({ city: 'Rome' })] }, { content: 'OK' }]
+      }
+    })
+
+    const result = await client.runTools({
+      provider: 'mock',
+      messages: [{ role: 'user', content: 'Hi' }],
+      tools: [tool]
+    })
+
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(handler).toHaveBeenCalledWith({ city: 'Rome', days: 1 }, expect.anything())
+    const [invalid] = result.steps[0]!.toolResults
+    expect(invalid!.isError).toBe(true)
+    expect(JSON.parse(invalid!.content)).toMatchObject({ issues: [{ path: ['city'] }] })
+    expect(result.steps[1]!.toolResults[0]!.content).toBe('1 day(s) of sun in Rome')
+  })
+
+  it('should reject typed tools without a handler in a tool loop', async () => {
+    const client = new RosettaAI({ mock: {} })
+    const tool = defineTool({ name: 'get_weather', schema })
+
+    await expect(client.runTools({ provider: 'mock', messages: [], tools: [tool] })).rejects.toThrow(ConfigurationError)
+  })
+})
@@ -0,0 +1,151 @@
+import {
+  RosettaAI,
+  ConfigurationError,
+  InMemoryTracer,
+  ToolRegistration,
+  ToolLoopChunk,
+  RosettaToolCallRequest,
+  RunToolsParams
+} from '../../../../src'
+
+function call(id: string, name: string, args: object | string = {}): RosettaToolCallRequest {
+  return {
+    id,
+    type: 'function',
+    function: { name, arguments: typeof args === 'string' ? args : JSON.stringify(args) }
+  }
+}
+
+function createTool(name: string, handler: ToolRegistration['handler']): ToolRegistration {
+  return { tool: { type: 'function', function: { name, parameters: { type: 'object' } } }, handler }
+}
+
+const weather = createTool('get_weather', async ({ city }) => ({ city, temperature: 21 }))
+const failing = createTool('book_flight', () => {
+  throw new Error('No seats left.')
+})
+
+const params: RunToolsParams = {
+  provider: 'mock',
+  messages: [{ role: 'user', content: 'Weather in Paris, then book a flight?' }],
+  tools: [weather, failing]
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const chunks: T[] = []
+  for await (const chunk of iterable) chunks.push(chunk)
+  return chunks
+}
+
+describe('Tool loop', () => {
+  it('should execute requested tools and send their results back until a final answer', async () => {
+    const client = new RosettaAI({
+      mock: {
+        generate: [
+          { toolCalls: [call('c1', 'get_weather', { city: 'Paris' }), call('c2', 'book_flight')] },
+          { content: 'It is 21°C in Paris, but the flight is full.', usage: { totalTokens: 5 } }
+        ]
+      }
+    })
+
+    const result = await client.runTools(params)
+
+    expect(result).toMatchObject({ content: 'It is 21°C in Paris, but the flight is full.', maxStepsReached: false })
+    expect(result.steps).toHaveLength(2)
+    expect(result.steps[0]!.toolResults).toEqual([
+      { toolCallId: 'c1', content: '{"city":"Paris","temperature":21}' },
+      { toolCallId: 'c2', content: '{"error":"No seats left."}', isError: true }
+    ])
+    expect(result.messages.map(message => message.role)).toEqual(['user', 'assistant', 'tool', 'tool', 'assistant'])
+    expect(result.totalUsage).toEqual({ totalTokens: 5 })
+  })
+
+  it('should run the tool calls of a step in parallel', async () => {
+    const started: string[] = []
+    let release!: () => void
+    const gate = new Promise<void>(resolve => (release = resolve))
+    const slow = createTool('slow', async (_args, { toolCall }) => {
+      started.push(toolCall.id)
+      if (started.length === 2) release()
+      await gate
+      return 'done'
+    })
+    const client = new RosettaAI({
+      mock: { generate: [{ toolCalls: [call('a', 'slow'), call('b', 'slow')] }, { content: 'Both done.' }] }
+    })
+
+    await client.runTools({ ...params, tools: [slow] })
+
+    expect(started).toEqual(['a', 'b'])
+  })
+
+  it('should report unknown tools and invalid arguments as failed tool results', async () => {
+    const client = new RosettaAI({
+      mock: { generate: [{ toolCalls: [call('c1', 'unknown'), call('c2', 'get_weather', '{bad')] }, { content: 'OK' }] }
+    })
+
+    const result = await client.runTools(params)
+
+    expect(result.steps[0]!.toolResults).toEqual([
+      { toolCallId: 'c1', content: JSON.stringify({ error: "Tool 'unknown' is not available." }), isError: true },
+      { toolCallId: 'c2', content: expect.stringContaining('Invalid JSON arguments'), isError: true }
+    ])
+  })
+
+  it('should stop at maxSteps with the tool calls unanswered', async () => {
+    const handler = jest.fn(() => 'sunny')
+    const client = new RosettaAI({
+      mock: { generate: [{ toolCalls: [call('c1', 'get_weather')] }, { toolCalls: [call('c2', 'get_weather')] }] }
+    })
+
+    const result = await client.runTools({ ...params, tools: [createTool('get_weather', handler)], maxSteps: 2 })
+
+    expect(result).toMatchObject({ finishReason: 'tool_calls', maxStepsReached: true })
+    expect(handler).toHaveBeenCalledTimes(1)
+  })
+
+  it('should stream model chunks and tool execution events', async () => {
+    const client = new RosettaAI({
+      mock: { generate: [{ toolCalls: [call('c1', 'get_weather', { city: 'Paris' })] }, { content: 'Sunny.' }] }
+    })
+
+    const chunks: ToolLoopChunk[] = await collect(client.streamTools(params))
+
+    const events = chunks.filter(chunk => chunk.type.startsWith('tool_execution') || chunk.type === 'tool_loop_done')
+    expect(events).toEqual([
+      { type: 'tool_execution_start', data: { step: 1, toolCall: call('c1', 'get_weather', { city: 'Paris' }) } },
+      {
+        type: 'tool_execution_done',
+        data: {
+          step: 1,
+          toolCall: call('c1', 'get_weather', { city: 'Paris' }),
+          result: { toolCallId: 'c1', content: '{"city":"Paris","temperature":21}' }
+        }
+      },
+      { type: 'tool_loop_done', data: { result: expect.objectContaining({ content: 'Sunny.' }) } }
+    ])
+    expect(chunks.filter(chunk => chunk.type === 'final_result')).toHaveLength(2)
+  })
+
+  it('should trace tool executions', async () => {
+    const tracer = new InMemoryTracer()
+    const client = new RosettaAI({
+      tracer,
+      mock: { generate: [{ toolCalls: [call('c1', 'book_flight')] }, { content: 'Sorry.' }] }
+    })
+
+    await client.runTools(params)
+
+    const span = tracer.spans.find(candidate => candidate.name === 'execute_tool book_flight')
+    expect(span).toMatchObject({
+      attributes: { 'gen_ai.tool.name': 'book_flight', 'gen_ai.tool.call.id': 'c1', 'error.type': 'Error' },
+      ended: true
+    })
+  })
+
+  it('should reject tools registered twice', async () => {
+    const client = new RosettaAI({ mock: {} })
+
+    await expect(client.runTools({ ...params, tools: [weather, weather] })).rejects.toThrow(ConfigurationError)
+  })
+})
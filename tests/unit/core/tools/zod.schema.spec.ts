@@ -0,0 +1,91 @@
+import { z } from 'zod'
+import { zodToJsonSchema, MappingError } from '../../../../src'
+
+describe('zodToJsonSchema', () => {
+  it('should convert objects with required and optional properties', () => {
+    const schema = z.object({
+      city: z
+        .string()
+        .min(1)
+        .describe('The city name'),
+      days: z
+        .number()
+        .int()
+        .positive()
+        .max(14)
+        .optional(),
+      unit: z.enum(['celsius', 'fahrenheit']).default('celsius')
+    })
+
+    expect(zodToJsonSchema(schema)).toEqual({
+      type: 'object',
+      properties: {
+        city: { type: 'string', minLength: 1, description: 'The city name' },
+        days: { type: 'integer', exclusiveMinimum: 0, maximum: 14 },
+        unit: { type: 'string', enum: ['celsius', 'fahrenheit'], default: 'celsius' }
+      },
+      required: ['city'],
+      additionalProperties: false
+    })
+  })
+
+  it('should convert arrays, records, unions, nullables and literals', () => {
+    const schema = z.object({
+      tags: z.array(z.string().email()).max(3),
+      scores: z.record(z.number()),
+      id: z.union([z.string().uuid(), z.number()]),
+      note: z.string().nullable(),
+      kind: z.literal('event')
+    })
+
+    expect(zodToJsonSchema(schema).properties).toEqual({
+      tags: { type: 'array', items: { type: 'string', format: 'email' }, maxItems: 3 },
+      scores: { type: 'object', additionalProperties: { type: 'number' } },
+      id: { anyOf: [{ type: 'string', format: 'uuid' }, { type: 'number' }] },
+      note: { anyOf: [{ type: 'string' }, { type: 'null' }] },
+      kind: { const: 'event' }
+    })
+  })
+
+  it('should convert the input side of refinements and transforms', () => {
+    const schema = z.object({ date: z.string().transform(value => new Date(value)) }).passthrough()
+
+    expect(zodToJsonSchema(schema)).toEqual({
+      type: 'object',
+      properties: { date: { type: 'string' } },
+      required: ['date'],
+      additionalProperties: true
+    })
+  })
+
+  it('should only give IP addresses a format when their version is set', () => {
+    const schema = z.object({
+      any: z.string().ip(),
+      v4: z.string().ip({ version: 'v4' }),
+      v6: z.string().ip({ version: 'v6' })
+    })
+
+    expect(zodToJsonSchema(schema).properties).toEqual({
+      any: { type: 'string' },
+      v4: { type: 'string', format: 'ipv4' },
+      v6: { type: 'string', format: 'ipv6' }
+    })
+  })
+
+  it('should only convert dates coerced from the JSON string', () => {
+    expect(zodToJsonSchema(z.object({ when: z.coerce.date() })).properties).toEqual({
+      when: { type: 'string', format: 'date-time' }
+    })
+    expect(() => zodToJsonSchema(z.object({ when: z.date() }))).toThrow(
+      "Cannot convert ZodDate at 'when' to JSON Schema, as JSON values are never Dates. " +
+        'Use z.coerce.date() or z.string().datetime() instead.'
+    )
+  })
+
+  it('should name the unsupported type and its path', () => {
+    const schema = z.object({ callback: z.array(z.function()) })
+
+    expect(() => zodToJsonSchema(schema)).toThrow(MappingError)
+    expect(() => zodToJsonSchema(schema)).toThrow("Cannot convert ZodFunction at 'callback[]'")
+  })
+})
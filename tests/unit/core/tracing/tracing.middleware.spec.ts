@@ -0,0 +1,152 @@
+import {
+  RosettaAI,
+  ProviderRegistration,
+  InMemoryTracer,
+  ProviderAPIError,
+  SpanStatusCode,
+  StreamChunk
+} from '../../../../src'
+
+// Minimal custom provider reporting usage and tool calls, with a stream and embeddings
+function createTestProvider(): ProviderRegistration {
+  return {
+    provider: 'test',
+    mapper: {
+      provider: 'test',
+      mapToProviderParams: jest.fn(() => ({})),
+      mapFromProviderResponse: jest.fn((_response: any, modelId: string) => ({
+        content: null,
+        toolCalls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{}' } }],
+        finishReason: 'tool_calls',
+        model: `${modelId}-001`,
+        usage: { promptTokens: 12, completionTokens: 5, totalTokens: 17 }
+      })),
+      mapProviderStream: jest.fn(async function*(): AsyncIterable<StreamChunk> {
+        yield { type: 'message_start', data: { provider: 'test', model: 'test-model' } }
+        yield { type: 'content_delta', data: { delta: 'Hello' } }
+        yield { type: 'message_stop', data: { finishReason: 'stop' } }
+        yield {
+          type: 'final_result',
+          data: {
+            result: {
+              content: 'Hello',
+              finishReason: 'stop',
+              model: 'test-model-001',
+              usage: { promptTokens: 3, completionTokens: 1, totalTokens: 4 }
+            }
+          }
+        }
+      }),
+      mapToEmbedParams: jest.fn(() => ({})),
+      mapFromEmbedResponse: jest.fn((_response: any, modelId: string) => ({
+        embeddings: [[0.1, 0.2]],
+        model: modelId,
+        usage: { promptTokens: 2, totalTokens: 2 }
+      })),
+      wrapProviderError: jest.fn(error => error)
+    } as any,
+    transport: {
+      generate: jest.fn().mockResolvedValue({}),
+      stream: jest.fn(async () =>
+        (async function*() {
+          yield 'raw'
+        })()
+      ),
+      embed: jest.fn().mockResolvedValue({})
+    },
+    capabilities: { chat: true, streaming: true, embeddings: true }
+  }
+}
+
+const params = {
+  provider: 'test' as const,
+  model: 'test-model',
+  messages: [{ role: 'user' as const, content: 'Hi' }],
+  maxTokens: 100,
+  temperature: 0.2
+}
+
+describe('Tracing middleware', () => {
+  let tracer: InMemoryTracer
+  let provider: ProviderRegistration
+  let client: RosettaAI
+
+  beforeEach(() => {
+    tracer = new InMemoryTracer()
+    provider = createTestProvider()
+    client = new RosettaAI({ providers: [provider], tracer })
+  })
+
+  it('should record request and response attributes of a generate call', async () => {
+    await client.generate(params)
+
+    expect(tracer.spans).toHaveLength(1)
+    const [span] = tracer.spans
+    expect(span).toMatchObject({
+      name: 'chat test-model',
+      kind: 2,
+      ended: true,
+      status: { code: SpanStatusCode.UNSET }
+    })
+    expect(span!.attributes).toEqual({
+      'gen_ai.operation.name': 'chat',
+      'gen_ai.system': 'test',
+      'gen_ai.request.model': 'test-model',
+      'gen_ai.request.max_tokens': 100,
+      'gen_ai.request.temperature': 0.2,
+      'rosetta.request_id': expect.any(String),
+      'gen_ai.response.model': 'test-model-001',
+      'gen_ai.usage.input_tokens': 12,
+      'gen_ai.usage.output_tokens': 5,
+      'gen_ai.response.finish_reasons': ['tool_calls']
+    })
+  })
+
+  it('should add an event per requested tool call', async () => {
+    await client.generate(params)
+
+    expect(tracer.spans[0]!.events).toEqual([
+      { name: 'gen_ai.tool.call', attributes: { 'gen_ai.tool.name': 'get_weather', 'gen_ai.tool.call.id': 'call_1' } }
+    ])
+  })
+
+  it('should record the time to first token and the final result of a stream', async () => {
+    const chunks: StreamChunk[] = []
+    for await (const chunk of client.stream(params)) chunks.push(chunk)
+
+    expect(chunks.map(chunk => chunk.type)).toEqual(['message_start', 'content_delta', 'message_stop', 'final_result'])
+    const [span] = tracer.spans
+    expect(span!.ended).toBe(true)
+    expect(span!.attributes).toMatchObject({
+      'gen_ai.server.time_to_first_token': expect.any(Number),
+      'gen_ai.response.model': 'test-model-001',
+      'gen_ai.usage.input_tokens': 3,
+      'gen_ai.usage.output_tokens': 1,
+      'gen_ai.response.finish_reasons': ['stop']
+    })
+  })
+
+  it('should mark the span as failed when the call throws', async () => {
+    const error = new ProviderAPIError('Bad request', 'test', 400)
+    ;(provider.transport.generate as jest.Mock).mockRejectedValue(error)
+
+    await expect(client.generate(params)).rejects.toBe(error)
+
+    const [span] = tracer.spans
+    expect(span).toMatchObject({
+      ended: true,
+      status: { code: SpanStatusCode.ERROR, message: error.message },
+      exceptions: [error]
+    })
+    expect(span!.attributes['error.type']).toBe('ProviderAPIError')
+  })
+
+  it('should trace embeddings calls', async () => {
+    await client.embed({ provider: 'test', model: 'embed-model', input: 'Hi' })
+
+    expect(tracer.spans[0]).toMatchObject({
+      name: 'embeddings embed-model',
+      attributes: { 'gen_ai.operation.name': 'embeddings', 'gen_ai.usage.input_tokens': 2 }
+    })
+  })
+})